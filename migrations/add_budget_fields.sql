@@ -0,0 +1,8 @@
+-- Migration: Shopping list and household budgets
+
+ALTER TABLE "ShoppingLists"
+ADD COLUMN IF NOT EXISTS "budget" DECIMAL(10,2),
+ADD COLUMN IF NOT EXISTS "budgetWarningSentAt" TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE "UserSettings"
+ADD COLUMN IF NOT EXISTS "monthlyBudget" DECIMAL(10,2);
@@ -0,0 +1,12 @@
+-- Migration: Customer wallet support
+-- The Wallets, WalletTransactions and WalletEntries tables are created by Database.sync()
+
+ALTER TABLE "Orders"
+ADD COLUMN IF NOT EXISTS "walletAmount" DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- Refunds can now be paid into the wallet
+DO $$ BEGIN
+    ALTER TYPE "enum_Refunds_provider" ADD VALUE IF NOT EXISTS 'WALLET';
+EXCEPTION
+    WHEN undefined_object THEN null;
+END $$;
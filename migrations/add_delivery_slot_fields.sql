@@ -0,0 +1,9 @@
+-- Migration: Scheduled delivery slots
+-- The DeliverySlots and DeliverySlotReservations tables are created by Database.sync()
+
+ALTER TABLE "Orders"
+ADD COLUMN IF NOT EXISTS "deliverySlotId" UUID REFERENCES "DeliverySlots"("id") ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS "scheduledDeliveryStart" TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS "scheduledDeliveryEnd" TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS "orders_scheduled_delivery_start" ON "Orders" ("scheduledDeliveryStart");
@@ -0,0 +1,11 @@
+-- Migration: Add substitution preference to shopping list items
+-- The ItemSubstitutions table itself is created by Database.sync()
+
+DO $$ BEGIN
+    CREATE TYPE "enum_ShoppingListItems_substitutionPreference" AS ENUM ('no_substitute', 'any_brand', 'call_me');
+EXCEPTION
+    WHEN duplicate_object THEN null;
+END $$;
+
+ALTER TABLE "ShoppingListItems"
+ADD COLUMN IF NOT EXISTS "substitutionPreference" "enum_ShoppingListItems_substitutionPreference" NOT NULL DEFAULT 'any_brand';
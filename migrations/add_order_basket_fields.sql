@@ -0,0 +1,7 @@
+-- Migration: Multi-market baskets
+-- The OrderBaskets table is created by Database.sync()
+
+ALTER TABLE "Orders"
+ADD COLUMN IF NOT EXISTS "basketId" UUID REFERENCES "OrderBaskets"("id") ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS "orders_basket_id" ON "Orders" ("basketId");
@@ -0,0 +1,16 @@
+-- Migration: Order disputes
+-- The OrderDisputes and OrderDisputeItems tables are created by Database.sync()
+
+-- Upheld disputes can be refunded through the refund ledger
+DO $$ BEGIN
+    ALTER TYPE "enum_Refunds_reason" ADD VALUE IF NOT EXISTS 'dispute';
+EXCEPTION
+    WHEN undefined_object THEN null;
+END $$;
+
+-- ...or credited to the customer's wallet
+DO $$ BEGIN
+    ALTER TYPE "enum_WalletTransactions_type" ADD VALUE IF NOT EXISTS 'dispute_credit';
+EXCEPTION
+    WHEN undefined_object THEN null;
+END $$;
@@ -0,0 +1,12 @@
+-- Migration: Track the amount captured at checkout for price-variance reconciliation
+-- The PriceAdjustments table itself is created by Database.sync()
+
+ALTER TABLE "Orders"
+ADD COLUMN IF NOT EXISTS "amountPaid" DECIMAL(10,2);
+
+-- Backfill paid orders whose totals have not been re-priced by an agent yet
+UPDATE "Orders"
+SET "amountPaid" = "totalAmount"
+WHERE "paymentStatus" = 'completed'
+  AND "amountPaid" IS NULL
+  AND "shoppingCompletedAt" IS NULL;
@@ -0,0 +1,5 @@
+-- Migration: Agent tips
+-- The OrderTips table (tips paid after delivery) is created by Database.sync()
+
+ALTER TABLE "Orders"
+ADD COLUMN IF NOT EXISTS "tipAmount" DECIMAL(10,2) NOT NULL DEFAULT 0;
@@ -0,0 +1,8 @@
+-- Migration: Reversed agent payouts
+-- Paystack can reverse a transfer after reporting it successful
+
+DO $$ BEGIN
+    ALTER TYPE "enum_AgentPayouts_status" ADD VALUE IF NOT EXISTS 'reversed';
+EXCEPTION
+    WHEN undefined_object THEN null;
+END $$;
@@ -0,0 +1,7 @@
+-- Migration: Shared shopping lists
+-- The ShoppingListCollaborators table is created by Database.sync()
+
+ALTER TABLE "ShoppingListItems"
+ADD COLUMN IF NOT EXISTS "addedBy" UUID REFERENCES "Users"("id") ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS "updatedBy" UUID REFERENCES "Users"("id") ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS "version" INTEGER NOT NULL DEFAULT 0;
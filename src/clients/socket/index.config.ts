@@ -3,6 +3,8 @@ import { createAdapter } from '@socket.io/redis-adapter';
 import { redisPubClient, redisSubClient } from '../../utils/redis';
 import EnhancedChatService from '../../services/chat-enhanced.service';
 import CallService from '../../services/call.service';
+import ShoppingListCollaboratorService from '../../services/shoppingListCollaborator.service';
+import ShoppingList from '../../models/shoppingList.model';
 import { AuthUtil, TokenCacheUtil } from '../../utils/token';
 import { logger } from '../../utils/logger';
 import UserPresenceService from '../../services/user-presence.service';
@@ -49,6 +51,9 @@ export default class SocketConfig {
 
         // Set the socket server instance in the enhanced chat service
         EnhancedChatService.setSocketServer(this.io);
+
+        // Shared shopping lists broadcast item changes to everyone viewing the list
+        ShoppingListCollaboratorService.setSocketServer(this.io);
     }
 
     private initialize() {
@@ -367,6 +372,29 @@ export default class SocketConfig {
                 }
             });
 
+            // Join a shared shopping list to receive live item updates
+            socket.on('join-shopping-list', async listId => {
+                try {
+                    const user = socket.data.user;
+                    const list = await ShoppingList.findByPk(listId, { attributes: ['id', 'customerId'] });
+
+                    if (!list || !(await ShoppingListCollaboratorService.getRole(list, user.id))) {
+                        socket.emit('error', { message: 'You do not have access to this shopping list' });
+                        return;
+                    }
+
+                    socket.join(ShoppingListCollaboratorService.getRoomName(listId));
+                    logger.info(`User ${user.id} joined shopping list ${listId}`);
+                } catch (error) {
+                    logger.error('Error joining shopping list:', error);
+                    socket.emit('error', { message: 'Failed to join shopping list' });
+                }
+            });
+
+            socket.on('leave-shopping-list', listId => {
+                socket.leave(ShoppingListCollaboratorService.getRoomName(listId));
+            });
+
             // ==========================================
             // CALL EVENT HANDLERS
             // ==========================================
@@ -23,6 +23,15 @@ export interface ChatActivationType {
     };
 }
 
+export interface ShoppingListUpdateType {
+    listId: string;
+    type: 'item_added' | 'item_updated' | 'item_removed' | 'list_updated' | 'collaborators_updated';
+    item?: unknown; // The item as it now stands, for item_added and item_updated
+    itemId?: string;
+    updatedBy: string; // User ID
+    at: string;
+}
+
 export interface SocketUser {
     id: string;
     type: SenderType;
@@ -44,6 +53,9 @@ export interface ClientToServerEvents {
     'mark-messages-read': (orderId: string) => void;
     'leave-order-chat': (orderId: string) => void;
     heartbeat: () => void;
+    // Shared shopping list events
+    'join-shopping-list': (listId: string) => void;
+    'leave-shopping-list': (listId: string) => void;
     // Call events
     'call:check-availability': (data: { orderId: string; recipientId: string }) => void;
     'call:initiate': (data: { orderId: string; recipientId: string; recipientType: 'agent' | 'customer' }) => void;
@@ -66,6 +78,7 @@ export interface ServerToClientEvents {
     'connection-status': (data: { status: string; userId: string; userType: string }) => void;
     'messages-read': (data: { orderId: string; userId: string }) => void;
     error: (error: { message: string }) => void;
+    'shopping-list:updated': (data: ShoppingListUpdateType) => void;
     // Call events
     'call:availability-response': (data: { available: boolean; reason?: string; recipientId?: string; orderId?: string }) => void;
     'call:initiated': (data: { callId?: string; orderId: string; recipientId: string }) => void;
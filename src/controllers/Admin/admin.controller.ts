@@ -8,8 +8,9 @@ import { AuthUtil } from '../../utils/token';
 import { emailService, EmailTemplate } from '../../utils/Email';
 import UserService, { IViewUsersQuery } from '../../services/user.service';
 import { IBlockMeta, IAgentMeta } from '../../models/userSettings.model';
+import { SYSTEM_SETTING_KEYS } from '../../models/systemSettings.model';
 import { Database } from '../../models';
-import { QueryTypes, Op } from 'sequelize';
+import { QueryTypes, Op, Transaction } from 'sequelize';
 import Order from '../../models/order.model';
 import ShoppingList from '../../models/shoppingList.model';
 import ShoppingListItem from '../../models/shoppingListItem.model';
@@ -28,6 +29,7 @@ import User from '../../models/user.model';
 import { logger } from '../../utils/logger';
 import ShipBubbleService from '../../services/shipbubble.service';
 import CloudinaryClientConfig from '../../clients/cloudinary.config';
+import OrderStateMachine from '../../services/orderStateMachine.service';
 
 export default class AdminController {
     // static async getUserStats(req: Request, res: Response) {
@@ -1186,9 +1188,15 @@ export default class AdminController {
                 COUNT(CASE WHEN o.status = 'completed' THEN 1 END) as completed_orders,
                 COUNT(CASE WHEN o.status = 'cancelled' THEN 1 END) as cancelled_orders,
                 AVG(EXTRACT(EPOCH FROM (o."completedAt" - o."acceptedAt"))/3600) as avg_completion_hours,
-                COALESCE(SUM(CASE WHEN o.status = 'completed' THEN o."deliveryFee" * 0.15 ELSE 0 END), 0) as total_earnings,
-                AVG(CASE WHEN o.status = 'completed' THEN o."deliveryFee" * 0.15 ELSE NULL END) as avg_earning_per_order
+                COALESCE(SUM(CASE WHEN o.status = 'completed' THEN e.amount ELSE 0 END), 0) as total_earnings,
+                AVG(CASE WHEN o.status = 'completed' THEN e.amount ELSE NULL END) as avg_earning_per_order
             FROM "Orders" o
+            LEFT JOIN (
+                SELECT "orderId", SUM("amount") as amount
+                FROM "AgentEarnings"
+                WHERE "agentId" = :agentId AND "orderId" IS NOT NULL AND "type" != 'shopping_reimbursement'
+                GROUP BY "orderId"
+            ) e ON e."orderId" = o.id
             WHERE o."agentId" = :agentId 
             AND o."createdAt" >= :startDate
         `, {
@@ -1198,6 +1206,14 @@ export default class AdminController {
 
         const performanceData = metrics[0] as any;
 
+        const AgentRatingService = (await import('../../services/agentRating.service')).default;
+        const OrderDisputeService = (await import('../../services/orderDispute.service')).default;
+        const [periodRatings, ratingSummary, periodDisputes] = await Promise.all([
+            AgentRatingService.getAgentPeriodStats(id, startDate),
+            AgentRatingService.getAgentSummary(id),
+            OrderDisputeService.getAgentDisputeStats(id, startDate),
+        ]);
+
         // Calculate performance rating
         const completionRate = performanceData.total_orders > 0 
             ? (performanceData.completed_orders / performanceData.total_orders) * 100 
@@ -1225,7 +1241,13 @@ export default class AdminController {
                     avgCompletionTime: parseFloat(performanceData.avg_completion_hours || '0'),
                     totalEarnings: parseFloat(performanceData.total_earnings || '0'),
                     avgEarningPerOrder: parseFloat(performanceData.avg_earning_per_order || '0'),
+                    averageCustomerRating: periodRatings.averageRating,
+                    customerRatings: periodRatings.ratingCount,
+                    disputes: periodDisputes.disputeCount,
+                    upheldDisputes: periodDisputes.upheldCount,
+                    disputeUpheldRate: periodDisputes.upheldRate,
                 },
+                customerRatings: ratingSummary,
                 rating,
             },
         });
@@ -1323,9 +1345,9 @@ export default class AdminController {
                 COUNT(CASE WHEN o.status IN ('pending', 'accepted', 'in_progress', 'shopping') THEN 1 END) as active_orders,
                 
                 -- Financial statistics
-                COALESCE(SUM(CASE WHEN o.status = 'completed' THEN o."deliveryFee" * 0.15 ELSE 0 END), 0) as total_earnings,
-                COALESCE(AVG(CASE WHEN o.status = 'completed' THEN o."deliveryFee" * 0.15 ELSE NULL END), 0) as avg_earning_per_order,
-                COALESCE(MAX(CASE WHEN o.status = 'completed' THEN o."deliveryFee" * 0.15 ELSE NULL END), 0) as highest_earning,
+                COALESCE(SUM(CASE WHEN o.status = 'completed' THEN e.amount ELSE 0 END), 0) as total_earnings,
+                COALESCE(AVG(CASE WHEN o.status = 'completed' THEN e.amount ELSE NULL END), 0) as avg_earning_per_order,
+                COALESCE(MAX(CASE WHEN o.status = 'completed' THEN e.amount ELSE NULL END), 0) as highest_earning,
                 
                 -- Time statistics  
                 AVG(EXTRACT(EPOCH FROM (o."completedAt" - o."acceptedAt"))/3600) as avg_completion_hours,
@@ -1337,6 +1359,12 @@ export default class AdminController {
                 MAX(o."createdAt") as last_order_date
                 
             FROM "Orders" o
+            LEFT JOIN (
+                SELECT "orderId", SUM("amount") as amount
+                FROM "AgentEarnings"
+                WHERE "agentId" = :agentId AND "orderId" IS NOT NULL AND "type" != 'shopping_reimbursement'
+                GROUP BY "orderId"
+            ) e ON e."orderId" = o.id
             WHERE o."agentId" = :agentId
         `, {
             replacements: { agentId: id },
@@ -1349,8 +1377,14 @@ export default class AdminController {
                 DATE_TRUNC('month', o."createdAt") as month,
                 COUNT(o.id) as orders_count,
                 COUNT(CASE WHEN o.status = 'completed' THEN 1 END) as completed_count,
-                COALESCE(SUM(CASE WHEN o.status = 'completed' THEN o."deliveryFee" * 0.15 ELSE 0 END), 0) as earnings
+                COALESCE(SUM(CASE WHEN o.status = 'completed' THEN e.amount ELSE 0 END), 0) as earnings
             FROM "Orders" o
+            LEFT JOIN (
+                SELECT "orderId", SUM("amount") as amount
+                FROM "AgentEarnings"
+                WHERE "agentId" = :agentId AND "orderId" IS NOT NULL AND "type" != 'shopping_reimbursement'
+                GROUP BY "orderId"
+            ) e ON e."orderId" = o.id
             WHERE o."agentId" = :agentId
             AND o."createdAt" >= NOW() - INTERVAL '12 months'
             GROUP BY DATE_TRUNC('month', o."createdAt")
@@ -1595,10 +1629,13 @@ export default class AdminController {
                 throw new BadRequestError('Order not found');
             }
 
+            const OrderReceiptService = (await import('../../services/orderReceipt.service')).default;
+            const receipts = await OrderReceiptService.getOrderReceipts(order.id);
+
             res.status(200).json({
                 status: 'success',
                 message: 'Order retrieved successfully',
-                data: order,
+                data: { ...order.toJSON(), receipts },
             });
         } catch (error) {
             console.error('Error in getAdminOrder:', error);
@@ -1620,26 +1657,20 @@ export default class AdminController {
                 throw new BadRequestError('Order not found');
             }
 
-            // Update order status
-            await order.update({ status });
+            // Cancellations go through cancelOrderAdmin so the refund policy is applied
+            if (status === 'cancelled') {
+                throw new BadRequestError('Use the cancel endpoint to cancel orders');
+            }
 
-            // Add to order trail if OrderTrailService exists
-            try {
-                const OrderTrailService = require('../../services/orderTrail.service').default;
-                await OrderTrailService.addTrailEntry(id, {
-                    action: 'status_updated',
-                    description: `Order status updated to ${status} by admin`,
-                    performedBy: 'admin',
-                    performedByType: 'admin',
-                    metadata: { 
-                        previousStatus: order.status,
-                        newStatus: status,
-                        adminNotes: notes, 
-                    },
+            // Update order status
+            await Database.transaction(async (transaction: Transaction) => {
+                await OrderStateMachine.transition(order, status, {
+                    actor: 'admin',
+                    actorId: req.admin?.id || req.email,
+                    transaction,
+                    reason: notes,
                 });
-            } catch (trailError) {
-                console.warn('Could not add order trail entry:', trailError);
-            }
+            });
 
             // Get updated order with relations
             const updatedOrder = await Order.findByPk(id, {
@@ -1682,32 +1713,36 @@ export default class AdminController {
                 throw new BadRequestError('Order not found');
             }
 
-            if (order.status === 'completed' || order.status === 'cancelled') {
-                throw new BadRequestError(`Cannot cancel order with status: ${order.status}`);
+            if (order.status === 'cancelled') {
+                throw new BadRequestError('Order is already cancelled');
             }
 
+            const previousStatus = order.status;
+
             // Update order status to cancelled
-            await order.update({ 
-                status: 'cancelled',
-                agentNotes: `Admin cancelled: ${reason}`,
+            await Database.transaction(async (transaction: Transaction) => {
+                await OrderStateMachine.transition(order, 'cancelled', {
+                    actor: 'admin',
+                    actorId: req.admin?.id || req.email,
+                    transaction,
+                    changes: { agentNotes: `Admin cancelled: ${reason}` },
+                    reason,
+                });
+
+                if (order.deliverySlotId) {
+                    const DeliverySlotService = (await import('../../services/deliverySlot.service')).default;
+                    await DeliverySlotService.releaseReservation(order.id, 'order_cancelled', transaction);
+                }
             });
 
-            // Add to order trail
-            try {
-                const OrderTrailService = require('../../services/orderTrail.service').default;
-                await OrderTrailService.addTrailEntry(id, {
-                    action: 'order_cancelled',
-                    description: `Order cancelled by admin. Reason: ${reason}`,
-                    performedBy: 'admin',
-                    performedByType: 'admin',
-                    metadata: { 
-                        reason,
-                        previousStatus: order.status,
-                    },
-                });
-            } catch (trailError) {
-                console.warn('Could not add order trail entry:', trailError);
-            }
+            // Refund whatever the cancellation policy allows for the status the order was in
+            const RefundService = (await import('../../services/refund.service')).default;
+            const refunds = await RefundService.issueCancellationRefund(
+                order.id,
+                previousStatus,
+                req.admin?.id || req.email,
+                reason,
+            );
 
             const updatedOrder = await Order.findByPk(id, {
                 include: [
@@ -1727,7 +1762,7 @@ export default class AdminController {
             res.status(200).json({
                 status: 'success',
                 message: 'Order cancelled successfully',
-                data: updatedOrder,
+                data: { ...updatedOrder?.toJSON(), refunds },
             });
         } catch (error) {
             console.error('Error in cancelOrderAdmin:', error);
@@ -1735,6 +1770,159 @@ export default class AdminController {
         }
     }
 
+    /**
+     * Complete an order out for delivery without the customer's handover code
+     * POST /api/admin/orders/:id/delivery-override
+     */
+    static async overrideDeliveryHandover(req: AdminAuthenticatedRequest, res: Response) {
+        const DeliveryProofService = (await import('../../services/deliveryProof.service')).default;
+        const { id } = req.params;
+        const { reason } = req.body;
+
+        if (!reason) {
+            throw new BadRequestError('Override reason is required');
+        }
+
+        const order = await DeliveryProofService.overrideHandover(id, req.admin?.id || req.email, reason);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Order completed by admin override',
+            data: order,
+        });
+    }
+
+    /**
+     * Compare an order's receipt lines with the actual prices the agent reported
+     * GET /api/admin/orders/:id/receipt-discrepancy
+     */
+    static async getOrderReceiptDiscrepancy(req: AdminAuthenticatedRequest, res: Response) {
+        const OrderReceiptService = (await import('../../services/orderReceipt.service')).default;
+        const { id } = req.params;
+
+        const report = await OrderReceiptService.getDiscrepancyReport(id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Receipt discrepancy report retrieved successfully',
+            data: report,
+        });
+    }
+
+    /**
+     * Orders whose receipt lines don't add up to the reported actual prices
+     * GET /api/admin/receipt-discrepancies
+     */
+    static async getReceiptDiscrepancies(req: AdminAuthenticatedRequest, res: Response) {
+        const OrderReceiptService = (await import('../../services/orderReceipt.service')).default;
+        const { page = 1, perPage = 20 } = req.query;
+
+        const result = await OrderReceiptService.getDiscrepancies({
+            page: Number(page),
+            size: Number(perPage),
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Receipt discrepancies retrieved successfully',
+            data: result,
+        });
+    }
+
+    /**
+     * Orders close to or past their SLA, most overdue first
+     * GET /api/admin/orders/at-risk
+     */
+    static async getAtRiskOrders(req: AdminAuthenticatedRequest, res: Response) {
+        const OrderSlaService = (await import('../../services/orderSla.service')).default;
+        const { page = 1, perPage = 20 } = req.query;
+
+        const result = await OrderSlaService.getAtRiskOrders({
+            page: Number(page),
+            size: Number(perPage),
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'At-risk orders retrieved successfully',
+            data: result,
+        });
+    }
+
+    /**
+     * SLA breaches recorded against an order
+     * GET /api/admin/orders/:id/sla-breaches
+     */
+    static async getOrderSlaBreaches(req: AdminAuthenticatedRequest, res: Response) {
+        const OrderSlaService = (await import('../../services/orderSla.service')).default;
+        const { id } = req.params;
+
+        const breaches = await OrderSlaService.getOrderBreaches(id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Order SLA breaches retrieved successfully',
+            data: breaches,
+        });
+    }
+
+    /**
+     * Current order SLA settings
+     * GET /api/admin/orders/sla-settings
+     */
+    static async getOrderSlaSettings(req: AdminAuthenticatedRequest, res: Response) {
+        const SystemSettingsService = (await import('../../services/systemSettings.service')).default;
+
+        const settings = await SystemSettingsService.getOrderSlaSettings();
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Order SLA settings retrieved successfully',
+            data: settings,
+        });
+    }
+
+    /**
+     * Update one or more order SLAs
+     * PUT /api/admin/orders/sla-settings
+     */
+    static async updateOrderSlaSettings(req: AdminAuthenticatedRequest, res: Response) {
+        const SystemSettingsService = (await import('../../services/systemSettings.service')).default;
+        const settings = { ...(await SystemSettingsService.getOrderSlaSettings()) };
+
+        for (const key of ['assignmentMinutes', 'shoppingStartMinutes', 'shoppingMinutes', 'atRiskPercentage', 'ticketAfterMinutes'] as const) {
+            if (req.body[key] === undefined) continue;
+
+            const value = Number(req.body[key]);
+
+            if (key === 'atRiskPercentage') {
+                if (isNaN(value) || value < 0 || value > 100) {
+                    throw new BadRequestError('atRiskPercentage must be between 0 and 100');
+                }
+            } else if (key === 'ticketAfterMinutes') {
+                if (isNaN(value) || value < 0) {
+                    throw new BadRequestError('ticketAfterMinutes must be zero or more');
+                }
+            } else if (isNaN(value) || value <= 0) {
+                throw new BadRequestError(`${key} must be a positive number of minutes`);
+            }
+
+            settings[key] = value;
+        }
+
+        await SystemSettingsService.setSetting(SYSTEM_SETTING_KEYS.ORDER_SLA_SETTINGS, settings, {
+            description: 'How long orders may wait for an agent, for shopping to start and for shopping to finish',
+            category: 'orders',
+            isPublic: false,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Order SLA settings updated successfully',
+            data: settings,
+        });
+    }
+
     static async reassignOrder(req: AdminAuthenticatedRequest, res: Response) {
         const { id } = req.params;
         const { agentId } = req.body;
@@ -2048,12 +2236,6 @@ export default class AdminController {
             const AgentService = require('../../services/agent.service').default;
             await AgentService.assignOrderToAgent(id, agentId);
 
-            // Update order status to accepted
-            await order.update({
-                status: 'accepted',
-                acceptedAt: new Date(),
-            });
-
             // Add to order trail
             try {
                 const OrderTrailService = require('../../services/orderTrail.service').default;
@@ -2665,6 +2847,77 @@ export default class AdminController {
         }
     }
 
+    /**
+     * Approximate sizes of local market units (mudu, derica, paint bucket, ...)
+     * GET /api/admin/products/unit-conversions
+     */
+    static async getUnitConversions(req: AdminAuthenticatedRequest, res: Response) {
+        const SystemSettingsService = (await import('../../services/systemSettings.service')).default;
+
+        const settings = await SystemSettingsService.getUnitConversionSettings();
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Unit conversions retrieved successfully',
+            data: settings,
+        });
+    }
+
+    /**
+     * Update the size of one or more local market units, optionally per item
+     * PUT /api/admin/products/unit-conversions
+     */
+    static async updateUnitConversions(req: AdminAuthenticatedRequest, res: Response) {
+        const SystemSettingsService = (await import('../../services/systemSettings.service')).default;
+        const UnitRegistry = (await import('../../utils/units')).default;
+        const { localUnits } = req.body;
+
+        if (!localUnits || typeof localUnits !== 'object' || Array.isArray(localUnits)) {
+            throw new BadRequestError('localUnits must be an object keyed by unit');
+        }
+
+        const settings = await SystemSettingsService.getUnitConversionSettings();
+
+        for (const [unit, conversion] of Object.entries(localUnits as Record<string, any>)) {
+            const code = UnitRegistry.resolve(unit);
+            if (!code || !UnitRegistry.isLocal(code)) {
+                throw new BadRequestError(`${unit} is not a local market unit`);
+            }
+
+            const dimension = conversion?.dimension ?? settings.localUnits[code].dimension;
+            if (!['mass', 'volume', 'count'].includes(dimension)) {
+                throw new BadRequestError(`${unit}: dimension must be mass, volume or count`);
+            }
+
+            const size = Number(conversion?.size ?? settings.localUnits[code].size);
+            if (isNaN(size) || size <= 0) {
+                throw new BadRequestError(`${unit}: size must be a positive number of grams, millilitres or pieces`);
+            }
+
+            const itemSizes: Record<string, number> = {};
+            for (const [item, itemSize] of Object.entries(conversion?.itemSizes ?? settings.localUnits[code].itemSizes ?? {})) {
+                if (isNaN(Number(itemSize)) || Number(itemSize) <= 0) {
+                    throw new BadRequestError(`${unit}: size for ${item} must be a positive number`);
+                }
+                itemSizes[item.trim().toLowerCase()] = Number(itemSize);
+            }
+
+            settings.localUnits[code] = { dimension, size, itemSizes };
+        }
+
+        await SystemSettingsService.setSetting(SYSTEM_SETTING_KEYS.UNIT_CONVERSIONS, settings, {
+            description: 'Approximate weight, volume or count of local market units like mudu, derica and paint bucket',
+            category: 'pricing',
+            isPublic: true,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Unit conversions updated successfully',
+            data: settings,
+        });
+    }
+
     static async getProduct(req: AdminAuthenticatedRequest, res: Response) {
         try {
             const { id } = req.params;
@@ -3272,6 +3525,11 @@ export default class AdminController {
             const revenueData = revenueStats[0] as any;
             const fulfillmentData = fulfillmentMetrics[0] as any;
 
+            const AgentRatingService = (await import('../../services/agentRating.service')).default;
+            const satisfactionSince = new Date();
+            satisfactionSince.setDate(satisfactionSince.getDate() - 30);
+            const customerSatisfaction = await AgentRatingService.getCustomerSatisfaction(satisfactionSince);
+
             // Calculate growth percentages (simplified - you can enhance with historical data)
             // const todayDate = new Date().toISOString().split('T')[0];
             const [growthMetrics] = await Database.query(`
@@ -3328,7 +3586,7 @@ export default class AdminController {
                         completedOrders: parseFloat(fulfillmentData.completion_rate || '0'),
                         onTimeDelivery: parseFloat(fulfillmentData.on_time_delivery_rate || '0'),
                         avgDeliveryTime: parseFloat(fulfillmentData.avg_delivery_time_hours || '0'),
-                        customerSatisfaction: 92.0, // This would come from a ratings table
+                        customerSatisfaction, // Share of agent ratings in the last 30 days at 4 stars or more
                     },
 
                     // Financial overview
@@ -4639,4 +4897,683 @@ export default class AdminController {
             data: ticket,
         });
     }
+
+    // ========================================
+    // REFUND MANAGEMENT
+    // ========================================
+
+    /**
+     * Get all refunds with filtering
+     * GET /api/admin/refunds
+     */
+    static async getAllRefunds(req: AdminAuthenticatedRequest, res: Response) {
+        const RefundService = (await import('../../services/refund.service')).default;
+
+        const {
+            page = 1,
+            perPage = 20,
+            status,
+            reason,
+            provider,
+            orderId,
+            customerId,
+            startDate,
+            endDate,
+        } = req.query;
+
+        const result = await RefundService.getRefunds({
+            page: Number(page),
+            size: Number(perPage),
+            status: status as any,
+            reason: reason as any,
+            provider: provider as any,
+            orderId: orderId as string,
+            customerId: customerId as string,
+            startDate: startDate as string,
+            endDate: endDate as string,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Refunds retrieved successfully',
+            data: result,
+        });
+    }
+
+    /**
+     * Get a single refund
+     * GET /api/admin/refunds/:id
+     */
+    static async getRefund(req: AdminAuthenticatedRequest, res: Response) {
+        const RefundService = (await import('../../services/refund.service')).default;
+        const { id } = req.params;
+
+        const refund = await RefundService.getRefundById(id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Refund retrieved successfully',
+            data: refund,
+        });
+    }
+
+    /**
+     * Approve a pending or failed refund and pay it out, optionally to the customer's wallet
+     * POST /api/admin/refunds/:id/approve
+     */
+    static async approveRefund(req: AdminAuthenticatedRequest, res: Response) {
+        const RefundService = (await import('../../services/refund.service')).default;
+        const { id } = req.params;
+        const { amount, toWallet } = req.body;
+
+        if (amount !== undefined && (isNaN(Number(amount)) || Number(amount) <= 0)) {
+            throw new BadRequestError('Amount must be a positive number');
+        }
+
+        const adminId = req.admin?.id || req.email;
+
+        const refund = await RefundService.approveRefund(
+            id,
+            adminId,
+            amount !== undefined ? Number(amount) : undefined,
+            toWallet === true,
+        );
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Refund approved successfully',
+            data: refund,
+        });
+    }
+
+    /**
+     * Reject a pending or failed refund
+     * POST /api/admin/refunds/:id/reject
+     */
+    static async rejectRefund(req: AdminAuthenticatedRequest, res: Response) {
+        const RefundService = (await import('../../services/refund.service')).default;
+        const { id } = req.params;
+        const { reason } = req.body;
+
+        if (!reason) {
+            throw new BadRequestError('Rejection reason is required');
+        }
+
+        const adminId = req.admin?.id || req.email;
+
+        const refund = await RefundService.rejectRefund(id, adminId, reason);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Refund rejected successfully',
+            data: refund,
+        });
+    }
+
+    /**
+     * Sync a refund with the provider, or record a manual payout
+     * POST /api/admin/refunds/:id/reconcile
+     */
+    static async reconcileRefund(req: AdminAuthenticatedRequest, res: Response) {
+        const RefundService = (await import('../../services/refund.service')).default;
+        const { id } = req.params;
+        const { reference } = req.body;
+
+        const adminId = req.admin?.id || req.email;
+
+        const refund = await RefundService.reconcileRefund(id, adminId, reference);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Refund reconciled successfully',
+            data: refund,
+        });
+    }
+
+    /**
+     * Sync every refund still processing with Paystack
+     * POST /api/admin/refunds/reconcile
+     */
+    static async reconcileRefunds(req: AdminAuthenticatedRequest, res: Response) {
+        const RefundService = (await import('../../services/refund.service')).default;
+
+        const adminId = req.admin?.id || req.email;
+
+        const result = await RefundService.reconcileProcessingRefunds(adminId);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Refund reconciliation completed',
+            data: result,
+        });
+    }
+
+    // ========================================
+    // DISPUTE MANAGEMENT
+    // ========================================
+
+    /**
+     * Get all order disputes with filtering
+     * GET /api/admin/disputes
+     */
+    static async getAllDisputes(req: AdminAuthenticatedRequest, res: Response) {
+        const OrderDisputeService = (await import('../../services/orderDispute.service')).default;
+
+        const {
+            page = 1,
+            perPage = 20,
+            status,
+            type,
+            outcome,
+            orderId,
+            agentId,
+            customerId,
+        } = req.query;
+
+        const result = await OrderDisputeService.getDisputes({
+            page: Number(page),
+            size: Number(perPage),
+            status: status as any,
+            type: type as any,
+            outcome: outcome as any,
+            orderId: orderId as string,
+            agentId: agentId as string,
+            customerId: customerId as string,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Disputes retrieved successfully',
+            data: result,
+        });
+    }
+
+    /**
+     * Get a single dispute with the claimed items and both sides' evidence
+     * GET /api/admin/disputes/:id
+     */
+    static async getDispute(req: AdminAuthenticatedRequest, res: Response) {
+        const OrderDisputeService = (await import('../../services/orderDispute.service')).default;
+        const { id } = req.params;
+
+        const dispute = await OrderDisputeService.getDisputeById(id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Dispute retrieved successfully',
+            data: dispute,
+        });
+    }
+
+    /**
+     * Decide a dispute: refund, wallet credit, or no action
+     * POST /api/admin/disputes/:id/resolve
+     */
+    static async resolveDispute(req: AdminAuthenticatedRequest, res: Response) {
+        const OrderDisputeService = (await import('../../services/orderDispute.service')).default;
+        const { id } = req.params;
+        const { outcome, amount, notes } = req.body;
+
+        if (!outcome) {
+            throw new BadRequestError('Outcome is required');
+        }
+
+        if (amount !== undefined && (isNaN(Number(amount)) || Number(amount) <= 0)) {
+            throw new BadRequestError('Amount must be a positive number');
+        }
+
+        const adminId = req.admin?.id || req.email;
+
+        const dispute = await OrderDisputeService.resolveDispute(id, adminId, {
+            outcome,
+            amount: amount !== undefined ? Number(amount) : undefined,
+            notes,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Dispute resolved successfully',
+            data: dispute,
+        });
+    }
+
+    // ========================================
+    // WALLET MANAGEMENT
+    // ========================================
+
+    /**
+     * Get a customer's wallet balance and ledger entries
+     * GET /api/admin/users/:id/wallet
+     */
+    static async getUserWallet(req: AdminAuthenticatedRequest, res: Response) {
+        const WalletService = (await import('../../services/wallet.service')).default;
+        const { id } = req.params;
+        const { page = 1, perPage = 20 } = req.query;
+
+        const wallet = await WalletService.getBalance(id);
+        const history = await WalletService.getTransactionHistory(id, {
+            page: Number(page),
+            size: Number(perPage),
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Wallet retrieved successfully',
+            data: { wallet, ...history },
+        });
+    }
+
+    /**
+     * Grant promotional credit to a customer's wallet
+     * POST /api/admin/users/:id/wallet/credit
+     */
+    static async creditUserWallet(req: AdminAuthenticatedRequest, res: Response) {
+        const WalletService = (await import('../../services/wallet.service')).default;
+        const { id } = req.params;
+        const { amount, description, idempotencyKey } = req.body;
+
+        if (!amount || isNaN(Number(amount)) || Number(amount) <= 0) {
+            throw new BadRequestError('Amount must be a positive number');
+        }
+
+        if (!description) {
+            throw new BadRequestError('Description is required');
+        }
+
+        // The client supplies the key so a retried request can't credit twice
+        if (!idempotencyKey) {
+            throw new BadRequestError('Idempotency key is required');
+        }
+
+        const adminId = req.admin?.id || req.email;
+
+        const transaction = await WalletService.creditPromotion(
+            id,
+            Number(amount),
+            description,
+            adminId,
+            idempotencyKey,
+        );
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Wallet credited successfully',
+            data: transaction,
+        });
+    }
+
+    /**
+     * Check that the wallet ledger balances
+     * GET /api/admin/wallets/audit
+     */
+    static async auditWalletLedger(req: AdminAuthenticatedRequest, res: Response) {
+        const WalletService = (await import('../../services/wallet.service')).default;
+
+        const audit = await WalletService.auditLedger();
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Wallet ledger audit completed',
+            data: audit,
+        });
+    }
+
+    // ========================================
+    // AGENT PAYOUTS
+    // ========================================
+
+    /**
+     * Get all agent payouts with filters
+     * GET /api/admin/payouts
+     */
+    static async getAllPayouts(req: AdminAuthenticatedRequest, res: Response) {
+        const PayoutService = (await import('../../services/payout.service')).default;
+        const { page = 1, perPage = 20, status, agentId, batchReference } = req.query;
+
+        const result = await PayoutService.getPayouts({
+            page: Number(page),
+            size: Number(perPage),
+            status: status as any,
+            agentId: agentId as string,
+            batchReference: batchReference as string,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Payouts retrieved successfully',
+            data: result,
+        });
+    }
+
+    /**
+     * Get a single payout with the earnings it covers
+     * GET /api/admin/payouts/:id
+     */
+    static async getPayout(req: AdminAuthenticatedRequest, res: Response) {
+        const PayoutService = (await import('../../services/payout.service')).default;
+        const { id } = req.params;
+
+        const payout = await PayoutService.getPayoutById(id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Payout retrieved successfully',
+            data: payout,
+        });
+    }
+
+    /**
+     * Run a payout batch now instead of waiting for the scheduled run
+     * POST /api/admin/payouts/run
+     */
+    static async runPayoutBatch(req: AdminAuthenticatedRequest, res: Response) {
+        const PayoutService = (await import('../../services/payout.service')).default;
+        const adminId = req.admin?.id || req.email;
+
+        const result = await PayoutService.runPayoutBatch(adminId);
+
+        res.status(200).json({
+            status: 'success',
+            message: `Payout batch created ${result.payouts.length} payout(s)`,
+            data: result,
+        });
+    }
+
+    /**
+     * Check processing payouts with the transfer provider
+     * POST /api/admin/payouts/reconcile
+     */
+    static async reconcilePayouts(req: AdminAuthenticatedRequest, res: Response) {
+        const PayoutService = (await import('../../services/payout.service')).default;
+
+        const summary = await PayoutService.reconcileProcessingPayouts();
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Payouts reconciled successfully',
+            data: summary,
+        });
+    }
+
+    /**
+     * Retry a failed payout
+     * POST /api/admin/payouts/:id/retry
+     */
+    static async retryPayout(req: AdminAuthenticatedRequest, res: Response) {
+        const PayoutService = (await import('../../services/payout.service')).default;
+        const { id } = req.params;
+        const adminId = req.admin?.id || req.email;
+
+        const payout = await PayoutService.retryPayout(id, adminId);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Payout retried',
+            data: payout,
+        });
+    }
+
+    /**
+     * Release a failed payout's earnings back to the agent's available balance
+     * POST /api/admin/payouts/:id/release
+     */
+    static async releasePayout(req: AdminAuthenticatedRequest, res: Response) {
+        const PayoutService = (await import('../../services/payout.service')).default;
+        const { id } = req.params;
+        const { reason } = req.body;
+
+        if (!reason) {
+            throw new BadRequestError('Release reason is required');
+        }
+
+        const adminId = req.admin?.id || req.email;
+
+        const payout = await PayoutService.releasePayout(id, adminId, reason);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Payout released successfully',
+            data: payout,
+        });
+    }
+
+    /**
+     * Get an agent's earnings statement and balance
+     * GET /api/admin/agents/:id/earnings
+     */
+    static async getAgentEarningsStatement(req: AdminAuthenticatedRequest, res: Response) {
+        const PayoutService = (await import('../../services/payout.service')).default;
+        const { id } = req.params;
+        const { page = 1, perPage = 20, type, status, startDate, endDate } = req.query;
+
+        const statement = await PayoutService.getAgentStatement(id, {
+            page: Number(page),
+            size: Number(perPage),
+            type: type as any,
+            status: status as any,
+            startDate: startDate ? new Date(startDate as string) : undefined,
+            endDate: endDate ? new Date(endDate as string) : undefined,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Agent earnings statement retrieved successfully',
+            data: statement,
+        });
+    }
+
+    /**
+     * Get the ratings customers have given an agent
+     * GET /api/admin/agents/:id/ratings
+     */
+    static async getAgentRatings(req: AdminAuthenticatedRequest, res: Response) {
+        const AgentRatingService = (await import('../../services/agentRating.service')).default;
+        const { id } = req.params;
+        const { page = 1, perPage = 20 } = req.query;
+
+        const result = await AgentRatingService.getAgentRatings(id, {
+            page: Number(page),
+            size: Number(perPage),
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Agent ratings retrieved successfully',
+            data: result,
+        });
+    }
+
+    /**
+     * Add a bonus, tip or adjustment to an agent's earnings
+     * POST /api/admin/agents/:id/earnings
+     */
+    static async addAgentEarning(req: AdminAuthenticatedRequest, res: Response) {
+        const PayoutService = (await import('../../services/payout.service')).default;
+        const { id } = req.params;
+        const { type, amount, description, orderId, idempotencyKey } = req.body;
+
+        if (!type || amount === undefined || isNaN(Number(amount))) {
+            throw new BadRequestError('Type and a numeric amount are required');
+        }
+
+        if (!description) {
+            throw new BadRequestError('Description is required');
+        }
+
+        // The client supplies the key so a retried request can't pay twice
+        if (!idempotencyKey) {
+            throw new BadRequestError('Idempotency key is required');
+        }
+
+        const adminId = req.admin?.id || req.email;
+
+        const earning = await PayoutService.addEarning(id, {
+            type,
+            amount: Number(amount),
+            description,
+            orderId,
+            idempotencyKey,
+        }, adminId);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Agent earning recorded successfully',
+            data: earning,
+        });
+    }
+
+    /**
+     * Get the commission rules and payout minimum
+     * GET /api/admin/payouts/settings
+     */
+    static async getPayoutSettings(req: AdminAuthenticatedRequest, res: Response) {
+        const SystemSettingsService = (await import('../../services/systemSettings.service')).default;
+
+        const [commissionRules, minimumPayoutAmount] = await Promise.all([
+            SystemSettingsService.getAgentCommissionRules(),
+            SystemSettingsService.getAgentPayoutMinimumAmount(),
+        ]);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Payout settings retrieved successfully',
+            data: { commissionRules, minimumPayoutAmount },
+        });
+    }
+
+    /**
+     * Update the commission rules and/or payout minimum.
+     * New rules apply to orders completed from now on.
+     * PUT /api/admin/payouts/settings
+     */
+    static async updatePayoutSettings(req: AdminAuthenticatedRequest, res: Response) {
+        const SystemSettingsService = (await import('../../services/systemSettings.service')).default;
+        const { commissionRules, minimumPayoutAmount } = req.body;
+
+        if (minimumPayoutAmount !== undefined) {
+            if (isNaN(Number(minimumPayoutAmount)) || Number(minimumPayoutAmount) < 0) {
+                throw new BadRequestError('Minimum payout amount must be zero or more');
+            }
+
+            await SystemSettingsService.setSetting(
+                SYSTEM_SETTING_KEYS.AGENT_PAYOUT_MINIMUM_AMOUNT,
+                Number(minimumPayoutAmount),
+                {
+                    description: 'Smallest available balance (in Naira) that is included in a payout batch',
+                    category: 'agent_payouts',
+                    isPublic: true,
+                },
+            );
+        }
+
+        if (commissionRules !== undefined) {
+            const current = await SystemSettingsService.getAgentCommissionRules();
+            const rules = { ...current };
+
+            for (const key of ['deliveryFeePercentage', 'serviceFeePercentage', 'flatAmountPerOrder', 'minimumPerOrder'] as const) {
+                if (commissionRules[key] === undefined) continue;
+
+                const value = Number(commissionRules[key]);
+                const isPercentage = key.endsWith('Percentage');
+
+                if (isNaN(value) || value < 0 || (isPercentage && value > 100)) {
+                    throw new BadRequestError(`${key} must be ${isPercentage ? 'between 0 and 100' : 'zero or more'}`);
+                }
+
+                rules[key] = value;
+            }
+
+            if (commissionRules.reimburseShoppingCosts !== undefined) {
+                rules.reimburseShoppingCosts = commissionRules.reimburseShoppingCosts === true;
+            }
+
+            await SystemSettingsService.setSetting(SYSTEM_SETTING_KEYS.AGENT_COMMISSION_RULES, rules, {
+                description: 'How agent commission is calculated for each completed order',
+                category: 'agent_payouts',
+            });
+        }
+
+        const [updatedRules, updatedMinimum] = await Promise.all([
+            SystemSettingsService.getAgentCommissionRules(),
+            SystemSettingsService.getAgentPayoutMinimumAmount(),
+        ]);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Payout settings updated successfully',
+            data: { commissionRules: updatedRules, minimumPayoutAmount: updatedMinimum },
+        });
+    }
+
+    // ========================================
+    // DELIVERY SLOTS
+    // ========================================
+
+    /**
+     * Get booked or overridden delivery slots
+     * GET /api/admin/delivery-slots
+     */
+    static async getDeliverySlots(req: AdminAuthenticatedRequest, res: Response) {
+        const DeliverySlotService = (await import('../../services/deliverySlot.service')).default;
+        const { page = 1, perPage = 20, marketId, startDate, endDate } = req.query;
+
+        const result = await DeliverySlotService.getSlots({
+            page: Number(page),
+            size: Number(perPage),
+            marketId: marketId as string,
+            startDate: startDate ? new Date(startDate as string) : undefined,
+            endDate: endDate ? new Date(endDate as string) : undefined,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Delivery slots retrieved successfully',
+            data: result,
+        });
+    }
+
+    /**
+     * Get a delivery slot with the orders booked into it
+     * GET /api/admin/delivery-slots/:id
+     */
+    static async getDeliverySlot(req: AdminAuthenticatedRequest, res: Response) {
+        const DeliverySlotService = (await import('../../services/deliverySlot.service')).default;
+        const { id } = req.params;
+
+        const slot = await DeliverySlotService.getSlotById(id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Delivery slot retrieved successfully',
+            data: slot,
+        });
+    }
+
+    /**
+     * Change the capacity of a market's delivery window, or close it
+     * PUT /api/admin/delivery-slots
+     */
+    static async overrideDeliverySlot(req: AdminAuthenticatedRequest, res: Response) {
+        const DeliverySlotService = (await import('../../services/deliverySlot.service')).default;
+        const { marketId, startsAt, capacity, isClosed } = req.body;
+
+        if (!marketId || !startsAt) {
+            throw new BadRequestError('Market ID and slot start time are required');
+        }
+
+        if (capacity === undefined && isClosed === undefined) {
+            throw new BadRequestError('Provide a capacity or isClosed to update');
+        }
+
+        const slot = await DeliverySlotService.overrideSlot(marketId, startsAt, {
+            capacity: capacity !== undefined ? Number(capacity) : undefined,
+            isClosed: isClosed !== undefined ? isClosed === true || isClosed === 'true' : undefined,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Delivery slot updated successfully',
+            data: slot,
+        });
+    }
 }
@@ -1,8 +1,18 @@
+/* eslint-disable no-undef */
 import { Request, Response } from 'express';
 import { AuthenticatedRequest } from '../middlewares/authMiddleware';
 import { BadRequestError, ForbiddenError } from '../utils/customErrors';
 import UserService from '../services/user.service';
 import AgentService, { IViewAgentsQuery } from '../services/agent.service';
+import PayoutService from '../services/payout.service';
+import DeliveryProofService from '../services/deliveryProof.service';
+import OrderReceiptService, { IReceiptLineInput } from '../services/orderReceipt.service';
+import AgentRatingService from '../services/agentRating.service';
+import OrderDisputeService from '../services/orderDispute.service';
+import CloudinaryClientConfig from '../clients/cloudinary.config';
+import { AgentEarningStatus, AgentEarningType } from '../models/agentEarning.model';
+import { AgentPayoutStatus } from '../models/agentPayout.model';
+import { DisputeStatus } from '../models/orderDispute.model';
 import NotificationService from '../services/notification.service';
 import { QueryTypes, Transaction } from 'sequelize';
 import { Database } from '../models';
@@ -500,13 +510,20 @@ export default class AgentController {
                     COUNT(*) as "todayOrders",
                     COALESCE(SUM(CASE WHEN status = 'completed' THEN 1 ELSE 0 END), 0) as "completedToday",
                     COALESCE(SUM(CASE WHEN status IN ('pending', 'accepted', 'in_progress') THEN 1 ELSE 0 END), 0) as "pendingToday",
-                    COALESCE(SUM(CASE WHEN status = 'completed' THEN ("deliveryFee" * 0.15) ELSE 0 END), 0) as "todayEarnings"
+                    (
+                        SELECT COALESCE(SUM(e."amount"), 0)
+                        FROM "AgentEarnings" e
+                        WHERE e."agentId" = :agentId
+                        AND e."type" != :reimbursement
+                        AND e."createdAt" >= :startOfDay
+                        AND e."createdAt" < :endOfDay
+                    ) as "todayEarnings"
                 FROM "Orders" 
                 WHERE "agentId" = :agentId 
                 AND "createdAt" >= :startOfDay 
                 AND "createdAt" < :endOfDay
             `, {
-                replacements: { agentId, startOfDay, endOfDay },
+                replacements: { agentId, startOfDay, endOfDay, reimbursement: AgentEarningType.SHOPPING_REIMBURSEMENT },
                 type: QueryTypes.SELECT,
             });
 
@@ -536,52 +553,176 @@ export default class AgentController {
     static async getEarnings(req: AuthenticatedRequest, res: Response) {
         const agentId = req.user.id;
 
-        try {
-            // Get overall earnings stats
-            const earningsStats = await Database.query(`
-                SELECT 
-                    COALESCE(SUM(CASE WHEN status = 'completed' THEN ("deliveryFee" * 0.15) ELSE 0 END), 0) as "totalEarnings",
-                    COUNT(CASE WHEN status = 'completed' THEN 1 END) as "completedOrders",
-                    COUNT(*) as "totalOrders"
-                FROM "Orders" 
-                WHERE "agentId" = :agentId
-            `, {
-                replacements: { agentId },
-                type: QueryTypes.SELECT,
-            });
+        const summary = await PayoutService.getEarningsSummary(agentId);
 
-            const stats = earningsStats[0] as any;
+        res.status(200).json({
+            status: 'success',
+            message: 'Earnings retrieved successfully',
+            data: summary,
+        });
+    }
 
-            // Get recent earnings (last 30 days)
-            const recentEarnings = await Database.query(`
-                SELECT 
-                    DATE("createdAt") as date,
-                    COALESCE(SUM(CASE WHEN status = 'completed' THEN ("deliveryFee" * 0.15) ELSE 0 END), 0) as amount,
-                    COUNT(CASE WHEN status = 'completed' THEN 1 END) as orders
-                FROM "Orders" 
-                WHERE "agentId" = :agentId 
-                AND "createdAt" >= NOW() - INTERVAL '30 days'
-                GROUP BY DATE("createdAt")
-                ORDER BY date ASC
-            `, {
-                replacements: { agentId },
-                type: QueryTypes.SELECT,
-            });
+    /**
+     * Get the agent's itemised earnings statement and balance
+     * @param req AuthenticatedRequest
+     * @param res Response
+     */
+    static async getEarningsStatement(req: AuthenticatedRequest, res: Response) {
+        const agentId = req.user.id;
+        const { page, size, type, status, startDate, endDate } = req.query;
 
-            res.status(200).json({
-                status: 'success',
-                message: 'Earnings retrieved successfully',
-                data: {
-                    totalEarnings: parseFloat(stats?.totalEarnings || '0'),
-                    completedOrders: parseInt(stats?.completedOrders || '0'),
-                    totalOrders: parseInt(stats?.totalOrders || '0'),
-                    earnings: recentEarnings,
-                },
-            });
-        } catch (error) {
-            logger.error('Error getting earnings:', error);
-            throw new BadRequestError('Failed to retrieve earnings');
+        if (type && !Object.values(AgentEarningType).includes(type as AgentEarningType)) {
+            throw new BadRequestError(`Type must be one of: ${Object.values(AgentEarningType).join(', ')}`);
         }
+
+        if (status && !Object.values(AgentEarningStatus).includes(status as AgentEarningStatus)) {
+            throw new BadRequestError(`Status must be one of: ${Object.values(AgentEarningStatus).join(', ')}`);
+        }
+
+        const statement = await PayoutService.getAgentStatement(agentId, {
+            page: page ? Number(page) : undefined,
+            size: size ? Number(size) : undefined,
+            type: type as AgentEarningType | undefined,
+            status: status as AgentEarningStatus | undefined,
+            startDate: startDate ? new Date(startDate as string) : undefined,
+            endDate: endDate ? new Date(endDate as string) : undefined,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Earnings statement retrieved successfully',
+            data: statement,
+        });
+    }
+
+    /**
+     * Get the ratings customers have given the agent
+     * @param req AuthenticatedRequest
+     * @param res Response
+     */
+    static async getRatings(req: AuthenticatedRequest, res: Response) {
+        const agentId = req.user.id;
+        const { page, size } = req.query;
+
+        const result = await AgentRatingService.getAgentRatings(agentId, {
+            page: page ? Number(page) : undefined,
+            size: size ? Number(size) : undefined,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Ratings retrieved successfully',
+            data: result,
+        });
+    }
+
+    /**
+     * Get the disputes customers have raised on the agent's orders
+     * @param req AuthenticatedRequest
+     * @param res Response
+     */
+    static async getDisputes(req: AuthenticatedRequest, res: Response) {
+        const agentId = req.user.id;
+        const { page, size, status } = req.query;
+
+        const result = await OrderDisputeService.getAgentDisputes(agentId, {
+            page: page ? Number(page) : undefined,
+            size: size ? Number(size) : undefined,
+            status: status as DisputeStatus | undefined,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Disputes retrieved successfully',
+            data: result,
+        });
+    }
+
+    /**
+     * Respond to a customer's dispute, optionally with photos
+     * @param req AuthenticatedRequest
+     * @param res Response
+     */
+    static async respondToDispute(req: AuthenticatedRequest, res: Response) {
+        const { disputeId } = req.params;
+        const { response } = req.body;
+
+        if (!response) {
+            throw new BadRequestError('Response is required');
+        }
+
+        const files = req.files as Express.Multer.File[] | undefined;
+        const photoUrls: string[] = [];
+
+        if (files && files.length > 0) {
+            for (const file of files) {
+                const result = await CloudinaryClientConfig.uploadtoCloudinary({
+                    fileBuffer: file.buffer,
+                    id: disputeId,
+                    name: file.originalname,
+                    type: 'dispute-evidence',
+                });
+
+                if (result.message === 'error') {
+                    throw new BadRequestError('Failed to upload dispute photo');
+                }
+
+                photoUrls.push(result.url as string);
+            }
+        }
+
+        const dispute = await OrderDisputeService.respondToDispute(disputeId, req.user.id, { response, photoUrls });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Response submitted successfully',
+            data: dispute,
+        });
+    }
+
+    /**
+     * Get the agent's payouts
+     * @param req AuthenticatedRequest
+     * @param res Response
+     */
+    static async getPayouts(req: AuthenticatedRequest, res: Response) {
+        const agentId = req.user.id;
+        const { page, size, status } = req.query;
+
+        if (status && !Object.values(AgentPayoutStatus).includes(status as AgentPayoutStatus)) {
+            throw new BadRequestError(`Status must be one of: ${Object.values(AgentPayoutStatus).join(', ')}`);
+        }
+
+        const result = await PayoutService.getPayouts({
+            agentId,
+            page: page ? Number(page) : undefined,
+            size: size ? Number(size) : undefined,
+            status: status as AgentPayoutStatus | undefined,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Payouts retrieved successfully',
+            data: result,
+        });
+    }
+
+    /**
+     * Get a single payout with the earnings it paid out
+     * @param req AuthenticatedRequest
+     * @param res Response
+     */
+    static async getPayout(req: AuthenticatedRequest, res: Response) {
+        const agentId = req.user.id;
+        const { payoutId } = req.params;
+
+        const payout = await PayoutService.getPayoutById(payoutId, agentId);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Payout retrieved successfully',
+            data: payout,
+        });
     }
 
     /**
@@ -602,10 +743,10 @@ export default class AgentController {
                     o."status",
                     o."totalAmount",
                     o."deliveryFee",
-                    CASE 
-                        WHEN o."status" = 'completed' THEN (o."deliveryFee" * 0.15)
-                        ELSE 0
-                    END as "agentEarnings",
+                    COALESCE(
+                        (SELECT SUM(e."amount") FROM "AgentEarnings" e WHERE e."orderId" = o."id" AND e."type" != :reimbursement),
+                        0
+                    ) as "agentEarnings",
                     o."createdAt",
                     o."updatedAt",
                     COALESCE(
@@ -618,7 +759,7 @@ export default class AgentController {
                 ORDER BY o."createdAt" DESC
                 LIMIT :limit
             `, {
-                replacements: { agentId, limit: orderLimit },
+                replacements: { agentId, limit: orderLimit, reimbursement: AgentEarningType.SHOPPING_REIMBURSEMENT },
                 type: QueryTypes.SELECT,
             });
 
@@ -979,10 +1120,10 @@ export default class AgentController {
                     o."orderNumber",
                     o."status", 
                     o."totalAmount",
-                    CASE 
-                        WHEN o."status" = 'completed' THEN (o."deliveryFee" * 0.15)
-                        ELSE 0
-                    END as "agentEarnings",
+                    COALESCE(
+                        (SELECT SUM(e."amount") FROM "AgentEarnings" e WHERE e."orderId" = o."id" AND e."type" != :reimbursement),
+                        0
+                    ) as "agentEarnings",
                     o."createdAt",
                     o."completedAt"
                 FROM "Orders" o
@@ -992,7 +1133,7 @@ export default class AgentController {
                 AND o."completedAt" < :endOfDay
                 ORDER BY o."completedAt" DESC
             `, {
-                replacements: { agentId, startOfDay, endOfDay },
+                replacements: { agentId, startOfDay, endOfDay, reimbursement: AgentEarningType.SHOPPING_REIMBURSEMENT },
                 type: QueryTypes.SELECT,
             });
 
@@ -1025,22 +1166,160 @@ export default class AgentController {
     }
 
     /**
-     * Complete order (placeholder)
+     * Complete order with the customer's delivery code and optional photos of the delivered bags
      * @param req AuthenticatedRequest
      * @param res Response
      */
     static async completeOrder(req: AuthenticatedRequest, res: Response) {
         const { orderId } = req.params;
+        const { code } = req.body;
         const agentId = req.user.id;
-        
-        // Placeholder - implement order completion logic
+
+        if (!code) {
+            throw new BadRequestError('Delivery code is required');
+        }
+
+        const files = req.files as Express.Multer.File[] | undefined;
+        const photoUrls: string[] = [];
+
+        if (files && files.length > 0) {
+            for (const file of files) {
+                const result = await CloudinaryClientConfig.uploadtoCloudinary({
+                    fileBuffer: file.buffer,
+                    id: orderId,
+                    name: file.originalname,
+                    type: 'delivery-proof',
+                });
+
+                if (result.message === 'error') {
+                    throw new BadRequestError('Failed to upload delivery photo');
+                }
+
+                photoUrls.push(result.url as string);
+            }
+        }
+
+        const order = await DeliveryProofService.confirmDelivery(orderId, agentId, code, photoUrls);
+
         res.status(200).json({
             status: 'success',
             message: 'Order completed successfully',
-            data: { orderId, agentId },
+            data: order,
+        });
+    }
+
+    /**
+     * Get the market receipts attached to an order
+     * @param req AuthenticatedRequest
+     * @param res Response
+     */
+    static async getOrderReceipts(req: AuthenticatedRequest, res: Response) {
+        const { orderId } = req.params;
+
+        const receipts = await OrderReceiptService.getOrderReceipts(orderId, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Receipts retrieved successfully',
+            data: receipts,
         });
     }
 
+    /**
+     * Upload a market receipt photo, optionally with its lines mapped to list items
+     * @param req AuthenticatedRequest
+     * @param res Response
+     */
+    static async uploadReceipt(req: AuthenticatedRequest, res: Response) {
+        const { orderId } = req.params;
+        const { merchantName, receiptTotal, notes } = req.body;
+
+        if (!req.file) {
+            throw new BadRequestError('Receipt photo is required');
+        }
+
+        const result = await CloudinaryClientConfig.uploadtoCloudinary({
+            fileBuffer: req.file.buffer,
+            id: orderId,
+            name: req.file.originalname,
+            type: 'receipt',
+        });
+
+        if (result.message === 'error') {
+            throw new BadRequestError('Failed to upload receipt photo');
+        }
+
+        const receipt = await OrderReceiptService.addReceipt(orderId, req.user.id, {
+            imageUrl: result.url as string,
+            merchantName,
+            receiptTotal: receiptTotal !== undefined && receiptTotal !== '' ? Number(receiptTotal) : null,
+            notes,
+            lines: AgentController.parseReceiptLines(req.body.lines),
+        });
+
+        res.status(201).json({
+            status: 'success',
+            message: 'Receipt uploaded successfully',
+            data: receipt,
+        });
+    }
+
+    /**
+     * Replace the mapping of receipt lines to shopping list items
+     * @param req AuthenticatedRequest
+     * @param res Response
+     */
+    static async updateReceiptLines(req: AuthenticatedRequest, res: Response) {
+        const { orderId, receiptId } = req.params;
+
+        const receipt = await OrderReceiptService.updateReceiptLines(
+            orderId,
+            receiptId,
+            req.user.id,
+            AgentController.parseReceiptLines(req.body.lines),
+        );
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Receipt lines updated successfully',
+            data: receipt,
+        });
+    }
+
+    /**
+     * Remove a receipt from an order
+     * @param req AuthenticatedRequest
+     * @param res Response
+     */
+    static async deleteReceipt(req: AuthenticatedRequest, res: Response) {
+        const { orderId, receiptId } = req.params;
+
+        await OrderReceiptService.deleteReceipt(orderId, receiptId, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Receipt deleted successfully',
+            data: null,
+        });
+    }
+
+    // Lines arrive as a JSON string when sent with the receipt photo
+    private static parseReceiptLines(lines: unknown): IReceiptLineInput[] {
+        if (lines === undefined || lines === null || lines === '') {
+            return [];
+        }
+
+        if (typeof lines === 'string') {
+            try {
+                return JSON.parse(lines);
+            } catch {
+                throw new BadRequestError('Receipt lines must be valid JSON');
+            }
+        }
+
+        return lines as IReceiptLineInput[];
+    }
+
     // ===============================================
     // SHOPPING LIST MANAGEMENT ENDPOINTS
     // ===============================================
@@ -8,6 +8,7 @@ import { logger } from '../utils/logger';
 import { Database } from '../models';
 import { emailService, EmailTemplate } from '../utils/Email';
 import UserService, { IDynamicQueryOptions } from '../services/user.service';
+import SmsService from '../services/sms.service';
 import { AuthenticatedRequest } from '../middlewares/authMiddleware';
 import { GOOGLE_CLIENT_ID } from '../utils/constants';
 import { Transaction } from 'sequelize';
@@ -692,8 +693,16 @@ export default class AuthController {
                     number: phone.number,
                 },
             }),
+            // A new number has to be verified again
+            ...(phone && phone.number && phone.number !== req.user.phone?.number && {
+                status: { ...req.user.status, phoneVerified: false },
+            }),
         };
 
+        if (updateData.status) {
+            await AuthUtil.deleteToken({ user: req.user, tokenType: 'phoneverification', tokenClass: 'code' });
+        }
+
         // Only update settings if isDeactivated is provided in the request body
         let settingsData = {};
         if (isDeactivated !== undefined && isDeactivated === 'true') {
@@ -723,6 +732,71 @@ export default class AuthController {
         });
     }
 
+    static async sendPhoneVerification(req: AuthenticatedRequest, res: Response) {
+        const { phone, status } = req.user;
+
+        if (!phone?.number) {
+            throw new BadRequestError('Add a phone number to your profile first');
+        }
+
+        if (status.phoneVerified) {
+            throw new BadRequestError('Phone number already verified');
+        }
+
+        const otpCode = await AuthUtil.generateCode({
+            type: 'phoneverification',
+            identifier: req.user.id,
+            expiry: 60 * 10,
+        });
+
+        await SmsService.send(
+            phone.countryCode,
+            phone.number,
+            `Your Busy2Shop verification code is ${otpCode}. It expires in 10 minutes.`,
+        );
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Verification code sent to your phone',
+            data: null,
+        });
+    }
+
+    static async verifyPhone(req: AuthenticatedRequest, res: Response) {
+        const { otpCode } = req.body;
+
+        if (!otpCode) {
+            throw new BadRequestError('OTP code is required');
+        }
+
+        if (req.user.status.phoneVerified) {
+            throw new BadRequestError('Phone number already verified');
+        }
+
+        const validCode = await AuthUtil.compareCode({
+            user: req.user,
+            tokenType: 'phoneverification',
+            token: otpCode,
+        });
+        if (!validCode) throw new BadRequestError('Invalid OTP code');
+
+        const updatedUser = await UserService.updateUser(req.user, {
+            status: { ...req.user.status, phoneVerified: true },
+        });
+
+        await AuthUtil.deleteToken({
+            user: req.user,
+            tokenType: 'phoneverification',
+            tokenClass: 'code',
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Phone number verified successfully',
+            data: updatedUser,
+        });
+    }
+
     static async handleGoogleCallback(req: Request, res: Response) {
         try {
             const { id_token } = req.body;
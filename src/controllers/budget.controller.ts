@@ -0,0 +1,54 @@
+import { Response } from 'express';
+import BudgetService from '../services/budget.service';
+import { BadRequestError } from '../utils/customErrors';
+import { AuthenticatedRequest } from '../middlewares/authMiddleware';
+
+export default class BudgetController {
+    static async getMonthlyBudget(req: AuthenticatedRequest, res: Response) {
+        const summary = await BudgetService.getMonthlySummary(req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Monthly budget retrieved successfully',
+            data: summary,
+        });
+    }
+
+    static async setMonthlyBudget(req: AuthenticatedRequest, res: Response) {
+        const { monthlyBudget } = req.body;
+
+        if (monthlyBudget === undefined) {
+            throw new BadRequestError('Monthly budget is required; send null to remove it');
+        }
+
+        const summary = await BudgetService.setMonthlyBudget(
+            req.user.id,
+            monthlyBudget === null ? null : Number(monthlyBudget),
+        );
+
+        res.status(200).json({
+            status: 'success',
+            message: monthlyBudget === null ? 'Monthly budget removed' : 'Monthly budget updated',
+            data: summary,
+        });
+    }
+
+    /**
+     * Monthly spend on completed orders by market and category
+     */
+    static async getSpendingAnalytics(req: AuthenticatedRequest, res: Response) {
+        const { months } = req.query;
+
+        if (months !== undefined && (isNaN(Number(months)) || Number(months) < 1)) {
+            throw new BadRequestError('Months must be a positive number');
+        }
+
+        const analytics = await BudgetService.getSpendingAnalytics(req.user.id, months ? Number(months) : undefined);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Spending analytics retrieved successfully',
+            data: analytics,
+        });
+    }
+}
@@ -1,4 +1,5 @@
 import { Request, Response } from 'express';
+import { Transaction } from 'sequelize';
 import ShipBubbleService from '../services/shipbubble.service';
 import ShoppingList from '../models/shoppingList.model';
 import ShoppingListItem from '../models/shoppingListItem.model';
@@ -9,6 +10,8 @@ import ShipBubbleAddress from '../models/shipBubbleAddress.model';
 import DeliveryQuote from '../models/deliveryQuote.model';
 import Order from '../models/order.model';
 import SystemSettings, { SYSTEM_SETTING_KEYS } from '../models/systemSettings.model';
+import OrderStateMachine from '../services/orderStateMachine.service';
+import { Database } from '../models';
 import { BadRequestError, NotFoundError } from '../utils/customErrors';
 import { logger } from '../utils/logger';
 import moment from 'moment';
@@ -471,21 +474,26 @@ export default class DeliveryShipBubbleController {
             );
 
             // Update order with ShipBubble tracking info
-            await order.update({
-                status: 'delivery',
-                deliveryStartedAt: new Date(),
-                deliveryMetadata: {
-                    shipbubbleOrderId: label.order_id,
-                    trackingNumber: label.tracking_number,
-                    courierName: label.courier_name,
-                    courierId: quote.selected_courier_id,
-                    courierImage: selectedCourier?.courier_image || null,
-                    courierServiceCode: quote.selected_service_code,
-                    trackingUrl: label.tracking_url,
-                    estimatedDeliveryDate: label.estimated_delivery_date,
-                    deliveryStatus: 'pending_pickup',
-                    labelUrl: label.label_url,
-                },
+            await Database.transaction(async (transaction: Transaction) => {
+                await OrderStateMachine.transition(order, 'delivery', {
+                    actor: 'system',
+                    transaction,
+                    changes: {
+                        deliveryMetadata: {
+                            shipbubbleOrderId: label.order_id,
+                            trackingNumber: label.tracking_number,
+                            courierName: label.courier_name,
+                            courierId: quote.selected_courier_id,
+                            courierImage: selectedCourier?.courier_image || null,
+                            courierServiceCode: quote.selected_service_code,
+                            trackingUrl: label.tracking_url,
+                            estimatedDeliveryDate: label.estimated_delivery_date,
+                            deliveryStatus: 'pending_pickup',
+                            labelUrl: label.label_url,
+                        },
+                    },
+                    reason: 'ShipBubble label created',
+                });
             });
 
             // Update quote status
@@ -839,9 +847,13 @@ export default class DeliveryShipBubbleController {
 
             // If delivered, mark order as completed
             if (deliveryStatus === 'delivered') {
-                await order.update({
-                    status: 'completed',
-                    completedAt: new Date(),
+                // Agent earnings and the invoice follow from the status change
+                await Database.transaction(async (transaction: Transaction) => {
+                    await OrderStateMachine.transition(order, 'completed', {
+                        actor: 'system',
+                        transaction,
+                        reason: 'ShipBubble reported the order delivered',
+                    });
                 });
 
                 logger.info('[ShipBubble Webhook] Order completed and marked as delivered:', {
@@ -0,0 +1,26 @@
+import { Response } from 'express';
+import DeliverySlotService from '../services/deliverySlot.service';
+import { BadRequestError } from '../utils/customErrors';
+import { AuthenticatedRequest } from '../middlewares/authMiddleware';
+
+export default class DeliverySlotController {
+    static async getAvailableSlots(req: AuthenticatedRequest, res: Response) {
+        const { marketId, city, state, days } = req.query;
+
+        if (!marketId) {
+            throw new BadRequestError('Market ID is required');
+        }
+
+        const slots = await DeliverySlotService.getAvailableSlots(marketId as string, {
+            city: city as string | undefined,
+            state: state as string | undefined,
+            days: days ? Number(days) : undefined,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Delivery slots retrieved successfully',
+            data: slots,
+        });
+    }
+}
@@ -0,0 +1,145 @@
+import { Response } from 'express';
+import MealPlanService from '../services/mealPlan.service';
+import { BadRequestError } from '../utils/customErrors';
+import { AuthenticatedRequest } from '../middlewares/authMiddleware';
+
+export default class MealPlanController {
+    static async createMealPlan(req: AuthenticatedRequest, res: Response) {
+        const { name, startDate, days, entries } = req.body;
+
+        if (entries !== undefined && !Array.isArray(entries)) {
+            throw new BadRequestError('entries must be an array');
+        }
+
+        const mealPlan = await MealPlanService.createMealPlan(req.user.id, { name, startDate, days, entries });
+
+        res.status(201).json({
+            status: 'success',
+            message: 'Meal plan created successfully',
+            data: mealPlan,
+        });
+    }
+
+    static async getMealPlans(req: AuthenticatedRequest, res: Response) {
+        const { page, size } = req.query;
+
+        const result = await MealPlanService.getMealPlans(req.user.id, {
+            ...(page && size ? { page: Number(page), size: Number(size) } : {}),
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Meal plans retrieved successfully',
+            data: { ...result },
+        });
+    }
+
+    static async getMealPlan(req: AuthenticatedRequest, res: Response) {
+        const mealPlan = await MealPlanService.getMealPlan(req.params.id, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Meal plan retrieved successfully',
+            data: mealPlan,
+        });
+    }
+
+    static async updateMealPlan(req: AuthenticatedRequest, res: Response) {
+        const { name, startDate, days } = req.body;
+
+        const mealPlan = await MealPlanService.updateMealPlan(req.params.id, req.user.id, { name, startDate, days });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Meal plan updated successfully',
+            data: mealPlan,
+        });
+    }
+
+    static async deleteMealPlan(req: AuthenticatedRequest, res: Response) {
+        await MealPlanService.deleteMealPlan(req.params.id, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Meal plan deleted successfully',
+            data: null,
+        });
+    }
+
+    static async addEntry(req: AuthenticatedRequest, res: Response) {
+        const { dayIndex, slot, mealId, servings } = req.body;
+
+        const entry = await MealPlanService.addEntry(req.params.id, req.user.id, { dayIndex, slot, mealId, servings });
+
+        res.status(201).json({
+            status: 'success',
+            message: 'Meal added to plan successfully',
+            data: entry,
+        });
+    }
+
+    static async updateEntry(req: AuthenticatedRequest, res: Response) {
+        const { dayIndex, slot, mealId, servings } = req.body;
+
+        const entry = await MealPlanService.updateEntry(req.params.id, req.user.id, req.params.entryId, {
+            dayIndex,
+            slot,
+            mealId,
+            servings,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Planned meal updated successfully',
+            data: entry,
+        });
+    }
+
+    static async removeEntry(req: AuthenticatedRequest, res: Response) {
+        await MealPlanService.removeEntry(req.params.id, req.user.id, req.params.entryId);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Meal removed from plan successfully',
+            data: null,
+        });
+    }
+
+    /**
+     * Everything the plan needs, merged across meals. Pass subtractPantry=true to leave
+     * out what the customer already has.
+     */
+    static async getIngredients(req: AuthenticatedRequest, res: Response) {
+        const subtractPantry = req.query.subtractPantry === 'true';
+
+        const ingredients = await MealPlanService.getAggregatedIngredients(req.params.id, req.user.id, {
+            subtractPantry,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Meal plan ingredients retrieved successfully',
+            data: ingredients,
+        });
+    }
+
+    static async generateShoppingList(req: AuthenticatedRequest, res: Response) {
+        const { marketId, listName, subtractPantry = true } = req.body;
+
+        if (!marketId) {
+            throw new BadRequestError('marketId is required');
+        }
+
+        const shoppingList = await MealPlanService.generateShoppingList(req.params.id, req.user.id, {
+            marketId,
+            listName,
+            subtractPantry: subtractPantry !== false,
+        });
+
+        res.status(201).json({
+            status: 'success',
+            message: 'Shopping list created from meal plan',
+            data: shoppingList,
+        });
+    }
+}
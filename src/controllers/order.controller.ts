@@ -1,8 +1,19 @@
+/* eslint-disable no-undef */
 import { Request, Response } from 'express';
 import { AuthenticatedRequest } from '../middlewares/authMiddleware';
 import OrderService from '../services/order.service';
 import ShoppingListService from '../services/shoppingList.service';
 import OrderTrailService from '../services/orderTrail.service';
+import SubstitutionService from '../services/substitution.service';
+import PriceVarianceService from '../services/priceVariance.service';
+import RefundService from '../services/refund.service';
+import DeliveryProofService from '../services/deliveryProof.service';
+import OrderReceiptService from '../services/orderReceipt.service';
+import InvoiceService from '../services/invoice.service';
+import AgentRatingService from '../services/agentRating.service';
+import OrderTipService from '../services/orderTip.service';
+import OrderDisputeService, { IDisputeItemInput } from '../services/orderDispute.service';
+import CloudinaryClientConfig from '../clients/cloudinary.config';
 import { BadRequestError, ForbiddenError } from '../utils/customErrors';
 
 export default class OrderController {
@@ -41,6 +52,40 @@ export default class OrderController {
         }
     }
 
+    private static async resolveOrderId(id: string): Promise<string> {
+        this.validateOrderId(id);
+
+        if (this.isOrderNumber(id)) {
+            const order = await OrderService.getOrderByNumber(id, false, false);
+            return order.id;
+        }
+
+        return id;
+    }
+
+    private static validatePaymentMethod(paymentMethod?: string): void {
+        if (paymentMethod && !['ALATPAY', 'PAYSTACK'].includes(paymentMethod)) {
+            throw new BadRequestError('Payment method must be either ALATPAY or PAYSTACK');
+        }
+    }
+
+    // Items come as a JSON string when the dispute is sent with photos
+    private static parseDisputeItems(items: unknown): IDisputeItemInput[] {
+        if (items === undefined || items === null || items === '') {
+            return [];
+        }
+
+        if (typeof items === 'string') {
+            try {
+                return JSON.parse(items);
+            } catch {
+                throw new BadRequestError('Dispute items must be valid JSON');
+            }
+        }
+
+        return items as IDisputeItemInput[];
+    }
+
     private static extractOrderQueryParams(query: Request['query']): Record<string, unknown> {
         const { page, size, status, startDate, endDate } = query;
 
@@ -192,6 +237,9 @@ export default class OrderController {
             //     throw new ForbiddenError('Not authorized to view this order');
             // }
 
+            // Market receipts the agent attached as proof of purchase
+            const receipts = await OrderReceiptService.getOrderReceipts(order.id);
+
             // Add cache headers for better performance (cache for 30 seconds)
             res.set({
                 'Cache-Control': 'public, max-age=30, s-maxage=30',
@@ -201,7 +249,7 @@ export default class OrderController {
             res.status(200).json({
                 status: 'success',
                 message: 'Order retrieved successfully',
-                data: order,
+                data: { ...order.toJSON(), receipts },
             });
         } catch (error) {
             console.error('Error retrieving order:', { id, error: error instanceof Error ? error.message : String(error) });
@@ -321,4 +369,390 @@ export default class OrderController {
             throw error;
         }
     }
-}
\ No newline at end of file
+
+    static async proposeSubstitutions(req: AuthenticatedRequest, res: Response) {
+        const { id, itemId } = req.params;
+        const { substitutes } = req.body;
+
+        if (req.user.status.userType !== 'agent') {
+            throw new ForbiddenError('Only agents can propose substitutes');
+        }
+
+        if (!Array.isArray(substitutes) || substitutes.length === 0) {
+            throw new BadRequestError('At least one substitute is required');
+        }
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const substitutions = await SubstitutionService.proposeSubstitutions(
+            orderId,
+            itemId,
+            req.user.id,
+            substitutes,
+        );
+
+        res.status(201).json({
+            status: 'success',
+            message: 'Substitutes proposed successfully',
+            data: substitutions,
+        });
+    }
+
+    static async getOrderSubstitutions(req: AuthenticatedRequest, res: Response) {
+        const { id } = req.params;
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const substitutions = await SubstitutionService.getOrderSubstitutions(orderId, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Substitutions retrieved successfully',
+            data: substitutions,
+        });
+    }
+
+    static async approveSubstitution(req: AuthenticatedRequest, res: Response) {
+        const { id, substitutionId } = req.params;
+        const { notes } = req.body;
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const substitution = await SubstitutionService.approveSubstitution(
+            orderId,
+            substitutionId,
+            req.user.id,
+            notes,
+        );
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Substitute approved successfully',
+            data: substitution,
+        });
+    }
+
+    static async rejectSubstitution(req: AuthenticatedRequest, res: Response) {
+        const { id, substitutionId } = req.params;
+        const { notes } = req.body;
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const substitution = await SubstitutionService.rejectSubstitution(
+            orderId,
+            substitutionId,
+            req.user.id,
+            notes,
+        );
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Substitute rejected successfully',
+            data: substitution,
+        });
+    }
+
+    static async getPriceAdjustments(req: AuthenticatedRequest, res: Response) {
+        const { id } = req.params;
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const result = await PriceVarianceService.getOrderAdjustments(orderId, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Price adjustments retrieved successfully',
+            data: result,
+        });
+    }
+
+    static async approvePriceAdjustment(req: AuthenticatedRequest, res: Response) {
+        const { id, adjustmentId } = req.params;
+        const { paymentMethod } = req.body;
+
+        OrderController.validatePaymentMethod(paymentMethod);
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const result = await PriceVarianceService.approveAdjustment(
+            orderId,
+            adjustmentId,
+            req.user.id,
+            paymentMethod,
+        );
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Price adjustment approved. Complete the payment to continue.',
+            data: result,
+        });
+    }
+
+    static async declinePriceAdjustment(req: AuthenticatedRequest, res: Response) {
+        const { id, adjustmentId } = req.params;
+        const { reason } = req.body;
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const adjustment = await PriceVarianceService.declineAdjustment(
+            orderId,
+            adjustmentId,
+            req.user.id,
+            reason,
+        );
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Price adjustment declined',
+            data: adjustment,
+        });
+    }
+
+    static async payPriceAdjustment(req: AuthenticatedRequest, res: Response) {
+        const { id, adjustmentId } = req.params;
+        const { paymentMethod } = req.body;
+
+        OrderController.validatePaymentMethod(paymentMethod);
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const result = await PriceVarianceService.initiateTopUpCharge(
+            orderId,
+            adjustmentId,
+            req.user.id,
+            paymentMethod,
+        );
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Top-up payment initialized successfully',
+            data: result,
+        });
+    }
+
+    static async verifyPriceAdjustment(req: AuthenticatedRequest, res: Response) {
+        const { id, adjustmentId } = req.params;
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const adjustment = await PriceVarianceService.verifyTopUpPayment(orderId, adjustmentId, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: adjustment.status === 'paid' ? 'Top-up payment confirmed' : 'Top-up payment not received yet',
+            data: adjustment,
+        });
+    }
+
+    static async getCancellationQuote(req: AuthenticatedRequest, res: Response) {
+        const { id } = req.params;
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const quote = await RefundService.getCancellationQuote(orderId, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Cancellation quote retrieved successfully',
+            data: quote,
+        });
+    }
+
+    static async getOrderRefunds(req: AuthenticatedRequest, res: Response) {
+        const { id } = req.params;
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const refunds = await RefundService.getOrderRefunds(orderId, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Refunds retrieved successfully',
+            data: refunds,
+        });
+    }
+
+    static async rateAgent(req: AuthenticatedRequest, res: Response) {
+        const { id } = req.params;
+        const { rating, tags, comment } = req.body;
+
+        if (rating === undefined) {
+            throw new BadRequestError('Rating is required');
+        }
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const agentRating = await AgentRatingService.rateAgent(orderId, req.user.id, { rating, tags, comment });
+
+        res.status(201).json({
+            status: 'success',
+            message: 'Thanks for rating your agent',
+            data: agentRating,
+        });
+    }
+
+    static async getAgentRating(req: AuthenticatedRequest, res: Response) {
+        const { id } = req.params;
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const agentRating = await AgentRatingService.getOrderRating(orderId, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Rating retrieved successfully',
+            data: agentRating,
+        });
+    }
+
+    static async reorder(req: AuthenticatedRequest, res: Response) {
+        const { id } = req.params;
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const result = await ShoppingListService.reorderFromOrder(orderId, req.user.id);
+
+        const message = result.summary.unavailableCount > 0
+            ? `Your list is ready. ${result.summary.unavailableCount} item(s) are no longer available; pick an alternative or remove them before checkout.`
+            : 'Your list is ready with current prices';
+
+        res.status(201).json({
+            status: 'success',
+            message,
+            data: result,
+        });
+    }
+
+    static async openDispute(req: AuthenticatedRequest, res: Response) {
+        const { id } = req.params;
+        const { type, description } = req.body;
+
+        if (!type || !description) {
+            throw new BadRequestError('Dispute type and description are required');
+        }
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const items = OrderController.parseDisputeItems(req.body.items);
+
+        const files = req.files as Express.Multer.File[] | undefined;
+        const photoUrls: string[] = [];
+
+        if (files && files.length > 0) {
+            for (const file of files) {
+                const result = await CloudinaryClientConfig.uploadtoCloudinary({
+                    fileBuffer: file.buffer,
+                    id: orderId,
+                    name: file.originalname,
+                    type: 'dispute-evidence',
+                });
+
+                if (result.message === 'error') {
+                    throw new BadRequestError('Failed to upload dispute photo');
+                }
+
+                photoUrls.push(result.url as string);
+            }
+        }
+
+        const dispute = await OrderDisputeService.openDispute(orderId, req.user.id, { type, description, items, photoUrls });
+
+        res.status(201).json({
+            status: 'success',
+            message: 'Dispute submitted. Your agent will respond and our team will review it shortly.',
+            data: dispute,
+        });
+    }
+
+    static async getOrderDisputes(req: AuthenticatedRequest, res: Response) {
+        const { id } = req.params;
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const disputes = await OrderDisputeService.getOrderDisputes(orderId, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Disputes retrieved successfully',
+            data: disputes,
+        });
+    }
+
+    static async withdrawDispute(req: AuthenticatedRequest, res: Response) {
+        const { disputeId } = req.params;
+
+        const dispute = await OrderDisputeService.withdrawDispute(disputeId, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Dispute withdrawn successfully',
+            data: dispute,
+        });
+    }
+
+    static async tipAgent(req: AuthenticatedRequest, res: Response) {
+        const { id } = req.params;
+        const { amount, paymentMethod } = req.body;
+
+        if (amount === undefined) {
+            throw new BadRequestError('Tip amount is required');
+        }
+
+        OrderController.validatePaymentMethod(paymentMethod);
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const result = await OrderTipService.initiateTipCharge(orderId, req.user.id, amount, paymentMethod);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Tip payment initialized successfully',
+            data: result,
+        });
+    }
+
+    static async verifyTip(req: AuthenticatedRequest, res: Response) {
+        const { id, tipId } = req.params;
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const tip = await OrderTipService.verifyTipPayment(orderId, tipId, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: tip.status === 'paid' ? 'Tip payment confirmed' : 'Tip payment not received yet',
+            data: tip,
+        });
+    }
+
+    static async getOrderTips(req: AuthenticatedRequest, res: Response) {
+        const { id } = req.params;
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const tips = await OrderTipService.getOrderTips(orderId, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Tips retrieved successfully',
+            data: tips,
+        });
+    }
+
+    static async getInvoice(req: AuthenticatedRequest, res: Response) {
+        const { id } = req.params;
+        const { format = 'pdf' } = req.query;
+
+        const orderId = await OrderController.resolveOrderId(id);
+
+        if (format === 'html') {
+            const { html } = await InvoiceService.getInvoiceHtml(orderId, req.user.id);
+
+            res.status(200).type('html').send(html);
+            return;
+        }
+
+        const { pdf, invoice } = await InvoiceService.getInvoicePdf(orderId, req.user.id);
+
+        res.set({
+            'Content-Type': 'application/pdf',
+            'Content-Disposition': `attachment; filename="${invoice.invoiceNumber}.pdf"`,
+            'Content-Length': pdf.length.toString(),
+        });
+        res.status(200).send(pdf);
+    }
+
+    static async getDeliveryCode(req: AuthenticatedRequest, res: Response) {
+        const { id } = req.params;
+
+        const orderId = await OrderController.resolveOrderId(id);
+        const deliveryCode = await DeliveryProofService.getDeliveryCode(orderId, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Delivery code retrieved successfully',
+            data: deliveryCode,
+        });
+    }
+}
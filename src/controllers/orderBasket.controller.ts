@@ -0,0 +1,75 @@
+import { Response } from 'express';
+import OrderBasketService, { IBasketQuery } from '../services/orderBasket.service';
+import { BasketStatus } from '../models/orderBasket.model';
+import { BadRequestError } from '../utils/customErrors';
+import { AuthenticatedRequest } from '../middlewares/authMiddleware';
+
+export default class OrderBasketController {
+    static async createBasket(req: AuthenticatedRequest, res: Response) {
+        const { shoppingListIds, deliveryAddress, customerNotes, assignmentMode } = req.body;
+
+        if (!Array.isArray(shoppingListIds) || shoppingListIds.length === 0) {
+            throw new BadRequestError('Shopping list IDs are required');
+        }
+
+        if (!deliveryAddress) {
+            throw new BadRequestError('Delivery address is required');
+        }
+
+        const { basket, payment } = await OrderBasketService.createBasket(req.user, {
+            shoppingListIds,
+            deliveryAddress,
+            customerNotes,
+            assignmentMode,
+        });
+
+        res.status(201).json({
+            status: 'success',
+            message: 'Basket created. Complete the payment to place your orders',
+            data: { basket, payment },
+        });
+    }
+
+    static async getBaskets(req: AuthenticatedRequest, res: Response) {
+        const { page, size, status } = req.query;
+
+        if (status && !Object.values(BasketStatus).includes(status as BasketStatus)) {
+            throw new BadRequestError(
+                `Invalid status. Must be one of: ${Object.values(BasketStatus).join(', ')}`
+            );
+        }
+
+        const queryParams: IBasketQuery = {
+            ...(page && size ? { page: Number(page), size: Number(size) } : {}),
+            ...(status && { status: status as BasketStatus }),
+        };
+
+        const result = await OrderBasketService.getCustomerBaskets(req.user.id, queryParams);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Baskets retrieved successfully',
+            data: { ...result },
+        });
+    }
+
+    static async getBasket(req: AuthenticatedRequest, res: Response) {
+        const basket = await OrderBasketService.getBasket(req.params.id, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Basket retrieved successfully',
+            data: basket,
+        });
+    }
+
+    static async cancelBasket(req: AuthenticatedRequest, res: Response) {
+        const basket = await OrderBasketService.cancelBasket(req.params.id, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Basket cancelled',
+            data: basket,
+        });
+    }
+}
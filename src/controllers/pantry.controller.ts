@@ -0,0 +1,96 @@
+import { Response } from 'express';
+import PantryService from '../services/pantry.service';
+import ShoppingListService from '../services/shoppingList.service';
+import { BadRequestError } from '../utils/customErrors';
+import { AuthenticatedRequest } from '../middlewares/authMiddleware';
+
+export default class PantryController {
+    static async getPantry(req: AuthenticatedRequest, res: Response) {
+        const items = await PantryService.getPantry(req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Pantry retrieved successfully',
+            data: items,
+        });
+    }
+
+    static async getRunningLow(req: AuthenticatedRequest, res: Response) {
+        const items = await PantryService.getRunningLow(req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Running low items retrieved successfully',
+            data: items,
+        });
+    }
+
+    /**
+     * Rebuild the pantry from the customer's completed orders
+     */
+    static async syncPantry(req: AuthenticatedRequest, res: Response) {
+        const items = await PantryService.rebuildFromOrderHistory(req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Pantry rebuilt from your order history',
+            data: items,
+        });
+    }
+
+    /**
+     * Start a draft shopping list with everything that's running low
+     */
+    static async createRestockList(req: AuthenticatedRequest, res: Response) {
+        const { marketId } = req.body;
+
+        const items = await PantryService.getRestockItems(req.user.id, marketId);
+
+        if (items.length === 0) {
+            throw new BadRequestError('Nothing in your pantry is running low');
+        }
+
+        const shoppingList = await ShoppingListService.createShoppingList(
+            {
+                name: `Restock - ${new Date().toLocaleDateString()}`,
+                notes: 'Items running low in your pantry',
+                customerId: req.user.id,
+                marketId,
+                status: 'draft',
+            },
+            items,
+        );
+
+        res.status(201).json({
+            status: 'success',
+            message: 'Restock list created successfully',
+            data: shoppingList,
+        });
+    }
+
+    static async updatePantryItem(req: AuthenticatedRequest, res: Response) {
+        const { isTracked } = req.body;
+
+        if (typeof isTracked !== 'boolean') {
+            throw new BadRequestError('isTracked must be true or false');
+        }
+
+        const item = await PantryService.updateItem(req.user.id, req.params.id, { isTracked });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Pantry item updated successfully',
+            data: item,
+        });
+    }
+
+    static async removePantryItem(req: AuthenticatedRequest, res: Response) {
+        await PantryService.removeItem(req.user.id, req.params.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Pantry item removed successfully',
+            data: null,
+        });
+    }
+}
@@ -10,10 +10,12 @@ import SystemSettingsService from '../../services/systemSettings.service';
 import ShoppingListItem from '../../models/shoppingListItem.model';
 import PaymentStatusSyncService from '../../services/paymentStatusSync.service';
 import OrderTrailService from '../../services/orderTrail.service';
+import WalletService from '../../services/wallet.service';
 import { redisClient } from '../../utils/redis';
 import DiscountCampaignService from '../../services/discountCampaign.service';
 import DeliveryQuote from '../../models/deliveryQuote.model';
 import { SYSTEM_SETTING_KEYS } from '../../models/systemSettings.model';
+import { queuePaymentExpiryCheck } from '../../queues/payment.queue';
 
 // Interface for calculated fees
 interface CalculatedFees {
@@ -21,6 +23,7 @@ interface CalculatedFees {
     serviceFee: number;
     deliveryFee: number;
     discountAmount: number;
+    tipAmount: number;
     total: number;
 }
 
@@ -55,7 +58,8 @@ async function calculateDiscountFromId(
 async function calculateOrderFees(
     subtotal: number | string,
     discountAmount: number = 0,
-    deliveryQuoteId?: string | null
+    deliveryQuoteId?: string | null,
+    tipAmount: number = 0
 ): Promise<CalculatedFees> {
     // Ensure subtotal is a number
     const numericSubtotal = typeof subtotal === 'string' ? parseFloat(subtotal) : subtotal;
@@ -98,13 +102,15 @@ async function calculateOrderFees(
     }
 
     // Calculate total ensuring all values are numbers (round UP to whole number)
-    const total = Math.ceil(Math.max(0, numericSubtotal + serviceFee + deliveryFee - finalDiscount));
+    // The tip is added on top so it is never discounted or charged a service fee
+    const total = Math.ceil(Math.max(0, numericSubtotal + serviceFee + deliveryFee - finalDiscount)) + Math.ceil(tipAmount);
 
     return {
         subtotal: Math.ceil(numericSubtotal), // Round UP to whole number
         serviceFee: Math.ceil(serviceFee), // Round UP to whole number
         deliveryFee: Math.ceil(deliveryFee), // Already whole number from above
         discountAmount: Math.ceil(finalDiscount), // Round UP to whole number
+        tipAmount: Math.ceil(tipAmount), // Passed to the agent in full
         total: total, // Already whole number from Math.ceil above
     };
 }
@@ -606,7 +612,18 @@ export default class AlatPayController {
      */
     static async generatePaymentDetails(req: AuthenticatedRequest, res: Response) {
         const { shoppingListId } = req.params;
-        const { currency, deliveryAddress, customerNotes, discountAmount, selectedDiscountId, deliveryQuoteId } = req.body;
+        const {
+            currency,
+            deliveryAddress,
+            customerNotes,
+            discountAmount,
+            selectedDiscountId,
+            deliveryQuoteId,
+            walletAmount,
+            useWallet,
+            deliverySlotStart,
+            tipAmount,
+        } = req.body;
 
         if (!shoppingListId) {
             throw new BadRequestError('Shopping list ID is required');
@@ -616,6 +633,17 @@ export default class AlatPayController {
             throw new BadRequestError('Delivery address is required');
         }
 
+        if (walletAmount !== undefined && (isNaN(Number(walletAmount)) || Number(walletAmount) < 0)) {
+            throw new BadRequestError('Wallet amount must be a positive number');
+        }
+
+        if (tipAmount !== undefined && (isNaN(Number(tipAmount)) || Number(tipAmount) < 0)) {
+            throw new BadRequestError('Tip amount must be a positive number');
+        }
+
+        // Tips are charged in whole naira
+        const checkoutTip = Math.ceil(Number(tipAmount || 0));
+
         try {
             // Get shopping list details
             const shoppingList = await ShoppingListService.getShoppingList(shoppingListId);
@@ -639,6 +667,7 @@ export default class AlatPayController {
             const existingOrder = await OrderService.findOrderByShoppingListId(shoppingListId, req.user.id, {
                 discountAmount: discountAmount || 0,
                 deliveryQuoteId: deliveryQuoteId || null,
+                tipAmount: checkoutTip,
             });
             const alatpayLogoUrl = 'https://res.cloudinary.com/drc6omjqc/image/upload/v1758889965/Base/wema_logo_bffoct.png';
             
@@ -663,10 +692,11 @@ export default class AlatPayController {
                             paymentProcessedAt: freshOrder.paymentProcessedAt,
                             agentId: freshOrder.agentId,
                             fees: {
-                                subtotal: freshOrder.totalAmount - freshOrder.serviceFee - freshOrder.deliveryFee,
+                                subtotal: freshOrder.totalAmount - freshOrder.serviceFee - freshOrder.deliveryFee - freshOrder.tipAmount,
                                 serviceFee: freshOrder.serviceFee,
                                 deliveryFee: freshOrder.deliveryFee,
                                 discountAmount: 0,
+                                tipAmount: freshOrder.tipAmount,
                                 total: freshOrder.totalAmount,
                             },
                             isExistingOrder: true,
@@ -732,10 +762,11 @@ export default class AlatPayController {
                                         paymentProcessedAt: syncedOrder.paymentProcessedAt,
                                         agentId: syncedOrder.agentId,
                                         fees: {
-                                            subtotal: syncedOrder.totalAmount - syncedOrder.serviceFee - syncedOrder.deliveryFee,
+                                            subtotal: syncedOrder.totalAmount - syncedOrder.serviceFee - syncedOrder.deliveryFee - syncedOrder.tipAmount,
                                             serviceFee: syncedOrder.serviceFee,
                                             deliveryFee: syncedOrder.deliveryFee,
                                             discountAmount: 0,
+                                            tipAmount: syncedOrder.tipAmount,
                                             total: syncedOrder.totalAmount,
                                         },
                                         isExistingOrder: true,
@@ -771,10 +802,11 @@ export default class AlatPayController {
                                 bankCode: '035',
                                 accountNumber: '8880164235',
                                 fees: {
-                                    subtotal: existingOrder.totalAmount - existingOrder.serviceFee - existingOrder.deliveryFee,
+                                    subtotal: existingOrder.totalAmount - existingOrder.serviceFee - existingOrder.deliveryFee - existingOrder.tipAmount,
                                     serviceFee: existingOrder.serviceFee,
                                     deliveryFee: existingOrder.deliveryFee,
                                     discountAmount: 0,
+                                    tipAmount: existingOrder.tipAmount,
                                     total: existingOrder.totalAmount,
                                 },
                                 isExistingOrder: true,
@@ -809,7 +841,7 @@ export default class AlatPayController {
                 );
             }
 
-            const calculatedFees = await calculateOrderFees(subtotal, finalDiscountAmount, deliveryQuoteId);
+            const calculatedFees = await calculateOrderFees(subtotal, finalDiscountAmount, deliveryQuoteId, checkoutTip);
 
             // Get discount campaign details if discount was applied
             let appliedDiscounts: Array<{
@@ -852,13 +884,42 @@ export default class AlatPayController {
                 appliedDiscounts: appliedDiscounts,
                 originalSubtotal: subtotal,
                 deliveryQuoteId: deliveryQuoteId || null,
-            });
+                tipAmount: calculatedFees.tipAmount,
+            }, {
+                amount: walletAmount !== undefined ? Number(walletAmount) : undefined,
+                useAvailableBalance: useWallet === true,
+            }, deliverySlotStart);
 
             logger.info(`Created new order ${order.orderNumber} for shopping list ${shoppingListId}`);
 
+            // Whatever the wallet didn't cover is collected through ALATPay
+            const amountDue = Number(order.totalAmount) - Number(order.walletAmount);
+
+            if (amountDue <= 0) {
+                await WalletService.confirmWalletPayment(order, req.user.id);
+
+                res.status(200).json({
+                    status: 'success',
+                    message: 'Order paid from wallet',
+                    data: {
+                        transactionId: order.paymentId,
+                        orderId: order.id,
+                        orderNumber: order.orderNumber,
+                        orderStatus: order.status,
+                        paymentStatus: 'completed',
+                        amount: 0,
+                        walletAmount: Number(order.walletAmount),
+                        fees: calculatedFees,
+                        isExistingOrder: false,
+                        paymentCompleted: true,
+                    },
+                });
+                return;
+            }
+
             // Generate virtual account through ALATPay
             const response = await AlatPayService.generateVirtualAccount({
-                amount: calculatedFees.total,
+                amount: amountDue,
                 orderId: order.id,
                 description: `Payment for shopping list: ${shoppingList.name}`,
                 user: req.user,
@@ -874,11 +935,17 @@ export default class AlatPayController {
 
             // Update order with payment transaction ID
             await OrderService.updateOrderPaymentId(order.id, transactionId);
+
+            // Scheduled orders hold a delivery slot; make sure an unpaid one gives it back on time
+            if (order.deliverySlotId) {
+                await queuePaymentExpiryCheck(transactionId, req.user.id);
+            }
             
             logger.info(`Payment created for order ${order.orderNumber}`, {
                 transactionId,
                 orderId: order.id,
-                amount: calculatedFees.total,
+                amount: amountDue,
+                walletAmount: order.walletAmount,
             });
 
             // Return payment details
@@ -892,7 +959,8 @@ export default class AlatPayController {
                     orderNumber: order.orderNumber,
                     orderStatus: order.status,
                     paymentStatus: order.paymentStatus,
-                    amount: calculatedFees.total,
+                    amount: amountDue,
+                    walletAmount: Number(order.walletAmount),
                     createdAt: responseData.createdAt || new Date().toISOString(),
                     bankName: 'Wema Bank',
                     accountName: 'Busy2Shop Limited',
@@ -1023,18 +1091,8 @@ export default class AlatPayController {
             // Update order payment status to failed (cancelled by user)
             await OrderService.updateOrderPaymentStatus(order.id, 'failed');
 
-            // Try to update order status to cancelled, handle gracefully if already cancelled
-            try {
-                await OrderService.updateOrderStatus(order.id, req.user.id, 'cancelled');
-            } catch (statusError: any) {
-                // If the error is about status transition, it's likely already cancelled - that's fine
-                if (statusError.message && statusError.message.includes('Cannot change status from cancelled to cancelled')) {
-                    // Order already cancelled by another process, continue normally
-                } else {
-                    // Re-throw if it's a different error
-                    throw statusError;
-                }
-            }
+            // Already-cancelled orders are left as they are
+            await OrderService.updateOrderStatus(order.id, req.user.id, 'cancelled');
 
             // Log the cancellation
             await OrderTrailService.logOrderEvent(order.id, {
@@ -5,13 +5,20 @@ import OrderService from '../../services/order.service';
 import ShoppingListService from '../../services/shoppingList.service';
 import SystemSettingsService from '../../services/systemSettings.service';
 import PaymentStatusSyncService from '../../services/paymentStatusSync.service';
+import PriceVarianceService from '../../services/priceVariance.service';
+import RefundService from '../../services/refund.service';
+import WalletService from '../../services/wallet.service';
+import PayoutService from '../../services/payout.service';
 import OrderTrailService from '../../services/orderTrail.service';
 import { BadRequestError, NotFoundError } from '../../utils/customErrors';
 import { logger } from '../../utils/logger';
 import ShoppingListItem from '../../models/shoppingListItem.model';
 import DiscountCampaignService from '../../services/discountCampaign.service';
+import OrderTipService from '../../services/orderTip.service';
+import OrderBasketService from '../../services/orderBasket.service';
 import DeliveryQuote from '../../models/deliveryQuote.model';
 import { SYSTEM_SETTING_KEYS } from '../../models/systemSettings.model';
+import { queuePaymentExpiryCheck } from '../../queues/payment.queue';
 
 // Interface for calculated fees
 interface CalculatedFees {
@@ -19,6 +26,7 @@ interface CalculatedFees {
     serviceFee: number;
     deliveryFee: number;
     discountAmount: number;
+    tipAmount: number;
     total: number;
 }
 
@@ -53,7 +61,8 @@ async function calculateDiscountFromId(
 async function calculateOrderFees(
     subtotal: number | string,
     discountAmount: number = 0,
-    deliveryQuoteId?: string | null
+    deliveryQuoteId?: string | null,
+    tipAmount: number = 0
 ): Promise<CalculatedFees> {
     // Ensure subtotal is a number
     const numericSubtotal = typeof subtotal === 'string' ? parseFloat(subtotal) : subtotal;
@@ -96,13 +105,15 @@ async function calculateOrderFees(
     }
 
     // Calculate total ensuring all values are numbers (round UP to whole number)
-    const total = Math.ceil(Math.max(0, numericSubtotal + serviceFee + deliveryFee - finalDiscount));
+    // The tip is added on top so it is never discounted or charged a service fee
+    const total = Math.ceil(Math.max(0, numericSubtotal + serviceFee + deliveryFee - finalDiscount)) + Math.ceil(tipAmount);
 
     return {
         subtotal: Math.ceil(numericSubtotal), // Round UP to whole number
         serviceFee: Math.ceil(serviceFee), // Round UP to whole number
         deliveryFee: Math.ceil(deliveryFee), // Already whole number from above
         discountAmount: Math.ceil(finalDiscount), // Round UP to whole number
+        tipAmount: Math.ceil(tipAmount), // Passed to the agent in full
         total: total, // Already whole number from Math.ceil above
     };
 }
@@ -114,7 +125,18 @@ export default class PaystackController {
      */
     static async initializeShoppingListPayment(req: AuthenticatedRequest, res: Response) {
         const { shoppingListId } = req.params;
-        const { currency, deliveryAddress, customerNotes, discountAmount, selectedDiscountId, deliveryQuoteId } = req.body;
+        const {
+            currency,
+            deliveryAddress,
+            customerNotes,
+            discountAmount,
+            selectedDiscountId,
+            deliveryQuoteId,
+            walletAmount,
+            useWallet,
+            deliverySlotStart,
+            tipAmount,
+        } = req.body;
 
         if (!shoppingListId) {
             throw new BadRequestError('Shopping list ID is required');
@@ -124,6 +146,17 @@ export default class PaystackController {
             throw new BadRequestError('Delivery address is required');
         }
 
+        if (walletAmount !== undefined && (isNaN(Number(walletAmount)) || Number(walletAmount) < 0)) {
+            throw new BadRequestError('Wallet amount must be a positive number');
+        }
+
+        if (tipAmount !== undefined && (isNaN(Number(tipAmount)) || Number(tipAmount) < 0)) {
+            throw new BadRequestError('Tip amount must be a positive number');
+        }
+
+        // Tips are charged in whole naira
+        const checkoutTip = Math.ceil(Number(tipAmount || 0));
+
         try {
             // Get shopping list details
             const shoppingList = await ShoppingListService.getShoppingList(shoppingListId);
@@ -147,6 +180,7 @@ export default class PaystackController {
             const existingOrder = await OrderService.findOrderByShoppingListId(shoppingListId, req.user.id, {
                 discountAmount: discountAmount || 0,
                 deliveryQuoteId: deliveryQuoteId || null,
+                tipAmount: checkoutTip,
             });
 
             if (existingOrder) {
@@ -168,10 +202,11 @@ export default class PaystackController {
                             amount: freshOrder.totalAmount,
                             amountInKobo: PaystackService.toKobo(freshOrder.totalAmount),
                             fees: {
-                                subtotal: freshOrder.totalAmount - freshOrder.serviceFee - freshOrder.deliveryFee,
+                                subtotal: freshOrder.totalAmount - freshOrder.serviceFee - freshOrder.deliveryFee - freshOrder.tipAmount,
                                 serviceFee: freshOrder.serviceFee,
                                 deliveryFee: freshOrder.deliveryFee,
                                 discountAmount: 0,
+                                tipAmount: freshOrder.tipAmount,
                                 total: freshOrder.totalAmount,
                             },
                             publicKey: PaystackService.getPublicKey(),
@@ -235,10 +270,11 @@ export default class PaystackController {
                                         amount: syncedOrder.totalAmount,
                                         amountInKobo: PaystackService.toKobo(syncedOrder.totalAmount),
                                         fees: {
-                                            subtotal: syncedOrder.totalAmount - syncedOrder.serviceFee - syncedOrder.deliveryFee,
+                                            subtotal: syncedOrder.totalAmount - syncedOrder.serviceFee - syncedOrder.deliveryFee - syncedOrder.tipAmount,
                                             serviceFee: syncedOrder.serviceFee,
                                             deliveryFee: syncedOrder.deliveryFee,
                                             discountAmount: 0,
+                                            tipAmount: syncedOrder.tipAmount,
                                             total: syncedOrder.totalAmount,
                                         },
                                         publicKey: PaystackService.getPublicKey(),
@@ -270,10 +306,11 @@ export default class PaystackController {
                                 amount: existingOrder.totalAmount,
                                 amountInKobo: PaystackService.toKobo(existingOrder.totalAmount),
                                 fees: {
-                                    subtotal: existingOrder.totalAmount - existingOrder.serviceFee - existingOrder.deliveryFee,
+                                    subtotal: existingOrder.totalAmount - existingOrder.serviceFee - existingOrder.deliveryFee - existingOrder.tipAmount,
                                     serviceFee: existingOrder.serviceFee,
                                     deliveryFee: existingOrder.deliveryFee,
                                     discountAmount: 0,
+                                    tipAmount: existingOrder.tipAmount,
                                     total: existingOrder.totalAmount,
                                 },
                                 publicKey: PaystackService.getPublicKey(),
@@ -307,7 +344,7 @@ export default class PaystackController {
                 );
             }
 
-            const calculatedFees = await calculateOrderFees(subtotal, finalDiscountAmount, deliveryQuoteId);
+            const calculatedFees = await calculateOrderFees(subtotal, finalDiscountAmount, deliveryQuoteId, checkoutTip);
 
             // Get discount campaign details if discount was applied
             let appliedDiscounts: Array<{
@@ -350,7 +387,37 @@ export default class PaystackController {
                 appliedDiscounts: appliedDiscounts,
                 originalSubtotal: subtotal,
                 deliveryQuoteId: deliveryQuoteId || null,
-            });
+                tipAmount: calculatedFees.tipAmount,
+            }, {
+                amount: walletAmount !== undefined ? Number(walletAmount) : undefined,
+                useAvailableBalance: useWallet === true,
+            }, deliverySlotStart);
+
+            // Whatever the wallet didn't cover is charged through Paystack
+            const amountDue = Number(order.totalAmount) - Number(order.walletAmount);
+
+            if (amountDue <= 0) {
+                await WalletService.confirmWalletPayment(order, req.user.id);
+
+                res.status(200).json({
+                    status: 'success',
+                    message: 'Order paid from wallet',
+                    data: {
+                        authorization_url: '',
+                        access_code: '',
+                        reference: order.paymentId,
+                        orderId: order.id,
+                        orderNumber: order.orderNumber,
+                        amount: 0,
+                        amountInKobo: 0,
+                        walletAmount: Number(order.walletAmount),
+                        fees: calculatedFees,
+                        publicKey: PaystackService.getPublicKey(),
+                        paymentCompleted: true,
+                    },
+                });
+                return;
+            }
 
             // Generate unique reference
             const reference = PaystackService.generateReference(`busy2shop_${order.id}`);
@@ -358,7 +425,7 @@ export default class PaystackController {
             // Initialize Paystack transaction
             const paymentResponse = await PaystackService.initializeTransaction({
                 email: req.user.email,
-                amount: PaystackService.toKobo(calculatedFees.total),
+                amount: PaystackService.toKobo(amountDue),
                 currency: currency || 'NGN',
                 reference,
                 metadata: {
@@ -388,11 +455,17 @@ export default class PaystackController {
             // Update order with payment reference
             await OrderService.updateOrderPaymentId(order.id, reference);
 
+            // Scheduled orders hold a delivery slot; make sure an unpaid one gives it back on time
+            if (order.deliverySlotId) {
+                await queuePaymentExpiryCheck(reference, req.user.id);
+            }
+
             logger.info(`Paystack payment initialized for order ${order.orderNumber}`, {
                 reference,
                 orderId: order.id,
-                amount: calculatedFees.total,
-                amountInKobo: PaystackService.toKobo(calculatedFees.total),
+                amount: amountDue,
+                amountInKobo: PaystackService.toKobo(amountDue),
+                walletAmount: order.walletAmount,
             });
 
             res.status(200).json({
@@ -404,8 +477,9 @@ export default class PaystackController {
                     reference: paymentResponse.data.reference,
                     orderId: order.id,
                     orderNumber: order.orderNumber,
-                    amount: calculatedFees.total,
-                    amountInKobo: PaystackService.toKobo(calculatedFees.total),
+                    amount: amountDue,
+                    amountInKobo: PaystackService.toKobo(amountDue),
+                    walletAmount: Number(order.walletAmount),
                     fees: calculatedFees,
                     publicKey: PaystackService.getPublicKey(),
                 },
@@ -444,6 +518,31 @@ export default class PaystackController {
                 return;
             }
 
+            // Basket references cover several orders
+            if (verificationResponse.data.metadata?.paymentType === 'basket') {
+                if (verificationResponse.data.metadata.customerId !== req.user.id) {
+                    throw new BadRequestError('Not authorized to verify this payment');
+                }
+
+                const basket = await OrderBasketService.confirmBasketPayment(reference, 'api_sync', req.user.id);
+                if (!basket) {
+                    throw new NotFoundError('Basket not found for this payment reference');
+                }
+
+                res.status(200).json({
+                    status: 'success',
+                    message: 'Basket payment verified and confirmed successfully',
+                    data: {
+                        reference,
+                        basketId: basket.id,
+                        paymentStatus: basket.paymentStatus,
+                        amount: PaystackService.fromKobo(verificationResponse.data.amount),
+                        paidAt: verificationResponse.data.paid_at,
+                    },
+                });
+                return;
+            }
+
             // Find order by payment reference
             const order = await OrderService.getOrderByPaymentId(reference);
 
@@ -547,6 +646,26 @@ export default class PaystackController {
                 amount: data.amount,
             });
 
+            // Refund status updates for refunds raised from the refund ledger
+            if (eventType === 'refund.processed' || eventType === 'refund.failed') {
+                const refund = await RefundService.handlePaystackRefundEvent(eventType, data);
+                res.status(200).json({
+                    status: 'success',
+                    message: refund ? 'Refund status updated' : 'Refund not found',
+                });
+                return;
+            }
+
+            // Transfer status updates for agent payouts
+            if (['transfer.success', 'transfer.failed', 'transfer.reversed'].includes(eventType)) {
+                const payout = await PayoutService.handlePaystackTransferEvent(eventType, data);
+                res.status(200).json({
+                    status: 'success',
+                    message: payout ? 'Payout status updated' : 'Payout not found',
+                });
+                return;
+            }
+
             // Only process successful charge events
             if (eventType !== 'charge.success' || data.status !== 'success') {
                 logger.info(`Paystack webhook ignored - Event: ${eventType}, Status: ${data.status}`);
@@ -554,6 +673,36 @@ export default class PaystackController {
                 return;
             }
 
+            // Follow-up charges for price adjustments carry their own reference
+            if (data.metadata?.paymentType === 'price_adjustment') {
+                const adjustment = await PriceVarianceService.confirmTopUpPayment(data.reference, 'webhook');
+                res.status(200).json({
+                    status: 'success',
+                    message: adjustment ? 'Price adjustment payment confirmed' : 'Price adjustment not found',
+                });
+                return;
+            }
+
+            // Tips after delivery are charged separately from the order
+            if (data.metadata?.paymentType === 'tip') {
+                const tip = await OrderTipService.confirmTipPayment(data.reference, 'webhook');
+                res.status(200).json({
+                    status: 'success',
+                    message: tip ? 'Tip payment confirmed' : 'Tip not found',
+                });
+                return;
+            }
+
+            // Multi-market baskets are paid once for all of their orders
+            if (data.metadata?.paymentType === 'basket') {
+                const basket = await OrderBasketService.confirmBasketPayment(data.reference, 'webhook');
+                res.status(200).json({
+                    status: 'success',
+                    message: basket ? 'Basket payment confirmed' : 'Basket not found',
+                });
+                return;
+            }
+
             // Find order by payment reference
             const order = await OrderService.getOrderByPaymentId(data.reference);
 
@@ -736,18 +885,8 @@ export default class PaystackController {
             // Update order payment status to failed (cancelled by user)
             await OrderService.updateOrderPaymentStatus(order.id, 'failed');
 
-            // Try to update order status to cancelled, handle gracefully if already cancelled
-            try {
-                await OrderService.updateOrderStatus(order.id, req.user.id, 'cancelled');
-            } catch (statusError: any) {
-                // If the error is about status transition, it's likely already cancelled - that's fine
-                if (statusError.message && statusError.message.includes('Cannot change status from cancelled to cancelled')) {
-                    // Order already cancelled by another process, continue normally
-                } else {
-                    // Re-throw if it's a different error
-                    throw statusError;
-                }
-            }
+            // Already-cancelled orders are left as they are
+            await OrderService.updateOrderStatus(order.id, req.user.id, 'cancelled');
 
             // Log the cancellation
             await OrderTrailService.logOrderEvent(order.id, {
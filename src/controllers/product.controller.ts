@@ -4,6 +4,7 @@ import { Request, Response } from 'express';
 import { AuthenticatedRequest } from '../middlewares/authMiddleware';
 import ProductService from '../services/product.service';
 import MarketService from '../services/market.service';
+import UnitService from '../services/unit.service';
 import { BadRequestError, ForbiddenError } from '../utils/customErrors';
 import CloudinaryClientConfig from '../clients/cloudinary.config';
 
@@ -293,6 +294,24 @@ export default class ProductController {
         });
     }
 
+    /**
+     * Products matching a name, cheapest per kilogram, litre or piece first
+     */
+    static async compareUnitPrices(req: Request, res: Response) {
+        const { name, marketIds } = req.query;
+
+        const products = await UnitService.compareProductPrices(
+            name as string,
+            marketIds ? (marketIds as string).split(',').map(id => id.trim()).filter(Boolean) : undefined,
+        );
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Unit prices compared successfully',
+            data: products,
+        });
+    }
+
     static async getProduct(req: Request, res: Response) {
         const { id } = req.params;
 
@@ -0,0 +1,154 @@
+import { Response } from 'express';
+import RecurringOrderService, { IRecurringOrderQuery } from '../services/recurringOrder.service';
+import { RecurringOrderStatus } from '../models/recurringOrder.model';
+import { BadRequestError } from '../utils/customErrors';
+import { AuthenticatedRequest } from '../middlewares/authMiddleware';
+
+export default class RecurringOrderController {
+    static async createRecurringOrder(req: AuthenticatedRequest, res: Response) {
+        const {
+            shoppingListId,
+            frequency,
+            dayOfWeek,
+            dayOfMonth,
+            deliverySlotTime,
+            deliveryAddress,
+            customerNotes,
+            paymentMethod,
+            paymentReference,
+        } = req.body;
+
+        if (!shoppingListId) {
+            throw new BadRequestError('Shopping list ID is required');
+        }
+
+        if (!frequency) {
+            throw new BadRequestError('Frequency is required');
+        }
+
+        if (!deliveryAddress) {
+            throw new BadRequestError('Delivery address is required');
+        }
+
+        const recurringOrder = await RecurringOrderService.createRecurringOrder(req.user.id, {
+            shoppingListId,
+            frequency,
+            dayOfWeek,
+            dayOfMonth,
+            deliverySlotTime,
+            deliveryAddress,
+            customerNotes,
+            paymentMethod,
+            paymentReference,
+        });
+
+        res.status(201).json({
+            status: 'success',
+            message: 'Recurring order created successfully',
+            data: recurringOrder,
+        });
+    }
+
+    static async getRecurringOrders(req: AuthenticatedRequest, res: Response) {
+        const { page, size, status } = req.query;
+
+        if (status && !Object.values(RecurringOrderStatus).includes(status as RecurringOrderStatus)) {
+            throw new BadRequestError(
+                `Invalid status. Must be one of: ${Object.values(RecurringOrderStatus).join(', ')}`
+            );
+        }
+
+        const queryParams: IRecurringOrderQuery = {
+            ...(page && size ? { page: Number(page), size: Number(size) } : {}),
+            ...(status && { status: status as RecurringOrderStatus }),
+        };
+
+        const result = await RecurringOrderService.getRecurringOrders(req.user.id, queryParams);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Recurring orders retrieved successfully',
+            data: { ...result },
+        });
+    }
+
+    static async getRecurringOrder(req: AuthenticatedRequest, res: Response) {
+        const recurringOrder = await RecurringOrderService.getRecurringOrder(req.params.id, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Recurring order retrieved successfully',
+            data: recurringOrder,
+        });
+    }
+
+    static async updateRecurringOrder(req: AuthenticatedRequest, res: Response) {
+        const {
+            frequency,
+            dayOfWeek,
+            dayOfMonth,
+            deliverySlotTime,
+            deliveryAddress,
+            customerNotes,
+            paymentMethod,
+            paymentReference,
+        } = req.body;
+
+        const recurringOrder = await RecurringOrderService.updateRecurringOrder(req.params.id, req.user.id, {
+            frequency,
+            dayOfWeek,
+            dayOfMonth,
+            deliverySlotTime,
+            deliveryAddress,
+            customerNotes,
+            paymentMethod,
+            paymentReference,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Recurring order updated successfully',
+            data: recurringOrder,
+        });
+    }
+
+    static async pauseRecurringOrder(req: AuthenticatedRequest, res: Response) {
+        const recurringOrder = await RecurringOrderService.pauseRecurringOrder(req.params.id, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Recurring order paused',
+            data: recurringOrder,
+        });
+    }
+
+    static async resumeRecurringOrder(req: AuthenticatedRequest, res: Response) {
+        const recurringOrder = await RecurringOrderService.resumeRecurringOrder(req.params.id, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Recurring order resumed',
+            data: recurringOrder,
+        });
+    }
+
+    static async skipNextOccurrence(req: AuthenticatedRequest, res: Response) {
+        const recurringOrder = await RecurringOrderService.skipNextOccurrence(req.params.id, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: `Next occurrence skipped. The following order is for ${recurringOrder.nextDeliveryDate}`,
+            data: recurringOrder,
+        });
+    }
+
+    static async cancelRecurringOrder(req: AuthenticatedRequest, res: Response) {
+        const recurringOrder = await RecurringOrderService.cancelRecurringOrder(req.params.id, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Recurring order cancelled',
+            data: recurringOrder,
+        });
+    }
+}
@@ -6,9 +6,15 @@ import DiscountCampaignService from '../services/discountCampaign.service';
 import SystemSettingsService from '../services/systemSettings.service';
 import PriceCalculatorService from '../services/priceCalculator.service';
 import ShipBubbleService from '../services/shipbubble.service';
+import ShoppingListCollaboratorService from '../services/shoppingListCollaborator.service';
+import ShoppingListVersionService from '../services/shoppingListVersion.service';
+import ShoppingListImportService from '../services/shoppingListImport.service';
+import BudgetService from '../services/budget.service';
+import MarketComparisonService from '../services/marketComparison.service';
 import { SYSTEM_SETTING_KEYS } from '../models/systemSettings.model';
 import { BadRequestError, ForbiddenError, NotFoundError } from '../utils/customErrors';
-import ShoppingListItem from '../models/shoppingListItem.model';
+import ShoppingListItem, { SubstitutionPreference } from '../models/shoppingListItem.model';
+import { CollaboratorRole } from '../models/shoppingListCollaborator.model';
 import Product from '../models/product.model';
 import UserAddress from '../models/userAddress.model';
 import User from '../models/user.model';
@@ -88,6 +94,30 @@ export default class ShoppingListController {
         });
     }
 
+    /**
+     * Create a draft list from pasted text, e.g. "2 tubers yam, 1 paint garri, 5 tomatoes".
+     * Each line comes back with the product it was matched to so the user can confirm or change it.
+     */
+    static async importShoppingList(req: AuthenticatedRequest, res: Response) {
+        const { text, marketId, name } = req.body;
+
+        if (!text || typeof text !== 'string') {
+            throw new BadRequestError('Text to import is required');
+        }
+
+        if (!marketId) {
+            throw new BadRequestError('Market ID is required');
+        }
+
+        const result = await ShoppingListImportService.importList(req.user.id, { text, marketId, name });
+
+        res.status(201).json({
+            status: 'success',
+            message: `Imported ${result.items.length} item(s); ${result.summary.matchedCount} matched to products`,
+            data: result,
+        });
+    }
+
     static async getUserShoppingLists(req: AuthenticatedRequest, res: Response) {
         const { page, size, status, marketId } = req.query;
 
@@ -160,9 +190,9 @@ export default class ShoppingListController {
 
         const shoppingList = await ShoppingListService.getShoppingList(id);
 
-        // Check if the user is authorized to view this list
-        if (shoppingList.customerId !== req.user.id && shoppingList.agentId !== req.user.id) {
-            throw new ForbiddenError('You are not authorized to view this shopping list');
+        // The owner, the assigned agent and anyone the list is shared with can view it
+        if (shoppingList.agentId !== req.user.id) {
+            await ShoppingListCollaboratorService.assertCanView(shoppingList, req.user.id);
         }
 
         res.status(200).json({
@@ -209,7 +239,7 @@ export default class ShoppingListController {
 
     static async addItemToList(req: AuthenticatedRequest, res: Response) {
         const { listId } = req.params;
-        const { name, quantity, unit, notes, estimatedPrice, productId } = req.body;
+        const { name, quantity, unit, notes, estimatedPrice, productId, substitutionPreference } = req.body;
 
         console.log('🛒 [CONTROLLER] Add Item Request Received:', {
             listId,
@@ -219,6 +249,7 @@ export default class ShoppingListController {
             unit,
             estimatedPrice,
             productId,
+            substitutionPreference,
             timestamp: new Date().toISOString(),
         });
 
@@ -227,6 +258,15 @@ export default class ShoppingListController {
             throw new BadRequestError('Item name is required');
         }
 
+        if (
+            substitutionPreference &&
+            !Object.values(SubstitutionPreference).includes(substitutionPreference)
+        ) {
+            throw new BadRequestError(
+                `Substitution preference must be one of: ${Object.values(SubstitutionPreference).join(', ')}`
+            );
+        }
+
         console.log('✅ [CONTROLLER] Validation passed, calling service layer...');
 
         const startTime = Date.now();
@@ -237,6 +277,7 @@ export default class ShoppingListController {
             notes,
             estimatedPrice,
             productId,
+            substitutionPreference,
             shoppingListId: listId,
         });
         const duration = Date.now() - startTime;
@@ -258,7 +299,15 @@ export default class ShoppingListController {
 
     static async updateListItem(req: AuthenticatedRequest, res: Response) {
         const { listId, itemId } = req.params;
-        const { name, quantity, unit, notes, estimatedPrice } = req.body;
+        const { name, quantity, unit, notes, estimatedPrice, substitutionPreference, quantityDelta, version } = req.body;
+
+        if (quantityDelta !== undefined && (isNaN(Number(quantityDelta)) || quantity !== undefined)) {
+            throw new BadRequestError('Quantity delta must be a number and cannot be sent with a quantity');
+        }
+
+        if (version !== undefined && !Number.isInteger(Number(version))) {
+            throw new BadRequestError('Version must be a whole number');
+        }
 
         // Prepare update data
         const updateData: Record<string, any> = {};
@@ -267,12 +316,24 @@ export default class ShoppingListController {
         if (unit !== undefined) updateData.unit = unit;
         if (notes !== undefined) updateData.notes = notes;
         if (estimatedPrice !== undefined) updateData.estimatedPrice = estimatedPrice;
+        if (substitutionPreference !== undefined) {
+            if (!Object.values(SubstitutionPreference).includes(substitutionPreference)) {
+                throw new BadRequestError(
+                    `Substitution preference must be one of: ${Object.values(SubstitutionPreference).join(', ')}`
+                );
+            }
+            updateData.substitutionPreference = substitutionPreference;
+        }
 
         const updatedItem = await ShoppingListService.updateListItem(
             listId,
             itemId,
             req.user.id,
             updateData,
+            {
+                expectedVersion: version !== undefined ? Number(version) : undefined,
+                quantityDelta: quantityDelta !== undefined ? Number(quantityDelta) : undefined,
+            },
         );
 
         res.status(200).json({
@@ -1458,4 +1519,215 @@ export default class ShoppingListController {
             throw error;
         }
     }
+
+    /**
+     * Shopping lists other people have shared with the user
+     */
+    static async getSharedLists(req: AuthenticatedRequest, res: Response) {
+        const lists = await ShoppingListCollaboratorService.getSharedLists(req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Shared shopping lists retrieved successfully',
+            data: lists,
+        });
+    }
+
+    static async getCollaborators(req: AuthenticatedRequest, res: Response) {
+        const result = await ShoppingListCollaboratorService.getCollaborators(req.params.id, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Collaborators retrieved successfully',
+            data: result,
+        });
+    }
+
+    static async inviteCollaborator(req: AuthenticatedRequest, res: Response) {
+        const { email, phone, role } = req.body;
+
+        if (!email && !phone) {
+            throw new BadRequestError('An email or phone number is required');
+        }
+
+        if (role && ![CollaboratorRole.EDITOR, CollaboratorRole.VIEWER].includes(role)) {
+            throw new BadRequestError(`Role must be one of: ${CollaboratorRole.EDITOR}, ${CollaboratorRole.VIEWER}`);
+        }
+
+        const collaborator = await ShoppingListCollaboratorService.inviteCollaborator(req.params.id, req.user.id, {
+            email,
+            phone,
+            role,
+        });
+
+        res.status(201).json({
+            status: 'success',
+            message: 'Invitation sent',
+            data: collaborator,
+        });
+    }
+
+    static async updateCollaboratorRole(req: AuthenticatedRequest, res: Response) {
+        const { id, collaboratorId } = req.params;
+        const { role } = req.body;
+
+        if (!role) {
+            throw new BadRequestError('Role is required');
+        }
+
+        const collaborator = await ShoppingListCollaboratorService.updateRole(id, collaboratorId, req.user.id, role);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Collaborator role updated',
+            data: collaborator,
+        });
+    }
+
+    static async removeCollaborator(req: AuthenticatedRequest, res: Response) {
+        const { id, collaboratorId } = req.params;
+
+        await ShoppingListCollaboratorService.removeCollaborator(id, collaboratorId, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Collaborator removed',
+            data: null,
+        });
+    }
+
+    static async getInvitations(req: AuthenticatedRequest, res: Response) {
+        const invitations = await ShoppingListCollaboratorService.getInvitations(req.user);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Invitations retrieved successfully',
+            data: invitations,
+        });
+    }
+
+    static async acceptInvitation(req: AuthenticatedRequest, res: Response) {
+        const invitation = await ShoppingListCollaboratorService.respondToInvitation(req.params.invitationId, req.user, true);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Invitation accepted',
+            data: invitation,
+        });
+    }
+
+    static async declineInvitation(req: AuthenticatedRequest, res: Response) {
+        const invitation = await ShoppingListCollaboratorService.respondToInvitation(req.params.invitationId, req.user, false);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Invitation declined',
+            data: invitation,
+        });
+    }
+
+    /**
+     * Every recorded version of a list, newest first, with what changed and who changed it
+     */
+    static async getListHistory(req: AuthenticatedRequest, res: Response) {
+        const { page, size } = req.query;
+
+        const history = await ShoppingListVersionService.getHistory(req.params.id, req.user.id, {
+            page: page ? Number(page) : undefined,
+            size: size ? Number(size) : undefined,
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Shopping list history retrieved successfully',
+            data: { ...history },
+        });
+    }
+
+    static async compareListVersions(req: AuthenticatedRequest, res: Response) {
+        const from = Number(req.query.from);
+        const to = Number(req.query.to);
+
+        if (!Number.isInteger(from) || !Number.isInteger(to)) {
+            throw new BadRequestError('Both from and to versions are required');
+        }
+
+        const result = await ShoppingListVersionService.compareVersions(req.params.id, req.user.id, from, to);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Shopping list versions compared successfully',
+            data: result,
+        });
+    }
+
+    static async restoreListVersion(req: AuthenticatedRequest, res: Response) {
+        const version = Number(req.params.version);
+
+        if (!Number.isInteger(version) || version < 1) {
+            throw new BadRequestError('Invalid version number');
+        }
+
+        const shoppingList = await ShoppingListVersionService.restoreVersion(req.params.id, req.user.id, version);
+
+        res.status(200).json({
+            status: 'success',
+            message: `Shopping list restored to version ${version}`,
+            data: shoppingList,
+        });
+    }
+
+    /**
+     * Price a draft list at each market near the customer and recommend where to shop
+     */
+    static async compareMarkets(req: AuthenticatedRequest, res: Response) {
+        const { latitude, longitude, radius, limit } = req.query;
+
+        if (!latitude || !longitude) {
+            throw new BadRequestError('Latitude and longitude are required');
+        }
+
+        const comparison = await MarketComparisonService.compareList(req.params.id, req.user.id, {
+            latitude: parseFloat(latitude as string),
+            longitude: parseFloat(longitude as string),
+            ...(radius && { radius: parseFloat(radius as string) }),
+            ...(limit && { limit: parseInt(limit as string) }),
+        });
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Markets compared successfully',
+            data: comparison,
+        });
+    }
+
+    static async getListBudget(req: AuthenticatedRequest, res: Response) {
+        const budget = await BudgetService.getListBudget(req.params.id, req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Shopping list budget retrieved successfully',
+            data: budget,
+        });
+    }
+
+    static async setListBudget(req: AuthenticatedRequest, res: Response) {
+        const { budget } = req.body;
+
+        if (budget === undefined) {
+            throw new BadRequestError('Budget is required; send null to remove it');
+        }
+
+        const status = await BudgetService.setListBudget(
+            req.params.id,
+            req.user.id,
+            budget === null ? null : Number(budget),
+        );
+
+        res.status(200).json({
+            status: 'success',
+            message: budget === null ? 'Shopping list budget removed' : 'Shopping list budget updated',
+            data: status,
+        });
+    }
 }
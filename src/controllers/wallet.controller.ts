@@ -0,0 +1,57 @@
+import { Response } from 'express';
+import WalletService, { IWalletHistoryQuery } from '../services/wallet.service';
+import { WalletTransactionType } from '../models/walletTransaction.model';
+import { BadRequestError } from '../utils/customErrors';
+import { AuthenticatedRequest } from '../middlewares/authMiddleware';
+
+export default class WalletController {
+    static async getWallet(req: AuthenticatedRequest, res: Response) {
+        const wallet = await WalletService.getBalance(req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Wallet retrieved successfully',
+            data: wallet,
+        });
+    }
+
+    static async getTransactions(req: AuthenticatedRequest, res: Response) {
+        const { page, size, type } = req.query;
+
+        if (type && !Object.values(WalletTransactionType).includes(type as WalletTransactionType)) {
+            throw new BadRequestError(
+                `Invalid transaction type. Must be one of: ${Object.values(WalletTransactionType).join(', ')}`
+            );
+        }
+
+        const queryParams: IWalletHistoryQuery = {
+            ...(page && size ? { page: Number(page), size: Number(size) } : {}),
+            ...(type && { type: type as WalletTransactionType }),
+        };
+
+        const history = await WalletService.getTransactionHistory(req.user.id, queryParams);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Wallet transactions retrieved successfully',
+            data: { ...history },
+        });
+    }
+
+    static async redeemReferralBonus(req: AuthenticatedRequest, res: Response) {
+        const { bonusId } = req.params;
+
+        if (!bonusId) {
+            throw new BadRequestError('Bonus ID is required');
+        }
+
+        const transaction = await WalletService.redeemReferralBonus(bonusId, req.user.id);
+        const wallet = await WalletService.getBalance(req.user.id);
+
+        res.status(200).json({
+            status: 'success',
+            message: 'Referral reward added to your wallet',
+            data: { transaction, wallet },
+        });
+    }
+}
@@ -2,7 +2,7 @@
 /* eslint-disable no-unused-vars */
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import { Request, Response, NextFunction } from 'express';
-import { CustomAPIError } from '../utils/customErrors';
+import { BudgetExceededError, CustomAPIError } from '../utils/customErrors';
 import { logger } from '../utils/logger';
 
 class Middlewares {
@@ -81,6 +81,8 @@ class Middlewares {
             status: customError.status,
             error: customError.error,
             message: customError.message,
+            // Budget errors carry the cheaper alternatives the customer can switch to
+            ...(err instanceof BudgetExceededError && { data: err.data }),
         });
     }
 
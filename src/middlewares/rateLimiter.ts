@@ -3,8 +3,9 @@ import { redisClient } from '../utils/redis';
 import { Request, Response, NextFunction } from 'express';
 import { BadRequestError } from '../utils/customErrors';
 import UserService, { IDynamicQueryOptions } from '../services/user.service';
+import { AuthenticatedRequest } from './authMiddleware';
 
-type RateLimitType = 'login' | 'forgot' | 'contact';
+type RateLimitType = 'login' | 'forgot' | 'contact' | 'phonecode' | 'phoneverify';
 
 // fixed window rate limiter
 const rateLimiter =
@@ -13,7 +14,9 @@ const rateLimiter =
         const ip = req.ip;
         const userAgent = req.headers['user-agent'] as string;
         const userLocation = (req.headers['x-forwarded-for'] || req.socket.remoteAddress) as string;
+        // Signed-in routes are limited per account rather than by the email in the body
         const email =
+            (req as AuthenticatedRequest).user?.email ||
             (req.body.email as string) ||
             (
                 await UserService.viewSingleUserDynamic({
@@ -22,7 +25,7 @@ const rateLimiter =
                 } as IDynamicQueryOptions)
             ).email;
 
-        const emailCounterKey = `EmailCounter:${email}`;
+        const emailCounterKey = `EmailCounter_${type}:${email}`;
         const emailHashKey = `EmailHash_${type}:${email}`;
 
         try {
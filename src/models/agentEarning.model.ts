@@ -0,0 +1,143 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import User from './user.model';
+import Order from './order.model';
+import AgentPayout from './agentPayout.model';
+
+export enum AgentEarningType {
+    COMMISSION = 'commission', // Agent's cut of a completed order, from the commission rules
+    TIP = 'tip',
+    BONUS = 'bonus', // Granted by an admin
+    SHOPPING_REIMBURSEMENT = 'shopping_reimbursement', // Market spend the agent covered for the order
+    ADJUSTMENT = 'adjustment', // Admin correction; may be negative
+}
+
+export enum AgentEarningStatus {
+    AVAILABLE = 'available', // Counts towards the next payout
+    IN_PAYOUT = 'in_payout', // Locked into a payout that hasn't settled yet
+    PAID = 'paid',
+}
+
+@Table({
+    indexes: [
+        {
+            unique: true,
+            fields: ['idempotencyKey'],
+        },
+        {
+            fields: ['agentId', 'status'],
+        },
+        {
+            fields: ['orderId'],
+        },
+        {
+            fields: ['payoutId'],
+        },
+    ],
+})
+export default class AgentEarning extends Model<AgentEarning | IAgentEarning> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    agentId: string;
+
+    @BelongsTo(() => User, 'agentId')
+    agent: User;
+
+    @IsUUID(4)
+    @ForeignKey(() => Order)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true, // Bonuses and adjustments need not relate to an order
+    })
+    orderId: string | null;
+
+    @BelongsTo(() => Order)
+    order: Order;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(AgentEarningType)),
+        allowNull: false,
+    })
+    type: AgentEarningType;
+
+    @Column({
+        type: DataType.DECIMAL(12, 2),
+        allowNull: false,
+    })
+    amount: number;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+    })
+    description: string;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(AgentEarningStatus)),
+        allowNull: false,
+        defaultValue: AgentEarningStatus.AVAILABLE,
+    })
+    status: AgentEarningStatus;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false, // Recording the same key twice returns the original entry
+    })
+    idempotencyKey: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => AgentPayout)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true,
+    })
+    payoutId: string | null;
+
+    @BelongsTo(() => AgentPayout)
+    payout: AgentPayout;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+    })
+    createdBy: string; // Admin ID/email, customer ID or 'system'
+
+    @Column({
+        type: DataType.JSONB,
+        allowNull: true,
+    })
+    metadata: Record<string, any> | null;
+}
+
+export interface IAgentEarning {
+    id?: string;
+    agentId: string;
+    orderId?: string | null;
+    type: AgentEarningType;
+    amount: number;
+    description: string;
+    status?: AgentEarningStatus;
+    idempotencyKey: string;
+    payoutId?: string | null;
+    createdBy: string;
+    metadata?: Record<string, any> | null;
+}
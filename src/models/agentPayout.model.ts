@@ -0,0 +1,164 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    HasMany,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import User from './user.model';
+import AgentEarning from './agentEarning.model';
+
+export enum AgentPayoutStatus {
+    PENDING = 'pending', // Created by a batch, not yet sent to the transfer provider
+    PROCESSING = 'processing', // Transfer submitted, waiting on the provider
+    PAID = 'paid',
+    FAILED = 'failed', // Earnings are released back to the agent's available balance
+    REVERSED = 'reversed', // Paid, then returned by the bank; earnings are available again
+}
+
+// Snapshot of agentMetaData.bankDetails at the time the payout was created
+export interface IPayoutBankDetails {
+    bankName: string;
+    accountNumber: string;
+    accountName: string;
+    bankCode?: string;
+}
+
+@Table({
+    indexes: [
+        {
+            fields: ['agentId', 'status'],
+        },
+        {
+            fields: ['batchReference'],
+        },
+        {
+            unique: true,
+            fields: ['reference'],
+        },
+    ],
+})
+export default class AgentPayout extends Model<AgentPayout | IAgentPayout> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    agentId: string;
+
+    @BelongsTo(() => User, 'agentId')
+    agent: User;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+    })
+    batchReference: string; // Shared by every payout created in the same run
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+    })
+    reference: string; // Sent to the transfer provider; each retry gets a new one and keeps the old ones in metadata
+
+    @Column({
+        type: DataType.DECIMAL(12, 2),
+        allowNull: false,
+    })
+    amount: number;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+        defaultValue: 'NGN',
+    })
+    currency: string;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(AgentPayoutStatus)),
+        allowNull: false,
+        defaultValue: AgentPayoutStatus.PENDING,
+    })
+    status: AgentPayoutStatus;
+
+    @Column({
+        type: DataType.JSONB,
+        allowNull: false,
+    })
+    bankDetails: IPayoutBankDetails;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    provider: string | null;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    providerReference: string | null; // Transfer code or ID from the provider
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    failureReason: string | null;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+    })
+    initiatedBy: string; // Admin ID/email or 'system'
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    processedAt: Date | null;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    paidAt: Date | null;
+
+    @Column({
+        type: DataType.JSONB,
+        allowNull: true,
+    })
+    metadata: Record<string, any> | null;
+
+    @HasMany(() => AgentEarning)
+    earnings: AgentEarning[];
+}
+
+export interface IAgentPayout {
+    id?: string;
+    agentId: string;
+    batchReference: string;
+    reference: string;
+    amount: number;
+    currency?: string;
+    status?: AgentPayoutStatus;
+    bankDetails: IPayoutBankDetails;
+    provider?: string | null;
+    providerReference?: string | null;
+    failureReason?: string | null;
+    initiatedBy: string;
+    processedAt?: Date | null;
+    paidAt?: Date | null;
+    metadata?: Record<string, any> | null;
+}
@@ -0,0 +1,110 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import Order from './order.model';
+import User from './user.model';
+
+export enum AgentRatingTag {
+    GOOD_SUBSTITUTIONS = 'good_substitutions',
+    GREAT_COMMUNICATION = 'great_communication',
+    FRESH_ITEMS = 'fresh_items',
+    ON_TIME = 'on_time',
+    FRIENDLY = 'friendly',
+    LATE = 'late',
+    WRONG_ITEMS = 'wrong_items',
+    DAMAGED_ITEMS = 'damaged_items',
+    POOR_COMMUNICATION = 'poor_communication',
+}
+
+@Table({
+    indexes: [
+        {
+            unique: true,
+            fields: ['orderId'], // One rating per order
+        },
+        {
+            fields: ['agentId', 'createdAt'],
+        },
+    ],
+})
+export default class AgentRating extends Model<AgentRating | IAgentRating> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => Order)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    orderId: string;
+
+    @BelongsTo(() => Order)
+    order: Order;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    agentId: string;
+
+    @BelongsTo(() => User, 'agentId')
+    agent: User;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    customerId: string;
+
+    @BelongsTo(() => User, 'customerId')
+    customer: User;
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false,
+        validate: {
+            min: 1,
+            max: 5,
+        },
+    })
+    rating: number;
+
+    @Column({
+        type: DataType.ARRAY(DataType.STRING),
+        allowNull: false,
+        defaultValue: [],
+    })
+    tags: AgentRatingTag[];
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    comment: string | null;
+}
+
+export interface IAgentRating {
+    id?: string;
+    orderId: string;
+    agentId: string;
+    customerId: string;
+    rating: number;
+    tags?: AgentRatingTag[];
+    comment?: string | null;
+}
@@ -0,0 +1,70 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+} from 'sequelize-typescript';
+import User from './user.model';
+
+// Running totals of an agent's ratings, kept in step with AgentRating
+@Table
+export default class AgentRatingSummary extends Model<AgentRatingSummary | IAgentRatingSummary> {
+    @IsUUID(4)
+    @PrimaryKey
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    agentId: string;
+
+    @BelongsTo(() => User, 'agentId')
+    agent: User;
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+    })
+    ratingCount: number;
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+    })
+    ratingTotal: number; // Sum of all star ratings
+
+    @Column({
+        type: DataType.DECIMAL(3, 2),
+        allowNull: false,
+        defaultValue: 0,
+    })
+    averageRating: number;
+
+    @Column({
+        type: DataType.JSONB,
+        allowNull: false,
+        defaultValue: {},
+    })
+    tagCounts: Record<string, number>;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    lastRatedAt: Date | null;
+}
+
+export interface IAgentRatingSummary {
+    agentId: string;
+    ratingCount?: number;
+    ratingTotal?: number;
+    averageRating?: number;
+    tagCounts?: Record<string, number>;
+    lastRatedAt?: Date | null;
+}
@@ -0,0 +1,122 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import Order from './order.model';
+import User from './user.model';
+
+export enum DeliveryProofStatus {
+    PENDING = 'pending', // Code issued, waiting for the agent to enter it at handover
+    VERIFIED = 'verified', // Agent entered the customer's code
+    OVERRIDDEN = 'overridden', // An admin confirmed the handover without the code
+}
+
+@Table({
+    indexes: [
+        {
+            unique: true,
+            fields: ['orderId'],
+        },
+    ],
+})
+export default class DeliveryProof extends Model<DeliveryProof | IDeliveryProof> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => Order)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    orderId: string;
+
+    @BelongsTo(() => Order)
+    order: Order;
+
+    @Column({
+        type: DataType.STRING(6),
+        allowNull: false,
+    })
+    code: string; // Handover code shown only to the customer
+
+    @Column({
+        type: DataType.ENUM(...Object.values(DeliveryProofStatus)),
+        allowNull: false,
+        defaultValue: DeliveryProofStatus.PENDING,
+    })
+    status: DeliveryProofStatus;
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+    })
+    failedAttempts: number; // Wrong codes since the last lockout
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    lockedUntil: Date | null;
+
+    @Column({
+        type: DataType.ARRAY(DataType.STRING),
+        allowNull: false,
+        defaultValue: [],
+    })
+    photoUrls: string[]; // Photos of the delivered bags
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    verifiedAt: Date | null;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true,
+    })
+    verifiedBy: string | null; // Agent who entered the code
+
+    @BelongsTo(() => User, 'verifiedBy')
+    verifier: User;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    overriddenBy: string | null; // Admin id or email
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    overrideReason: string | null;
+}
+
+export interface IDeliveryProof {
+    id?: string;
+    orderId: string;
+    code: string;
+    status?: DeliveryProofStatus;
+    failedAttempts?: number;
+    lockedUntil?: Date | null;
+    photoUrls?: string[];
+    verifiedAt?: Date | null;
+    verifiedBy?: string | null;
+    overriddenBy?: string | null;
+    overrideReason?: string | null;
+}
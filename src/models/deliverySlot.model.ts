@@ -0,0 +1,83 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    HasMany,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import Market from './market.model';
+import DeliverySlotReservation from './deliverySlotReservation.model';
+
+/**
+ * A delivery window for one market. Windows are worked out from the market's
+ * operating hours; a row is only stored once a window is booked or an admin
+ * overrides its capacity.
+ */
+@Table({
+    indexes: [
+        {
+            unique: true,
+            fields: ['marketId', 'startsAt'],
+        },
+    ],
+})
+export default class DeliverySlot extends Model<DeliverySlot | IDeliverySlot> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => Market)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    marketId: string;
+
+    @BelongsTo(() => Market)
+    market: Market;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: false,
+    })
+    startsAt: Date;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: false,
+    })
+    endsAt: Date;
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false,
+    })
+    capacity: number; // Orders this market can take for the window
+
+    @Column({
+        type: DataType.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+    })
+    isClosed: boolean; // Closed by an admin; existing bookings are kept
+
+    @HasMany(() => DeliverySlotReservation)
+    reservations: DeliverySlotReservation[];
+}
+
+export interface IDeliverySlot {
+    id?: string;
+    marketId: string;
+    startsAt: Date;
+    endsAt: Date;
+    capacity: number;
+    isClosed?: boolean;
+}
@@ -0,0 +1,132 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import DeliverySlot from './deliverySlot.model';
+import Order from './order.model';
+import User from './user.model';
+
+export enum DeliverySlotReservationStatus {
+    HELD = 'held', // Taken at checkout; lapses at expiresAt if payment never arrives
+    CONFIRMED = 'confirmed', // Order paid
+    RELEASED = 'released', // Payment failed or expired, or the order was cancelled
+}
+
+@Table({
+    indexes: [
+        {
+            fields: ['slotId', 'status'],
+        },
+        {
+            fields: ['orderId'],
+        },
+        {
+            fields: ['zone', 'startsAt', 'endsAt'],
+        },
+    ],
+})
+export default class DeliverySlotReservation extends Model<DeliverySlotReservation | IDeliverySlotReservation> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => DeliverySlot)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    slotId: string;
+
+    @BelongsTo(() => DeliverySlot)
+    slot: DeliverySlot;
+
+    @IsUUID(4)
+    @ForeignKey(() => Order)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    orderId: string;
+
+    @BelongsTo(() => Order)
+    order: Order;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    customerId: string;
+
+    @BelongsTo(() => User)
+    customer: User;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+    })
+    zone: string; // Delivery zone ("state:city") for zone-wide capacity
+
+    // Copied from the slot so zone capacity can be checked across markets
+    @Column({
+        type: DataType.DATE,
+        allowNull: false,
+    })
+    startsAt: Date;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: false,
+    })
+    endsAt: Date;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(DeliverySlotReservationStatus)),
+        allowNull: false,
+        defaultValue: DeliverySlotReservationStatus.HELD,
+    })
+    status: DeliverySlotReservationStatus;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    expiresAt: Date | null;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    releasedAt: Date | null;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    releaseReason: string | null;
+}
+
+export interface IDeliverySlotReservation {
+    id?: string;
+    slotId: string;
+    orderId: string;
+    customerId: string;
+    zone: string;
+    startsAt: Date;
+    endsAt: Date;
+    status?: DeliverySlotReservationStatus;
+    expiresAt?: Date | null;
+    releasedAt?: Date | null;
+    releaseReason?: string | null;
+}
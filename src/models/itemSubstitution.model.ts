@@ -0,0 +1,196 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import Order from './order.model';
+import User from './user.model';
+import Product from './product.model';
+import ShoppingListItem from './shoppingListItem.model';
+
+export enum SubstitutionStatus {
+    PENDING = 'pending', // Waiting for the customer to respond
+    APPROVED = 'approved', // Customer approved the replacement
+    AUTO_ACCEPTED = 'auto_accepted', // Accepted automatically after the response timeout
+    REJECTED = 'rejected', // Customer rejected the replacement
+    EXPIRED = 'expired', // Timed out without a response and could not be auto-accepted
+    SUPERSEDED = 'superseded', // Another proposal for the same item was accepted
+}
+
+// Snapshot of the original item, kept so the replacement can be audited later
+export interface ISubstitutedItemSnapshot {
+    name: string;
+    productId: string | null;
+    quantity: number;
+    unit: string | null;
+    estimatedPrice: number | null;
+    actualPrice: number | null;
+    productImage: string | null;
+}
+
+@Table({
+    indexes: [
+        {
+            fields: ['orderId', 'status'],
+        },
+        {
+            fields: ['shoppingListItemId'],
+        },
+    ],
+})
+export default class ItemSubstitution extends Model<ItemSubstitution | IItemSubstitution> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => Order)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    orderId: string;
+
+    @BelongsTo(() => Order)
+    order: Order;
+
+    @IsUUID(4)
+    @ForeignKey(() => ShoppingListItem)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    shoppingListItemId: string;
+
+    @BelongsTo(() => ShoppingListItem)
+    shoppingListItem: ShoppingListItem;
+
+    @IsUUID(4)
+    @ForeignKey(() => Product)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true, // Null when the agent proposes an item that isn't in the catalog
+    })
+    productId: string | null;
+
+    @BelongsTo(() => Product)
+    product: Product;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    agentId: string;
+
+    @BelongsTo(() => User, 'agentId')
+    agent: User;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    customerId: string;
+
+    @BelongsTo(() => User, 'customerId')
+    customer: User;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+    })
+    name: string;
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+    })
+    price: number; // Unit price quoted by the agent
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 1,
+    })
+    quantity: number;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    unit: string | null;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    image: string | null;
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    agentNotes: string | null;
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    customerNotes: string | null;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(SubstitutionStatus)),
+        allowNull: false,
+        defaultValue: SubstitutionStatus.PENDING,
+    })
+    status: SubstitutionStatus;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: false,
+    })
+    expiresAt: Date;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    respondedAt: Date | null;
+
+    @Column({
+        type: DataType.JSONB,
+        allowNull: true,
+    })
+    originalItem: ISubstitutedItemSnapshot | null;
+}
+
+export interface IItemSubstitution {
+    id?: string;
+    orderId: string;
+    shoppingListItemId: string;
+    productId?: string | null;
+    agentId: string;
+    customerId: string;
+    name: string;
+    price: number;
+    quantity?: number;
+    unit?: string | null;
+    image?: string | null;
+    agentNotes?: string | null;
+    customerNotes?: string | null;
+    status?: SubstitutionStatus;
+    expiresAt: Date;
+    respondedAt?: Date | null;
+    originalItem?: ISubstitutedItemSnapshot | null;
+}
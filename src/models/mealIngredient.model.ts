@@ -8,9 +8,13 @@ import {
     IsUUID,
     PrimaryKey,
     Default,
+    BeforeCreate,
+    BeforeUpdate,
+    BeforeBulkCreate,
 } from 'sequelize-typescript';
 import Meal from './meal.model';
 import Product from './product.model';
+import UnitRegistry from '../utils/units';
 
 @Table
 export default class MealIngredient extends Model<MealIngredient> {
@@ -83,6 +87,22 @@ export default class MealIngredient extends Model<MealIngredient> {
         defaultValue: 0,
     })
     sortOrder: number; // Order in which ingredients should be displayed
+
+    // Store units in canonical form ("tablespoons" -> "tbsp") so recipes scale and merge reliably
+    @BeforeCreate
+    @BeforeUpdate
+    static normalizeUnit(instance: MealIngredient) {
+        if (instance.changed('unit')) {
+            instance.unit = UnitRegistry.normalize(instance.unit) as string;
+        }
+    }
+
+    @BeforeBulkCreate
+    static normalizeUnits(instances: MealIngredient[]) {
+        instances.forEach(instance => {
+            instance.unit = UnitRegistry.normalize(instance.unit) as string;
+        });
+    }
 }
 
 export interface IMealIngredient {
@@ -0,0 +1,99 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    HasMany,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import User from './user.model';
+import Market from './market.model';
+import ShoppingList from './shoppingList.model';
+import MealPlanEntry from './mealPlanEntry.model';
+
+/**
+ * A customer's plan of meals over a number of days, turned into one shopping list
+ */
+@Table({
+    indexes: [
+        {
+            fields: ['userId'],
+        },
+    ],
+})
+export default class MealPlan extends Model<MealPlan | IMealPlan> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    userId: string;
+
+    @BelongsTo(() => User, { onDelete: 'CASCADE' })
+    user: User;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+    })
+    name: string;
+
+    @Column({
+        type: DataType.DATEONLY,
+        allowNull: false,
+    })
+    startDate: string; // Day 0 of the plan
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false,
+        defaultValue: 7,
+    })
+    days: number;
+
+    @IsUUID(4)
+    @ForeignKey(() => Market)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true, // Chosen when the shopping list is generated
+    })
+    marketId: string | null;
+
+    @BelongsTo(() => Market, { onDelete: 'SET NULL' })
+    market: Market;
+
+    @IsUUID(4)
+    @ForeignKey(() => ShoppingList)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true,
+    })
+    shoppingListId: string | null; // Most recently generated list
+
+    @BelongsTo(() => ShoppingList, { onDelete: 'SET NULL' })
+    shoppingList: ShoppingList;
+
+    @HasMany(() => MealPlanEntry)
+    entries: MealPlanEntry[];
+}
+
+export interface IMealPlan {
+    id?: string;
+    userId: string;
+    name: string;
+    startDate: string;
+    days?: number;
+    marketId?: string | null;
+    shoppingListId?: string | null;
+}
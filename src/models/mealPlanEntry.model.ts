@@ -0,0 +1,88 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import MealPlan from './mealPlan.model';
+import Meal from './meal.model';
+
+export enum MealSlot {
+    BREAKFAST = 'breakfast',
+    LUNCH = 'lunch',
+    DINNER = 'dinner',
+    SNACK = 'snack',
+}
+
+/**
+ * One meal in a plan, on a given day and slot, cooked for a number of servings
+ */
+@Table({
+    indexes: [
+        {
+            fields: ['mealPlanId', 'dayIndex'],
+        },
+    ],
+})
+export default class MealPlanEntry extends Model<MealPlanEntry | IMealPlanEntry> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => MealPlan)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    mealPlanId: string;
+
+    @BelongsTo(() => MealPlan, { onDelete: 'CASCADE' })
+    mealPlan: MealPlan;
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false,
+    })
+    dayIndex: number; // 0 is the plan's start date
+
+    @Column({
+        type: DataType.ENUM(...Object.values(MealSlot)),
+        allowNull: false,
+    })
+    slot: MealSlot;
+
+    @IsUUID(4)
+    @ForeignKey(() => Meal)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    mealId: string;
+
+    @BelongsTo(() => Meal, { onDelete: 'CASCADE' })
+    meal: Meal;
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false,
+        defaultValue: 4,
+    })
+    servings: number;
+}
+
+export interface IMealPlanEntry {
+    id?: string;
+    mealPlanId: string;
+    dayIndex: number;
+    slot: MealSlot;
+    mealId: string;
+    servings?: number;
+}
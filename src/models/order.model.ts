@@ -12,6 +12,8 @@ import {
 import User from './user.model';
 import ShoppingList from './shoppingList.model';
 import DeliveryQuote from './deliveryQuote.model';
+import DeliverySlot from './deliverySlot.model';
+import OrderBasket from './orderBasket.model';
 
 @Table
 export default class Order extends Model<Order | IOrder> {
@@ -226,6 +228,62 @@ export default class Order extends Model<Order | IOrder> {
     })
     paymentProcessedAt: Date;
 
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: true, // Amount captured at checkout; totalAmount can change once actual prices are recorded
+    })
+    amountPaid: number | null;
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+    })
+    walletAmount: number; // Portion of the total paid from the customer's wallet at checkout
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+    })
+    tipAmount: number; // Tips for the agent, at checkout and after delivery; never discounted or charged a fee on
+
+    // Scheduled delivery; null for as-soon-as-possible orders
+    @IsUUID(4)
+    @ForeignKey(() => DeliverySlot)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true,
+    })
+    deliverySlotId: string | null;
+
+    @BelongsTo(() => DeliverySlot)
+    deliverySlot: DeliverySlot;
+
+    // Set when the order is one market's share of a multi-market basket
+    @IsUUID(4)
+    @ForeignKey(() => OrderBasket)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true,
+    })
+    basketId: string | null;
+
+    @BelongsTo(() => OrderBasket)
+    basket: OrderBasket;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    scheduledDeliveryStart: Date | null;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    scheduledDeliveryEnd: Date | null;
+
     // ShipBubble Delivery Fields
     @IsUUID(4)
     @ForeignKey(() => DeliveryQuote)
@@ -312,6 +370,13 @@ export interface IOrder {
     paymentId?: string;
     paymentStatus?: 'pending' | 'completed' | 'failed' | 'expired';
     paymentProcessedAt?: Date;
+    amountPaid?: number | null;
+    walletAmount?: number;
+    tipAmount?: number;
+    deliverySlotId?: string | null;
+    basketId?: string | null;
+    scheduledDeliveryStart?: Date | null;
+    scheduledDeliveryEnd?: Date | null;
     // ShipBubble Delivery Fields
     deliveryQuoteId?: string;
     deliveryMetadata?: {
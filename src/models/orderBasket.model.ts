@@ -0,0 +1,152 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    HasMany,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import User from './user.model';
+import Order from './order.model';
+
+export enum BasketStatus {
+    PENDING_PAYMENT = 'pending_payment',
+    IN_PROGRESS = 'in_progress', // Paid; agents are shopping at one or more markets
+    READY_FOR_DELIVERY = 'ready_for_delivery', // Every market has been shopped
+    OUT_FOR_DELIVERY = 'out_for_delivery',
+    COMPLETED = 'completed',
+    CANCELLED = 'cancelled',
+}
+
+export enum BasketAssignmentMode {
+    PER_MARKET = 'per_market', // Each market's order goes to whichever agent suits it best
+    SINGLE_AGENT = 'single_agent', // One agent shops every market and delivers everything together
+}
+
+/**
+ * A single checkout spanning shopping lists from several markets.
+ * The customer pays once; each market's list becomes a child order with its own agent.
+ */
+@Table({
+    indexes: [
+        {
+            fields: ['customerId'],
+        },
+        {
+            fields: ['paymentId'],
+        },
+    ],
+})
+export default class OrderBasket extends Model<OrderBasket | IOrderBasket> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    customerId: string;
+
+    @BelongsTo(() => User)
+    customer: User;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(BasketStatus)),
+        allowNull: false,
+        defaultValue: BasketStatus.PENDING_PAYMENT,
+    })
+    status: BasketStatus;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(BasketAssignmentMode)),
+        allowNull: false,
+        defaultValue: BasketAssignmentMode.PER_MARKET,
+    })
+    assignmentMode: BasketAssignmentMode;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+        defaultValue: 'pending',
+    })
+    paymentStatus: 'pending' | 'completed' | 'failed' | 'expired';
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    paymentId: string | null; // Paystack reference, shared by every child order
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+    })
+    totalAmount: number; // Sum of the child orders' totals
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+    })
+    deliveryFee: number; // Charged once, on the first child order
+
+    @Column({
+        type: DataType.JSONB,
+        allowNull: false,
+    })
+    deliveryAddress: {
+        latitude: number;
+        longitude: number;
+        address: string;
+        city: string;
+        state: string;
+        country: string;
+        additionalDirections?: string;
+    };
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    customerNotes: string | null;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    paidAt: Date | null;
+
+    @HasMany(() => Order)
+    orders: Order[];
+}
+
+export interface IOrderBasket {
+    id?: string;
+    customerId: string;
+    status?: BasketStatus;
+    assignmentMode?: BasketAssignmentMode;
+    paymentStatus?: 'pending' | 'completed' | 'failed' | 'expired';
+    paymentId?: string | null;
+    totalAmount: number;
+    deliveryFee?: number;
+    deliveryAddress: {
+        latitude: number;
+        longitude: number;
+        address: string;
+        city: string;
+        state: string;
+        country: string;
+        additionalDirections?: string;
+    };
+    customerNotes?: string | null;
+    paidAt?: Date | null;
+}
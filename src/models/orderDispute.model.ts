@@ -0,0 +1,218 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    HasMany,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import Order from './order.model';
+import User from './user.model';
+import Refund from './refund.model';
+import OrderDisputeItem from './orderDisputeItem.model';
+
+export enum DisputeType {
+    MISSING_ITEM = 'missing_item',
+    DAMAGED_ITEM = 'damaged_item',
+    WRONG_ITEM = 'wrong_item',
+    OTHER = 'other',
+}
+
+export enum DisputeStatus {
+    AWAITING_AGENT = 'awaiting_agent', // Waiting for the agent's side of the story
+    UNDER_REVIEW = 'under_review', // Agent has responded (or the response window passed); admin to decide
+    RESOLVED = 'resolved', // Admin has decided the outcome
+    WITHDRAWN = 'withdrawn', // Customer closed the claim themselves
+}
+
+export enum DisputeOutcome {
+    REFUND = 'refund', // Money returned to the original payment method
+    CREDIT = 'credit', // Money added to the customer's wallet
+    NONE = 'none', // Claim not upheld
+}
+
+@Table({
+    indexes: [
+        {
+            fields: ['orderId'],
+        },
+        {
+            fields: ['agentId', 'outcome'],
+        },
+        {
+            fields: ['status'],
+        },
+    ],
+})
+export default class OrderDispute extends Model<OrderDispute | IOrderDispute> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => Order)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    orderId: string;
+
+    @BelongsTo(() => Order)
+    order: Order;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    customerId: string;
+
+    @BelongsTo(() => User, 'customerId')
+    customer: User;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true,
+    })
+    agentId: string | null; // Agent who shopped the order
+
+    @BelongsTo(() => User, 'agentId')
+    agent: User;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(DisputeType)),
+        allowNull: false,
+    })
+    type: DisputeType;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(DisputeStatus)),
+        allowNull: false,
+        defaultValue: DisputeStatus.AWAITING_AGENT,
+    })
+    status: DisputeStatus;
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: false,
+    })
+    description: string;
+
+    @Column({
+        type: DataType.ARRAY(DataType.STRING),
+        allowNull: false,
+        defaultValue: [],
+    })
+    photoUrls: string[]; // Customer's evidence
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+    })
+    claimedAmount: number; // What the disputed items cost the customer
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    agentResponse: string | null;
+
+    @Column({
+        type: DataType.ARRAY(DataType.STRING),
+        allowNull: false,
+        defaultValue: [],
+    })
+    agentPhotoUrls: string[];
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    agentRespondedAt: Date | null;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(DisputeOutcome)),
+        allowNull: true,
+    })
+    outcome: DisputeOutcome | null;
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: true,
+    })
+    resolutionAmount: number | null; // Refunded or credited; null when nothing was paid
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    resolutionNotes: string | null; // Shown to the customer and agent
+
+    @ForeignKey(() => Refund)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true,
+    })
+    refundId: string | null;
+
+    @BelongsTo(() => Refund)
+    refund: Refund;
+
+    @Column({
+        type: DataType.UUID,
+        allowNull: true,
+    })
+    walletTransactionId: string | null;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    resolvedBy: string | null; // Admin ID or email
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    resolvedAt: Date | null;
+
+    @HasMany(() => OrderDisputeItem, { onDelete: 'CASCADE' })
+    items: OrderDisputeItem[];
+
+    // Claims the admin found in the customer's favour count against the agent
+    get isUpheld(): boolean {
+        return this.outcome === DisputeOutcome.REFUND || this.outcome === DisputeOutcome.CREDIT;
+    }
+}
+
+export interface IOrderDispute {
+    id?: string;
+    orderId: string;
+    customerId: string;
+    agentId?: string | null;
+    type: DisputeType;
+    status?: DisputeStatus;
+    description: string;
+    photoUrls?: string[];
+    claimedAmount?: number;
+    agentResponse?: string | null;
+    agentPhotoUrls?: string[];
+    agentRespondedAt?: Date | null;
+    outcome?: DisputeOutcome | null;
+    resolutionAmount?: number | null;
+    resolutionNotes?: string | null;
+    refundId?: string | null;
+    walletTransactionId?: string | null;
+    resolvedBy?: string | null;
+    resolvedAt?: Date | null;
+}
@@ -0,0 +1,80 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import OrderDispute from './orderDispute.model';
+import ShoppingListItem from './shoppingListItem.model';
+
+@Table({
+    indexes: [
+        {
+            fields: ['disputeId'],
+        },
+        {
+            fields: ['shoppingListItemId'],
+        },
+    ],
+})
+export default class OrderDisputeItem extends Model<OrderDisputeItem | IOrderDisputeItem> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => OrderDispute)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    disputeId: string;
+
+    @BelongsTo(() => OrderDispute, { onDelete: 'CASCADE' })
+    dispute: OrderDispute;
+
+    @IsUUID(4)
+    @ForeignKey(() => ShoppingListItem)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    shoppingListItemId: string;
+
+    @BelongsTo(() => ShoppingListItem)
+    shoppingListItem: ShoppingListItem;
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+    })
+    quantity: number; // How many of the item the claim covers
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+    })
+    unitPrice: number; // What the customer paid per unit
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+    })
+    amount: number; // quantity x unitPrice
+}
+
+export interface IOrderDisputeItem {
+    id?: string;
+    disputeId: string;
+    shoppingListItemId: string;
+    quantity: number;
+    unitPrice: number;
+    amount: number;
+}
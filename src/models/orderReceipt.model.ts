@@ -0,0 +1,89 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    HasMany,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import Order from './order.model';
+import User from './user.model';
+import OrderReceiptLine from './orderReceiptLine.model';
+
+@Table({
+    indexes: [
+        {
+            fields: ['orderId'],
+        },
+    ],
+})
+export default class OrderReceipt extends Model<OrderReceipt | IOrderReceipt> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => Order)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    orderId: string;
+
+    @BelongsTo(() => Order)
+    order: Order;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    uploadedBy: string; // Agent who shopped the order
+
+    @BelongsTo(() => User, 'uploadedBy')
+    uploader: User;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+    })
+    imageUrl: string;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    merchantName: string | null; // Stall or shop printed on the receipt
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: true,
+    })
+    receiptTotal: number | null; // Total as printed, for reference only
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    notes: string | null;
+
+    @HasMany(() => OrderReceiptLine, { onDelete: 'CASCADE' })
+    lines: OrderReceiptLine[];
+}
+
+export interface IOrderReceipt {
+    id?: string;
+    orderId: string;
+    uploadedBy: string;
+    imageUrl: string;
+    merchantName?: string | null;
+    receiptTotal?: number | null;
+    notes?: string | null;
+}
@@ -0,0 +1,94 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import Order from './order.model';
+import OrderReceipt from './orderReceipt.model';
+import ShoppingListItem from './shoppingListItem.model';
+
+@Table({
+    indexes: [
+        {
+            fields: ['receiptId'],
+        },
+        {
+            fields: ['orderId'],
+        },
+        {
+            fields: ['shoppingListItemId'],
+        },
+    ],
+})
+export default class OrderReceiptLine extends Model<OrderReceiptLine | IOrderReceiptLine> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => OrderReceipt)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    receiptId: string;
+
+    @BelongsTo(() => OrderReceipt, { onDelete: 'CASCADE' })
+    receipt: OrderReceipt;
+
+    @IsUUID(4)
+    @ForeignKey(() => Order)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    orderId: string; // Denormalised from the receipt for per-order totals
+
+    @IsUUID(4)
+    @ForeignKey(() => ShoppingListItem)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true, // Null for lines that aren't on the list, e.g. bags
+    })
+    shoppingListItemId: string | null;
+
+    @BelongsTo(() => ShoppingListItem)
+    shoppingListItem: ShoppingListItem;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+    })
+    description: string; // Line as written on the receipt
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 1,
+    })
+    quantity: number;
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+    })
+    amount: number; // Line total charged by the market
+}
+
+export interface IOrderReceiptLine {
+    id?: string;
+    receiptId: string;
+    orderId: string;
+    shoppingListItemId?: string | null;
+    description: string;
+    quantity?: number;
+    amount: number;
+}
@@ -0,0 +1,109 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import Order from './order.model';
+import SupportTicket from './supportTicket.model';
+
+export enum OrderSlaStage {
+    ASSIGNMENT = 'assignment', // Paid order waiting for an agent
+    SHOPPING_START = 'shopping_start', // Agent assigned but hasn't started shopping
+    SHOPPING = 'shopping', // Agent shopping but hasn't finished
+}
+
+// An order that overran one of its SLAs; one row per order and stage
+@Table({
+    indexes: [
+        {
+            unique: true,
+            fields: ['orderId', 'stage'],
+        },
+        {
+            fields: ['resolvedAt'],
+        },
+    ],
+})
+export default class OrderSlaBreach extends Model<OrderSlaBreach | IOrderSlaBreach> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => Order)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    orderId: string;
+
+    @BelongsTo(() => Order)
+    order: Order;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(OrderSlaStage)),
+        allowNull: false,
+    })
+    stage: OrderSlaStage;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: false,
+    })
+    dueAt: Date; // When the stage should have been done by
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: false,
+    })
+    breachedAt: Date; // When the watcher noticed
+
+    @IsUUID(4)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true,
+    })
+    reassignedFromAgentId: string | null; // Agent taken off the order when it was escalated
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    escalatedAt: Date | null; // When a support ticket was opened
+
+    @ForeignKey(() => SupportTicket)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true,
+    })
+    supportTicketId: string | null;
+
+    @BelongsTo(() => SupportTicket)
+    supportTicket: SupportTicket;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    resolvedAt: Date | null; // When the order moved past the stage
+}
+
+export interface IOrderSlaBreach {
+    id?: string;
+    orderId: string;
+    stage: OrderSlaStage;
+    dueAt: Date;
+    breachedAt: Date;
+    reassignedFromAgentId?: string | null;
+    escalatedAt?: Date | null;
+    supportTicketId?: string | null;
+    resolvedAt?: Date | null;
+}
@@ -0,0 +1,113 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import Order from './order.model';
+import User from './user.model';
+
+export enum OrderTipStatus {
+    PENDING = 'pending', // Charge started, waiting for the provider
+    PAID = 'paid', // Charge received and credited to the agent
+}
+
+// Tips added after delivery. Tips given at checkout are part of the order payment.
+@Table({
+    indexes: [
+        {
+            fields: ['orderId', 'status'],
+        },
+        {
+            fields: ['paymentReference'],
+        },
+    ],
+})
+export default class OrderTip extends Model<OrderTip | IOrderTip> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => Order)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    orderId: string;
+
+    @BelongsTo(() => Order)
+    order: Order;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    customerId: string;
+
+    @BelongsTo(() => User, 'customerId')
+    customer: User;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    agentId: string;
+
+    @BelongsTo(() => User, 'agentId')
+    agent: User;
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+    })
+    amount: number;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(OrderTipStatus)),
+        allowNull: false,
+        defaultValue: OrderTipStatus.PENDING,
+    })
+    status: OrderTipStatus;
+
+    @Column({
+        type: DataType.ENUM('ALATPAY', 'PAYSTACK'),
+        allowNull: false,
+    })
+    paymentMethod: 'ALATPAY' | 'PAYSTACK';
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    paymentReference: string | null;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    paidAt: Date | null;
+}
+
+export interface IOrderTip {
+    id?: string;
+    orderId: string;
+    customerId: string;
+    agentId: string;
+    amount: number;
+    status?: OrderTipStatus;
+    paymentMethod: 'ALATPAY' | 'PAYSTACK';
+    paymentReference?: string | null;
+    paidAt?: Date | null;
+}
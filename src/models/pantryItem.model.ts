@@ -0,0 +1,143 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import User from './user.model';
+import Product from './product.model';
+import Order from './order.model';
+
+/**
+ * Something a customer buys regularly, built up from their completed orders.
+ * Purchase intervals give a consumption rate, which predicts when they'll run out.
+ */
+@Table({
+    indexes: [
+        {
+            unique: true,
+            fields: ['userId', 'normalizedName'],
+        },
+        {
+            fields: ['userId', 'estimatedRunOutAt'],
+        },
+    ],
+})
+export default class PantryItem extends Model<PantryItem | IPantryItem> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    userId: string;
+
+    @BelongsTo(() => User, { onDelete: 'CASCADE' })
+    user: User;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+    })
+    name: string; // As it appeared on the most recent order
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+    })
+    normalizedName: string; // Lowercased and singular, so "Tomatoes" and "tomato" are the same item
+
+    @IsUUID(4)
+    @ForeignKey(() => Product)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true,
+    })
+    productId: string | null; // Product bought most recently; products are per market
+
+    @BelongsTo(() => Product, { onDelete: 'SET NULL' })
+    product: Product;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    unit: string | null;
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+        defaultValue: 0,
+    })
+    lastQuantity: number; // Quantity bought on the most recent order
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: false,
+    })
+    lastPurchasedAt: Date;
+
+    @IsUUID(4)
+    @ForeignKey(() => Order)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true,
+    })
+    lastOrderId: string | null; // Guards against counting the same order twice
+
+    @BelongsTo(() => Order, { onDelete: 'SET NULL' })
+    lastOrder: Order;
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false,
+        defaultValue: 1,
+    })
+    purchaseCount: number;
+
+    @Column({
+        type: DataType.DECIMAL(10, 4),
+        allowNull: true,
+    })
+    consumptionPerDay: number | null; // Null until the item has been bought twice
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    estimatedRunOutAt: Date | null;
+
+    @Column({
+        type: DataType.BOOLEAN,
+        allowNull: false,
+        defaultValue: true,
+    })
+    isTracked: boolean; // Customers can stop restock suggestions for an item
+}
+
+export interface IPantryItem {
+    id?: string;
+    userId: string;
+    name: string;
+    normalizedName: string;
+    productId?: string | null;
+    unit?: string | null;
+    lastQuantity?: number;
+    lastPurchasedAt: Date;
+    lastOrderId?: string | null;
+    purchaseCount?: number;
+    consumptionPerDay?: number | null;
+    estimatedRunOutAt?: Date | null;
+    isTracked?: boolean;
+}
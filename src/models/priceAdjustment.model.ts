@@ -0,0 +1,159 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import Order from './order.model';
+import User from './user.model';
+
+export enum PriceAdjustmentType {
+    TOP_UP = 'top_up', // Actual prices exceeded what the customer paid
+    CREDIT = 'credit', // Customer paid more than the actual prices
+}
+
+export enum PriceAdjustmentStatus {
+    PENDING_APPROVAL = 'pending_approval', // Top-up above the threshold, waiting for the customer
+    AWAITING_PAYMENT = 'awaiting_payment', // Top-up approved, waiting for the follow-up charge
+    PAID = 'paid', // Follow-up charge received
+    DECLINED = 'declined', // Customer declined the top-up
+    PENDING_CREDIT = 'pending_credit', // Overpayment waiting to be returned
+    CREDITED = 'credited', // Overpayment returned to the customer
+    CANCELLED = 'cancelled', // Replaced by a newer calculation
+}
+
+@Table({
+    indexes: [
+        {
+            fields: ['orderId', 'status'],
+        },
+        {
+            fields: ['paymentReference'],
+        },
+    ],
+})
+export default class PriceAdjustment extends Model<PriceAdjustment | IPriceAdjustment> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => Order)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    orderId: string;
+
+    @BelongsTo(() => Order)
+    order: Order;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    customerId: string;
+
+    @BelongsTo(() => User, 'customerId')
+    customer: User;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(PriceAdjustmentType)),
+        allowNull: false,
+    })
+    type: PriceAdjustmentType;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(PriceAdjustmentStatus)),
+        allowNull: false,
+    })
+    status: PriceAdjustmentStatus;
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+    })
+    paidAmount: number; // What the customer had paid when the variance was calculated
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+    })
+    actualAmount: number; // Order total based on actual prices
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+    })
+    amount: number; // Absolute difference to collect or return
+
+    @Column({
+        type: DataType.BOOLEAN,
+        allowNull: false,
+        defaultValue: false,
+    })
+    requiresApproval: boolean;
+
+    @Column({
+        type: DataType.ENUM('ALATPAY', 'PAYSTACK'),
+        allowNull: true,
+    })
+    paymentMethod: 'ALATPAY' | 'PAYSTACK' | null;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true, // Follow-up charge reference or refund reference
+    })
+    paymentReference: string | null;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    approvedAt: Date | null;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    settledAt: Date | null;
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    declineReason: string | null;
+
+    @Column({
+        type: DataType.JSONB,
+        allowNull: true,
+    })
+    metadata: Record<string, any> | null;
+}
+
+export interface IPriceAdjustment {
+    id?: string;
+    orderId: string;
+    customerId: string;
+    type: PriceAdjustmentType;
+    status: PriceAdjustmentStatus;
+    paidAmount: number;
+    actualAmount: number;
+    amount: number;
+    requiresApproval?: boolean;
+    paymentMethod?: 'ALATPAY' | 'PAYSTACK' | null;
+    paymentReference?: string | null;
+    approvedAt?: Date | null;
+    settledAt?: Date | null;
+    declineReason?: string | null;
+    metadata?: Record<string, any> | null;
+}
@@ -9,10 +9,14 @@ import {
     PrimaryKey,
     Default,
     HasMany,
+    BeforeCreate,
+    BeforeUpdate,
+    BeforeBulkCreate,
 } from 'sequelize-typescript';
 import Market from './market.model';
 import Review from './review.model';
 import Category from './category.model';
+import UnitRegistry from '../utils/units';
 
 @Table
 export default class Product extends Model<Product | IProduct> {
@@ -104,6 +108,28 @@ export default class Product extends Model<Product | IProduct> {
 
     @HasMany(() => Review, 'productId')
     reviews: Review[];
+
+    // attributes.unit and attributes.size say how much one of the product is, e.g. 5 "kg"
+    @BeforeCreate
+    @BeforeUpdate
+    static normalizeUnit(instance: Product) {
+        const attributes = instance.attributes as Record<string, unknown> | null;
+
+        if (instance.changed('attributes') && attributes && typeof attributes.unit === 'string') {
+            // Reassigned rather than mutated so Sequelize sees the JSON change
+            instance.attributes = { ...attributes, unit: UnitRegistry.normalize(attributes.unit) };
+        }
+    }
+
+    @BeforeBulkCreate
+    static normalizeUnits(instances: Product[]) {
+        instances.forEach(instance => {
+            const attributes = instance.attributes as Record<string, unknown> | null;
+            if (attributes && typeof attributes.unit === 'string') {
+                instance.attributes = { ...attributes, unit: UnitRegistry.normalize(attributes.unit) };
+            }
+        });
+    }
 }
 
 export interface IProduct {
@@ -0,0 +1,230 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    HasMany,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import User from './user.model';
+import ShoppingList from './shoppingList.model';
+import RecurringOrderRun from './recurringOrderRun.model';
+
+export enum RecurringOrderFrequency {
+    WEEKLY = 'weekly',
+    BIWEEKLY = 'biweekly',
+    MONTHLY = 'monthly',
+}
+
+export enum RecurringOrderStatus {
+    ACTIVE = 'active',
+    PAUSED = 'paused',
+    CANCELLED = 'cancelled',
+}
+
+export enum RecurringOrderPaymentMethod {
+    WALLET = 'wallet', // Charged from the customer's wallet balance
+    CARD = 'card', // Charged to a card the customer saved from an earlier Paystack payment
+}
+
+/**
+ * A customer's standing order: a template shopping list that is copied into a
+ * fresh list and ordered on a fixed schedule.
+ */
+@Table({
+    indexes: [
+        {
+            fields: ['customerId'],
+        },
+        {
+            fields: ['status', 'nextRunAt'],
+        },
+    ],
+})
+export default class RecurringOrder extends Model<RecurringOrder | IRecurringOrder> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    customerId: string;
+
+    @BelongsTo(() => User)
+    customer: User;
+
+    @IsUUID(4)
+    @ForeignKey(() => ShoppingList)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    templateListId: string; // Shopping list with listType 'template'
+
+    @BelongsTo(() => ShoppingList, 'templateListId')
+    templateList: ShoppingList;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(RecurringOrderFrequency)),
+        allowNull: false,
+    })
+    frequency: RecurringOrderFrequency;
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: true, // Weekly and biweekly: 0 = Sunday ... 6 = Saturday
+    })
+    dayOfWeek: number | null;
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: true, // Monthly: 1-28 so every month has the day
+    })
+    dayOfMonth: number | null;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true, // "HH:mm" start of the delivery slot; null for as soon as possible
+    })
+    deliverySlotTime: string | null;
+
+    @Column({
+        type: DataType.JSONB,
+        allowNull: false,
+    })
+    deliveryAddress: {
+        latitude: number;
+        longitude: number;
+        address: string;
+        city: string;
+        state: string;
+        country: string;
+        additionalDirections?: string;
+    };
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    customerNotes: string | null;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(RecurringOrderPaymentMethod)),
+        allowNull: false,
+        defaultValue: RecurringOrderPaymentMethod.WALLET,
+    })
+    paymentMethod: RecurringOrderPaymentMethod;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    authorizationCode: string | null; // Reusable Paystack authorization for card charges
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    authorizationEmail: string | null; // Paystack only charges an authorization with the email it was issued to
+
+    @Column({
+        type: DataType.JSONB,
+        allowNull: true,
+    })
+    cardDetails: { last4: string; brand: string; expMonth: string; expYear: string; bank?: string } | null;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(RecurringOrderStatus)),
+        allowNull: false,
+        defaultValue: RecurringOrderStatus.ACTIVE,
+    })
+    status: RecurringOrderStatus;
+
+    @Column({
+        type: DataType.DATEONLY,
+        allowNull: false,
+    })
+    nextDeliveryDate: string; // Day the next order is for (YYYY-MM-DD)
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: false,
+    })
+    nextRunAt: Date; // When the next order is created and charged
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    reminderSentFor: Date | null; // nextRunAt the last reminder was for
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    lastRunAt: Date | null;
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+    })
+    consecutiveFailures: number;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    pausedAt: Date | null;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    cancelledAt: Date | null;
+
+    @HasMany(() => RecurringOrderRun)
+    runs: RecurringOrderRun[];
+}
+
+export interface IRecurringOrder {
+    id?: string;
+    customerId: string;
+    templateListId: string;
+    frequency: RecurringOrderFrequency;
+    dayOfWeek?: number | null;
+    dayOfMonth?: number | null;
+    deliverySlotTime?: string | null;
+    deliveryAddress: {
+        latitude: number;
+        longitude: number;
+        address: string;
+        city: string;
+        state: string;
+        country: string;
+        additionalDirections?: string;
+    };
+    customerNotes?: string | null;
+    paymentMethod?: RecurringOrderPaymentMethod;
+    authorizationCode?: string | null;
+    authorizationEmail?: string | null;
+    cardDetails?: { last4: string; brand: string; expMonth: string; expYear: string; bank?: string } | null;
+    status?: RecurringOrderStatus;
+    nextDeliveryDate: string;
+    nextRunAt: Date;
+    reminderSentFor?: Date | null;
+    lastRunAt?: Date | null;
+    consecutiveFailures?: number;
+    pausedAt?: Date | null;
+    cancelledAt?: Date | null;
+}
@@ -0,0 +1,98 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import RecurringOrder from './recurringOrder.model';
+import ShoppingList from './shoppingList.model';
+import Order from './order.model';
+
+export enum RecurringOrderRunStatus {
+    PROCESSING = 'processing', // Claimed by the scheduler
+    ORDER_PLACED = 'order_placed', // Order created; see the order for payment status
+    SKIPPED = 'skipped', // Customer skipped this occurrence
+    FAILED = 'failed',
+}
+
+@Table({
+    indexes: [
+        {
+            unique: true, // Each occurrence runs at most once
+            fields: ['recurringOrderId', 'scheduledFor'],
+        },
+    ],
+})
+export default class RecurringOrderRun extends Model<RecurringOrderRun | IRecurringOrderRun> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => RecurringOrder)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    recurringOrderId: string;
+
+    @BelongsTo(() => RecurringOrder)
+    recurringOrder: RecurringOrder;
+
+    @Column({
+        type: DataType.DATEONLY,
+        allowNull: false,
+    })
+    scheduledFor: string; // Delivery date of the occurrence
+
+    @Column({
+        type: DataType.ENUM(...Object.values(RecurringOrderRunStatus)),
+        allowNull: false,
+    })
+    status: RecurringOrderRunStatus;
+
+    @IsUUID(4)
+    @ForeignKey(() => ShoppingList)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true,
+    })
+    shoppingListId: string | null;
+
+    @BelongsTo(() => ShoppingList)
+    shoppingList: ShoppingList;
+
+    @IsUUID(4)
+    @ForeignKey(() => Order)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true,
+    })
+    orderId: string | null;
+
+    @BelongsTo(() => Order)
+    order: Order;
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    failureReason: string | null;
+}
+
+export interface IRecurringOrderRun {
+    id?: string;
+    recurringOrderId: string;
+    scheduledFor: string;
+    status: RecurringOrderRunStatus;
+    shoppingListId?: string | null;
+    orderId?: string | null;
+    failureReason?: string | null;
+}
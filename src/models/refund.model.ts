@@ -0,0 +1,210 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import Order from './order.model';
+import User from './user.model';
+
+export enum RefundType {
+    FULL = 'full', // Everything the customer paid
+    PARTIAL = 'partial', // Paid amount less deductions (fees, items already bought)
+}
+
+export enum RefundReason {
+    ORDER_CANCELLED = 'order_cancelled',
+    PRICE_ADJUSTMENT = 'price_adjustment', // Actual prices came in below what was paid
+    ITEM_UNAVAILABLE = 'item_unavailable',
+    DISPUTE = 'dispute', // Customer claim upheld after delivery
+    OTHER = 'other',
+}
+
+export enum RefundStatus {
+    PENDING_APPROVAL = 'pending_approval', // Waiting for an admin to review
+    APPROVED = 'approved', // Approved, waiting to be paid out (manual payouts stay here)
+    PROCESSING = 'processing', // Submitted to the payment provider
+    COMPLETED = 'completed', // Money returned to the customer
+    FAILED = 'failed', // Provider rejected the refund; can be approved again to retry
+    REJECTED = 'rejected', // Admin declined the refund
+}
+
+// Breakdown of what was held back from the amount paid
+export interface IRefundDeductions {
+    serviceFee: number;
+    deliveryFee: number;
+    purchasedItems: number;
+}
+
+@Table({
+    indexes: [
+        {
+            fields: ['orderId', 'status'],
+        },
+        {
+            fields: ['status'],
+        },
+        {
+            fields: ['providerReference'],
+        },
+    ],
+})
+export default class Refund extends Model<Refund | IRefund> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => Order)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    orderId: string;
+
+    @BelongsTo(() => Order)
+    order: Order;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    customerId: string;
+
+    @BelongsTo(() => User, 'customerId')
+    customer: User;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(RefundType)),
+        allowNull: false,
+    })
+    type: RefundType;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(RefundReason)),
+        allowNull: false,
+    })
+    reason: RefundReason;
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    reasonDetails: string | null;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(RefundStatus)),
+        allowNull: false,
+    })
+    status: RefundStatus;
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+    })
+    paidAmount: number; // What the customer had paid when the refund was raised
+
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: false,
+    })
+    amount: number; // Amount to return
+
+    @Column({
+        type: DataType.JSONB,
+        allowNull: true,
+    })
+    deductions: IRefundDeductions | null;
+
+    @Column({
+        type: DataType.ENUM('ALATPAY', 'PAYSTACK', 'WALLET'),
+        allowNull: true,
+    })
+    provider: 'ALATPAY' | 'PAYSTACK' | 'WALLET' | null;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true, // Reference of the original charge being refunded
+    })
+    transactionReference: string | null;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true, // Provider refund ID, or the transfer reference for manual payouts
+    })
+    providerReference: string | null;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+    })
+    initiatedBy: string; // User ID, admin ID/email or 'system'
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    approvedBy: string | null;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    approvedAt: Date | null;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    processedAt: Date | null;
+
+    @Column({
+        type: DataType.TEXT,
+        allowNull: true,
+    })
+    failureReason: string | null;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    reconciledAt: Date | null;
+
+    @Column({
+        type: DataType.JSONB,
+        allowNull: true,
+    })
+    metadata: Record<string, any> | null;
+}
+
+export interface IRefund {
+    id?: string;
+    orderId: string;
+    customerId: string;
+    type: RefundType;
+    reason: RefundReason;
+    reasonDetails?: string | null;
+    status: RefundStatus;
+    paidAmount: number;
+    amount: number;
+    deductions?: IRefundDeductions | null;
+    provider?: 'ALATPAY' | 'PAYSTACK' | 'WALLET' | null;
+    transactionReference?: string | null;
+    providerReference?: string | null;
+    initiatedBy: string;
+    approvedBy?: string | null;
+    approvedAt?: Date | null;
+    processedAt?: Date | null;
+    failureReason?: string | null;
+    reconciledAt?: Date | null;
+    metadata?: Record<string, any> | null;
+}
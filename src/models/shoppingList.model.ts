@@ -13,6 +13,7 @@ import {
 import User from './user.model';
 import Market from './market.model';
 import ShoppingListItem from './shoppingListItem.model';
+import ShoppingListCollaborator from './shoppingListCollaborator.model';
 
 @Table
 export default class ShoppingList extends Model<ShoppingList | IShoppingList> {
@@ -184,6 +185,18 @@ export default class ShoppingList extends Model<ShoppingList | IShoppingList> {
     })
     sortOrder: number;
 
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: true, // No cap unless the customer sets one
+    })
+    budget: number | null;
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    budgetWarningSentAt: Date | null; // When the agent was warned that actual prices are nearing the budget
+
     @IsUUID(4)
     @ForeignKey(() => User)
     @Column({
@@ -198,6 +211,9 @@ export default class ShoppingList extends Model<ShoppingList | IShoppingList> {
     @HasMany(() => ShoppingListItem)
     items: ShoppingListItem[];
 
+    @HasMany(() => ShoppingListCollaborator)
+    collaborators: ShoppingListCollaborator[];
+
     // Virtual fields
     get itemCount(): number {
         return this.items ? this.items.length : 0;
@@ -232,5 +248,7 @@ export interface IShoppingList {
     isReadOnly?: boolean;
     sourceSuggestedListId?: string | null;
     sortOrder?: number;
+    budget?: number | null;
+    budgetWarningSentAt?: Date | null;
     createdBy?: string;
 }
@@ -0,0 +1,129 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import User from './user.model';
+import ShoppingList from './shoppingList.model';
+
+export enum CollaboratorRole {
+    OWNER = 'owner', // The list's customer; never stored as a collaborator row
+    EDITOR = 'editor', // Can add, change and remove items
+    VIEWER = 'viewer', // Can only see the list
+}
+
+export enum CollaboratorStatus {
+    PENDING = 'pending', // Invited, not yet accepted
+    ACCEPTED = 'accepted',
+    DECLINED = 'declined',
+    REMOVED = 'removed', // Removed by the owner, or left the list
+}
+
+/**
+ * Someone other than the owner who has been invited to a shopping list.
+ * Invitations can go to people who don't have an account yet; they are
+ * matched to the user by email or phone when accepted.
+ */
+@Table({
+    indexes: [
+        {
+            fields: ['shoppingListId'],
+        },
+        {
+            fields: ['userId', 'status'],
+        },
+        {
+            fields: ['inviteEmail'],
+        },
+    ],
+})
+export default class ShoppingListCollaborator extends Model<ShoppingListCollaborator | IShoppingListCollaborator> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => ShoppingList)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    shoppingListId: string;
+
+    @BelongsTo(() => ShoppingList, { onDelete: 'CASCADE' })
+    shoppingList: ShoppingList;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true, // Null until someone without an account signs up and accepts
+    })
+    userId: string | null;
+
+    @BelongsTo(() => User, 'userId')
+    user: User;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    invitedBy: string;
+
+    @BelongsTo(() => User, 'invitedBy')
+    inviter: User;
+
+    @Column({
+        type: DataType.ENUM(CollaboratorRole.EDITOR, CollaboratorRole.VIEWER),
+        allowNull: false,
+        defaultValue: CollaboratorRole.EDITOR,
+    })
+    role: CollaboratorRole.EDITOR | CollaboratorRole.VIEWER;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(CollaboratorStatus)),
+        allowNull: false,
+        defaultValue: CollaboratorStatus.PENDING,
+    })
+    status: CollaboratorStatus;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    inviteEmail: string | null; // Lowercased
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    invitePhone: string | null; // Last 10 digits, so +234 and 0-prefixed numbers match
+
+    @Column({
+        type: DataType.DATE,
+        allowNull: true,
+    })
+    respondedAt: Date | null;
+}
+
+export interface IShoppingListCollaborator {
+    id?: string;
+    shoppingListId: string;
+    userId?: string | null;
+    invitedBy: string;
+    role?: CollaboratorRole.EDITOR | CollaboratorRole.VIEWER;
+    status?: CollaboratorStatus;
+    inviteEmail?: string | null;
+    invitePhone?: string | null;
+    respondedAt?: Date | null;
+}
@@ -8,9 +8,21 @@ import {
     IsUUID,
     PrimaryKey,
     Default,
+    BeforeCreate,
+    BeforeUpdate,
+    BeforeBulkCreate,
 } from 'sequelize-typescript';
 import Product from './product.model';
 import ShoppingList from './shoppingList.model';
+import User from './user.model';
+import UnitRegistry from '../utils/units';
+
+// How the agent should handle the item if it is out of stock
+export enum SubstitutionPreference {
+    NO_SUBSTITUTE = 'no_substitute', // Skip the item entirely
+    ANY_BRAND = 'any_brand', // Any similar product is fine
+    CALL_ME = 'call_me', // Customer must confirm before replacing
+}
 
 @Table
 export default class ShoppingListItem extends Model<ShoppingListItem | IShoppingListItem> {
@@ -109,6 +121,59 @@ export default class ShoppingListItem extends Model<ShoppingListItem | IShopping
         allowNull: true, // Can be null if no product image is available
     })
     productImage: string | null;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(SubstitutionPreference)),
+        allowNull: false,
+        defaultValue: SubstitutionPreference.ANY_BRAND,
+    })
+    substitutionPreference: SubstitutionPreference;
+
+    // Who added the item, for lists shared with collaborators
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true,
+    })
+    addedBy: string | null;
+
+    @BelongsTo(() => User, 'addedBy')
+    addedByUser: User;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true,
+    })
+    updatedBy: string | null;
+
+    @BelongsTo(() => User, 'updatedBy')
+    updatedByUser: User;
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false,
+        defaultValue: 0,
+    })
+    version: number; // Bumped on every edit so collaborators can't overwrite each other's changes unseen
+
+    // Store units in canonical form ("Kilos" -> "kg") so quantities can be converted and compared
+    @BeforeCreate
+    @BeforeUpdate
+    static normalizeUnit(instance: ShoppingListItem) {
+        if (instance.changed('unit')) {
+            instance.unit = UnitRegistry.normalize(instance.unit);
+        }
+    }
+
+    @BeforeBulkCreate
+    static normalizeUnits(instances: ShoppingListItem[]) {
+        instances.forEach(instance => {
+            instance.unit = UnitRegistry.normalize(instance.unit);
+        });
+    }
 }
 
 export interface IShoppingListItem {
@@ -125,4 +190,8 @@ export interface IShoppingListItem {
     shoppingListId: string;
     productId?: string | null;
     productImage?: string | null;
+    substitutionPreference?: SubstitutionPreference;
+    addedBy?: string | null;
+    updatedBy?: string | null;
+    version?: number;
 }
@@ -0,0 +1,124 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import User from './user.model';
+import ShoppingList from './shoppingList.model';
+import { SubstitutionPreference } from './shoppingListItem.model';
+
+export enum ShoppingListChangeType {
+    CREATED = 'created',
+    LIST_UPDATED = 'list_updated', // Name, notes or market
+    ITEM_ADDED = 'item_added',
+    ITEM_UPDATED = 'item_updated',
+    ITEM_REMOVED = 'item_removed',
+    PRICES_UPDATED = 'prices_updated', // Agent recorded actual prices while shopping
+    RESTORED = 'restored', // Rolled back to an earlier version
+}
+
+export interface IShoppingListSnapshotItem {
+    id: string;
+    name: string;
+    quantity: number;
+    unit: string | null;
+    notes: string | null;
+    estimatedPrice: number | null;
+    userProvidedPrice: number | null;
+    actualPrice: number | null;
+    productId: string | null;
+    productImage: string | null;
+    substitutionPreference: SubstitutionPreference;
+    addedBy: string | null;
+}
+
+export interface IShoppingListSnapshot {
+    name: string;
+    notes: string | null;
+    marketId: string | null;
+    status: string;
+    estimatedTotal: number | null;
+    items: IShoppingListSnapshotItem[];
+}
+
+/**
+ * A copy of a shopping list and its items taken after every change,
+ * so customers can see what changed, who changed it, and roll back a draft.
+ */
+@Table({
+    indexes: [
+        {
+            unique: true,
+            fields: ['shoppingListId', 'version'],
+        },
+    ],
+})
+export default class ShoppingListVersion extends Model<ShoppingListVersion | IShoppingListVersion> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => ShoppingList)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    shoppingListId: string;
+
+    @BelongsTo(() => ShoppingList, { onDelete: 'CASCADE' })
+    shoppingList: ShoppingList;
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: false,
+    })
+    version: number; // Starts at 1 for each list
+
+    @Column({
+        type: DataType.ENUM(...Object.values(ShoppingListChangeType)),
+        allowNull: false,
+    })
+    changeType: ShoppingListChangeType;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true, // Null for changes made by the system
+    })
+    changedBy: string | null;
+
+    @BelongsTo(() => User, 'changedBy')
+    changedByUser: User;
+
+    @Column({
+        type: DataType.JSONB,
+        allowNull: false,
+    })
+    snapshot: IShoppingListSnapshot;
+
+    @Column({
+        type: DataType.INTEGER,
+        allowNull: true,
+    })
+    restoredFromVersion: number | null;
+}
+
+export interface IShoppingListVersion {
+    id?: string;
+    shoppingListId: string;
+    version: number;
+    changeType: ShoppingListChangeType;
+    changedBy?: string | null;
+    snapshot: IShoppingListSnapshot;
+    restoredFromVersion?: number | null;
+}
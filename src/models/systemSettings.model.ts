@@ -47,7 +47,55 @@ export enum SYSTEM_SETTING_KEYS {
     FIRST_ORDER_DISCOUNT = 'first_order_discount',
     COURIER_SELECTION_SETTINGS = 'courier_selection_settings',
     ADMIN_PHONE = 'admin_phone',
-    ADMIN_EMAIL = 'admin_email'
+    ADMIN_EMAIL = 'admin_email',
+    SUBSTITUTION_RESPONSE_TIMEOUT_MINUTES = 'substitution_response_timeout_minutes',
+    PRICE_VARIANCE_APPROVAL_THRESHOLD = 'price_variance_approval_threshold',
+    AGENT_COMMISSION_RULES = 'agent_commission_rules',
+    AGENT_PAYOUT_MINIMUM_AMOUNT = 'agent_payout_minimum_amount',
+    DELIVERY_SLOT_SETTINGS = 'delivery_slot_settings',
+    ORDER_SLA_SETTINGS = 'order_sla_settings',
+    UNIT_CONVERSIONS = 'unit_conversions',
+}
+
+// How an agent's commission on a completed order is worked out
+export interface IAgentCommissionRules {
+    deliveryFeePercentage: number;
+    serviceFeePercentage: number;
+    flatAmountPerOrder: number;
+    minimumPerOrder: number; // Commission is topped up to this if the rules above come to less
+    reimburseShoppingCosts: boolean; // Pay agents back for items they bought at the market
+}
+
+// How scheduled delivery windows are laid out and how many orders each can take
+export interface IDeliverySlotSettings {
+    slotDurationMinutes: number;
+    defaultMarketCapacity: number;
+    marketCapacities: Record<string, number>; // Market ID -> orders per window
+    defaultZoneCapacity: number; // Orders per window across a delivery zone; 0 means no zone limit
+    zoneCapacities: Record<string, number>; // Zone ("state:city", lowercase) -> orders per window
+    minimumLeadTimeMinutes: number; // Earliest a window can start after checkout
+    maxDaysAhead: number;
+    assignmentLeadTimeMinutes: number; // How long before a window starts an agent is assigned
+}
+
+// How long an order may sit in each stage before it is escalated
+export interface IOrderSlaSettings {
+    assignmentMinutes: number; // Paid order gets an agent
+    shoppingStartMinutes: number; // Agent starts shopping after being assigned
+    shoppingMinutes: number; // Agent finishes shopping after starting
+    atRiskPercentage: number; // Share of the SLA used up before an order shows as at risk
+    ticketAfterMinutes: number; // How long past the SLA before a support ticket is opened
+}
+
+// Approximate size of a local market unit in grams, millilitres or pieces
+export interface ILocalUnitConversion {
+    dimension: 'mass' | 'volume' | 'count';
+    size: number;
+    itemSizes?: Record<string, number>; // Item name (lowercase, singular) -> size where it differs, e.g. a mudu of garri weighs less than one of rice
+}
+
+export interface IUnitConversionSettings {
+    localUnits: Record<string, ILocalUnitConversion>; // Keyed by unit code, e.g. "mudu"
 }
 
 export interface ISystemSettings {
@@ -112,6 +160,13 @@ export type SystemSettingValueMap = {
     [SYSTEM_SETTING_KEYS.MAXIMUM_SINGLE_DISCOUNT_AMOUNT]: number;
     [SYSTEM_SETTING_KEYS.MINIMUM_ORDER_FOR_DISCOUNT]: number;
     [SYSTEM_SETTING_KEYS.PAYMENT_TIMEOUT_MINUTES]: number;
+    [SYSTEM_SETTING_KEYS.SUBSTITUTION_RESPONSE_TIMEOUT_MINUTES]: number;
+    [SYSTEM_SETTING_KEYS.PRICE_VARIANCE_APPROVAL_THRESHOLD]: number;
+    [SYSTEM_SETTING_KEYS.AGENT_COMMISSION_RULES]: IAgentCommissionRules;
+    [SYSTEM_SETTING_KEYS.AGENT_PAYOUT_MINIMUM_AMOUNT]: number;
+    [SYSTEM_SETTING_KEYS.DELIVERY_SLOT_SETTINGS]: IDeliverySlotSettings;
+    [SYSTEM_SETTING_KEYS.ORDER_SLA_SETTINGS]: IOrderSlaSettings;
+    [SYSTEM_SETTING_KEYS.UNIT_CONVERSIONS]: IUnitConversionSettings;
     [SYSTEM_SETTING_KEYS.SUPPORTED_PAYMENT_METHODS]: string[];
     [SYSTEM_SETTING_KEYS.MAINTENANCE_MODE]: boolean;
     [SYSTEM_SETTING_KEYS.MAX_ITEMS_PER_LIST]: number;
@@ -30,6 +30,7 @@ export type userTypeValues = 'agent' | 'customer';
 export interface IUserStatus {
     activated: boolean;
     emailVerified: boolean;
+    phoneVerified?: boolean; // Confirmed with a code sent to the number; cleared when the number changes
     userType: userTypeValues;
 }
 
@@ -265,6 +266,7 @@ export interface IUser {
     status: {
         activated: boolean;
         emailVerified: boolean;
+        phoneVerified?: boolean;
         userType: userTypeValues;
     };
     displayImage?: string;
@@ -81,6 +81,12 @@ export default class UserSettings extends Model<UserSettings | IUserSettings> {
     })
     agentMetaData: IAgentMeta | null;
 
+    @Column({
+        type: DataType.DECIMAL(10, 2),
+        allowNull: true,
+    })
+    monthlyBudget: number | null; // Household grocery budget; null means no cap
+
     @IsUUID(4)
     @Unique
     @ForeignKey(() => User)
@@ -102,6 +108,7 @@ export interface IUserSettings {
     isKycVerified?: boolean;
     agentMetaData?: IAgentMeta | null;
     meta?: IBlockMeta | null;
+    monthlyBudget?: number | null;
 }
 
 export interface ILivenessVerification {
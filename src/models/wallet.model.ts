@@ -0,0 +1,97 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    HasMany,
+    IsUUID,
+    PrimaryKey,
+    Default,
+} from 'sequelize-typescript';
+import User from './user.model';
+import WalletEntry from './walletEntry.model';
+
+export enum WalletType {
+    CUSTOMER = 'customer',
+    SYSTEM = 'system', // Platform-side accounts that fund or receive customer money
+}
+
+// Every credit to a customer wallet is balanced by a debit on one of these
+export enum SystemWalletAccount {
+    REFUNDS = 'refunds',
+    REFERRAL_REWARDS = 'referral_rewards',
+    PROMOTIONS = 'promotions',
+    ORDER_PAYMENTS = 'order_payments',
+}
+
+@Table({
+    indexes: [
+        {
+            unique: true,
+            fields: ['userId'],
+        },
+        {
+            unique: true,
+            fields: ['systemAccount'],
+        },
+    ],
+})
+export default class Wallet extends Model<Wallet | IWallet> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => User)
+    @Column({
+        type: DataType.UUID,
+        allowNull: true, // Null for system accounts
+    })
+    userId: string | null;
+
+    @BelongsTo(() => User)
+    user: User;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(WalletType)),
+        allowNull: false,
+        defaultValue: WalletType.CUSTOMER,
+    })
+    type: WalletType;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(SystemWalletAccount)),
+        allowNull: true,
+    })
+    systemAccount: SystemWalletAccount | null;
+
+    @Column({
+        type: DataType.DECIMAL(12, 2),
+        allowNull: false,
+        defaultValue: 0,
+    })
+    balance: number; // Credits minus debits; kept in step with the ledger inside the same transaction
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+        defaultValue: 'NGN',
+    })
+    currency: string;
+
+    @HasMany(() => WalletEntry)
+    entries: WalletEntry[];
+}
+
+export interface IWallet {
+    id?: string;
+    userId?: string | null;
+    type?: WalletType;
+    systemAccount?: SystemWalletAccount | null;
+    balance?: number;
+    currency?: string;
+}
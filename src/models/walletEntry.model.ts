@@ -0,0 +1,102 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    ForeignKey,
+    BelongsTo,
+    IsUUID,
+    PrimaryKey,
+    Default,
+    BeforeUpdate,
+    BeforeDestroy,
+    BeforeBulkUpdate,
+    BeforeBulkDestroy,
+} from 'sequelize-typescript';
+import Wallet from './wallet.model';
+import WalletTransaction from './walletTransaction.model';
+
+export enum WalletEntryDirection {
+    DEBIT = 'debit', // Money leaving the wallet
+    CREDIT = 'credit', // Money entering the wallet
+}
+
+@Table({
+    updatedAt: false,
+    indexes: [
+        {
+            fields: ['walletId', 'createdAt'],
+        },
+        {
+            fields: ['transactionId'],
+        },
+    ],
+})
+export default class WalletEntry extends Model<WalletEntry | IWalletEntry> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @IsUUID(4)
+    @ForeignKey(() => WalletTransaction)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    transactionId: string;
+
+    @BelongsTo(() => WalletTransaction, 'transactionId')
+    walletTransaction: WalletTransaction;
+
+    @IsUUID(4)
+    @ForeignKey(() => Wallet)
+    @Column({
+        type: DataType.UUID,
+        allowNull: false,
+    })
+    walletId: string;
+
+    @BelongsTo(() => Wallet)
+    wallet: Wallet;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(WalletEntryDirection)),
+        allowNull: false,
+    })
+    direction: WalletEntryDirection;
+
+    @Column({
+        type: DataType.DECIMAL(12, 2),
+        allowNull: false,
+    })
+    amount: number;
+
+    @Column({
+        type: DataType.DECIMAL(12, 2),
+        allowNull: false,
+    })
+    balanceAfter: number; // Wallet balance once this entry was applied
+
+    @BeforeUpdate
+    @BeforeBulkUpdate
+    static preventUpdate() {
+        throw new Error('Wallet entries cannot be modified');
+    }
+
+    @BeforeDestroy
+    @BeforeBulkDestroy
+    static preventDestroy() {
+        throw new Error('Wallet entries cannot be deleted');
+    }
+}
+
+export interface IWalletEntry {
+    id?: string;
+    transactionId: string;
+    walletId: string;
+    direction: WalletEntryDirection;
+    amount: number;
+    balanceAfter: number;
+}
@@ -0,0 +1,120 @@
+import {
+    Table,
+    Column,
+    Model,
+    DataType,
+    HasMany,
+    IsUUID,
+    PrimaryKey,
+    Default,
+    BeforeUpdate,
+    BeforeDestroy,
+    BeforeBulkUpdate,
+    BeforeBulkDestroy,
+} from 'sequelize-typescript';
+import WalletEntry from './walletEntry.model';
+
+export enum WalletTransactionType {
+    REFUND = 'refund', // Order refund paid into the wallet
+    REFERRAL_CASHBACK = 'referral_cashback', // Cashback or credit referral bonus
+    PROMOTION = 'promotion', // Credit granted by an admin
+    ORDER_PAYMENT = 'order_payment', // Wallet funds applied at checkout
+    ORDER_PAYMENT_RELEASE = 'order_payment_release', // Checkout funds returned when payment didn't go through
+    DISPUTE_CREDIT = 'dispute_credit', // Store credit for an upheld order dispute
+}
+
+@Table({
+    updatedAt: false,
+    indexes: [
+        {
+            unique: true,
+            fields: ['idempotencyKey'],
+        },
+        {
+            fields: ['referenceType', 'referenceId'],
+        },
+    ],
+})
+export default class WalletTransaction extends Model<WalletTransaction | IWalletTransaction> {
+    @IsUUID(4)
+    @PrimaryKey
+    @Default(DataType.UUIDV4)
+    @Column
+    id: string;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false, // Posting the same key twice returns the original transaction
+    })
+    idempotencyKey: string;
+
+    @Column({
+        type: DataType.ENUM(...Object.values(WalletTransactionType)),
+        allowNull: false,
+    })
+    type: WalletTransactionType;
+
+    @Column({
+        type: DataType.DECIMAL(12, 2),
+        allowNull: false,
+    })
+    amount: number;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+    })
+    description: string;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    referenceType: 'order' | 'refund' | 'referral_bonus' | 'admin' | 'dispute' | null;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: true,
+    })
+    referenceId: string | null;
+
+    @Column({
+        type: DataType.STRING,
+        allowNull: false,
+    })
+    performedBy: string; // User ID, admin ID/email or 'system'
+
+    @Column({
+        type: DataType.JSONB,
+        allowNull: true,
+    })
+    metadata: Record<string, any> | null;
+
+    @HasMany(() => WalletEntry, 'transactionId')
+    entries: WalletEntry[];
+
+    // The ledger is append-only: corrections are posted as new transactions
+    @BeforeUpdate
+    @BeforeBulkUpdate
+    static preventUpdate() {
+        throw new Error('Wallet transactions cannot be modified');
+    }
+
+    @BeforeDestroy
+    @BeforeBulkDestroy
+    static preventDestroy() {
+        throw new Error('Wallet transactions cannot be deleted');
+    }
+}
+
+export interface IWalletTransaction {
+    id?: string;
+    idempotencyKey: string;
+    type: WalletTransactionType;
+    amount: number;
+    description: string;
+    referenceType?: 'order' | 'refund' | 'referral_bonus' | 'admin' | 'dispute' | null;
+    referenceId?: string | null;
+    performedBy: string;
+    metadata?: Record<string, any> | null;
+}
@@ -4,6 +4,7 @@ import { logger } from '../utils/logger';
 import AgentService from '../services/agent.service';
 import ShoppingListService from '../services/shoppingList.service';
 import OrderTrailService from '../services/orderTrail.service';
+import Order from '../models/order.model';
 import { connection } from './connection';
 
 // Define job data interface
@@ -41,10 +42,20 @@ const agentAssignmentWorker = new Worker<AgentAssignmentJobData>(
         logger.info(`Attempting to assign agent to order ${orderId} (attempt ${attemptCount + 1})`);
 
         try {
-            // Get the best available agents for this order
+            // Scheduled assignments can sit in the queue for days; the order may have moved on since
+            const order = await Order.findByPk(orderId, {
+                attributes: ['id', 'status', 'paymentStatus', 'agentId', 'rejectedAgents'],
+            });
+
+            if (!order || order.status === 'cancelled' || order.paymentStatus !== 'completed' || order.agentId) {
+                logger.info(`Skipping agent assignment for order ${orderId}: no longer waiting for an agent`);
+                return { success: true, skipped: true, agentId: order?.agentId ?? null };
+            }
+
+            // Get the best available agents for this order, skipping agents who already dropped it
             const availableAgents = await AgentService.getAvailableAgentsForOrder(
                 shoppingListId,
-                [] // No exclusions on first attempt
+                (order.rejectedAgents || []).map(rejection => rejection.agentId),
             );
 
             if (availableAgents.length === 0) {
@@ -110,6 +121,9 @@ agentAssignmentWorker.on('failed', (job: any, error: Error) => {
 });
 
 agentAssignmentWorker.on('completed', (job: any, result: any) => {
+    if (result?.skipped) {
+        return;
+    }
     logger.info(`Agent assignment completed for order ${job.data.orderId}: Agent ${result.agentId} assigned`);
 });
 
@@ -155,6 +169,17 @@ export async function queueAgentAssignment(
     }
 }
 
+// Helper function to assign an agent to a scheduled order at a set time ahead of its delivery slot
+export async function queueScheduledAgentAssignment(
+    orderId: string,
+    shoppingListId: string,
+    userId: string,
+    assignAt: Date
+): Promise<void> {
+    const delayMinutes = Math.max(0, Math.ceil((assignAt.getTime() - Date.now()) / (60 * 1000)));
+    return queueAgentAssignment(orderId, shoppingListId, userId, delayMinutes);
+}
+
 // Helper function to immediately try agent assignment (for immediate retries)
 export async function queueImmediateAgentAssignment(
     orderId: string, 
@@ -9,6 +9,28 @@ import {
 import {
     agentAssignmentQueue,
 } from './agent.queue';
+import {
+    substitutionTimeoutQueue,
+} from './substitution.queue';
+import {
+    payoutBatchQueue,
+    schedulePayoutBatch,
+} from './payout.queue';
+import {
+    recurringOrderQueue,
+    scheduleRecurringOrderScan,
+} from './recurringOrder.queue';
+import {
+    invoiceEmailQueue,
+} from './invoice.queue';
+import {
+    orderSlaQueue,
+    scheduleOrderSlaScan,
+} from './orderSla.queue';
+import {
+    pantryQueue,
+    schedulePantryRestockReminders,
+} from './pantry.queue';
 import {
     emailNotificationQueue,
     pushNotificationQueue,
@@ -24,6 +46,24 @@ export const queues = {
     agent: {
         agentAssignmentQueue,
     },
+    substitution: {
+        substitutionTimeoutQueue,
+    },
+    payout: {
+        payoutBatchQueue,
+    },
+    recurringOrder: {
+        recurringOrderQueue,
+    },
+    invoice: {
+        invoiceEmailQueue,
+    },
+    orderSla: {
+        orderSlaQueue,
+    },
+    pantry: {
+        pantryQueue,
+    },
     notification: {
         emailNotificationQueue,
         pushNotificationQueue,
@@ -43,6 +83,24 @@ export const initializeRecurringJobs = async (app: Express) => {
             // Agent queues
             agentAssignmentQueue,
 
+            // Substitution queues
+            substitutionTimeoutQueue,
+
+            // Payout queues
+            payoutBatchQueue,
+
+            // Recurring order queues
+            recurringOrderQueue,
+
+            // Invoice queues
+            invoiceEmailQueue,
+
+            // Order SLA queues
+            orderSlaQueue,
+
+            // Pantry queues
+            pantryQueue,
+
             // Notification queues
             emailNotificationQueue,
             pushNotificationQueue,
@@ -51,6 +109,18 @@ export const initializeRecurringJobs = async (app: Express) => {
             // Add other queues here as needed
         });
 
+        // Recurring agent payout batch
+        await schedulePayoutBatch();
+
+        // Recurring order scan (reminders and due orders)
+        await scheduleRecurringOrderScan();
+
+        // Order SLA watcher (flags and escalates overdue orders)
+        await scheduleOrderSlaScan();
+
+        // Weekly pantry restock reminders
+        await schedulePantryRestockReminders();
+
         // Mount Bull Board routes
         bullBoard.mount(app);
 
@@ -76,6 +146,24 @@ export const gracefulShutdown = async () => {
             // Agent queues
             agentAssignmentQueue.close(),
 
+            // Substitution queues
+            substitutionTimeoutQueue.close(),
+
+            // Payout queues
+            payoutBatchQueue.close(),
+
+            // Recurring order queues
+            recurringOrderQueue.close(),
+
+            // Invoice queues
+            invoiceEmailQueue.close(),
+
+            // Order SLA queues
+            orderSlaQueue.close(),
+
+            // Pantry queues
+            pantryQueue.close(),
+
             // Notification queues
             emailNotificationQueue.close(),
             pushNotificationQueue.close(),
@@ -96,6 +184,12 @@ export {
     paymentWebhookQueue,
     paymentExpiryCheckQueue,
     agentAssignmentQueue,
+    substitutionTimeoutQueue,
+    payoutBatchQueue,
+    recurringOrderQueue,
+    invoiceEmailQueue,
+    orderSlaQueue,
+    pantryQueue,
     emailNotificationQueue,
     pushNotificationQueue,
     bulkNotificationQueue,
@@ -0,0 +1,82 @@
+// src/queues/invoice.queue.ts
+import { Queue, Worker } from 'bullmq';
+import { logger } from '../utils/logger';
+import { connection } from './connection';
+
+// Define job data interface
+interface InvoiceEmailJobData {
+    orderId: string;
+}
+
+// Create queue for invoice emails; PDF rendering is too slow to run inline
+export const invoiceEmailQueue = new Queue<InvoiceEmailJobData>('invoice-emails', {
+    connection,
+    defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+            type: 'exponential',
+            delay: 60000,
+        },
+        removeOnComplete: { count: 50 },
+        removeOnFail: { count: 100 },
+    },
+});
+
+// Process invoice email jobs
+const invoiceEmailWorker = new Worker<InvoiceEmailJobData>(
+    'invoice-emails',
+    async job => {
+        if (job.name !== 'send-invoice') {
+            throw new Error(`Unknown job name: ${job.name}`);
+        }
+
+        const { orderId } = job.data;
+
+        // Import services here to avoid circular dependencies
+        const InvoiceService = (await import('../services/invoice.service')).default;
+
+        const sent = await InvoiceService.sendInvoiceEmail(orderId);
+        if (!sent) {
+            throw new Error(`Invoice email for order ${orderId} was not sent`);
+        }
+
+        return { orderId, sent };
+    },
+    {
+        connection,
+        concurrency: 1, // Each job starts a headless browser
+    },
+);
+
+// Error handling
+invoiceEmailWorker.on('error', (error: Error) => {
+    logger.error('Invoice email worker error:', error);
+});
+
+invoiceEmailWorker.on('failed', (job: any, error: Error) => {
+    logger.error(`Invoice email job ${job?.id} failed:`, error);
+});
+
+invoiceEmailWorker.on('completed', (job: any) => {
+    logger.info(`Invoice emailed for order ${job.data.orderId}`);
+});
+
+// Helper function to email the invoice once an order is completed
+export async function queueInvoiceEmail(orderId: string): Promise<void> {
+    try {
+        await invoiceEmailQueue.add(
+            'send-invoice',
+            { orderId },
+            {
+                // One invoice email per order, however many completion paths fire
+                jobId: `invoice-${orderId}`,
+            }
+        );
+
+        logger.info(`Queued invoice email for order ${orderId}`);
+    } catch (error) {
+        logger.error(`Error queuing invoice email for order ${orderId}:`, error);
+    }
+}
+
+export { invoiceEmailWorker };
@@ -0,0 +1,69 @@
+// src/queues/orderSla.queue.ts
+import { Queue, Worker } from 'bullmq';
+import { logger } from '../utils/logger';
+import { ORDER_SLA_SCAN_CRON } from '../utils/constants';
+import { connection } from './connection';
+
+// Create queue for the watcher that flags and escalates orders overrunning their SLAs
+export const orderSlaQueue = new Queue('order-sla', {
+    connection,
+    defaultJobOptions: {
+        attempts: 1, // The next scan picks up anything this one missed
+        removeOnComplete: { count: 20 },
+        removeOnFail: { count: 50 },
+    },
+});
+
+// Process SLA scan jobs
+const orderSlaWorker = new Worker(
+    'order-sla',
+    async job => {
+        if (job.name !== 'scan') {
+            throw new Error(`Unknown job name: ${job.name}`);
+        }
+
+        // Import services here to avoid circular dependencies
+        const OrderSlaService = (await import('../services/orderSla.service')).default;
+
+        return await OrderSlaService.scanOrders();
+    },
+    {
+        connection,
+        concurrency: 1, // Overlapping scans would escalate the same order twice
+    },
+);
+
+// Error handling
+orderSlaWorker.on('error', (error: Error) => {
+    logger.error('Order SLA worker error:', error);
+});
+
+orderSlaWorker.on('failed', (job: any, error: Error) => {
+    logger.error(`Order SLA job ${job?.id} failed:`, error);
+});
+
+orderSlaWorker.on('completed', (job: any, result: any) => {
+    if (result.breached > 0 || result.escalated > 0) {
+        logger.info(`Order SLA scan: ${result.breached} breached, ${result.reassigned} reassigned, ${result.escalated} escalated, ${result.resolved} resolved`);
+    }
+});
+
+// Helper function to register the recurring SLA scan
+export async function scheduleOrderSlaScan(): Promise<void> {
+    try {
+        await orderSlaQueue.add(
+            'scan',
+            {},
+            {
+                repeat: { pattern: ORDER_SLA_SCAN_CRON },
+                jobId: 'order-sla-scan',
+            }
+        );
+
+        logger.info(`Scheduled order SLA scan (${ORDER_SLA_SCAN_CRON})`);
+    } catch (error) {
+        logger.error('Error scheduling order SLA scan:', error);
+    }
+}
+
+export { orderSlaWorker };
@@ -0,0 +1,68 @@
+// src/queues/pantry.queue.ts
+import { Queue, Worker } from 'bullmq';
+import { logger } from '../utils/logger';
+import { PANTRY_RESTOCK_REMINDER_CRON } from '../utils/constants';
+import { connection } from './connection';
+
+// Create queue for the weekly reminder to restock pantry items that are running low
+export const pantryQueue = new Queue('pantry', {
+    connection,
+    defaultJobOptions: {
+        attempts: 2,
+        backoff: { type: 'exponential', delay: 60000 },
+        removeOnComplete: { count: 20 },
+        removeOnFail: { count: 50 },
+    },
+});
+
+// Process pantry jobs
+const pantryWorker = new Worker(
+    'pantry',
+    async job => {
+        if (job.name !== 'restock-reminders') {
+            throw new Error(`Unknown job name: ${job.name}`);
+        }
+
+        // Import services here to avoid circular dependencies
+        const PantryService = (await import('../services/pantry.service')).default;
+
+        return { sent: await PantryService.sendRestockReminders() };
+    },
+    {
+        connection,
+        concurrency: 1,
+    },
+);
+
+// Error handling
+pantryWorker.on('error', (error: Error) => {
+    logger.error('Pantry worker error:', error);
+});
+
+pantryWorker.on('failed', (job: any, error: Error) => {
+    logger.error(`Pantry job ${job?.id} failed:`, error);
+});
+
+pantryWorker.on('completed', (job: any, result: any) => {
+    logger.info(`Pantry restock reminders: ${result.sent} sent`);
+});
+
+// Helper function to register the weekly restock reminder
+export async function schedulePantryRestockReminders(): Promise<void> {
+    try {
+        await pantryQueue.add(
+            'restock-reminders',
+            {},
+            {
+                repeat: { pattern: PANTRY_RESTOCK_REMINDER_CRON },
+                jobId: 'pantry-restock-reminders',
+            }
+        );
+
+        logger.info(`Scheduled pantry restock reminders (${PANTRY_RESTOCK_REMINDER_CRON})`);
+    } catch (error) {
+        logger.error('Error scheduling pantry restock reminders:', error);
+    }
+}
+
+export { pantryWorker };
@@ -60,6 +60,22 @@ const webhookWorker = new Worker<PaymentWebhookJobData>(
                     alatPayCompleted: isAlatPayCompleted,
                 });
 
+                // Top-up charges for price adjustments are settled separately from the order payment
+                const PriceVarianceService = (await import('../services/priceVariance.service')).default;
+                const adjustment = await PriceVarianceService.confirmTopUpPayment(providerTransactionId, 'webhook');
+                if (adjustment) {
+                    logger.info(`Transaction ${providerTransactionId} settled price adjustment ${adjustment.id}`);
+                    return;
+                }
+
+                // Tips after delivery are also charged separately
+                const OrderTipService = (await import('../services/orderTip.service')).default;
+                const tip = await OrderTipService.confirmTipPayment(providerTransactionId, 'webhook');
+                if (tip) {
+                    logger.info(`Transaction ${providerTransactionId} settled tip ${tip.id}`);
+                    return;
+                }
+
                 // Find order by transaction ID using OrderService (properly handles model initialization)
                 let order = await OrderService.getOrderByPaymentId(providerTransactionId);
 
@@ -140,21 +156,35 @@ const webhookWorker = new Worker<PaymentWebhookJobData>(
                             }
                         }
 
-                        // 4. Auto-assign agent to the completed order
+                        // 4. Auto-assign agent to the completed order, or queue it for later if the
+                        // order is scheduled for a delivery slot further out
                         let assignedAgentId = null;
+                        const DeliverySlotService = (await import('../services/deliverySlot.service')).default;
+                        const assignmentTime = await DeliverySlotService.getAgentAssignmentTime(order!);
+                        const deferAssignment = !!assignmentTime && assignmentTime.getTime() > Date.now();
+
+                        if (deferAssignment && order!.shoppingListId) {
+                            transaction.afterCommit(async () => {
+                                try {
+                                    const { queueScheduledAgentAssignment } = await import('./agent.queue');
+                                    await queueScheduledAgentAssignment(order!.id, order!.shoppingListId, 'system', assignmentTime!);
+                                } catch (queueError) {
+                                    logger.error(`Failed to schedule agent assignment for order ${order!.orderNumber}:`, queueError);
+                                }
+                            });
+                            logger.info(`Agent assignment for scheduled order ${order!.orderNumber} deferred until ${assignmentTime!.toISOString()}`);
+                        }
+
                         try {
-                            if (order!.shoppingListId) {
+                            if (order!.shoppingListId && !deferAssignment) {
                                 const availableAgents = await AgentService.getAvailableAgentsForOrder(order!.shoppingListId);
                                 if (availableAgents.length > 0) {
                                     // Use the first available agent (could be enhanced with better logic)
                                     const selectedAgent = availableAgents[0];
-                                    await AgentService.assignOrderToAgent(order!.id, selectedAgent.id);
+                                    // The order stays accepted until the agent starts working on it
+                                    await AgentService.assignOrderToAgent(order!.id, selectedAgent.id, transaction);
                                     assignedAgentId = selectedAgent.id;
                                     logger.info(`Agent ${selectedAgent.id} automatically assigned to order ${order!.orderNumber}`);
-
-                                    // 5. Update order status to in_progress now that agent is assigned
-                                    await OrderService.updateOrderStatus(order!.id, order!.customerId, 'in_progress', transaction);
-                                    logger.info(`Order ${order!.orderNumber} status updated to in_progress after agent assignment`);
                                 } else {
                                     logger.warn(`No available agent found for order ${order!.orderNumber}`);
                                 }
@@ -340,7 +370,19 @@ const expiryCheckWorker = new Worker<PaymentExpiryCheckJobData>(
                     jobId: job.id,
                     orderId: order.id,
                 });
-                transactionStatus = await AlatPayService.checkTransactionStatus(transactionId);
+                if (order.paymentMethod === 'PAYSTACK') {
+                    const PaystackService = (await import('../services/payment/paystack.service')).default;
+                    const verification = await PaystackService.verifyTransaction(transactionId);
+                    const paystackStatus = verification?.data?.status;
+                    transactionStatus = {
+                        status: paystackStatus === 'success'
+                            ? 'COMPLETED'
+                            : ['failed', 'abandoned', 'reversed'].includes(paystackStatus) ? 'FAILED' : paystackStatus,
+                        orderNumber: order.orderNumber,
+                    };
+                } else {
+                    transactionStatus = await AlatPayService.checkTransactionStatus(transactionId);
+                }
                 logger.info(`Payment provider response for transaction ${transactionId}:`, {
                     jobId: job.id,
                     status: transactionStatus?.status,
@@ -581,6 +623,31 @@ webhookWorker.on('stalled', (jobId: string) => {
     });
 });
 
+// Queue an expiry check for when the payment timeout runs out
+export async function queuePaymentExpiryCheck(transactionId: string, userId: string): Promise<void> {
+    try {
+        const SystemSettingsService = (await import('../services/systemSettings.service')).default;
+        const paymentTimeoutMinutes = await SystemSettingsService.getPaymentTimeout();
+
+        await paymentExpiryCheckQueue.add('check-expiry', {
+            transactionId,
+            userId,
+        }, {
+            delay: (paymentTimeoutMinutes || 30) * 60 * 1000,
+            jobId: `payment-expiry-${transactionId}`, // One check per payment
+            attempts: 3,
+            backoff: {
+                type: 'exponential',
+                delay: 5000,
+            },
+        });
+
+        logger.info(`Queued payment expiry check for transaction ${transactionId} in ${paymentTimeoutMinutes} minutes`);
+    } catch (error) {
+        logger.error(`Error queuing payment expiry check for transaction ${transactionId}:`, error);
+    }
+}
+
 // Add cleanup on process termination
 process.on('SIGTERM', async () => {
     logger.info('Received SIGTERM, closing payment queue workers...');
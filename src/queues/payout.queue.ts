@@ -0,0 +1,78 @@
+// src/queues/payout.queue.ts
+import { Queue, Worker } from 'bullmq';
+import { logger } from '../utils/logger';
+import { PAYOUT_BATCH_CRON } from '../utils/constants';
+import { connection } from './connection';
+
+// Define job data interface
+interface PayoutBatchJobData {
+    initiatedBy: string;
+}
+
+// Create queue for the recurring agent payout batch
+export const payoutBatchQueue = new Queue<PayoutBatchJobData>('agent-payout-batch', {
+    connection,
+    defaultJobOptions: {
+        attempts: 1, // A partly-run batch is safe to repeat, but leave that to the next run or an admin
+        removeOnComplete: { count: 20 },
+        removeOnFail: { count: 20 },
+    },
+});
+
+// Process payout batch jobs
+const payoutBatchWorker = new Worker<PayoutBatchJobData>(
+    'agent-payout-batch',
+    async job => {
+        if (job.name !== 'run-batch') {
+            throw new Error(`Unknown job name: ${job.name}`);
+        }
+
+        // Import services here to avoid circular dependencies
+        const PayoutService = (await import('../services/payout.service')).default;
+
+        // Settle anything still in flight before new balances are paid out
+        const reconciled = await PayoutService.reconcileProcessingPayouts();
+        const result = await PayoutService.runPayoutBatch(job.data.initiatedBy);
+
+        return {
+            batchReference: result.batchReference,
+            payouts: result.payouts.length,
+            skipped: result.skipped.length,
+            reconciled,
+        };
+    },
+    { connection },
+);
+
+// Error handling
+payoutBatchWorker.on('error', (error: Error) => {
+    logger.error('Payout batch worker error:', error);
+});
+
+payoutBatchWorker.on('failed', (job: any, error: Error) => {
+    logger.error(`Payout batch job ${job?.id} failed:`, error);
+});
+
+payoutBatchWorker.on('completed', (job: any, result: any) => {
+    logger.info(`Payout batch ${result.batchReference} completed: ${result.payouts} paid, ${result.skipped} skipped`);
+});
+
+// Helper function to register the recurring payout batch
+export async function schedulePayoutBatch(): Promise<void> {
+    try {
+        await payoutBatchQueue.add(
+            'run-batch',
+            { initiatedBy: 'system' },
+            {
+                repeat: { pattern: PAYOUT_BATCH_CRON },
+                jobId: 'agent-payout-batch',
+            }
+        );
+
+        logger.info(`Scheduled agent payout batch (${PAYOUT_BATCH_CRON})`);
+    } catch (error) {
+        logger.error('Error scheduling agent payout batch:', error);
+    }
+}
+
+export { payoutBatchWorker };
@@ -0,0 +1,91 @@
+// src/queues/recurringOrder.queue.ts
+import { Queue, Worker } from 'bullmq';
+import { logger } from '../utils/logger';
+import { RECURRING_ORDER_SCAN_CRON } from '../utils/constants';
+import { connection } from './connection';
+
+// Define job data interface
+interface RecurringOrderJobData {
+    recurringOrderId?: string; // Set for 'run-occurrence' jobs
+}
+
+// Create queue for recurring orders: a periodic scan fans out one job per due subscription
+export const recurringOrderQueue = new Queue<RecurringOrderJobData>('recurring-orders', {
+    connection,
+    defaultJobOptions: {
+        attempts: 1, // A claimed occurrence is never retried; failures are reported to the customer
+        removeOnComplete: { count: 50 },
+        removeOnFail: { count: 50 },
+    },
+});
+
+// Process recurring order jobs
+const recurringOrderWorker = new Worker<RecurringOrderJobData>(
+    'recurring-orders',
+    async job => {
+        // Import services here to avoid circular dependencies
+        const RecurringOrderService = (await import('../services/recurringOrder.service')).default;
+
+        switch (job.name) {
+            case 'scan': {
+                const reminders = await RecurringOrderService.sendDueReminders();
+                const dueIds = await RecurringOrderService.getDueRecurringOrderIds();
+
+                for (const recurringOrderId of dueIds) {
+                    await recurringOrderQueue.add(
+                        'run-occurrence',
+                        { recurringOrderId },
+                        { jobId: `recurring-order-${recurringOrderId}-${job.id}` },
+                    );
+                }
+
+                return { reminders, queued: dueIds.length };
+            }
+            case 'run-occurrence': {
+                const run = await RecurringOrderService.runOccurrence(job.data.recurringOrderId!);
+                return { runId: run?.id ?? null, status: run?.status ?? 'not_due' };
+            }
+            default:
+                throw new Error(`Unknown job name: ${job.name}`);
+        }
+    },
+    {
+        connection,
+        concurrency: 2,
+    },
+);
+
+// Error handling
+recurringOrderWorker.on('error', (error: Error) => {
+    logger.error('Recurring order worker error:', error);
+});
+
+recurringOrderWorker.on('failed', (job: any, error: Error) => {
+    logger.error(`Recurring order job ${job?.id} (${job?.name}) failed:`, error);
+});
+
+recurringOrderWorker.on('completed', (job: any, result: any) => {
+    if (job.name === 'scan' && (result.reminders > 0 || result.queued > 0)) {
+        logger.info(`Recurring order scan: ${result.reminders} reminder(s) sent, ${result.queued} order(s) queued`);
+    }
+});
+
+// Helper function to register the recurring order scan
+export async function scheduleRecurringOrderScan(): Promise<void> {
+    try {
+        await recurringOrderQueue.add(
+            'scan',
+            {},
+            {
+                repeat: { pattern: RECURRING_ORDER_SCAN_CRON },
+                jobId: 'recurring-order-scan',
+            }
+        );
+
+        logger.info(`Scheduled recurring order scan (${RECURRING_ORDER_SCAN_CRON})`);
+    } catch (error) {
+        logger.error('Error scheduling recurring order scan:', error);
+    }
+}
+
+export { recurringOrderWorker };
@@ -0,0 +1,82 @@
+// src/queues/substitution.queue.ts
+import { Queue, Worker } from 'bullmq';
+import { logger } from '../utils/logger';
+import { connection } from './connection';
+
+// Define job data interface
+interface SubstitutionTimeoutJobData {
+    orderId: string;
+    shoppingListItemId: string;
+}
+
+// Create queue for substitution response timeouts
+export const substitutionTimeoutQueue = new Queue<SubstitutionTimeoutJobData>('substitution-timeout', {
+    connection,
+    defaultJobOptions: {
+        attempts: 3,
+        backoff: {
+            type: 'exponential',
+            delay: 30000,
+        },
+        removeOnComplete: { count: 50 },
+        removeOnFail: { count: 50 },
+    },
+});
+
+// Process substitution timeout jobs
+const substitutionTimeoutWorker = new Worker<SubstitutionTimeoutJobData>(
+    'substitution-timeout',
+    async job => {
+        if (job.name !== 'resolve-timeout') {
+            throw new Error(`Unknown job name: ${job.name}`);
+        }
+
+        const { orderId, shoppingListItemId } = job.data;
+
+        // Import services here to avoid circular dependencies
+        const SubstitutionService = (await import('../services/substitution.service')).default;
+
+        const resolution = await SubstitutionService.resolveExpiredSubstitutions(orderId, shoppingListItemId);
+
+        return { orderId, shoppingListItemId, resolution };
+    },
+    { connection },
+);
+
+// Error handling
+substitutionTimeoutWorker.on('error', (error: Error) => {
+    logger.error('Substitution timeout worker error:', error);
+});
+
+substitutionTimeoutWorker.on('failed', (job: any, error: Error) => {
+    logger.error(`Substitution timeout job ${job?.id} failed:`, error);
+});
+
+substitutionTimeoutWorker.on('completed', (job: any, result: any) => {
+    logger.info(`Substitution timeout resolved for item ${job.data.shoppingListItemId}: ${result.resolution}`);
+});
+
+// Helper function to schedule the response timeout for a set of proposals
+export async function queueSubstitutionTimeout(
+    orderId: string,
+    shoppingListItemId: string,
+    delayMinutes: number
+): Promise<void> {
+    try {
+        await substitutionTimeoutQueue.add(
+            'resolve-timeout',
+            { orderId, shoppingListItemId },
+            {
+                delay: delayMinutes * 60 * 1000,
+                // Each new round of proposals gets its own job; the handler is idempotent
+                jobId: `substitution-timeout-${shoppingListItemId}-${Date.now()}`,
+            }
+        );
+
+        logger.info(`Queued substitution timeout for item ${shoppingListItemId} in ${delayMinutes} minutes`);
+    } catch (error) {
+        logger.error(`Error queuing substitution timeout for item ${shoppingListItemId}:`, error);
+    }
+}
+
+export { substitutionTimeoutWorker };
@@ -74,6 +74,7 @@ router.get('/agents/:id/performance', adminAuth('admin'), AdminAuthenticatedCont
 router.get('/agents/:id/location-history', adminAuth('admin'), AdminAuthenticatedController(AdminController.getAgentLocationHistory));
 router.patch('/agents/:id/status', adminAuth('admin'), AdminAuthenticatedController(AdminController.updateAgentStatus));
 router.get('/agents/:id/analytics', adminAuth('admin'), AdminAuthenticatedController(AdminController.getAgentAnalytics));
+router.get('/agents/:id/ratings', adminAuth('admin'), AdminAuthenticatedController(AdminController.getAgentRatings));
 
 // User creation
 router.post('/users/create', adminAuth('admin'), AdminAuthenticatedController(AdminController.createUser));
@@ -103,11 +104,53 @@ router.patch(
 // Order Management Routes
 router.get('/orders', adminAuth('admin'), AdminAuthenticatedController(AdminController.getAllOrders));
 router.get('/orders/stats', adminAuth('admin'), AdminAuthenticatedController(AdminController.getOrderStats));
+router.get('/orders/at-risk', adminAuth('admin'), AdminAuthenticatedController(AdminController.getAtRiskOrders));
+router.get('/orders/sla-settings', adminAuth('admin'), AdminAuthenticatedController(AdminController.getOrderSlaSettings));
+router.put('/orders/sla-settings', adminAuth('admin'), AdminAuthenticatedController(AdminController.updateOrderSlaSettings));
 router.get('/orders/:id', adminAuth('admin'), AdminAuthenticatedController(AdminController.getAdminOrder));
 router.patch('/orders/:id/status', adminAuth('admin'), AdminAuthenticatedController(AdminController.updateOrderStatusAdmin));
 router.post('/orders/:id/cancel', adminAuth('admin'), AdminAuthenticatedController(AdminController.cancelOrderAdmin));
+router.post('/orders/:id/delivery-override', adminAuth('admin'), AdminAuthenticatedController(AdminController.overrideDeliveryHandover));
 router.patch('/orders/:id/reassign', adminAuth('admin'), AdminAuthenticatedController(AdminController.reassignOrder));
 router.get('/orders/:id/trail', adminAuth('admin'), AdminAuthenticatedController(AdminController.getOrderTrail));
+router.get('/orders/:id/sla-breaches', adminAuth('admin'), AdminAuthenticatedController(AdminController.getOrderSlaBreaches));
+router.get('/orders/:id/receipt-discrepancy', adminAuth('admin'), AdminAuthenticatedController(AdminController.getOrderReceiptDiscrepancy));
+router.get('/receipt-discrepancies', adminAuth('admin'), AdminAuthenticatedController(AdminController.getReceiptDiscrepancies));
+
+// Refund Management Routes
+router.get('/refunds', adminAuth('admin'), AdminAuthenticatedController(AdminController.getAllRefunds));
+router.post('/refunds/reconcile', adminAuth('admin'), AdminAuthenticatedController(AdminController.reconcileRefunds));
+router.get('/refunds/:id', adminAuth('admin'), AdminAuthenticatedController(AdminController.getRefund));
+router.post('/refunds/:id/approve', adminAuth('admin'), AdminAuthenticatedController(AdminController.approveRefund));
+router.post('/refunds/:id/reject', adminAuth('admin'), AdminAuthenticatedController(AdminController.rejectRefund));
+router.post('/refunds/:id/reconcile', adminAuth('admin'), AdminAuthenticatedController(AdminController.reconcileRefund));
+
+// Dispute Management Routes
+router.get('/disputes', adminAuth('admin'), AdminAuthenticatedController(AdminController.getAllDisputes));
+router.get('/disputes/:id', adminAuth('admin'), AdminAuthenticatedController(AdminController.getDispute));
+router.post('/disputes/:id/resolve', adminAuth('admin'), AdminAuthenticatedController(AdminController.resolveDispute));
+
+// Agent Payout Routes
+router.get('/payouts', adminAuth('admin'), AdminAuthenticatedController(AdminController.getAllPayouts));
+router.post('/payouts/run', adminAuth('admin'), AdminAuthenticatedController(AdminController.runPayoutBatch));
+router.post('/payouts/reconcile', adminAuth('admin'), AdminAuthenticatedController(AdminController.reconcilePayouts));
+router.get('/payouts/settings', adminAuth('admin'), AdminAuthenticatedController(AdminController.getPayoutSettings));
+router.put('/payouts/settings', adminAuth('admin'), AdminAuthenticatedController(AdminController.updatePayoutSettings));
+router.get('/payouts/:id', adminAuth('admin'), AdminAuthenticatedController(AdminController.getPayout));
+router.post('/payouts/:id/retry', adminAuth('admin'), AdminAuthenticatedController(AdminController.retryPayout));
+router.post('/payouts/:id/release', adminAuth('admin'), AdminAuthenticatedController(AdminController.releasePayout));
+router.get('/agents/:id/earnings', adminAuth('admin'), AdminAuthenticatedController(AdminController.getAgentEarningsStatement));
+router.post('/agents/:id/earnings', adminAuth('admin'), AdminAuthenticatedController(AdminController.addAgentEarning));
+
+// Delivery Slot Routes
+router.get('/delivery-slots', adminAuth('admin'), AdminAuthenticatedController(AdminController.getDeliverySlots));
+router.put('/delivery-slots', adminAuth('admin'), AdminAuthenticatedController(AdminController.overrideDeliverySlot));
+router.get('/delivery-slots/:id', adminAuth('admin'), AdminAuthenticatedController(AdminController.getDeliverySlot));
+
+// Wallet Management Routes
+router.get('/wallets/audit', adminAuth('admin'), AdminAuthenticatedController(AdminController.auditWalletLedger));
+router.get('/users/:id/wallet', adminAuth('admin'), AdminAuthenticatedController(AdminController.getUserWallet));
+router.post('/users/:id/wallet/credit', adminAuth('admin'), AdminAuthenticatedController(AdminController.creditUserWallet));
 
 // Agent Assignment Routes for Orders
 router.get('/orders/:id/available-agents', adminAuth('admin'), AdminAuthenticatedController(AdminController.getAvailableAgentsForOrder));
@@ -131,6 +174,8 @@ router.patch('/markets/:id/toggle-status', adminAuth('admin'), AdminAuthenticate
 // Admin Product Management Routes
 router.get('/products', adminAuth('admin'), AdminAuthenticatedController(AdminController.getAllProducts));
 router.get('/products/stats', adminAuth('admin'), AdminAuthenticatedController(AdminController.getProductStats));
+router.get('/products/unit-conversions', adminAuth('admin'), AdminAuthenticatedController(AdminController.getUnitConversions));
+router.put('/products/unit-conversions', adminAuth('admin'), AdminAuthenticatedController(AdminController.updateUnitConversions));
 router.get('/products/:id', adminAuth('admin'), AdminAuthenticatedController(AdminController.getProduct));
 router.post('/products', adminAuth('admin'), upload, AdminAuthenticatedController(AdminController.createProduct));
 router.post('/products/bulk', adminAuth('admin'), AdminAuthenticatedController(AdminController.bulkCreateProducts));
@@ -2,8 +2,12 @@
 import { Router } from 'express';
 import AgentController from '../controllers/agent.controller';
 import { AuthenticatedController, basicAuth } from '../middlewares/authMiddleware';
+import { uploadMiddleware, UploadType } from '../middlewares/uploadMiddleware';
 
 const router = Router();
+const deliveryPhotoUpload = uploadMiddleware(UploadType.Array, 'files', 3);
+const receiptUpload = uploadMiddleware(UploadType.Single, 'file');
+const disputePhotoUpload = uploadMiddleware(UploadType.Array, 'files', 3);
 
 
 // Public routes with static paths
@@ -40,6 +44,16 @@ router.delete('/preferred-locations/:id', AuthenticatedController(AgentControlle
 
 // Earnings endpoints
 router.get('/earnings', AuthenticatedController(AgentController.getEarnings));
+router.get('/earnings/statement', AuthenticatedController(AgentController.getEarningsStatement));
+router.get('/payouts', AuthenticatedController(AgentController.getPayouts));
+router.get('/payouts/:payoutId', AuthenticatedController(AgentController.getPayout));
+
+// Customer ratings
+router.get('/ratings', AuthenticatedController(AgentController.getRatings));
+
+// Customer disputes on the agent's orders
+router.get('/disputes', AuthenticatedController(AgentController.getDisputes));
+router.post('/disputes/:disputeId/respond', disputePhotoUpload, AuthenticatedController(AgentController.respondToDispute));
 
 // Agent notifications - Agent-specific endpoints for better separation
 router.get('/notifications', AuthenticatedController(AgentController.getNotifications));
@@ -60,7 +74,13 @@ router.post('/orders/:orderId/accept', AuthenticatedController(AgentController.a
 router.post('/orders/:orderId/reject', AuthenticatedController(AgentController.rejectOrder));
 router.patch('/orders/:orderId/status', AuthenticatedController(AgentController.updateOrderStatusForAgent));
 router.patch('/orders/:orderId/update-status', AuthenticatedController(AgentController.updateOrderStatus)); // Enhanced method
-router.post('/orders/:orderId/complete', AuthenticatedController(AgentController.completeOrder));
+router.post('/orders/:orderId/complete', deliveryPhotoUpload, AuthenticatedController(AgentController.completeOrder)); // Requires the customer's delivery code
+
+// Market receipts (proof of purchase)
+router.get('/orders/:orderId/receipts', AuthenticatedController(AgentController.getOrderReceipts));
+router.post('/orders/:orderId/receipts', receiptUpload, AuthenticatedController(AgentController.uploadReceipt));
+router.put('/orders/:orderId/receipts/:receiptId/lines', AuthenticatedController(AgentController.updateReceiptLines));
+router.delete('/orders/:orderId/receipts/:receiptId', AuthenticatedController(AgentController.deleteReceipt));
 
 // Shopping list action endpoints
 router.post('/shopping-lists/:shoppingListId/accept', AuthenticatedController(AgentController.acceptShoppingList)); // Accept shopping list
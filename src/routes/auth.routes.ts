@@ -2,6 +2,7 @@ import { Router } from 'express';
 import AuthController from '../controllers/auth.controller';
 import { basicAuth, AuthenticatedController } from '../middlewares/authMiddleware';
 import { uploadMiddleware, UploadType } from '../middlewares/uploadMiddleware';
+import { rateLimiter } from '../middlewares/rateLimiter';
 
 const router = Router();
 
@@ -50,6 +51,20 @@ router.post('/change-password', basicAuth('access'), AuthenticatedController(Aut
 router.get('/me', basicAuth('access'), AuthenticatedController(AuthController.getLoggedUserData));
 router.patch('/me', basicAuth('access'), upload, AuthenticatedController(AuthController.updateUser));
 
+// Phone number verification (each code is a paid SMS, and codes are short enough to guess)
+router.post(
+    '/phone/send-code',
+    basicAuth('access'),
+    rateLimiter(60 * 60, 3, 'phonecode'),
+    AuthenticatedController(AuthController.sendPhoneVerification),
+);
+router.post(
+    '/phone/verify',
+    basicAuth('access'),
+    rateLimiter(15 * 60, 5, 'phoneverify'),
+    AuthenticatedController(AuthController.verifyPhone),
+);
+
 // Google authentication endpoints
 router.post('/google/callback', AuthController.handleGoogleCallback);
 router.post('/google/oauth-callback', AuthController.handleGoogleOAuthCallback);
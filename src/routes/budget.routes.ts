@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import BudgetController from '../controllers/budget.controller';
+import { AuthenticatedController, basicAuth } from '../middlewares/authMiddleware';
+
+const router = Router();
+
+// All routes are protected
+router.use(basicAuth('access'));
+
+router.get('/', AuthenticatedController(BudgetController.getMonthlyBudget));
+router.put('/', AuthenticatedController(BudgetController.setMonthlyBudget));
+router.get('/analytics', AuthenticatedController(BudgetController.getSpendingAnalytics));
+
+export default router;
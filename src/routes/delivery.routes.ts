@@ -2,6 +2,7 @@
 import { Router } from 'express';
 import DeliveryController from '../controllers/delivery.controller';
 import DeliveryShipBubbleController from '../controllers/deliveryShipBubble.controller';
+import DeliverySlotController from '../controllers/deliverySlot.controller';
 import { AuthenticatedController, basicAuth } from '../middlewares/authMiddleware';
 
 const router = Router();
@@ -19,6 +20,9 @@ router.get('/track/:taskId', AuthenticatedController(DeliveryController.trackDel
 router.post('/estimate', AuthenticatedController(DeliveryController.getDeliveryEstimate));
 router.post('/cancel', AuthenticatedController(DeliveryController.cancelDelivery));
 
+// Scheduled delivery windows
+router.get('/slots', AuthenticatedController(DeliverySlotController.getAvailableSlots));
+
 // ShipBubble delivery routes
 router.post('/shipbubble/validate-addresses', AuthenticatedController(DeliveryShipBubbleController.validateAddresses));
 router.post('/shipbubble/quote', AuthenticatedController(DeliveryShipBubbleController.getDeliveryQuote));
@@ -26,6 +26,12 @@ import testRoute from './test.routes';
 import deliveryRoute from './delivery.routes';
 import supportRoute from './support.routes';
 import webrtcRoute from './webrtc.routes';
+import walletRoute from './wallet.routes';
+import recurringOrderRoute from './recurringOrder.routes';
+import orderBasketRoute from './orderBasket.routes';
+import budgetRoute from './budget.routes';
+import pantryRoute from './pantry.routes';
+import mealPlanRoute from './mealPlan.routes';
 
 const router = Router();
 
@@ -55,6 +61,12 @@ router.use('/system/settings', systemSettingsRoute);
 router.use('/test', testRoute); // Test endpoints (no auth required)
 router.use('/delivery', deliveryRoute);
 router.use('/support', supportRoute);
+router.use('/wallet', walletRoute);
+router.use('/recurring-orders', recurringOrderRoute);
+router.use('/baskets', orderBasketRoute);
+router.use('/budget', budgetRoute);
+router.use('/pantry', pantryRoute);
+router.use('/meal-plans', mealPlanRoute);
 router.use('/webrtc', webrtcRoute); // WebRTC TURN credentials (no auth required)
 
 export default router;
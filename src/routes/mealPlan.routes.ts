@@ -0,0 +1,23 @@
+import { Router } from 'express';
+import MealPlanController from '../controllers/mealPlan.controller';
+import { AuthenticatedController, basicAuth } from '../middlewares/authMiddleware';
+
+const router = Router();
+
+// All routes are protected
+router.use(basicAuth('access'));
+
+router.post('/', AuthenticatedController(MealPlanController.createMealPlan));
+router.get('/', AuthenticatedController(MealPlanController.getMealPlans));
+router.get('/:id', AuthenticatedController(MealPlanController.getMealPlan));
+router.patch('/:id', AuthenticatedController(MealPlanController.updateMealPlan));
+router.delete('/:id', AuthenticatedController(MealPlanController.deleteMealPlan));
+
+router.post('/:id/entries', AuthenticatedController(MealPlanController.addEntry));
+router.patch('/:id/entries/:entryId', AuthenticatedController(MealPlanController.updateEntry));
+router.delete('/:id/entries/:entryId', AuthenticatedController(MealPlanController.removeEntry));
+
+router.get('/:id/ingredients', AuthenticatedController(MealPlanController.getIngredients));
+router.post('/:id/shopping-list', AuthenticatedController(MealPlanController.generateShoppingList));
+
+export default router;
@@ -1,8 +1,10 @@
 import { Router } from 'express';
 import OrderController from '../controllers/order.controller';
 import { AuthenticatedController, basicAuth } from '../middlewares/authMiddleware';
+import { uploadMiddleware, UploadType } from '../middlewares/uploadMiddleware';
 
 const router = Router();
+const disputePhotoUpload = uploadMiddleware(UploadType.Array, 'files', 5);
 
 // All routes are protected
 router.use(basicAuth('access'));
@@ -20,6 +22,37 @@ router.patch('/:id/notes', AuthenticatedController(OrderController.addNotes));
 router.post('/:id/reject', AuthenticatedController(OrderController.rejectOrder));
 // Get order trail/audit log
 router.get('/:id/trail', AuthenticatedController(OrderController.getOrderTrail));
+// Item substitutions (agent proposes, customer approves or rejects)
+router.get('/:id/substitutions', AuthenticatedController(OrderController.getOrderSubstitutions));
+router.post('/:id/items/:itemId/substitutions', AuthenticatedController(OrderController.proposeSubstitutions));
+router.post('/:id/substitutions/:substitutionId/approve', AuthenticatedController(OrderController.approveSubstitution));
+router.post('/:id/substitutions/:substitutionId/reject', AuthenticatedController(OrderController.rejectSubstitution));
+// Price variance between what was paid and actual market prices
+router.get('/:id/price-adjustments', AuthenticatedController(OrderController.getPriceAdjustments));
+router.post('/:id/price-adjustments/:adjustmentId/approve', AuthenticatedController(OrderController.approvePriceAdjustment));
+router.post('/:id/price-adjustments/:adjustmentId/decline', AuthenticatedController(OrderController.declinePriceAdjustment));
+router.post('/:id/price-adjustments/:adjustmentId/pay', AuthenticatedController(OrderController.payPriceAdjustment));
+router.post('/:id/price-adjustments/:adjustmentId/verify', AuthenticatedController(OrderController.verifyPriceAdjustment));
+// Cancellation refunds
+router.get('/:id/cancellation-quote', AuthenticatedController(OrderController.getCancellationQuote));
+router.get('/:id/refunds', AuthenticatedController(OrderController.getOrderRefunds));
+// Rate the agent once the order is completed
+router.get('/:id/rating', AuthenticatedController(OrderController.getAgentRating));
+router.post('/:id/rating', AuthenticatedController(OrderController.rateAgent));
+// Start a new list from a completed order with current prices
+router.post('/:id/reorder', AuthenticatedController(OrderController.reorder));
+// Report missing, damaged or wrong items after delivery
+router.get('/:id/disputes', AuthenticatedController(OrderController.getOrderDisputes));
+router.post('/:id/disputes', disputePhotoUpload, AuthenticatedController(OrderController.openDispute));
+router.post('/:id/disputes/:disputeId/withdraw', AuthenticatedController(OrderController.withdrawDispute));
+// Tip the agent after delivery (tips at checkout are part of the order payment)
+router.get('/:id/tips', AuthenticatedController(OrderController.getOrderTips));
+router.post('/:id/tips', AuthenticatedController(OrderController.tipAgent));
+router.post('/:id/tips/:tipId/verify', AuthenticatedController(OrderController.verifyTip));
+// Invoice for a completed order (PDF by default, ?format=html to view in the browser)
+router.get('/:id/invoice', AuthenticatedController(OrderController.getInvoice));
+// Handover code the customer gives the agent on delivery
+router.get('/:id/delivery-code', AuthenticatedController(OrderController.getDeliveryCode));
 
 // Generic parameter route LAST
 router.get('/:id', AuthenticatedController(OrderController.getOrder));
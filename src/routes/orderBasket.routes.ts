@@ -0,0 +1,15 @@
+import { Router } from 'express';
+import OrderBasketController from '../controllers/orderBasket.controller';
+import { AuthenticatedController, basicAuth } from '../middlewares/authMiddleware';
+
+const router = Router();
+
+// All routes are protected
+router.use(basicAuth('access'));
+
+router.post('/', AuthenticatedController(OrderBasketController.createBasket));
+router.get('/', AuthenticatedController(OrderBasketController.getBaskets));
+router.get('/:id', AuthenticatedController(OrderBasketController.getBasket));
+router.post('/:id/cancel', AuthenticatedController(OrderBasketController.cancelBasket));
+
+export default router;
@@ -0,0 +1,17 @@
+import { Router } from 'express';
+import PantryController from '../controllers/pantry.controller';
+import { AuthenticatedController, basicAuth } from '../middlewares/authMiddleware';
+
+const router = Router();
+
+// All routes are protected
+router.use(basicAuth('access'));
+
+router.get('/', AuthenticatedController(PantryController.getPantry));
+router.get('/running-low', AuthenticatedController(PantryController.getRunningLow));
+router.post('/sync', AuthenticatedController(PantryController.syncPantry));
+router.post('/restock-list', AuthenticatedController(PantryController.createRestockList));
+router.patch('/:id', AuthenticatedController(PantryController.updatePantryItem));
+router.delete('/:id', AuthenticatedController(PantryController.removePantryItem));
+
+export default router;
@@ -8,6 +8,7 @@ const upload = uploadMiddleware(UploadType.Array, 'files', 5);
 // Public routes
 router.get('/', ProductController.getAllProducts);
 router.get('/stats', ProductController.getProductStats);
+router.get('/compare-prices', ProductController.compareUnitPrices);
 router.get('/:id', ProductController.getProduct);
 
 // Market products route
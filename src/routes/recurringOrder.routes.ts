@@ -0,0 +1,19 @@
+import { Router } from 'express';
+import RecurringOrderController from '../controllers/recurringOrder.controller';
+import { AuthenticatedController, basicAuth } from '../middlewares/authMiddleware';
+
+const router = Router();
+
+// All routes are protected
+router.use(basicAuth('access'));
+
+router.post('/', AuthenticatedController(RecurringOrderController.createRecurringOrder));
+router.get('/', AuthenticatedController(RecurringOrderController.getRecurringOrders));
+router.get('/:id', AuthenticatedController(RecurringOrderController.getRecurringOrder));
+router.patch('/:id', AuthenticatedController(RecurringOrderController.updateRecurringOrder));
+router.post('/:id/pause', AuthenticatedController(RecurringOrderController.pauseRecurringOrder));
+router.post('/:id/resume', AuthenticatedController(RecurringOrderController.resumeRecurringOrder));
+router.post('/:id/skip', AuthenticatedController(RecurringOrderController.skipNextOccurrence));
+router.post('/:id/cancel', AuthenticatedController(RecurringOrderController.cancelRecurringOrder));
+
+export default router;
@@ -13,10 +13,17 @@ router.post('/suggested/:id/copy', AuthenticatedController(ShoppingListControlle
 
 // Standard shopping list routes
 router.post('/', AuthenticatedController(ShoppingListController.createShoppingList));
+router.post('/import', AuthenticatedController(ShoppingListController.importShoppingList));
 router.get('/', AuthenticatedController(ShoppingListController.getUserShoppingLists));
 router.get('/organized', AuthenticatedController(ShoppingListController.getOrganizedShoppingLists));
 router.get('/agent', AuthenticatedController(ShoppingListController.getAgentAssignedLists));
 
+// Shared lists and invitations
+router.get('/shared', AuthenticatedController(ShoppingListController.getSharedLists));
+router.get('/invitations', AuthenticatedController(ShoppingListController.getInvitations));
+router.post('/invitations/:invitationId/accept', AuthenticatedController(ShoppingListController.acceptInvitation));
+router.post('/invitations/:invitationId/decline', AuthenticatedController(ShoppingListController.declineInvitation));
+
 // Special shopping list creation routes
 router.post('/todays-list', AuthenticatedController(ShoppingListController.createTodaysShoppingList));
 router.post('/meal-list', AuthenticatedController(ShoppingListController.createMealShoppingList));
@@ -42,6 +49,24 @@ router.delete(
     AuthenticatedController(ShoppingListController.removeItemFromList),
 );
 
+// Collaborators
+router.get('/:id/collaborators', AuthenticatedController(ShoppingListController.getCollaborators));
+router.post('/:id/collaborators', AuthenticatedController(ShoppingListController.inviteCollaborator));
+router.patch('/:id/collaborators/:collaboratorId', AuthenticatedController(ShoppingListController.updateCollaboratorRole));
+router.delete('/:id/collaborators/:collaboratorId', AuthenticatedController(ShoppingListController.removeCollaborator));
+
+// Cross-market price comparison
+router.get('/:id/compare-markets', AuthenticatedController(ShoppingListController.compareMarkets));
+
+// Budget
+router.get('/:id/budget', AuthenticatedController(ShoppingListController.getListBudget));
+router.put('/:id/budget', AuthenticatedController(ShoppingListController.setListBudget));
+
+// Version history
+router.get('/:id/versions', AuthenticatedController(ShoppingListController.getListHistory));
+router.get('/:id/versions/compare', AuthenticatedController(ShoppingListController.compareListVersions));
+router.post('/:id/versions/:version/restore', AuthenticatedController(ShoppingListController.restoreListVersion));
+
 // Status management
 router.post('/:id/submit', AuthenticatedController(ShoppingListController.submitShoppingList));
 router.put('/:id/status', AuthenticatedController(ShoppingListController.updateListStatus));
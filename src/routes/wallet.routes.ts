@@ -0,0 +1,14 @@
+import { Router } from 'express';
+import WalletController from '../controllers/wallet.controller';
+import { AuthenticatedController, basicAuth } from '../middlewares/authMiddleware';
+
+const router = Router();
+
+// All routes are protected
+router.use(basicAuth('access'));
+
+router.get('/', AuthenticatedController(WalletController.getWallet));
+router.get('/transactions', AuthenticatedController(WalletController.getTransactions));
+router.post('/bonuses/:bonusId/redeem', AuthenticatedController(WalletController.redeemReferralBonus));
+
+export default router;
@@ -10,6 +10,7 @@ import queues, { gracefulShutdown as shutdownQueues } from './queues';
 import UserPresenceService from './services/user-presence.service';
 import SmartNotificationDispatcher from './services/smart-notification.dispatcher';
 import CallService from './services/call.service';
+import { assertTransferProviderConfigured } from './services/payment/transfer.provider';
 
 // Create the HTTP server
 const server = http.createServer(app);
@@ -20,6 +21,9 @@ server.timeout = 60000; // 60 seconds
 // Asynchronous function to start the server
 async function startServer(): Promise<void> {
     try {
+        // Payouts must never fall back to a provider that doesn't move money
+        assertTransferProviderConfigured();
+
         // Initiate a connection to the database
         await initiateDB();
 
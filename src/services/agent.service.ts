@@ -15,6 +15,10 @@ import { logger } from '../utils/logger';
 import EnhancedChatService from './chat-enhanced.service';
 import ShipBubbleService from './shipbubble.service';
 import DeliveryQuote from '../models/deliveryQuote.model';
+import PriceVarianceService from './priceVariance.service';
+import AgentRatingService from './agentRating.service';
+import OrderDisputeService from './orderDispute.service';
+import OrderStateMachine, { OrderStatus } from './orderStateMachine.service';
 import moment from 'moment';
 
 export interface IViewAgentsQuery {
@@ -307,6 +311,15 @@ export default class AgentService {
             logger.info(`Agent ${agent.id} (${agent.firstName} ${agent.lastName}): ${agentOrders.length} total orders, ${ordersInTargetMarket} in target market ${shoppingList.marketId}`);
         });
 
+        // Customer ratings, so well-rated agents are preferred
+        const ratingSummaries = await AgentRatingService.getAgentSummaries(agentIds);
+
+        // Recent disputes the customer won count against the agent
+        const upheldDisputes = await OrderDisputeService.getUpheldDisputeCounts(
+            agentIds,
+            new Date(Date.now() - 30 * 24 * 60 * 60 * 1000),
+        );
+
         // Process agents asynchronously for distance calculation and scoring  
         const agentScoringPromises = availableAgents.map(async (agent: UserWithLocations) => {
             let score = 0;
@@ -411,6 +424,19 @@ export default class AgentService {
             if (daysActive > 30) score += 10; // Active for more than 30 days
             else if (daysActive > 7) score += 5; // Active for more than 7 days
 
+            // Score based on customer ratings once there are enough to be meaningful
+            const ratingSummary = ratingSummaries.get(agent.id);
+            if (ratingSummary && ratingSummary.ratingCount >= 3) {
+                // 5 stars = +40, 3 stars = 0, 1 star = -40
+                score += Math.round((ratingSummary.averageRating - 3) * 20);
+            }
+
+            // -15 per upheld dispute in the last 30 days, up to -45
+            const disputeCount = upheldDisputes.get(agent.id) ?? 0;
+            if (disputeCount > 0) {
+                score -= Math.min(disputeCount * 15, 45);
+            }
+
             return {
                 agent,
                 score,
@@ -600,47 +626,23 @@ export default class AgentService {
             throw new NotFoundError('Order not found');
         }
 
-        // Update the order with agent assignment
-        await order.update(
-            {
-                agentId,
-                status: 'accepted', // Order is now assigned to agent
-                acceptedAt: new Date(),
-            },
-            { transaction: txn },
-        );
-
-        // Update agent status to busy (not accepting new orders)
-        await this.setAgentBusy(agentId, orderId, txn);
-
-        // Activate chat for the order now that agent is assigned
-        try {
-            // Get agent details for chat activation
-            const agent = await User.findByPk(agentId, {
-                attributes: ['id', 'firstName', 'lastName'],
-                transaction: txn,
+        // Chat is activated by the state machine once the assignment is committed
+        const assign = async (t: Transaction) => {
+            await OrderStateMachine.transition(order, 'accepted', {
+                actor: 'system',
+                transaction: t,
+                changes: { agentId, acceptedAt: new Date() },
+                reason: 'Agent assigned',
             });
 
-            if (agent) {
-                // Check if chat is already active (should be activated during payment confirmation)
-                const isChatActive = await EnhancedChatService.isChatActive(orderId);
-                if (!isChatActive) {
-                    logger.info(`Chat not yet active for order ${orderId}, activating now during agent assignment`);
-                    await EnhancedChatService.activateChat({
-                        orderId: orderId,
-                        activatedBy: {
-                            id: agentId,
-                            type: 'agent',
-                            name: `${agent.firstName} ${agent.lastName}`.trim(),
-                        },
-                    });
-                } else {
-                    logger.info(`Chat already active for order ${orderId}, skipping activation`);
-                }
-            }
-        } catch (chatError) {
-            logger.warn(`Failed to activate chat for order ${orderId}:`, chatError);
-            // Don't fail the order assignment if chat activation fails
+            // Update agent status to busy (not accepting new orders)
+            await this.setAgentBusy(agentId, orderId, t);
+        };
+
+        if (txn) {
+            await assign(txn);
+        } else {
+            await Database.transaction(assign);
         }
 
         // Log the assignment
@@ -1734,25 +1736,7 @@ export default class AgentService {
             }
 
             // Update order status to 'in_progress' (agent has started working)
-            await order.update(
-                {
-                    status: 'in_progress',
-                },
-                { transaction }
-            );
-
-            // Update shopping list status to 'processing' (agent is now actively working)
-            if (order.shoppingListId) {
-                await ShoppingList.update(
-                    {
-                        status: 'processing',
-                    },
-                    {
-                        where: { id: order.shoppingListId },
-                        transaction,
-                    }
-                );
-            }
+            await OrderStateMachine.transition(order, 'in_progress', { actor: 'agent', actorId: agentId, transaction });
 
             // Update agent status to busy and actively working
             await this.setAgentBusy(agentId, orderId, transaction);
@@ -2019,61 +2003,13 @@ export default class AgentService {
                 throw new NotFoundError('Order not found or not assigned to this agent');
             }
 
-            // Validate status transition
-            const validTransitions: Record<string, string[]> = {
-                'accepted': ['in_progress', 'shopping', 'cancelled'],
-                'in_progress': ['shopping', 'shopping_completed', 'cancelled'],
-                'shopping': ['shopping_completed', 'cancelled'],
-                'shopping_completed': ['delivery', 'cancelled'],
-                'delivery': ['completed', 'cancelled'],
-            };
-
-            const currentStatus = order.status;
-            const allowedNextStatuses = validTransitions[currentStatus] || [];
-
-            if (!allowedNextStatuses.includes(newStatus)) {
-                throw new BadRequestError(
-                    `Invalid status transition from ${currentStatus} to ${newStatus}`
-                );
-            }
-
-            // Update order status
-            const updateData: any = {
-                status: newStatus,
-            };
-
-            // Set appropriate timestamp based on status
-            switch (newStatus) {
-                case 'in_progress':
-                case 'shopping':
-                    updateData.shoppingStartedAt = new Date();
-                    break;
-                case 'shopping_completed':
-                    updateData.shoppingCompletedAt = new Date();
-                    break;
-                case 'delivery':
-                    updateData.deliveryStartedAt = new Date();
-                    break;
-                case 'completed':
-                    updateData.completedAt = new Date();
-                    break;
-                case 'cancelled':
-                    updateData.cancelledAt = new Date();
-                    break;
-            }
-
-            // Add notes if provided
-            if (notes) {
-                updateData.agentNotes = notes;
-            }
-
-            await order.update(updateData, { transaction });
-
-            // Update agent status based on order status
-            if (newStatus === 'completed' || newStatus === 'cancelled') {
-                // Set agent back to available
-                await this.setAgentAvailable(agentId, transaction);
-            }
+            await OrderStateMachine.transition(order, newStatus as OrderStatus, {
+                actor: 'agent',
+                actorId: agentId,
+                transaction,
+                // Add notes if provided
+                changes: notes ? { agentNotes: notes } : undefined,
+            });
 
             logger.info(`Order ${orderId} status updated to ${newStatus} by agent ${agentId}`);
 
@@ -2105,14 +2041,7 @@ export default class AgentService {
                 throw new NotFoundError('Order not found or not assigned to this agent');
             }
 
-            if (!['accepted', 'in_progress'].includes(order.status)) {
-                throw new BadRequestError('Order must be accepted to start shopping');
-            }
-
-            await order.update({
-                status: 'shopping',
-                shoppingStartedAt: new Date(),
-            }, { transaction });
+            await OrderStateMachine.transition(order, 'shopping', { actor: 'agent', actorId: agentId, transaction });
 
             logger.info(`Shopping started for order ${order.id} by agent ${agentId}`);
 
@@ -2137,7 +2066,7 @@ export default class AgentService {
             notes?: string;
         }>
     ): Promise<Order> {
-        return await Database.transaction(async (transaction: Transaction) => {
+        const completedOrder = await Database.transaction(async (transaction: Transaction) => {
             // Find order by shopping list ID or order ID
             const order = await Order.findOne({
                 where: {
@@ -2166,9 +2095,7 @@ export default class AgentService {
                 throw new NotFoundError('Order not found or not assigned to this agent');
             }
 
-            if (order.status !== 'shopping') {
-                throw new BadRequestError('Order must be in shopping status to complete shopping');
-            }
+            OrderStateMachine.assertTransition(order, 'shopping_completed', 'agent');
 
             // Update shopping list items with final prices
             for (const priceUpdate of finalPrices) {
@@ -2197,17 +2124,30 @@ export default class AgentService {
             // Add service fee and delivery fee
             newTotalAmount += order.serviceFee + order.deliveryFee;
 
+            // Tips stay on the order whatever the items cost
+            newTotalAmount += Number(order.tipAmount || 0);
+
             // Update order
-            await order.update({
-                status: 'shopping_completed',
-                shoppingCompletedAt: new Date(),
-                totalAmount: newTotalAmount,
-            }, { transaction });
+            await OrderStateMachine.transition(order, 'shopping_completed', {
+                actor: 'agent',
+                actorId: agentId,
+                transaction,
+                changes: { totalAmount: newTotalAmount },
+            });
 
             logger.info(`Shopping completed for order ${order.id} by agent ${agentId}`);
 
             return order;
         });
+
+        // Collect or return any difference between the final prices and what the customer paid
+        try {
+            await PriceVarianceService.evaluateOrderVariance(completedOrder.id, agentId);
+        } catch (error) {
+            logger.error(`Failed to evaluate price variance for order ${completedOrder.id}:`, error);
+        }
+
+        return completedOrder;
     }
 
     /**
@@ -2235,10 +2175,12 @@ export default class AgentService {
                 throw new NotFoundError('Order not found or not available for acceptance');
             }
 
-            await order.update({
-                status: 'in_progress',
-                acceptedAt: new Date(),
-            }, { transaction });
+            await OrderStateMachine.transition(order, 'in_progress', {
+                actor: 'agent',
+                actorId: agentId,
+                transaction,
+                changes: { acceptedAt: new Date() },
+            });
 
             logger.info(`Order ${order.id} accepted by agent ${agentId}`);
 
@@ -2275,10 +2217,14 @@ export default class AgentService {
                 rejectedAt: new Date(),
             });
 
-            await order.update({
-                status: 'pending', // Back to pending for reassignment
-                rejectedAgents: currentRejectedAgents,
-            }, { transaction });
+            // Back to pending for reassignment; this also frees up the agent
+            await OrderStateMachine.transition(order, 'pending', {
+                actor: 'agent',
+                actorId: agentId,
+                transaction,
+                changes: { rejectedAgents: currentRejectedAgents },
+                reason,
+            });
 
             // Set agentId to null using raw SQL to avoid TypeScript issues
             await Database.query(
@@ -2290,9 +2236,6 @@ export default class AgentService {
                 }
             );
 
-            // Set agent back to available
-            await this.setAgentAvailable(agentId, transaction);
-
             logger.info(`Order ${orderId} rejected by agent ${agentId}: ${reason}`);
 
             return true;
@@ -2479,22 +2422,25 @@ export default class AgentService {
                 });
 
                 // Update order with delivery metadata
-                await order.update({
-                    status: 'delivery',
-                    deliveryStartedAt: new Date(),
-                    deliveryMetadata: {
-                        shipbubbleOrderId: labelResponse.order_id,
-                        trackingNumber: labelResponse.tracking_number,
-                        courierName: labelResponse.courier_name || selectedCourier.courier_name,
-                        courierId: selectedCourier.id || selectedCourier.courier_id,
-                        courierImage: selectedCourier.courier_image,
-                        courierServiceCode: selectedCourier.service_code,
-                        trackingUrl: labelResponse.tracking_url,
-                        estimatedDeliveryDate: labelResponse.estimated_delivery_date,
-                        deliveryStatus: 'pending_pickup',
-                        labelUrl: labelResponse.label_url,
+                await OrderStateMachine.transition(order, 'delivery', {
+                    actor: 'agent',
+                    actorId: agentId,
+                    transaction,
+                    changes: {
+                        deliveryMetadata: {
+                            shipbubbleOrderId: labelResponse.order_id,
+                            trackingNumber: labelResponse.tracking_number,
+                            courierName: labelResponse.courier_name || selectedCourier.courier_name,
+                            courierId: selectedCourier.id || selectedCourier.courier_id,
+                            courierImage: selectedCourier.courier_image,
+                            courierServiceCode: selectedCourier.service_code,
+                            trackingUrl: labelResponse.tracking_url,
+                            estimatedDeliveryDate: labelResponse.estimated_delivery_date,
+                            deliveryStatus: 'pending_pickup',
+                            labelUrl: labelResponse.label_url,
+                        },
                     },
-                }, { transaction });
+                });
 
                 // Update quote status
                 await quote.update({
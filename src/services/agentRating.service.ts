@@ -0,0 +1,294 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Op, Transaction } from 'sequelize';
+import AgentRating, { AgentRatingTag } from '../models/agentRating.model';
+import AgentRatingSummary from '../models/agentRatingSummary.model';
+import Order from '../models/order.model';
+import User from '../models/user.model';
+import { BadRequestError, NotFoundError } from '../utils/customErrors';
+import Pagination, { IPaging } from '../utils/pagination';
+import { Database } from '../models';
+import { logger } from '../utils/logger';
+import { NotificationTypes } from '../utils/interface';
+import NotificationService from './notification.service';
+
+export interface IRateAgentInput {
+    rating: number;
+    tags?: string[];
+    comment?: string | null;
+}
+
+export interface IAgentRatingStats {
+    agentId: string;
+    averageRating: number;
+    ratingCount: number;
+    tagCounts: Record<string, number>;
+    lastRatedAt: Date | null;
+}
+
+export default class AgentRatingService {
+    private static readonly RATING_WINDOW_DAYS = 14;
+    private static readonly MAX_COMMENT_LENGTH = 1000;
+
+    /**
+     * Customer rates the agent who delivered their completed order.
+     * Each order can be rated once, and only by its customer.
+     */
+    static async rateAgent(orderId: string, customerId: string, input: IRateAgentInput): Promise<AgentRating> {
+        const rating = Number(input.rating);
+        if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+            throw new BadRequestError('Rating must be a whole number between 1 and 5');
+        }
+
+        const tags = this.validateTags(input.tags);
+        const comment = input.comment ? String(input.comment).trim() : null;
+        if (comment && comment.length > this.MAX_COMMENT_LENGTH) {
+            throw new BadRequestError(`Comment cannot be longer than ${this.MAX_COMMENT_LENGTH} characters`);
+        }
+
+        const agentRating = await Database.transaction(async (transaction: Transaction) => {
+            // Lock the order so a double submit can't create two ratings
+            const order = await Order.findByPk(orderId, { lock: transaction.LOCK.UPDATE, transaction });
+
+            // Don't reveal other customers' orders
+            if (!order || order.customerId !== customerId) {
+                throw new NotFoundError('Order not found');
+            }
+
+            if (order.status !== 'completed') {
+                throw new BadRequestError('You can rate your agent once the order is completed');
+            }
+
+            if (!order.agentId) {
+                throw new BadRequestError('This order has no agent to rate');
+            }
+
+            const completedAt = order.completedAt ? new Date(order.completedAt) : null;
+            if (completedAt && Date.now() - completedAt.getTime() > this.RATING_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+                throw new BadRequestError(`Orders can only be rated within ${this.RATING_WINDOW_DAYS} days of delivery`);
+            }
+
+            const existing = await AgentRating.findOne({ where: { orderId }, transaction });
+            if (existing) {
+                throw new BadRequestError('You have already rated this order');
+            }
+
+            const created = await AgentRating.create({
+                orderId,
+                agentId: order.agentId,
+                customerId,
+                rating,
+                tags,
+                comment,
+            }, { transaction });
+
+            await this.applyToSummary(order.agentId, rating, tags, transaction);
+
+            transaction.afterCommit(async () => {
+                try {
+                    await NotificationService.addNotification({
+                        userId: order.agentId,
+                        title: NotificationTypes.AGENT_RATED,
+                        heading: 'New Rating',
+                        message: `You received a ${rating}-star rating for order #${order.orderNumber}.`,
+                        resource: order.id,
+                        actorId: customerId,
+                    });
+                } catch (notificationError) {
+                    logger.error(`Failed to send rating notification for order ${order.orderNumber}:`, notificationError);
+                }
+            });
+
+            return created;
+        });
+
+        logger.info(`Order ${orderId} rated ${rating} by customer ${customerId}`);
+
+        return agentRating;
+    }
+
+    /**
+     * The customer's rating for one of their orders, or null if not rated yet
+     */
+    static async getOrderRating(orderId: string, customerId: string): Promise<AgentRating | null> {
+        const order = await Order.findOne({
+            where: { id: orderId, customerId },
+            attributes: ['id'],
+        });
+
+        if (!order) {
+            throw new NotFoundError('Order not found');
+        }
+
+        return await AgentRating.findOne({ where: { orderId } });
+    }
+
+    /**
+     * Aggregated rating for an agent; zeroes when they haven't been rated
+     */
+    static async getAgentSummary(agentId: string): Promise<IAgentRatingStats> {
+        const summary = await AgentRatingSummary.findByPk(agentId);
+
+        return this.toStats(agentId, summary);
+    }
+
+    /**
+     * Aggregated ratings for several agents at once, keyed by agent ID
+     */
+    static async getAgentSummaries(agentIds: string[]): Promise<Map<string, IAgentRatingStats>> {
+        if (agentIds.length === 0) {
+            return new Map();
+        }
+
+        const summaries = await AgentRatingSummary.findAll({
+            where: { agentId: { [Op.in]: agentIds } },
+        });
+
+        return new Map(summaries.map(summary => [summary.agentId, this.toStats(summary.agentId, summary)]));
+    }
+
+    /**
+     * Ratings an agent has received, newest first
+     */
+    static async getAgentRatings(
+        agentId: string,
+        queryData: { page?: number; size?: number },
+    ): Promise<{ ratings: AgentRating[]; summary: IAgentRatingStats; pagination: IPaging }> {
+        const { page, size } = queryData;
+
+        const queryOptions: any = {};
+        if (page && size && page > 0 && size > 0) {
+            const { limit, offset } = Pagination.getPagination({ page, size } as IPaging);
+            queryOptions.limit = limit ?? 0;
+            queryOptions.offset = offset ?? 0;
+        }
+
+        const { count, rows } = await AgentRating.findAndCountAll({
+            where: { agentId },
+            include: [
+                {
+                    model: User,
+                    as: 'customer',
+                    attributes: ['id', 'firstName', 'displayImage'],
+                },
+                {
+                    model: Order,
+                    attributes: ['id', 'orderNumber', 'completedAt'],
+                },
+            ],
+            order: [['createdAt', 'DESC']],
+            ...queryOptions,
+        });
+
+        let pagination: IPaging = { page: page || null, limit: size || null, size: size || null };
+        if (page && size && rows.length > 0) {
+            const totalPages = Pagination.estimateTotalPage({ count, limit: size } as IPaging);
+            pagination = { count, page, limit: size, size, ...totalPages };
+        }
+
+        const summary = await this.getAgentSummary(agentId);
+
+        return { ratings: rows, summary, pagination };
+    }
+
+    /**
+     * Average rating and count for an agent over a period
+     */
+    static async getAgentPeriodStats(agentId: string, since: Date): Promise<{ averageRating: number; ratingCount: number }> {
+        const [result] = await AgentRating.findAll({
+            where: {
+                agentId,
+                createdAt: { [Op.gte]: since },
+            },
+            attributes: [
+                [Database.fn('AVG', Database.col('rating')), 'averageRating'],
+                [Database.fn('COUNT', Database.col('id')), 'ratingCount'],
+            ],
+            raw: true,
+        }) as any[];
+
+        return {
+            averageRating: result?.averageRating ? Math.round(Number(result.averageRating) * 100) / 100 : 0,
+            ratingCount: Number(result?.ratingCount ?? 0),
+        };
+    }
+
+    /**
+     * Share of ratings in the period that were 4 stars or better, as a percentage
+     */
+    static async getCustomerSatisfaction(since: Date): Promise<number> {
+        const [result] = await AgentRating.findAll({
+            where: { createdAt: { [Op.gte]: since } },
+            attributes: [
+                [Database.fn('COUNT', Database.col('id')), 'total'],
+                [Database.literal('COUNT(CASE WHEN "rating" >= 4 THEN 1 END)'), 'satisfied'],
+            ],
+            raw: true,
+        }) as any[];
+
+        const total = Number(result?.total ?? 0);
+        if (total === 0) {
+            return 0;
+        }
+
+        return Math.round((Number(result.satisfied) / total) * 1000) / 10;
+    }
+
+    private static async applyToSummary(
+        agentId: string,
+        rating: number,
+        tags: AgentRatingTag[],
+        transaction: Transaction,
+    ): Promise<void> {
+        const [summary] = await AgentRatingSummary.findOrCreate({
+            where: { agentId },
+            defaults: { agentId },
+            transaction,
+        });
+
+        // Lock so concurrent ratings for the same agent don't lose updates
+        await summary.reload({ lock: transaction.LOCK.UPDATE, transaction });
+
+        const ratingCount = summary.ratingCount + 1;
+        const ratingTotal = summary.ratingTotal + rating;
+        const tagCounts = { ...(summary.tagCounts || {}) };
+        for (const tag of tags) {
+            tagCounts[tag] = (tagCounts[tag] ?? 0) + 1;
+        }
+
+        await summary.update({
+            ratingCount,
+            ratingTotal,
+            averageRating: Math.round((ratingTotal / ratingCount) * 100) / 100,
+            tagCounts,
+            lastRatedAt: new Date(),
+        }, { transaction });
+    }
+
+    private static validateTags(tags?: string[]): AgentRatingTag[] {
+        if (tags === undefined || tags === null) {
+            return [];
+        }
+
+        if (!Array.isArray(tags)) {
+            throw new BadRequestError('Tags must be a list');
+        }
+
+        const validTags = Object.values(AgentRatingTag) as string[];
+        const invalid = tags.filter(tag => !validTags.includes(tag));
+        if (invalid.length > 0) {
+            throw new BadRequestError(`Invalid rating tags: ${invalid.join(', ')}. Valid tags are: ${validTags.join(', ')}`);
+        }
+
+        return [...new Set(tags)] as AgentRatingTag[];
+    }
+
+    private static toStats(agentId: string, summary: AgentRatingSummary | null): IAgentRatingStats {
+        return {
+            agentId,
+            averageRating: summary ? Number(summary.averageRating) : 0,
+            ratingCount: summary?.ratingCount ?? 0,
+            tagCounts: summary?.tagCounts ?? {},
+            lastRatedAt: summary?.lastRatedAt ?? null,
+        };
+    }
+}
@@ -0,0 +1,453 @@
+import { Op, WhereOptions } from 'sequelize';
+import moment from 'moment';
+import ShoppingList from '../models/shoppingList.model';
+import ShoppingListItem from '../models/shoppingListItem.model';
+import Order from '../models/order.model';
+import Market from '../models/market.model';
+import Product from '../models/product.model';
+import Category from '../models/category.model';
+import UserSettings from '../models/userSettings.model';
+import { BadRequestError, BudgetExceededError, ForbiddenError, NotFoundError } from '../utils/customErrors';
+import { NotificationTypes } from '../utils/interface';
+import { logger } from '../utils/logger';
+import NotificationService from './notification.service';
+import PriceCalculatorService from './priceCalculator.service';
+import SystemSettingsService from './systemSettings.service';
+import UserService from './user.service';
+import ShoppingListCollaboratorService from './shoppingListCollaborator.service';
+
+export interface IListBudgetStatus {
+    budget: number | null;
+    estimatedTotal: number;
+    projectedTotal: number; // Actual prices where recorded, estimates for the rest
+    remaining: number | null;
+    percentUsed: number | null;
+}
+
+export interface IMonthlyBudgetSummary {
+    month: string; // YYYY-MM
+    monthlyBudget: number | null;
+    spent: number; // Paid orders this month
+    remaining: number | null;
+}
+
+export interface IBudgetAlternative {
+    productId: string;
+    name: string;
+    price: number; // Marked-up price the customer would see on their list
+    image: string | null;
+    fitsBudget: boolean; // Whether the requested quantity at this price stays within budget
+}
+
+export interface ISpendBreakdown {
+    id: string | null;
+    name: string;
+    amount: number;
+}
+
+export interface IMonthlySpend {
+    month: string; // YYYY-MM
+    total: number;
+    orderCount: number;
+    monthlyBudget: number | null;
+    byMarket: (ISpendBreakdown & { orderCount: number })[];
+    byCategory: ISpendBreakdown[];
+}
+
+interface IBudgetCandidate {
+    productId?: string | null;
+    name: string;
+    unitPrice: number;
+    quantity: number;
+}
+
+export default class BudgetService {
+    // The agent is warned once actual prices reach this share of the list budget
+    private static readonly WARNING_RATIO = 0.9;
+
+    private static readonly MAX_ALTERNATIVES = 3;
+    private static readonly MAX_ANALYTICS_MONTHS = 12;
+
+    // Orders that count towards the month's spend
+    private static readonly SPENDING_STATUSES = [
+        'accepted',
+        'in_progress',
+        'shopping',
+        'shopping_completed',
+        'delivery',
+        'completed',
+    ];
+
+    /**
+     * Set or clear the budget on a list (owner only)
+     */
+    static async setListBudget(listId: string, userId: string, budget: number | null): Promise<IListBudgetStatus> {
+        const list = await ShoppingList.findByPk(listId);
+
+        if (!list) {
+            throw new NotFoundError('Shopping list not found');
+        }
+
+        if (list.customerId !== userId) {
+            throw new ForbiddenError('Only the list owner can set its budget');
+        }
+
+        if (['completed', 'cancelled'].includes(list.status)) {
+            throw new BadRequestError('Cannot set a budget on a completed or cancelled shopping list');
+        }
+
+        if (budget !== null && (isNaN(Number(budget)) || Number(budget) <= 0)) {
+            throw new BadRequestError('Budget must be greater than zero');
+        }
+
+        await list.update({
+            budget: budget === null ? null : PriceCalculatorService.roundPrice(Number(budget)),
+            budgetWarningSentAt: null,
+        });
+
+        return await this.getListBudgetStatus(listId);
+    }
+
+    /**
+     * Budget progress for a list, visible to the owner, collaborators and the assigned agent
+     */
+    static async getListBudget(listId: string, userId: string): Promise<{
+        list: IListBudgetStatus;
+        monthly: IMonthlyBudgetSummary;
+    }> {
+        const list = await ShoppingList.findByPk(listId);
+
+        if (!list) {
+            throw new NotFoundError('Shopping list not found');
+        }
+
+        if (list.agentId !== userId) {
+            await ShoppingListCollaboratorService.assertCanView(list, userId);
+        }
+
+        return {
+            list: await this.getListBudgetStatus(listId),
+            monthly: await this.getMonthlySummary(list.customerId),
+        };
+    }
+
+    static async getListBudgetStatus(listId: string): Promise<IListBudgetStatus> {
+        const list = await ShoppingList.findByPk(listId, {
+            include: [{ model: ShoppingListItem, as: 'items' }],
+        });
+
+        if (!list) {
+            throw new NotFoundError('Shopping list not found');
+        }
+
+        const items = list.items || [];
+        const estimatedTotal = PriceCalculatorService.roundPrice(
+            items.reduce((total, item) => total + PriceCalculatorService.calculateItemTotal(item), 0),
+        );
+        const projectedTotal = PriceCalculatorService.roundPrice(
+            items.reduce((total, item) => total + PriceCalculatorService.calculateItemTotal(item, undefined, true), 0),
+        );
+
+        const budget = list.budget === null || list.budget === undefined ? null : Number(list.budget);
+
+        return {
+            budget,
+            estimatedTotal,
+            projectedTotal,
+            remaining: budget === null ? null : PriceCalculatorService.roundPrice(budget - projectedTotal),
+            percentUsed: budget ? Math.round((projectedTotal / budget) * 100) : null,
+        };
+    }
+
+    /**
+     * Reject an item that would take the list, or the owner's month, over budget.
+     * The error carries cheaper products from the same market to switch to.
+     */
+    static async assertWithinBudget(list: ShoppingList, candidate: IBudgetCandidate): Promise<void> {
+        const itemTotal = PriceCalculatorService.roundPrice(candidate.unitPrice * candidate.quantity);
+        if (itemTotal <= 0) {
+            return;
+        }
+
+        const currentTotal = Number(list.estimatedTotal) || 0;
+        const newTotal = PriceCalculatorService.roundPrice(currentTotal + itemTotal);
+
+        let limit: { type: 'list' | 'monthly'; budget: number; available: number } | null = null;
+
+        if (list.budget && newTotal > Number(list.budget)) {
+            limit = { type: 'list', budget: Number(list.budget), available: Number(list.budget) - currentTotal };
+        } else {
+            const monthly = await this.getMonthlySummary(list.customerId);
+            if (monthly.monthlyBudget !== null && monthly.spent + newTotal > monthly.monthlyBudget) {
+                limit = {
+                    type: 'monthly',
+                    budget: monthly.monthlyBudget,
+                    available: monthly.monthlyBudget - monthly.spent - currentTotal,
+                };
+            }
+        }
+
+        if (!limit) {
+            return;
+        }
+
+        const maxUnitPrice = Math.max(limit.available, 0) / candidate.quantity;
+        const alternatives = list.marketId
+            ? await this.findCheaperAlternatives(list.marketId, candidate, maxUnitPrice)
+            : [];
+
+        const overBy = PriceCalculatorService.roundPrice(itemTotal - Math.max(limit.available, 0));
+        const message = limit.type === 'list'
+            ? `Adding ${candidate.name} would put this list ₦${overBy.toLocaleString()} over its ₦${limit.budget.toLocaleString()} budget`
+            : `Adding ${candidate.name} would put you ₦${overBy.toLocaleString()} over your ₦${limit.budget.toLocaleString()} monthly budget`;
+
+        throw new BudgetExceededError(message, {
+            budgetType: limit.type,
+            budget: limit.budget,
+            available: PriceCalculatorService.roundPrice(Math.max(limit.available, 0)),
+            itemTotal,
+            overBy,
+            alternatives,
+        });
+    }
+
+    /**
+     * After the agent records prices, warn them once if the list is close to its budget
+     */
+    static async checkShoppingProgress(listId: string, agentId: string): Promise<IListBudgetStatus | null> {
+        const list = await ShoppingList.findByPk(listId, { attributes: ['id', 'name', 'budget', 'budgetWarningSentAt'] });
+
+        if (!list || !list.budget) {
+            return null;
+        }
+
+        const status = await this.getListBudgetStatus(listId);
+
+        if (status.budget && status.projectedTotal >= status.budget * this.WARNING_RATIO && !list.budgetWarningSentAt) {
+            await list.update({ budgetWarningSentAt: new Date() });
+
+            const message = status.projectedTotal > status.budget
+                ? `"${list.name}" is now ₦${(status.projectedTotal - status.budget).toLocaleString()} over the customer's ₦${status.budget.toLocaleString()} budget`
+                : `"${list.name}" has used ${status.percentUsed}% of the customer's ₦${status.budget.toLocaleString()} budget`;
+
+            try {
+                await NotificationService.addNotification({
+                    userId: agentId,
+                    title: NotificationTypes.BUDGET_WARNING,
+                    heading: 'Budget Nearly Reached',
+                    message: `${message}. Check with the customer before buying more.`,
+                    resource: listId,
+                });
+            } catch (notificationError) {
+                logger.error(`Failed to send budget warning for shopping list ${listId}:`, notificationError);
+            }
+        }
+
+        return status;
+    }
+
+    static async setMonthlyBudget(userId: string, monthlyBudget: number | null): Promise<IMonthlyBudgetSummary> {
+        if (monthlyBudget !== null && (isNaN(Number(monthlyBudget)) || Number(monthlyBudget) <= 0)) {
+            throw new BadRequestError('Monthly budget must be greater than zero');
+        }
+
+        await UserService.createOrUpdateUserSettings(userId, {
+            monthlyBudget: monthlyBudget === null ? null : PriceCalculatorService.roundPrice(Number(monthlyBudget)),
+        });
+
+        return await this.getMonthlySummary(userId);
+    }
+
+    static async getMonthlySummary(userId: string): Promise<IMonthlyBudgetSummary> {
+        const settings = await UserSettings.findOne({ where: { userId }, attributes: ['id', 'monthlyBudget'] });
+        const monthlyBudget = settings?.monthlyBudget ? Number(settings.monthlyBudget) : null;
+
+        const start = moment().startOf('month');
+        const spent = await Order.sum('totalAmount', {
+            where: {
+                customerId: userId,
+                paymentStatus: 'completed',
+                status: { [Op.in]: this.SPENDING_STATUSES },
+                createdAt: { [Op.gte]: start.toDate() },
+            },
+        });
+
+        const spentAmount = PriceCalculatorService.roundPrice(Number(spent) || 0);
+
+        return {
+            month: start.format('YYYY-MM'),
+            monthlyBudget,
+            spent: spentAmount,
+            remaining: monthlyBudget === null ? null : PriceCalculatorService.roundPrice(monthlyBudget - spentAmount),
+        };
+    }
+
+    /**
+     * Spend on completed orders per month, broken down by market and by product category
+     */
+    static async getSpendingAnalytics(userId: string, months: number = 6): Promise<IMonthlySpend[]> {
+        const monthCount = Math.min(Math.max(Math.floor(months) || 1, 1), this.MAX_ANALYTICS_MONTHS);
+        const start = moment().startOf('month').subtract(monthCount - 1, 'months');
+
+        const [orders, settings] = await Promise.all([
+            Order.findAll({
+                where: {
+                    customerId: userId,
+                    status: 'completed',
+                    completedAt: { [Op.gte]: start.toDate() },
+                },
+                attributes: ['id', 'totalAmount', 'completedAt'],
+                include: [
+                    {
+                        model: ShoppingList,
+                        as: 'shoppingList',
+                        attributes: ['id', 'marketId'],
+                        include: [
+                            { model: Market, as: 'market', attributes: ['id', 'name'] },
+                            {
+                                model: ShoppingListItem,
+                                as: 'items',
+                                include: [
+                                    {
+                                        model: Product,
+                                        as: 'product',
+                                        attributes: ['id', 'categoryId'],
+                                        required: false,
+                                        include: [{ model: Category, as: 'category', attributes: ['id', 'name'] }],
+                                    },
+                                ],
+                            },
+                        ],
+                    },
+                ],
+            }),
+            UserSettings.findOne({ where: { userId }, attributes: ['id', 'monthlyBudget'] }),
+        ]);
+
+        const monthlyBudget = settings?.monthlyBudget ? Number(settings.monthlyBudget) : null;
+
+        const report = new Map<string, {
+            total: number;
+            orderCount: number;
+            markets: Map<string, ISpendBreakdown & { orderCount: number }>;
+            categories: Map<string, ISpendBreakdown>;
+        }>();
+
+        for (let index = 0; index < monthCount; index++) {
+            report.set(start.clone().add(index, 'months').format('YYYY-MM'), {
+                total: 0,
+                orderCount: 0,
+                markets: new Map(),
+                categories: new Map(),
+            });
+        }
+
+        for (const order of orders) {
+            const month = report.get(moment(order.completedAt).format('YYYY-MM'));
+            if (!month) continue;
+
+            const amount = Number(order.totalAmount) || 0;
+            month.total += amount;
+            month.orderCount += 1;
+
+            const market = order.shoppingList?.market;
+            const marketKey = market?.id ?? 'unknown';
+            const marketEntry = month.markets.get(marketKey) ?? {
+                id: market?.id ?? null,
+                name: market?.name ?? 'Unknown market',
+                amount: 0,
+                orderCount: 0,
+            };
+            marketEntry.amount += amount;
+            marketEntry.orderCount += 1;
+            month.markets.set(marketKey, marketEntry);
+
+            // Categories are split by what each item actually cost; fees aren't attributed to a category
+            for (const item of order.shoppingList?.items || []) {
+                const category = item.product?.category;
+                const categoryKey = category?.id ?? 'uncategorised';
+                const categoryEntry = month.categories.get(categoryKey) ?? {
+                    id: category?.id ?? null,
+                    name: category?.name ?? 'Other',
+                    amount: 0,
+                };
+                categoryEntry.amount += PriceCalculatorService.calculateItemTotal(item, undefined, true);
+                month.categories.set(categoryKey, categoryEntry);
+            }
+        }
+
+        const byAmount = (a: ISpendBreakdown, b: ISpendBreakdown) => b.amount - a.amount;
+        const rounded = <T extends ISpendBreakdown>(entry: T): T => ({
+            ...entry,
+            amount: PriceCalculatorService.roundPrice(entry.amount),
+        });
+
+        return [...report.entries()].reverse().map(([month, data]) => ({
+            month,
+            total: PriceCalculatorService.roundPrice(data.total),
+            orderCount: data.orderCount,
+            monthlyBudget,
+            byMarket: [...data.markets.values()].map(rounded).sort(byAmount),
+            byCategory: [...data.categories.values()].map(rounded).sort(byAmount),
+        }));
+    }
+
+    /**
+     * Cheaper available products in the market that look like the same thing:
+     * names sharing the most words first, then the cheapest
+     */
+    private static async findCheaperAlternatives(
+        marketId: string,
+        candidate: IBudgetCandidate,
+        maxUnitPrice: number,
+    ): Promise<IBudgetAlternative[]> {
+        const keywords = candidate.name
+            .toLowerCase()
+            .split(/[^a-z0-9]+/)
+            .filter(word => word.length >= 3);
+
+        const product = candidate.productId
+            ? await Product.findByPk(candidate.productId, { attributes: ['id', 'categoryId'] })
+            : null;
+
+        const matchers: WhereOptions<Product>[] = keywords.map(word => ({ name: { [Op.iLike]: `%${word}%` } }));
+        if (product?.categoryId) {
+            matchers.push({ categoryId: product.categoryId });
+        }
+
+        if (matchers.length === 0) {
+            return [];
+        }
+
+        const markupPercentage = await SystemSettingsService.getItemMarkupPercentage();
+
+        const candidates = await Product.findAll({
+            where: {
+                marketId,
+                isAvailable: true,
+                price: { [Op.gt]: 0 },
+                ...(candidate.productId && { id: { [Op.ne]: candidate.productId } }),
+                [Op.or]: matchers,
+            },
+            attributes: ['id', 'name', 'price', 'images'],
+            limit: 50,
+        });
+
+        return candidates
+            .map(alternative => ({
+                alternative,
+                price: PriceCalculatorService.applyMarkup(Number(alternative.price), markupPercentage),
+                sharedWords: keywords.filter(word => alternative.name.toLowerCase().includes(word)).length,
+            }))
+            .filter(({ price }) => price < candidate.unitPrice)
+            .sort((a, b) => b.sharedWords - a.sharedWords || a.price - b.price)
+            .slice(0, this.MAX_ALTERNATIVES)
+            .map(({ alternative, price }) => ({
+                productId: alternative.id,
+                name: alternative.name,
+                price,
+                image: alternative.images && alternative.images.length > 0 ? alternative.images[0] : null,
+                fitsBudget: price <= maxUnitPrice,
+            }));
+    }
+}
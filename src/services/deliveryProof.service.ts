@@ -0,0 +1,320 @@
+import crypto from 'crypto';
+import { Transaction } from 'sequelize';
+import DeliveryProof, { DeliveryProofStatus } from '../models/deliveryProof.model';
+import Order from '../models/order.model';
+import { BadRequestError, NotFoundError } from '../utils/customErrors';
+import { Database } from '../models';
+import { logger } from '../utils/logger';
+import { NotificationTypes } from '../utils/interface';
+import NotificationService from './notification.service';
+import OrderTrailService from './orderTrail.service';
+
+export interface IDeliveryCodeView {
+    orderId: string;
+    code: string | null;
+    status: DeliveryProofStatus;
+    verifiedAt: Date | null;
+}
+
+interface IHandoverAttempt {
+    verified: boolean;
+    locked: boolean;
+    attemptsLeft: number;
+    customerId: string;
+    orderNumber: string;
+}
+
+export default class DeliveryProofService {
+    private static readonly MAX_FAILED_ATTEMPTS = 5;
+    private static readonly LOCKOUT_MINUTES = 30;
+
+    /**
+     * Issue the handover code for an order going out for delivery.
+     * Reuses the existing code so the customer never sees two different ones.
+     */
+    static async issueCode(order: Order, transaction: Transaction): Promise<DeliveryProof> {
+        const [proof, created] = await DeliveryProof.findOrCreate({
+            where: { orderId: order.id },
+            defaults: {
+                orderId: order.id,
+                code: this.generateCode(),
+            },
+            transaction,
+        });
+
+        if (created) {
+            transaction.afterCommit(async () => {
+                try {
+                    await NotificationService.addNotification({
+                        userId: order.customerId,
+                        title: NotificationTypes.DELIVERY_CODE_ISSUED,
+                        heading: 'Your Delivery Code',
+                        message: `Share code ${proof.code} with your agent only when you receive order #${order.orderNumber}.`,
+                        resource: order.id,
+                    });
+                } catch (notificationError) {
+                    logger.error(`Failed to send delivery code for order ${order.orderNumber}:`, notificationError);
+                }
+            });
+        }
+
+        return proof;
+    }
+
+    /**
+     * Customer view of the handover code. Issued lazily for orders that went
+     * out for delivery through a path that didn't create one.
+     */
+    static async getDeliveryCode(orderId: string, customerId: string): Promise<IDeliveryCodeView> {
+        return await Database.transaction(async (transaction: Transaction) => {
+            const order = await Order.findOne({
+                where: { id: orderId, customerId },
+                transaction,
+            });
+
+            if (!order) {
+                throw new NotFoundError('Order not found');
+            }
+
+            let proof = await DeliveryProof.findOne({ where: { orderId }, transaction });
+
+            if (!proof) {
+                if (order.status !== 'delivery') {
+                    throw new BadRequestError('Your delivery code is available once the order is out for delivery');
+                }
+
+                proof = await this.issueCode(order, transaction);
+            }
+
+            return {
+                orderId,
+                // The code is useless once the handover is done
+                code: proof.status === DeliveryProofStatus.PENDING ? proof.code : null,
+                status: proof.status,
+                verifiedAt: proof.verifiedAt,
+            };
+        });
+    }
+
+    /**
+     * Whether the handover has been confirmed by code or by an admin
+     */
+    static async isHandoverConfirmed(orderId: string, transaction?: Transaction): Promise<boolean> {
+        const proof = await DeliveryProof.findOne({
+            where: { orderId },
+            attributes: ['status'],
+            transaction,
+        });
+
+        return !!proof && proof.status !== DeliveryProofStatus.PENDING;
+    }
+
+    /**
+     * Agent submits the customer's code, plus optional photos of the delivered bags,
+     * and the order is completed. Too many wrong codes lock the handover for a while.
+     */
+    static async confirmDelivery(
+        orderId: string,
+        agentId: string,
+        code: string,
+        photoUrls: string[] = [],
+    ): Promise<Order> {
+        if (!code) {
+            throw new BadRequestError('Delivery code is required');
+        }
+
+        const attempt = await Database.transaction(async (transaction: Transaction): Promise<IHandoverAttempt> => {
+            const order = await Order.findOne({
+                where: { id: orderId, agentId },
+                transaction,
+            });
+
+            if (!order) {
+                throw new NotFoundError('Order not found or not assigned to this agent');
+            }
+
+            if (order.status !== 'delivery') {
+                throw new BadRequestError('Only orders out for delivery can be handed over');
+            }
+
+            const proof = await DeliveryProof.findOne({
+                where: { orderId },
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
+
+            if (!proof) {
+                throw new BadRequestError('No delivery code has been issued yet. Ask the customer to open their delivery code in the app');
+            }
+
+            const result = {
+                verified: true,
+                locked: false,
+                attemptsLeft: this.MAX_FAILED_ATTEMPTS,
+                customerId: order.customerId,
+                orderNumber: order.orderNumber,
+            };
+
+            // Already confirmed; let the agent retry the completion
+            if (proof.status !== DeliveryProofStatus.PENDING) {
+                return result;
+            }
+
+            const now = new Date();
+
+            if (proof.lockedUntil && proof.lockedUntil > now) {
+                const minutesLeft = Math.ceil((proof.lockedUntil.getTime() - now.getTime()) / 60000);
+                throw new BadRequestError(
+                    `Too many incorrect codes. Try again in ${minutesLeft} minute(s) or contact support`,
+                );
+            }
+
+            if (!this.codesMatch(proof.code, String(code).trim())) {
+                const failedAttempts = proof.failedAttempts + 1;
+                const locked = failedAttempts >= this.MAX_FAILED_ATTEMPTS;
+
+                await proof.update(
+                    {
+                        failedAttempts: locked ? 0 : failedAttempts,
+                        lockedUntil: locked ? new Date(now.getTime() + this.LOCKOUT_MINUTES * 60000) : null,
+                    },
+                    { transaction },
+                );
+
+                return {
+                    ...result,
+                    verified: false,
+                    locked,
+                    attemptsLeft: locked ? 0 : this.MAX_FAILED_ATTEMPTS - failedAttempts,
+                };
+            }
+
+            await proof.update(
+                {
+                    status: DeliveryProofStatus.VERIFIED,
+                    verifiedAt: now,
+                    verifiedBy: agentId,
+                    photoUrls,
+                    failedAttempts: 0,
+                    lockedUntil: null,
+                },
+                { transaction },
+            );
+
+            return result;
+        });
+
+        if (!attempt.verified) {
+            if (attempt.locked) {
+                await this.handleLockout(orderId, agentId, attempt);
+                throw new BadRequestError(
+                    `Too many incorrect codes. Handover is locked for ${this.LOCKOUT_MINUTES} minutes`,
+                );
+            }
+
+            throw new BadRequestError(`Incorrect delivery code. ${attempt.attemptsLeft} attempt(s) left`);
+        }
+
+        await OrderTrailService.logOrderEvent(orderId, {
+            action: 'delivery_confirmed',
+            description: 'Agent confirmed the handover with the customer\'s delivery code',
+            performedBy: agentId,
+            metadata: { photoUrls },
+        });
+
+        const { default: AgentService } = await import('./agent.service');
+        return await AgentService.updateOrderStatus(agentId, orderId, 'completed');
+    }
+
+    /**
+     * Admin confirms the handover without the code, e.g. when the customer
+     * can't access it. The override and its reason go to the order trail.
+     */
+    static async overrideHandover(orderId: string, adminId: string, reason: string): Promise<Order> {
+        if (!reason || !reason.trim()) {
+            throw new BadRequestError('A reason is required to override the delivery code');
+        }
+
+        const order = await Database.transaction(async (transaction: Transaction) => {
+            const order = await Order.findByPk(orderId, { transaction });
+
+            if (!order) {
+                throw new NotFoundError('Order not found');
+            }
+
+            if (order.status !== 'delivery') {
+                throw new BadRequestError('Only orders out for delivery can be handed over');
+            }
+
+            if (!order.agentId) {
+                throw new BadRequestError('Order has no assigned agent');
+            }
+
+            const [proof] = await DeliveryProof.findOrCreate({
+                where: { orderId },
+                defaults: {
+                    orderId,
+                    code: this.generateCode(),
+                },
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
+
+            await proof.update(
+                {
+                    status: DeliveryProofStatus.OVERRIDDEN,
+                    verifiedAt: new Date(),
+                    overriddenBy: adminId,
+                    overrideReason: reason.trim(),
+                    lockedUntil: null,
+                },
+                { transaction },
+            );
+
+            return order;
+        });
+
+        await OrderTrailService.logOrderEvent(orderId, {
+            action: 'delivery_override',
+            description: 'Admin confirmed the handover without the delivery code',
+            performedBy: adminId,
+            metadata: { reason: reason.trim(), agentId: order.agentId },
+        });
+
+        const { default: AgentService } = await import('./agent.service');
+        return await AgentService.updateOrderStatus(order.agentId as string, orderId, 'completed');
+    }
+
+    private static async handleLockout(orderId: string, agentId: string, attempt: IHandoverAttempt): Promise<void> {
+        await OrderTrailService.logOrderEvent(orderId, {
+            action: 'delivery_code_locked',
+            description: `Handover locked after ${this.MAX_FAILED_ATTEMPTS} incorrect delivery codes`,
+            performedBy: agentId,
+            metadata: { lockoutMinutes: this.LOCKOUT_MINUTES },
+        });
+
+        try {
+            await NotificationService.addNotification({
+                userId: attempt.customerId,
+                title: NotificationTypes.DELIVERY_CODE_LOCKED,
+                heading: 'Delivery Code Locked',
+                message: `Several incorrect delivery codes were entered for order #${attempt.orderNumber}. Only share your code once you have your items.`,
+                resource: orderId,
+                actorId: agentId,
+            });
+        } catch (notificationError) {
+            logger.error(`Failed to send delivery lockout notification for order ${attempt.orderNumber}:`, notificationError);
+        }
+    }
+
+    private static generateCode(): string {
+        return crypto.randomInt(0, 1000000).toString().padStart(6, '0');
+    }
+
+    private static codesMatch(expected: string, provided: string): boolean {
+        const expectedBuffer = Buffer.from(expected);
+        const providedBuffer = Buffer.from(provided);
+
+        return expectedBuffer.length === providedBuffer.length && crypto.timingSafeEqual(expectedBuffer, providedBuffer);
+    }
+}
@@ -0,0 +1,548 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Op, QueryTypes, Transaction } from 'sequelize';
+import moment from 'moment-timezone';
+import DeliverySlot from '../models/deliverySlot.model';
+import DeliverySlotReservation, { DeliverySlotReservationStatus } from '../models/deliverySlotReservation.model';
+import Market from '../models/market.model';
+import Order from '../models/order.model';
+import User from '../models/user.model';
+import { IDeliverySlotSettings } from '../models/systemSettings.model';
+import { BadRequestError, NotFoundError } from '../utils/customErrors';
+import Pagination, { IPaginationQuery, IPaging } from '../utils/pagination';
+import { Database } from '../models';
+import { logger } from '../utils/logger';
+import SystemSettingsService from './systemSettings.service';
+
+export interface IDeliveryWindow {
+    slotId: string | null; // Null until the window has been booked or overridden
+    startsAt: Date;
+    endsAt: Date;
+    capacity: number;
+    booked: number;
+    remaining: number;
+    zoneRemaining: number | null; // Null when the zone has no limit
+    isClosed: boolean;
+    isAvailable: boolean;
+}
+
+export interface IAvailableSlotsQuery {
+    city?: string;
+    state?: string;
+    days?: number;
+}
+
+export interface IDeliverySlotFilters extends IPaginationQuery {
+    marketId?: string;
+    startDate?: Date;
+    endDate?: Date;
+}
+
+export interface IDeliverySlotOverride {
+    capacity?: number;
+    isClosed?: boolean;
+}
+
+export default class DeliverySlotService {
+    // Markets keep local hours; every window is laid out in Lagos time
+    private static readonly TIMEZONE = 'Africa/Lagos';
+
+    // Used when a market has no operating hours on record
+    private static readonly DEFAULT_HOURS = { open: '08:00', close: '20:00' };
+
+    private static readonly DAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+    /**
+     * List delivery windows for a market, with what is left in each.
+     * City and state narrow the count to the customer's delivery zone.
+     */
+    static async getAvailableSlots(marketId: string, query: IAvailableSlotsQuery = {}): Promise<IDeliveryWindow[]> {
+        const market = await Market.findByPk(marketId);
+
+        if (!market || !market.isActive) {
+            throw new NotFoundError('Market not found');
+        }
+
+        const settings = await SystemSettingsService.getDeliverySlotSettings();
+        const days = Math.min(Number(query.days) || settings.maxDaysAhead, settings.maxDaysAhead);
+        const windows = this.buildWindows(market, settings, days);
+
+        if (windows.length === 0) {
+            return [];
+        }
+
+        const rangeStart = windows[0].startsAt;
+        const rangeEnd = windows[windows.length - 1].endsAt;
+        const now = new Date();
+
+        const storedSlots = await DeliverySlot.findAll({
+            where: {
+                marketId,
+                startsAt: { [Op.between]: [rangeStart, rangeEnd] },
+            },
+        });
+        const slotsByStart = new Map(storedSlots.map(slot => [new Date(slot.startsAt).getTime(), slot]));
+
+        const bookedRows = storedSlots.length > 0
+            ? await DeliverySlotReservation.findAll({
+                where: {
+                    slotId: { [Op.in]: storedSlots.map(slot => slot.id) },
+                    ...this.activeReservationWhere(now),
+                },
+                attributes: ['slotId', [Database.fn('COUNT', Database.col('id')), 'booked']],
+                group: ['slotId'],
+                raw: true,
+            }) as any[]
+            : [];
+        const bookedBySlot = new Map(bookedRows.map(row => [row.slotId, Number(row.booked)]));
+
+        const zone = this.getZoneKey(query.city, query.state);
+        const zoneCapacity = zone ? this.getZoneCapacity(settings, zone) : 0;
+        const zoneReservations = zoneCapacity > 0
+            ? await DeliverySlotReservation.findAll({
+                where: {
+                    zone,
+                    startsAt: { [Op.lt]: rangeEnd },
+                    endsAt: { [Op.gt]: rangeStart },
+                    ...this.activeReservationWhere(now),
+                },
+                attributes: ['startsAt', 'endsAt'],
+            })
+            : [];
+
+        return windows.map(window => {
+            const slot = slotsByStart.get(window.startsAt.getTime());
+            const capacity = slot ? slot.capacity : this.getMarketCapacity(settings, marketId);
+            const booked = slot ? bookedBySlot.get(slot.id) ?? 0 : 0;
+            const remaining = Math.max(capacity - booked, 0);
+            const isClosed = slot?.isClosed ?? false;
+
+            let zoneRemaining: number | null = null;
+            if (zoneCapacity > 0) {
+                const zoneBooked = zoneReservations.filter(reservation =>
+                    new Date(reservation.startsAt) < window.endsAt && new Date(reservation.endsAt) > window.startsAt
+                ).length;
+                zoneRemaining = Math.max(zoneCapacity - zoneBooked, 0);
+            }
+
+            return {
+                slotId: slot?.id ?? null,
+                startsAt: window.startsAt,
+                endsAt: window.endsAt,
+                capacity,
+                booked,
+                remaining,
+                zoneRemaining,
+                isClosed,
+                isAvailable: !isClosed && remaining > 0 && (zoneRemaining === null || zoneRemaining > 0),
+            };
+        });
+    }
+
+    /**
+     * Hold a delivery window for an order at checkout. The hold lapses with the
+     * payment timeout unless the payment is confirmed first.
+     */
+    static async reserveSlot(
+        order: Order,
+        marketId: string,
+        slotStart: Date | string,
+        transaction: Transaction
+    ): Promise<DeliverySlotReservation> {
+        const requestedStart = moment(slotStart);
+        if (!requestedStart.isValid()) {
+            throw new BadRequestError('Invalid delivery slot start time');
+        }
+
+        const market = await Market.findByPk(marketId, { transaction });
+        if (!market || !market.isActive) {
+            throw new NotFoundError('Market not found');
+        }
+
+        const zone = this.getZoneKey(order.deliveryAddress?.city, order.deliveryAddress?.state);
+        if (!zone) {
+            throw new BadRequestError('Delivery address must include a city and state to schedule a delivery');
+        }
+
+        const settings = await SystemSettingsService.getDeliverySlotSettings();
+        const window = this.buildWindows(market, settings, settings.maxDaysAhead)
+            .find(candidate => candidate.startsAt.getTime() === requestedStart.valueOf());
+
+        if (!window) {
+            throw new BadRequestError('The selected delivery slot is not available for this market');
+        }
+
+        const [created] = await DeliverySlot.findOrCreate({
+            where: { marketId, startsAt: window.startsAt },
+            defaults: {
+                marketId,
+                startsAt: window.startsAt,
+                endsAt: window.endsAt,
+                capacity: this.getMarketCapacity(settings, marketId),
+            },
+            transaction,
+        });
+
+        // Lock the slot so concurrent checkouts can't both take the last place
+        const slot = await DeliverySlot.findByPk(created.id, {
+            lock: transaction.LOCK.UPDATE,
+            transaction,
+        });
+
+        if (!slot || slot.isClosed) {
+            throw new BadRequestError('The selected delivery slot is closed');
+        }
+
+        const now = new Date();
+        const booked = await DeliverySlotReservation.count({
+            where: {
+                slotId: slot.id,
+                ...this.activeReservationWhere(now),
+            },
+            transaction,
+        });
+
+        if (booked >= slot.capacity) {
+            throw new BadRequestError('The selected delivery slot is fully booked');
+        }
+
+        const zoneCapacity = this.getZoneCapacity(settings, zone);
+        if (zoneCapacity > 0) {
+            // Zone bookings span markets, so there is no single row to lock
+            await Database.query('SELECT pg_advisory_xact_lock(hashtext(:zone))', {
+                replacements: { zone },
+                type: QueryTypes.SELECT,
+                transaction,
+            });
+
+            const zoneBooked = await DeliverySlotReservation.count({
+                where: {
+                    zone,
+                    startsAt: { [Op.lt]: window.endsAt },
+                    endsAt: { [Op.gt]: window.startsAt },
+                    ...this.activeReservationWhere(now),
+                },
+                transaction,
+            });
+
+            if (zoneBooked >= zoneCapacity) {
+                throw new BadRequestError('No more deliveries can be scheduled to your area in this slot');
+            }
+        }
+
+        const paymentTimeoutMinutes = await SystemSettingsService.getPaymentTimeout();
+
+        const reservation = await DeliverySlotReservation.create(
+            {
+                slotId: slot.id,
+                orderId: order.id,
+                customerId: order.customerId,
+                zone,
+                startsAt: window.startsAt,
+                endsAt: window.endsAt,
+                status: DeliverySlotReservationStatus.HELD,
+                expiresAt: moment(now).add(paymentTimeoutMinutes || 30, 'minutes').toDate(),
+            },
+            { transaction },
+        );
+
+        await order.update(
+            {
+                deliverySlotId: slot.id,
+                scheduledDeliveryStart: window.startsAt,
+                scheduledDeliveryEnd: window.endsAt,
+            },
+            { transaction },
+        );
+
+        logger.info(`Delivery slot held for order ${order.orderNumber}`, {
+            slotId: slot.id,
+            startsAt: window.startsAt,
+            zone,
+        });
+
+        return reservation;
+    }
+
+    /**
+     * Turn the checkout hold into a confirmed booking once the order is paid.
+     * A hold that lapsed before a late payment arrived is still honoured.
+     */
+    static async confirmReservation(orderId: string, transaction?: Transaction): Promise<void> {
+        await DeliverySlotReservation.update(
+            { status: DeliverySlotReservationStatus.CONFIRMED, expiresAt: null },
+            {
+                where: { orderId, status: DeliverySlotReservationStatus.HELD },
+                transaction,
+            },
+        );
+    }
+
+    /**
+     * Give the order's place in its delivery window back
+     */
+    static async releaseReservation(orderId: string, reason: string, transaction?: Transaction): Promise<void> {
+        const [released] = await DeliverySlotReservation.update(
+            {
+                status: DeliverySlotReservationStatus.RELEASED,
+                releasedAt: new Date(),
+                releaseReason: reason,
+            },
+            {
+                where: {
+                    orderId,
+                    status: { [Op.in]: [DeliverySlotReservationStatus.HELD, DeliverySlotReservationStatus.CONFIRMED] },
+                },
+                transaction,
+            },
+        );
+
+        if (released > 0) {
+            logger.info(`Delivery slot released for order ${orderId}`, { reason });
+        }
+    }
+
+    /**
+     * When an agent should be assigned to a scheduled order, or null if the order is as soon as possible
+     */
+    static async getAgentAssignmentTime(order: Order): Promise<Date | null> {
+        if (!order.scheduledDeliveryStart) {
+            return null;
+        }
+
+        const settings = await SystemSettingsService.getDeliverySlotSettings();
+        return moment(order.scheduledDeliveryStart)
+            .subtract(settings.assignmentLeadTimeMinutes, 'minutes')
+            .toDate();
+    }
+
+    /**
+     * Admin: list booked or overridden delivery slots
+     */
+    static async getSlots(filters: IDeliverySlotFilters): Promise<{ slots: any[]; pagination: IPaging }> {
+        const { page, size, marketId, startDate, endDate } = filters;
+
+        const where: any = {};
+        if (marketId) where.marketId = marketId;
+        if (startDate || endDate) {
+            where.startsAt = {};
+            if (startDate) where.startsAt[Op.gte] = startDate;
+            if (endDate) where.startsAt[Op.lte] = endDate;
+        }
+
+        const queryOptions: any = {};
+        if (page && size && page > 0 && size > 0) {
+            const { limit, offset } = Pagination.getPagination({ page, size } as IPaging);
+            queryOptions.limit = limit ?? 0;
+            queryOptions.offset = offset ?? 0;
+        }
+
+        const { count, rows } = await DeliverySlot.findAndCountAll({
+            where,
+            include: [
+                {
+                    model: Market,
+                    attributes: ['id', 'name'],
+                },
+            ],
+            order: [['startsAt', 'ASC']],
+            ...queryOptions,
+        });
+
+        const bookedRows = rows.length > 0
+            ? await DeliverySlotReservation.findAll({
+                where: {
+                    slotId: { [Op.in]: rows.map(slot => slot.id) },
+                    ...this.activeReservationWhere(new Date()),
+                },
+                attributes: ['slotId', [Database.fn('COUNT', Database.col('id')), 'booked']],
+                group: ['slotId'],
+                raw: true,
+            }) as any[]
+            : [];
+        const bookedBySlot = new Map(bookedRows.map(row => [row.slotId, Number(row.booked)]));
+
+        const slots = rows.map(slot => ({
+            ...slot.toJSON(),
+            booked: bookedBySlot.get(slot.id) ?? 0,
+        }));
+
+        let pagination: IPaging = { page: page || null, limit: size || null, size: size || null };
+        if (page && size && rows.length > 0) {
+            const totalPages = Pagination.estimateTotalPage({ count, limit: size } as IPaging);
+            pagination = { count, page, limit: size, size, ...totalPages };
+        }
+
+        return { slots, pagination };
+    }
+
+    /**
+     * Admin: a slot with every order booked into it
+     */
+    static async getSlotById(slotId: string): Promise<DeliverySlot> {
+        const slot = await DeliverySlot.findByPk(slotId, {
+            include: [
+                {
+                    model: Market,
+                    attributes: ['id', 'name'],
+                },
+                {
+                    model: DeliverySlotReservation,
+                    include: [
+                        { model: Order, attributes: ['id', 'orderNumber', 'status', 'paymentStatus', 'agentId'] },
+                        { model: User, as: 'customer', attributes: ['id', 'firstName', 'lastName', 'email'] },
+                    ],
+                },
+            ],
+        });
+
+        if (!slot) {
+            throw new NotFoundError('Delivery slot not found');
+        }
+
+        return slot;
+    }
+
+    /**
+     * Admin: change the capacity of one window or close it. Orders already
+     * booked into the window keep their place.
+     */
+    static async overrideSlot(
+        marketId: string,
+        slotStart: Date | string,
+        override: IDeliverySlotOverride
+    ): Promise<DeliverySlot> {
+        const startsAt = moment(slotStart);
+        if (!startsAt.isValid()) {
+            throw new BadRequestError('Invalid delivery slot start time');
+        }
+
+        if (override.capacity !== undefined && (!Number.isInteger(Number(override.capacity)) || Number(override.capacity) < 0)) {
+            throw new BadRequestError('Capacity must be a whole number of zero or more');
+        }
+
+        const market = await Market.findByPk(marketId);
+        if (!market) {
+            throw new NotFoundError('Market not found');
+        }
+
+        const settings = await SystemSettingsService.getDeliverySlotSettings();
+
+        return await Database.transaction(async (transaction: Transaction) => {
+            const [slot] = await DeliverySlot.findOrCreate({
+                where: { marketId, startsAt: startsAt.toDate() },
+                defaults: {
+                    marketId,
+                    startsAt: startsAt.toDate(),
+                    endsAt: startsAt.clone().add(settings.slotDurationMinutes, 'minutes').toDate(),
+                    capacity: this.getMarketCapacity(settings, marketId),
+                },
+                transaction,
+            });
+
+            const updateData: IDeliverySlotOverride = {};
+            if (override.capacity !== undefined) updateData.capacity = Number(override.capacity);
+            if (override.isClosed !== undefined) updateData.isClosed = override.isClosed;
+
+            await slot.update(updateData, { transaction });
+
+            return slot;
+        });
+    }
+
+    /**
+     * Lay out the delivery windows for the coming days from the market's opening hours
+     */
+    private static buildWindows(
+        market: Market,
+        settings: IDeliverySlotSettings,
+        days: number
+    ): { startsAt: Date; endsAt: Date }[] {
+        const windows: { startsAt: Date; endsAt: Date }[] = [];
+        const duration = settings.slotDurationMinutes;
+        const earliestStart = moment().tz(this.TIMEZONE).add(settings.minimumLeadTimeMinutes, 'minutes');
+        const today = moment().tz(this.TIMEZONE).startOf('day');
+
+        if (!duration || duration <= 0) {
+            return windows;
+        }
+
+        for (let offset = 0; offset < days; offset++) {
+            const day = today.clone().add(offset, 'days');
+            const hours = this.getHoursForDay(market.operatingHours, day.day());
+
+            if (!hours) {
+                continue;
+            }
+
+            const open = day.clone().add(hours.open, 'minutes');
+            const close = day.clone().add(hours.close, 'minutes');
+
+            for (let start = open.clone(); start.clone().add(duration, 'minutes').isSameOrBefore(close); start.add(duration, 'minutes')) {
+                if (start.isBefore(earliestStart)) {
+                    continue;
+                }
+
+                windows.push({
+                    startsAt: start.toDate(),
+                    endsAt: start.clone().add(duration, 'minutes').toDate(),
+                });
+            }
+        }
+
+        return windows;
+    }
+
+    /**
+     * Opening and closing time in minutes after midnight, or null if the market is closed that day
+     */
+    private static getHoursForDay(operatingHours: any, dayOfWeek: number): { open: number; close: number } | null {
+        const dayHours = operatingHours ? operatingHours[this.DAY_NAMES[dayOfWeek]] : this.DEFAULT_HOURS;
+
+        if (!dayHours || !dayHours.open || !dayHours.close || dayHours.open === 'closed' || dayHours.close === 'closed') {
+            return null;
+        }
+
+        const toMinutes = (time: string) => {
+            const [hours, minutes] = time.split(':').map(Number);
+            return hours * 60 + (minutes || 0);
+        };
+
+        const open = toMinutes(dayHours.open);
+        const close = toMinutes(dayHours.close);
+
+        if (isNaN(open) || isNaN(close) || close <= open) {
+            return null;
+        }
+
+        return { open, close };
+    }
+
+    private static getZoneKey(city?: string, state?: string): string | null {
+        if (!city || !state) {
+            return null;
+        }
+
+        return `${state.trim()}:${city.trim()}`.toLowerCase();
+    }
+
+    private static getMarketCapacity(settings: IDeliverySlotSettings, marketId: string): number {
+        return Number(settings.marketCapacities[marketId] ?? settings.defaultMarketCapacity);
+    }
+
+    private static getZoneCapacity(settings: IDeliverySlotSettings, zone: string): number {
+        return Number(settings.zoneCapacities[zone] ?? settings.defaultZoneCapacity);
+    }
+
+    // Confirmed bookings, plus checkout holds that haven't lapsed yet
+    private static activeReservationWhere(now: Date): any {
+        return {
+            [Op.or]: [
+                { status: DeliverySlotReservationStatus.CONFIRMED },
+                {
+                    status: DeliverySlotReservationStatus.HELD,
+                    expiresAt: { [Op.gt]: now },
+                },
+            ],
+        };
+    }
+}
@@ -0,0 +1,234 @@
+import ejs from 'ejs';
+import puppeteer from 'puppeteer';
+import moment from 'moment-timezone';
+import Order from '../models/order.model';
+import ShoppingList from '../models/shoppingList.model';
+import ShoppingListItem from '../models/shoppingListItem.model';
+import Market from '../models/market.model';
+import User from '../models/user.model';
+import { BadRequestError, NotFoundError } from '../utils/customErrors';
+import { logger } from '../utils/logger';
+import { emailService } from '../utils/Email';
+import { invoiceTemplate } from '../views/invoice';
+import PriceCalculatorService from './priceCalculator.service';
+import OrderTipService from './orderTip.service';
+
+export interface IInvoiceLine {
+    name: string;
+    quantity: number;
+    unit: string | null;
+    estimatedPrice: number | null; // Unit price quoted at checkout
+    actualPrice: number | null; // Unit price charged at the market
+    amount: number;
+}
+
+export interface IInvoiceData {
+    invoiceNumber: string;
+    orderNumber: string;
+    issuedAt: string;
+    completedAt: string | null;
+    customer: {
+        name: string;
+        email: string;
+        phone: string | null;
+    };
+    deliveryAddress: string;
+    marketName: string | null;
+    agentName: string | null;
+    items: IInvoiceLine[];
+    estimatedSubtotal: number;
+    subtotal: number;
+    serviceFee: number;
+    deliveryFee: number;
+    discounts: { name: string; amount: number }[];
+    discountAmount: number;
+    tipAmount: number; // Goes to the agent in full
+    total: number;
+    amountPaid: number;
+    walletAmount: number;
+    paymentMethod: string | null;
+    paymentReference: string | null;
+}
+
+export default class InvoiceService {
+    private static readonly TIMEZONE = 'Africa/Lagos';
+
+    /**
+     * Invoice for one of the customer's completed orders, as HTML
+     */
+    static async getInvoiceHtml(orderId: string, customerId: string): Promise<{ html: string; invoice: IInvoiceData }> {
+        const invoice = await this.buildInvoice(orderId, customerId);
+
+        return { html: this.renderHtml(invoice), invoice };
+    }
+
+    /**
+     * Invoice for one of the customer's completed orders, as a PDF
+     */
+    static async getInvoicePdf(orderId: string, customerId: string): Promise<{ pdf: Buffer; invoice: IInvoiceData }> {
+        const invoice = await this.buildInvoice(orderId, customerId);
+        const pdf = await this.renderPdf(this.renderHtml(invoice));
+
+        return { pdf, invoice };
+    }
+
+    /**
+     * Email the customer their invoice once the order is completed
+     */
+    static async sendInvoiceEmail(orderId: string): Promise<boolean> {
+        const invoice = await this.buildInvoice(orderId);
+        const pdf = await this.renderPdf(this.renderHtml(invoice));
+
+        return await emailService.sendOrderInvoiceEmail({
+            recipientEmail: invoice.customer.email,
+            name: invoice.customer.name,
+            orderNumber: invoice.orderNumber,
+            total: this.formatMoney(invoice.total),
+            invoiceNumber: invoice.invoiceNumber,
+            pdf,
+        });
+    }
+
+    private static async buildInvoice(orderId: string, customerId?: string): Promise<IInvoiceData> {
+        const order = await Order.findByPk(orderId, {
+            include: [
+                {
+                    model: ShoppingList,
+                    as: 'shoppingList',
+                    attributes: ['id', 'name'],
+                    include: [
+                        {
+                            model: ShoppingListItem,
+                            as: 'items',
+                            attributes: ['id', 'name', 'quantity', 'unit', 'estimatedPrice', 'actualPrice', 'createdAt'],
+                        },
+                        {
+                            model: Market,
+                            as: 'market',
+                            attributes: ['id', 'name'],
+                        },
+                    ],
+                },
+                {
+                    model: User,
+                    as: 'customer',
+                    attributes: ['id', 'firstName', 'lastName', 'email', 'phone'],
+                },
+                {
+                    model: User,
+                    as: 'agent',
+                    attributes: ['id', 'firstName', 'lastName'],
+                },
+            ],
+            order: [[{ model: ShoppingList, as: 'shoppingList' }, { model: ShoppingListItem, as: 'items' }, 'createdAt', 'ASC']],
+        });
+
+        if (!order || (customerId && order.customerId !== customerId)) {
+            throw new NotFoundError('Order not found');
+        }
+
+        if (order.status !== 'completed') {
+            throw new BadRequestError('An invoice is available once the order is completed');
+        }
+
+        const items: IInvoiceLine[] = (order.shoppingList?.items || []).map(item => {
+            const estimatedPrice = item.estimatedPrice !== null && item.estimatedPrice !== undefined
+                ? Number(item.estimatedPrice)
+                : null;
+            const actualPrice = item.actualPrice !== null && item.actualPrice !== undefined
+                ? Number(item.actualPrice)
+                : null;
+
+            return {
+                name: item.name,
+                quantity: item.quantity,
+                unit: item.unit || null,
+                estimatedPrice,
+                actualPrice,
+                amount: PriceCalculatorService.roundPrice((actualPrice ?? estimatedPrice ?? 0) * item.quantity),
+            };
+        });
+
+        const estimatedSubtotal = PriceCalculatorService.roundPrice(
+            items.reduce((sum, item) => sum + (item.estimatedPrice ?? 0) * item.quantity, 0),
+        );
+        const subtotal = PriceCalculatorService.roundPrice(items.reduce((sum, item) => sum + item.amount, 0));
+        const serviceFee = Number(order.serviceFee) || 0;
+        const deliveryFee = Number(order.deliveryFee) || 0;
+        const discounts = (order.appliedDiscounts || []).map(discount => ({
+            name: discount.name,
+            amount: PriceCalculatorService.roundPrice(Number(discount.amount) || 0),
+        }));
+        const discountAmount = Number(order.discountAmount) || 0;
+        const tipAmount = Number(order.tipAmount) || 0;
+        // Tips after delivery are separate charges on top of what was paid at checkout
+        const laterTips = await OrderTipService.getPaidTips(order.id);
+        const laterTipAmount = laterTips.reduce((sum, tip) => sum + Number(tip.amount), 0);
+
+        const customer = order.customer;
+        const address = order.deliveryAddress;
+
+        return {
+            invoiceNumber: `INV-${order.orderNumber}`,
+            orderNumber: order.orderNumber,
+            issuedAt: moment().tz(this.TIMEZONE).format('D MMM YYYY'),
+            completedAt: order.completedAt ? moment(order.completedAt).tz(this.TIMEZONE).format('D MMM YYYY, h:mm A') : null,
+            customer: {
+                name: `${customer?.firstName ?? ''} ${customer?.lastName ?? ''}`.trim() || 'Customer',
+                email: customer?.email ?? '',
+                phone: customer?.phone?.number ? `${customer.phone.countryCode ?? ''}${customer.phone.number}` : null,
+            },
+            deliveryAddress: [address?.address, address?.city, address?.state].filter(Boolean).join(', '),
+            marketName: order.shoppingList?.market?.name ?? null,
+            agentName: order.agent ? `${order.agent.firstName} ${order.agent.lastName}`.trim() : null,
+            items,
+            estimatedSubtotal,
+            subtotal,
+            serviceFee,
+            deliveryFee,
+            discounts,
+            discountAmount,
+            tipAmount,
+            total: PriceCalculatorService.roundPrice(Math.max(0, subtotal + serviceFee + deliveryFee - discountAmount) + tipAmount),
+            amountPaid: PriceCalculatorService.roundPrice((Number(order.amountPaid ?? order.totalAmount) || 0) + laterTipAmount),
+            walletAmount: Number(order.walletAmount) || 0,
+            paymentMethod: order.paymentMethod ?? null,
+            paymentReference: order.paymentId ?? null,
+        };
+    }
+
+    private static renderHtml(invoice: IInvoiceData): string {
+        return ejs.render(invoiceTemplate, {
+            invoice,
+            formatMoney: (value: number) => this.formatMoney(value),
+        });
+    }
+
+    private static async renderPdf(html: string): Promise<Buffer> {
+        const browser = await puppeteer.launch({
+            headless: true,
+            args: ['--no-sandbox', '--disable-setuid-sandbox'],
+        });
+
+        try {
+            const page = await browser.newPage();
+            await page.setContent(html, { waitUntil: 'domcontentloaded' });
+            const pdf = await page.pdf({
+                format: 'A4',
+                printBackground: true,
+                margin: { top: '16px', bottom: '16px', left: '16px', right: '16px' },
+            });
+
+            return Buffer.from(pdf);
+        } catch (error) {
+            logger.error('Failed to render invoice PDF:', error);
+            throw error;
+        } finally {
+            await browser.close();
+        }
+    }
+
+    private static formatMoney(value: number): string {
+        return `₦${Number(value).toLocaleString('en-NG', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+    }
+}
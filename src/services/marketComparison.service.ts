@@ -0,0 +1,452 @@
+import { Op, WhereOptions } from 'sequelize';
+import ShoppingList from '../models/shoppingList.model';
+import ShoppingListItem from '../models/shoppingListItem.model';
+import Market, { MarketTypeValues } from '../models/market.model';
+import Product from '../models/product.model';
+import { ILocalUnitConversion, SYSTEM_SETTING_KEYS } from '../models/systemSettings.model';
+import { BadRequestError, NotFoundError } from '../utils/customErrors';
+import UnitRegistry from '../utils/units';
+import { HomeService } from './home.service';
+import PriceCalculatorService from './priceCalculator.service';
+import ShoppingListCollaboratorService from './shoppingListCollaborator.service';
+import ShoppingListImportService from './shoppingListImport.service';
+import SystemSettingsService from './systemSettings.service';
+import UnitService from './unit.service';
+
+export type MarketItemStatus = 'priced' | 'price_unknown' | 'missing';
+
+export interface IMarketComparisonQuery {
+    latitude: number;
+    longitude: number;
+    radius?: number; // Kilometres
+    limit?: number;
+}
+
+export interface IMarketItemQuote {
+    itemId: string;
+    name: string;
+    status: MarketItemStatus;
+    productId: string | null;
+    productName: string | null;
+    quantity: number; // Of the product, e.g. 2 bags for 1.5 kg of rice sold in 1 kg bags
+    price: number | null; // Marked-up price per product
+    lineTotal: number | null;
+}
+
+export interface IMarketQuote {
+    marketId: string;
+    name: string;
+    marketType: MarketTypeValues;
+    address: string;
+    distance: number | null; // Kilometres from the customer
+    isCurrentMarket: boolean;
+    coverage: {
+        total: number;
+        priced: number;
+        priceUnknown: number; // Local markets sell it, but the agent finds the price on the day
+        missing: number;
+    };
+    isComplete: boolean; // Every item found with a price
+    subtotal: number; // Priced items only
+    serviceFee: number;
+    deliveryFee: number; // Flat estimate; the courier quote at checkout is exact
+    total: number;
+    items: IMarketItemQuote[];
+}
+
+export interface IMarketRecommendation {
+    type: 'single' | 'split' | 'none';
+    markets: { marketId: string; name: string; itemIds: string[]; subtotal: number }[];
+    total: number | null;
+    savings: number; // Against the list's current market, or the best single market for a split
+    reason: string;
+}
+
+export interface IMarketComparison {
+    shoppingListId: string;
+    itemCount: number;
+    markets: IMarketQuote[];
+    recommendation: IMarketRecommendation;
+}
+
+interface ISplitPlan {
+    markets: IMarketRecommendation['markets'];
+    total: number;
+}
+
+interface IProductOffer {
+    product: Product;
+    confidence: number;
+}
+
+/**
+ * Prices a shopping list at each market near the customer and recommends where to shop:
+ * one market, or two when splitting the list saves enough to be worth a second order.
+ */
+export default class MarketComparisonService {
+    private static readonly DEFAULT_RADIUS_KM = 5;
+    private static readonly MAX_RADIUS_KM = 50;
+    private static readonly DEFAULT_MARKET_LIMIT = 10;
+    private static readonly MAX_MARKET_LIMIT = 20;
+
+    // A split list means two orders and two agents, so it has to save at least this much
+    private static readonly MIN_SPLIT_SAVINGS = 500;
+
+    static async compareList(listId: string, userId: string, query: IMarketComparisonQuery): Promise<IMarketComparison> {
+        const { latitude, longitude } = query;
+
+        if (isNaN(latitude) || isNaN(longitude) || latitude < -90 || latitude > 90 || longitude < -180 || longitude > 180) {
+            throw new BadRequestError('A valid latitude and longitude are required');
+        }
+
+        const radius = Math.min(query.radius || this.DEFAULT_RADIUS_KM, this.MAX_RADIUS_KM);
+        const limit = Math.min(query.limit || this.DEFAULT_MARKET_LIMIT, this.MAX_MARKET_LIMIT);
+
+        const list = await ShoppingList.findByPk(listId, {
+            include: [{ model: ShoppingListItem, as: 'items' }],
+        });
+
+        if (!list) {
+            throw new NotFoundError('Shopping list not found');
+        }
+
+        await ShoppingListCollaboratorService.assertCanView(list, userId);
+
+        if (list.status !== 'draft') {
+            throw new BadRequestError('Only draft shopping lists can be compared across markets');
+        }
+
+        if (!list.items || list.items.length === 0) {
+            throw new BadRequestError('Add items to the list before comparing markets');
+        }
+
+        const markets = (await new HomeService().getNearbyMarkets(latitude, longitude, radius, limit))
+            .filter(market => market.isActive);
+
+        if (markets.length === 0) {
+            throw new NotFoundError('No markets found near this location');
+        }
+
+        const [markupPercentage, localUnits, deliveryFee] = await Promise.all([
+            SystemSettingsService.getItemMarkupPercentage(),
+            UnitService.getLocalUnits(),
+            this.estimateDeliveryFee(),
+        ]);
+
+        const marketIds = markets.map(market => market.id);
+        const offers = new Map<string, Map<string, Product>>(); // Item ID -> market ID -> product
+        for (const item of list.items) {
+            offers.set(item.id, await this.findOffers(item, marketIds));
+        }
+
+        const quotes: IMarketQuote[] = [];
+        for (const market of markets) {
+            const items = list.items.map(item => this.quoteItem(
+                item,
+                market,
+                offers.get(item.id)?.get(market.id) ?? null,
+                markupPercentage,
+                localUnits,
+            ));
+
+            const subtotal = PriceCalculatorService.roundPrice(
+                items.reduce((sum, item) => sum + (item.lineTotal ?? 0), 0),
+            );
+            const fees = await SystemSettingsService.calculateTotal(subtotal, 0, { deliveryFee });
+            const distance = market.get('distance') as number | undefined;
+
+            const coverage = {
+                total: items.length,
+                priced: items.filter(item => item.status === 'priced').length,
+                priceUnknown: items.filter(item => item.status === 'price_unknown').length,
+                missing: items.filter(item => item.status === 'missing').length,
+            };
+
+            quotes.push({
+                marketId: market.id,
+                name: market.name,
+                marketType: market.marketType,
+                address: market.address,
+                distance: distance !== undefined && distance !== null ? Math.round(Number(distance) * 100) / 100 : null,
+                isCurrentMarket: market.id === list.marketId,
+                coverage,
+                isComplete: coverage.priced === coverage.total,
+                subtotal,
+                serviceFee: fees.serviceFee,
+                deliveryFee: fees.deliveryFee,
+                total: fees.total,
+                items,
+            });
+        }
+
+        quotes.sort((a, b) => this.compareQuotes(a, b));
+
+        return {
+            shoppingListId: list.id,
+            itemCount: list.items.length,
+            markets: quotes,
+            recommendation: await this.recommend(quotes, deliveryFee),
+        };
+    }
+
+    /**
+     * The best-matching product for an item in each candidate market. The item's own
+     * product wins in its market; elsewhere products are matched by name.
+     */
+    private static async findOffers(item: ShoppingListItem, marketIds: string[]): Promise<Map<string, Product>> {
+        const offers = new Map<string, IProductOffer>();
+        const attributes = ['id', 'name', 'price', 'attributes', 'marketId'];
+
+        if (item.productId) {
+            const linked = await Product.findOne({
+                where: { id: item.productId, marketId: { [Op.in]: marketIds }, isAvailable: true },
+                attributes,
+            });
+
+            if (linked) {
+                offers.set(linked.marketId, { product: linked, confidence: 1 });
+            }
+        }
+
+        const keywords = ShoppingListImportService.getKeywords(item.name);
+        if (keywords.length > 0) {
+            const matchers: WhereOptions<Product>[] = keywords.map(word => ({ name: { [Op.iLike]: `%${word}%` } }));
+
+            const candidates = await Product.findAll({
+                where: {
+                    marketId: { [Op.in]: marketIds.filter(id => !offers.has(id)) },
+                    isAvailable: true,
+                    [Op.or]: matchers,
+                },
+                attributes,
+                limit: 200,
+            });
+
+            for (const candidate of candidates) {
+                const confidence = ShoppingListImportService.scoreMatch(keywords, candidate.name);
+                if (confidence < ShoppingListImportService.MATCH_THRESHOLD) {
+                    continue;
+                }
+
+                // Best match per market; between equally good matches, the cheaper one
+                const current = offers.get(candidate.marketId);
+                if (
+                    !current
+                    || confidence > current.confidence
+                    || (confidence === current.confidence && Number(candidate.price) < Number(current.product.price))
+                ) {
+                    offers.set(candidate.marketId, { product: candidate, confidence });
+                }
+            }
+        }
+
+        return new Map([...offers.entries()].map(([marketId, offer]) => [marketId, offer.product]));
+    }
+
+    private static quoteItem(
+        item: ShoppingListItem,
+        market: Market,
+        product: Product | null,
+        markupPercentage: number,
+        localUnits: Record<string, ILocalUnitConversion>,
+    ): IMarketItemQuote {
+        const quantity = Number(item.quantity) || 1;
+
+        if (!product || !Number(product.price)) {
+            // Local markets stock most things without listing them; their prices are set on the day
+            const status: MarketItemStatus = product || market.marketType === 'local_market' ? 'price_unknown' : 'missing';
+
+            return {
+                itemId: item.id,
+                name: item.name,
+                status,
+                productId: product?.id ?? null,
+                productName: product?.name ?? null,
+                quantity,
+                price: null,
+                lineTotal: null,
+            };
+        }
+
+        // Buy enough of the product to cover the item, e.g. 2 bags for 1.5 kg from 1 kg bags
+        let productQuantity = quantity;
+        const size = UnitService.getProductSize(product);
+        if (item.unit && size) {
+            const sizesNeeded = UnitRegistry.convert(quantity, item.unit, size.unit, localUnits, item.name);
+            if (sizesNeeded !== null) {
+                productQuantity = Math.max(Math.ceil(sizesNeeded / size.quantity), 1);
+            }
+        }
+
+        const price = PriceCalculatorService.applyMarkup(Number(product.price), markupPercentage);
+
+        return {
+            itemId: item.id,
+            name: item.name,
+            status: 'priced',
+            productId: product.id,
+            productName: product.name,
+            quantity: productQuantity,
+            price,
+            lineTotal: PriceCalculatorService.roundPrice(price * productQuantity),
+        };
+    }
+
+    private static async recommend(quotes: IMarketQuote[], deliveryFee: number): Promise<IMarketRecommendation> {
+        const complete = quotes.filter(quote => quote.isComplete);
+        const bestSingle = complete[0] ?? null;
+        const current = quotes.find(quote => quote.isCurrentMarket && quote.isComplete);
+
+        const bestSplit = await this.findBestSplit(quotes, deliveryFee);
+
+        if (bestSplit && (!bestSingle || bestSplit.total <= bestSingle.total - this.MIN_SPLIT_SAVINGS)) {
+            const savings = bestSingle ? PriceCalculatorService.roundPrice(bestSingle.total - bestSplit.total) : 0;
+
+            return {
+                ...bestSplit,
+                type: 'split',
+                savings,
+                reason: bestSingle
+                    ? `Splitting the list between ${bestSplit.markets.map(market => market.name).join(' and ')} saves ₦${savings.toLocaleString()}`
+                    : 'No single market has everything on the list, but these two do between them',
+            };
+        }
+
+        if (bestSingle) {
+            const savings = current && current.marketId !== bestSingle.marketId
+                ? PriceCalculatorService.roundPrice(current.total - bestSingle.total)
+                : 0;
+
+            return {
+                type: 'single',
+                markets: [{
+                    marketId: bestSingle.marketId,
+                    name: bestSingle.name,
+                    itemIds: bestSingle.items.map(item => item.itemId),
+                    subtotal: bestSingle.subtotal,
+                }],
+                total: bestSingle.total,
+                savings,
+                reason: savings > 0
+                    ? `${bestSingle.name} is ₦${savings.toLocaleString()} cheaper than your current market`
+                    : `${bestSingle.name} is the cheapest nearby market with everything on your list`,
+            };
+        }
+
+        // Nothing is fully priced; local markets that stock everything are still worth suggesting
+        const local = quotes
+            .filter(quote => quote.marketType === 'local_market' && quote.coverage.missing === 0)
+            .sort((a, b) => (a.distance ?? Number.MAX_VALUE) - (b.distance ?? Number.MAX_VALUE));
+
+        return {
+            type: 'none',
+            markets: local.map(quote => ({
+                marketId: quote.marketId,
+                name: quote.name,
+                itemIds: quote.items.map(item => item.itemId),
+                subtotal: quote.subtotal,
+            })),
+            total: null,
+            savings: 0,
+            reason: local.length > 0
+                ? 'No nearby market lists prices for everything. The local markets shown should have it all, and the agent confirms prices when shopping'
+                : 'No nearby market has everything on your list',
+        };
+    }
+
+    /**
+     * The cheapest pair of markets that between them price every item. Each item goes to
+     * whichever of the two is cheaper; both orders pay a service fee but delivery is charged
+     * once, as with a basket checkout.
+     */
+    private static async findBestSplit(
+        quotes: IMarketQuote[],
+        deliveryFee: number,
+    ): Promise<ISplitPlan | null> {
+        let best: ISplitPlan | null = null;
+
+        const priced = quotes.filter(quote => quote.coverage.priced > 0);
+
+        for (let i = 0; i < priced.length; i++) {
+            for (let j = i + 1; j < priced.length; j++) {
+                const pair = [priced[i], priced[j]];
+                const assigned = pair.map(() => ({ itemIds: [] as string[], subtotal: 0 }));
+                let coversAll = true;
+
+                for (let index = 0; index < pair[0].items.length; index++) {
+                    const options = pair
+                        .map((quote, position) => ({ position, lineTotal: quote.items[index].lineTotal }))
+                        .filter(option => option.lineTotal !== null) as { position: number; lineTotal: number }[];
+
+                    if (options.length === 0) {
+                        coversAll = false;
+                        break;
+                    }
+
+                    const cheapest = options.sort((a, b) => a.lineTotal - b.lineTotal)[0];
+                    assigned[cheapest.position].itemIds.push(pair[0].items[index].itemId);
+                    assigned[cheapest.position].subtotal += cheapest.lineTotal;
+                }
+
+                // A pair where one market gets nothing is just a single market
+                if (!coversAll || assigned.some(share => share.itemIds.length === 0)) {
+                    continue;
+                }
+
+                let total = 0;
+                for (let position = 0; position < pair.length; position++) {
+                    const fees = await SystemSettingsService.calculateTotal(assigned[position].subtotal, 0, {
+                        deliveryFee: position === 0 ? deliveryFee : 0,
+                    });
+                    total += fees.total;
+                }
+                total = PriceCalculatorService.roundPrice(total);
+
+                if (!best || total < best.total) {
+                    best = {
+                        markets: pair.map((quote, position) => ({
+                            marketId: quote.marketId,
+                            name: quote.name,
+                            itemIds: assigned[position].itemIds,
+                            subtotal: PriceCalculatorService.roundPrice(assigned[position].subtotal),
+                        })),
+                        total,
+                    };
+                }
+            }
+        }
+
+        return best;
+    }
+
+    /**
+     * Complete markets first, cheapest then nearest; the rest by how much of the list they have
+     */
+    private static compareQuotes(a: IMarketQuote, b: IMarketQuote): number {
+        if (a.isComplete !== b.isComplete) {
+            return a.isComplete ? -1 : 1;
+        }
+
+        if (a.isComplete) {
+            return a.total - b.total || (a.distance ?? Number.MAX_VALUE) - (b.distance ?? Number.MAX_VALUE);
+        }
+
+        return a.coverage.missing - b.coverage.missing
+            || a.coverage.priceUnknown - b.coverage.priceUnknown
+            || (a.distance ?? Number.MAX_VALUE) - (b.distance ?? Number.MAX_VALUE);
+    }
+
+    /**
+     * Base fee plus surcharge, as used for checkout totals before a courier quote exists
+     */
+    private static async estimateDeliveryFee(): Promise<number> {
+        const settings = await SystemSettingsService.getSettings([
+            SYSTEM_SETTING_KEYS.DELIVERY_FEE,
+            SYSTEM_SETTING_KEYS.DELIVERY_SURCHARGE,
+        ]);
+
+        return PriceCalculatorService.roundPrice(
+            (settings[SYSTEM_SETTING_KEYS.DELIVERY_FEE] || 500) + (settings[SYSTEM_SETTING_KEYS.DELIVERY_SURCHARGE] || 500),
+        );
+    }
+}
@@ -2,6 +2,7 @@ import Meal from '../models/meal.model';
 import MealIngredient from '../models/mealIngredient.model';
 import Product from '../models/product.model';
 import { NotFoundError, BadRequestError } from '../utils/customErrors';
+import UnitRegistry from '../utils/units';
 import { IMeal } from '../models/meal.model';
 import { IMealIngredient } from '../models/mealIngredient.model';
 import { Op } from 'sequelize';
@@ -119,12 +120,18 @@ export default class MealService {
 
         const scalingFactor = servings / meal.servings;
 
-        const scaledIngredients = meal.mealIngredients.map(ingredient => ({
-            ...ingredient.toJSON(),
-            quantity: Math.round((ingredient.quantity * scalingFactor) * 100) / 100, // Round to 2 decimal places
-            estimatedPrice: ingredient.estimatedPrice ?
-                Math.round((ingredient.estimatedPrice * scalingFactor) * 100) / 100 : null,
-        }));
+        const scaledIngredients = meal.mealIngredients.map(ingredient => {
+            // Whole pieces, with spoons moving up to cups and grams to kilograms as amounts grow
+            const scaled = UnitRegistry.scale(Number(ingredient.quantity), ingredient.unit, scalingFactor);
+
+            return {
+                ...ingredient.toJSON(),
+                quantity: scaled.quantity,
+                unit: scaled.unit,
+                estimatedPrice: ingredient.estimatedPrice ?
+                    Math.round((ingredient.estimatedPrice * scalingFactor) * 100) / 100 : null,
+            };
+        });
 
         return {
             meal: {
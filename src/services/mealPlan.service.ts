@@ -0,0 +1,532 @@
+import { Op, Transaction } from 'sequelize';
+import moment from 'moment';
+import MealPlan from '../models/mealPlan.model';
+import MealPlanEntry, { IMealPlanEntry, MealSlot } from '../models/mealPlanEntry.model';
+import Meal from '../models/meal.model';
+import MealIngredient from '../models/mealIngredient.model';
+import Market from '../models/market.model';
+import Product from '../models/product.model';
+import ShoppingList from '../models/shoppingList.model';
+import { IShoppingListItem } from '../models/shoppingListItem.model';
+import { Database } from '../models';
+import { BadRequestError, NotFoundError } from '../utils/customErrors';
+import Pagination, { IPaginationQuery, IPaging } from '../utils/pagination';
+import UnitRegistry, { UnitDimension } from '../utils/units';
+import PantryService from './pantry.service';
+import PriceCalculatorService from './priceCalculator.service';
+import ShoppingListService from './shoppingList.service';
+import SystemSettingsService from './systemSettings.service';
+import UnitService from './unit.service';
+
+export interface IMealPlanEntryInput {
+    dayIndex: number;
+    slot: MealSlot;
+    mealId: string;
+    servings?: number;
+}
+
+export interface ICreateMealPlanData {
+    name: string;
+    startDate: string;
+    days?: number;
+    entries?: IMealPlanEntryInput[];
+}
+
+export interface IAggregatedIngredient {
+    name: string;
+    quantity: number; // Still to buy, after anything already in the pantry
+    unit: string | null;
+    requiredQuantity: number; // What the meals call for in total
+    pantryQuantity: number; // Taken off because the customer already has it
+    inPantry: boolean; // In the pantry, even if the units couldn't be compared
+    approximate: boolean; // Includes local units like mudu, converted at their approximate size
+    productId: string | null;
+    estimatedCost: number | null; // From the meals' ingredient estimates, for the quantity still to buy
+    meals: string[];
+}
+
+export interface IAggregationOptions {
+    subtractPantry?: boolean;
+}
+
+export interface IGenerateListOptions extends IAggregationOptions {
+    marketId: string;
+    listName?: string;
+}
+
+interface IIngredientTotal {
+    name: string;
+    normalizedName: string;
+    dimension: UnitDimension | null; // Null for units we don't know
+    unit: string | null; // Base unit for known dimensions, otherwise the ingredient's own unit
+    amount: number;
+    approximate: boolean;
+    estimatedCost: number | null;
+    productId: string | null;
+    meals: Set<string>;
+}
+
+export default class MealPlanService {
+    private static readonly MAX_DAYS = 31;
+
+    private static readonly MAX_SERVINGS = 50;
+
+    static async createMealPlan(userId: string, data: ICreateMealPlanData): Promise<MealPlan> {
+        const { name, startDate, days = 7, entries = [] } = data;
+
+        if (!name || !name.trim()) {
+            throw new BadRequestError('Meal plan name is required');
+        }
+
+        this.validateSchedule(startDate, days);
+
+        for (const entry of entries) {
+            this.validateEntry(entry, days);
+        }
+        await this.assertMealsExist(entries.map(entry => entry.mealId));
+
+        const planId = await Database.transaction(async (transaction: Transaction) => {
+            const plan = await MealPlan.create(
+                { userId, name: name.trim(), startDate, days },
+                { transaction },
+            );
+
+            if (entries.length > 0) {
+                await MealPlanEntry.bulkCreate(
+                    entries.map(entry => ({ ...this.toEntryValues(entry), mealPlanId: plan.id })),
+                    { transaction },
+                );
+            }
+
+            return plan.id;
+        });
+
+        return await this.getMealPlan(planId, userId);
+    }
+
+    static async getMealPlans(
+        userId: string,
+        query: IPaginationQuery,
+    ): Promise<{ mealPlans: MealPlan[]; pagination: IPaging }> {
+        const { page, size } = query;
+
+        const queryOptions: { limit?: number; offset?: number } = {};
+        if (page && size && page > 0 && size > 0) {
+            const { limit, offset } = Pagination.getPagination({ page, size } as IPaging);
+            queryOptions.limit = limit ?? 0;
+            queryOptions.offset = offset ?? 0;
+        }
+
+        const { count, rows } = await MealPlan.findAndCountAll({
+            where: { userId },
+            order: [['startDate', 'DESC']],
+            ...queryOptions,
+        });
+
+        let pagination: IPaging = { page: page || null, limit: size || null, size: size || null };
+        if (page && size && rows.length > 0) {
+            const totalPages = Pagination.estimateTotalPage({ count, limit: size } as IPaging);
+            pagination = { count, page, limit: size, size, ...totalPages };
+        }
+
+        return { mealPlans: rows, pagination };
+    }
+
+    static async getMealPlan(id: string, userId: string): Promise<MealPlan> {
+        const plan = await MealPlan.findOne({
+            where: { id, userId },
+            include: [
+                {
+                    model: MealPlanEntry,
+                    as: 'entries',
+                    include: [
+                        {
+                            model: Meal,
+                            as: 'meal',
+                            attributes: ['id', 'name', 'image', 'servings', 'estimatedCost'],
+                        },
+                    ],
+                },
+                { model: Market, as: 'market', attributes: ['id', 'name', 'marketType'] },
+            ],
+            order: [
+                [{ model: MealPlanEntry, as: 'entries' }, 'dayIndex', 'ASC'],
+                [{ model: MealPlanEntry, as: 'entries' }, 'slot', 'ASC'],
+            ],
+        });
+
+        if (!plan) {
+            throw new NotFoundError('Meal plan not found');
+        }
+
+        return plan;
+    }
+
+    static async updateMealPlan(
+        id: string,
+        userId: string,
+        updates: { name?: string; startDate?: string; days?: number },
+    ): Promise<MealPlan> {
+        const plan = await this.findOwnedPlan(id, userId);
+
+        const startDate = updates.startDate ?? plan.startDate;
+        const days = updates.days ?? plan.days;
+        this.validateSchedule(startDate, days);
+
+        if (updates.name !== undefined && !updates.name.trim()) {
+            throw new BadRequestError('Meal plan name cannot be empty');
+        }
+
+        // Shortening a plan would leave meals on days that no longer exist
+        if (days < plan.days) {
+            const outOfRange = await MealPlanEntry.count({
+                where: { mealPlanId: plan.id, dayIndex: { [Op.gte]: days } },
+            });
+
+            if (outOfRange > 0) {
+                throw new BadRequestError('Remove the meals planned after the new last day first');
+            }
+        }
+
+        await plan.update({
+            ...(updates.name !== undefined && { name: updates.name.trim() }),
+            startDate,
+            days,
+        });
+
+        return await this.getMealPlan(id, userId);
+    }
+
+    static async deleteMealPlan(id: string, userId: string): Promise<void> {
+        const plan = await this.findOwnedPlan(id, userId);
+        await plan.destroy();
+    }
+
+    static async addEntry(id: string, userId: string, entry: IMealPlanEntryInput): Promise<MealPlanEntry> {
+        const plan = await this.findOwnedPlan(id, userId);
+
+        this.validateEntry(entry, plan.days);
+        await this.assertMealsExist([entry.mealId]);
+
+        return await MealPlanEntry.create({ ...this.toEntryValues(entry), mealPlanId: plan.id });
+    }
+
+    static async updateEntry(
+        id: string,
+        userId: string,
+        entryId: string,
+        updates: Partial<IMealPlanEntryInput>,
+    ): Promise<MealPlanEntry> {
+        const plan = await this.findOwnedPlan(id, userId);
+        const entry = await this.findEntry(plan.id, entryId);
+
+        const merged: IMealPlanEntryInput = {
+            dayIndex: updates.dayIndex ?? entry.dayIndex,
+            slot: updates.slot ?? entry.slot,
+            mealId: updates.mealId ?? entry.mealId,
+            servings: updates.servings ?? entry.servings,
+        };
+
+        this.validateEntry(merged, plan.days);
+        if (updates.mealId && updates.mealId !== entry.mealId) {
+            await this.assertMealsExist([updates.mealId]);
+        }
+
+        return await entry.update(this.toEntryValues(merged));
+    }
+
+    static async removeEntry(id: string, userId: string, entryId: string): Promise<void> {
+        const plan = await this.findOwnedPlan(id, userId);
+        const entry = await this.findEntry(plan.id, entryId);
+        await entry.destroy();
+    }
+
+    /**
+     * Every ingredient the plan needs, merged across meals. Quantities are scaled to each
+     * entry's servings and converted to a common unit where the units are comparable.
+     */
+    static async getAggregatedIngredients(
+        id: string,
+        userId: string,
+        options: IAggregationOptions = {},
+    ): Promise<IAggregatedIngredient[]> {
+        const plan = await this.findOwnedPlan(id, userId);
+
+        const entries = await MealPlanEntry.findAll({
+            where: { mealPlanId: plan.id },
+            include: [
+                {
+                    model: Meal,
+                    as: 'meal',
+                    attributes: ['id', 'name', 'servings'],
+                    include: [{ model: MealIngredient, as: 'mealIngredients' }],
+                },
+            ],
+        });
+
+        if (entries.length === 0) {
+            return [];
+        }
+
+        const localUnits = await UnitService.getLocalUnits();
+        const totals = new Map<string, IIngredientTotal>();
+
+        for (const entry of entries) {
+            const { meal } = entry;
+            const scale = entry.servings / (meal.servings || 1);
+
+            for (const ingredient of meal.mealIngredients) {
+                // Optional ingredients are left to the customer to add
+                if (ingredient.isOptional) {
+                    continue;
+                }
+
+                const normalizedName = PantryService.normalizeName(ingredient.ingredientName);
+                const quantity = Number(ingredient.quantity) * scale;
+                const base = UnitRegistry.toBase(quantity, ingredient.unit, localUnits, ingredient.ingredientName);
+                const unit = base ? base.unit : UnitRegistry.normalize(ingredient.unit);
+
+                // Same ingredient in incompatible units (e.g. "2 cups" and "1 bunch") stays as separate lines
+                const key = `${normalizedName}|${unit}`;
+                const amount = base ? base.amount : quantity;
+                const cost = ingredient.estimatedPrice ? Number(ingredient.estimatedPrice) * scale : null;
+
+                const total = totals.get(key);
+                if (total) {
+                    total.amount += amount;
+                    total.estimatedCost = cost === null ? total.estimatedCost : (total.estimatedCost ?? 0) + cost;
+                    total.productId = total.productId ?? ingredient.productId;
+                    total.approximate = total.approximate || !!base?.approximate;
+                    total.meals.add(meal.name);
+                } else {
+                    totals.set(key, {
+                        name: ingredient.ingredientName,
+                        normalizedName,
+                        dimension: base ? base.dimension : null,
+                        unit,
+                        amount,
+                        approximate: !!base?.approximate,
+                        estimatedCost: cost,
+                        productId: ingredient.productId,
+                        meals: new Set([meal.name]),
+                    });
+                }
+            }
+        }
+
+        const onHand = options.subtractPantry ? await PantryService.getOnHand(userId) : new Map();
+
+        return [...totals.values()]
+            .map(total => {
+                const pantryItem = onHand.get(total.normalizedName);
+                let pantryAmount = 0;
+
+                if (pantryItem) {
+                    const pantryBase = UnitRegistry.toBase(pantryItem.quantity, pantryItem.unit, localUnits, pantryItem.name);
+                    if (pantryBase ? pantryBase.unit === total.unit : UnitRegistry.normalize(pantryItem.unit) === total.unit) {
+                        pantryAmount = Math.min(pantryBase ? pantryBase.amount : pantryItem.quantity, total.amount);
+                    }
+                }
+
+                const remaining = total.amount - pantryAmount;
+                const display = this.toReadable(remaining, total);
+                const required = this.toReadable(total.amount, total);
+
+                return {
+                    name: total.name,
+                    quantity: display.quantity,
+                    unit: display.unit,
+                    requiredQuantity: required.quantity,
+                    pantryQuantity: PriceCalculatorService.roundPrice(
+                        UnitRegistry.convert(pantryAmount, total.unit, display.unit) ?? pantryAmount,
+                    ),
+                    inPantry: !!pantryItem,
+                    approximate: total.approximate,
+                    productId: total.productId,
+                    estimatedCost: total.estimatedCost === null || total.amount === 0
+                        ? null
+                        : PriceCalculatorService.roundPrice(total.estimatedCost * (remaining / total.amount)),
+                    meals: [...total.meals],
+                };
+            })
+            .sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Turn the plan into one draft shopping list for the chosen market, priced from
+     * that market's products. Ingredients fully covered by the pantry are left off.
+     */
+    static async generateShoppingList(id: string, userId: string, options: IGenerateListOptions): Promise<ShoppingList> {
+        const plan = await this.findOwnedPlan(id, userId);
+
+        const market = await Market.findByPk(options.marketId, { attributes: ['id', 'name', 'isActive'] });
+        if (!market || !market.isActive) {
+            throw new NotFoundError('Market not found');
+        }
+
+        const ingredients = (await this.getAggregatedIngredients(plan.id, userId, options))
+            .filter(ingredient => ingredient.quantity > 0);
+
+        if (ingredients.length === 0) {
+            throw new BadRequestError('Nothing to buy for this meal plan');
+        }
+
+        const markupPercentage = await SystemSettingsService.getItemMarkupPercentage();
+        const localUnits = await UnitService.getLocalUnits();
+        const items: Omit<IShoppingListItem, 'shoppingListId'>[] = [];
+
+        for (const ingredient of ingredients) {
+            const product = await this.findMarketProduct(ingredient, market.id);
+            const needed = UnitRegistry.toBase(ingredient.quantity, ingredient.unit, localUnits, ingredient.name);
+            const note = `For ${ingredient.meals.join(', ')}`;
+
+            // When we know the product's size, buy enough of it to cover what's needed,
+            // e.g. 1.5 kg of rice from 1 kg bags is 2 bags
+            const productSize = product ? UnitService.getProductSize(product) : null;
+            const sizesNeeded = productSize
+                ? UnitRegistry.convert(ingredient.quantity, ingredient.unit, productSize.unit, localUnits, ingredient.name)
+                : null;
+
+            // Otherwise weights and volumes become one item with the amount needed in the notes
+            const byPack = sizesNeeded !== null || (!!needed && needed.dimension !== 'count');
+            let quantity = byPack ? 1 : Math.ceil(ingredient.quantity);
+            if (sizesNeeded !== null && productSize) {
+                quantity = Math.max(Math.ceil(sizesNeeded / productSize.quantity), 1);
+            }
+
+            let estimatedPrice: number | null = null;
+            if (product) {
+                estimatedPrice = PriceCalculatorService.applyMarkup(Number(product.price), markupPercentage);
+            } else if (ingredient.estimatedCost !== null) {
+                estimatedPrice = PriceCalculatorService.roundPrice(ingredient.estimatedCost / quantity);
+            }
+
+            items.push({
+                name: product?.name ?? ingredient.name,
+                quantity,
+                unit: byPack ? null : ingredient.unit,
+                notes: byPack ? `Need ${ingredient.quantity} ${ingredient.unit}. ${note}` : note,
+                productId: product?.id ?? null,
+                productImage: product?.images && product.images.length > 0 ? product.images[0] : null,
+                estimatedPrice,
+                addedBy: userId,
+            });
+        }
+
+        const shoppingList = await ShoppingListService.createShoppingList(
+            {
+                name: options.listName?.trim() || `${plan.name} - ${moment(plan.startDate).format('D MMM')}`,
+                notes: `Shopping for meal plan "${plan.name}"`,
+                customerId: userId,
+                marketId: market.id,
+                status: 'draft',
+            },
+            items,
+        );
+
+        await plan.update({ marketId: market.id, shoppingListId: shoppingList.id });
+
+        return shoppingList;
+    }
+
+    private static async findOwnedPlan(id: string, userId: string): Promise<MealPlan> {
+        const plan = await MealPlan.findOne({ where: { id, userId } });
+
+        if (!plan) {
+            throw new NotFoundError('Meal plan not found');
+        }
+
+        return plan;
+    }
+
+    private static async findEntry(mealPlanId: string, entryId: string): Promise<MealPlanEntry> {
+        const entry = await MealPlanEntry.findOne({ where: { id: entryId, mealPlanId } });
+
+        if (!entry) {
+            throw new NotFoundError('Meal plan entry not found');
+        }
+
+        return entry;
+    }
+
+    /**
+     * The ingredient's linked product if it's sold in this market, otherwise the
+     * closest match by name
+     */
+    private static async findMarketProduct(ingredient: IAggregatedIngredient, marketId: string): Promise<Product | null> {
+        if (ingredient.productId) {
+            const linked = await Product.findOne({
+                where: { id: ingredient.productId, marketId, isAvailable: true },
+                attributes: ['id', 'name', 'price', 'images', 'attributes'],
+            });
+
+            if (linked) {
+                return linked;
+            }
+        }
+
+        return await Product.findOne({
+            where: { marketId, isAvailable: true, name: { [Op.iLike]: `%${ingredient.name.trim()}%` } },
+            attributes: ['id', 'name', 'price', 'images', 'attributes'],
+            order: [['price', 'ASC']],
+        });
+    }
+
+    private static validateSchedule(startDate: string, days: number): void {
+        if (!startDate || !moment(startDate, 'YYYY-MM-DD', true).isValid()) {
+            throw new BadRequestError('startDate must be a date in YYYY-MM-DD format');
+        }
+
+        if (!Number.isInteger(days) || days < 1 || days > this.MAX_DAYS) {
+            throw new BadRequestError(`days must be between 1 and ${this.MAX_DAYS}`);
+        }
+    }
+
+    private static validateEntry(entry: IMealPlanEntryInput, days: number): void {
+        if (!entry.mealId) {
+            throw new BadRequestError('mealId is required for each planned meal');
+        }
+
+        if (!Number.isInteger(entry.dayIndex) || entry.dayIndex < 0 || entry.dayIndex >= days) {
+            throw new BadRequestError(`dayIndex must be between 0 and ${days - 1}`);
+        }
+
+        if (!Object.values(MealSlot).includes(entry.slot)) {
+            throw new BadRequestError(`Invalid slot. Must be one of: ${Object.values(MealSlot).join(', ')}`);
+        }
+
+        if (entry.servings !== undefined
+            && (!Number.isInteger(entry.servings) || entry.servings < 1 || entry.servings > this.MAX_SERVINGS)) {
+            throw new BadRequestError(`servings must be between 1 and ${this.MAX_SERVINGS}`);
+        }
+    }
+
+    private static async assertMealsExist(mealIds: string[]): Promise<void> {
+        const uniqueIds = [...new Set(mealIds)];
+        if (uniqueIds.length === 0) {
+            return;
+        }
+
+        const found = await Meal.count({ where: { id: { [Op.in]: uniqueIds }, isActive: true } });
+        if (found !== uniqueIds.length) {
+            throw new BadRequestError('One or more meals were not found or are not available');
+        }
+    }
+
+    private static toEntryValues(entry: IMealPlanEntryInput): Omit<IMealPlanEntry, 'mealPlanId'> {
+        return {
+            dayIndex: entry.dayIndex,
+            slot: entry.slot,
+            mealId: entry.mealId,
+            ...(entry.servings !== undefined && { servings: entry.servings }),
+        };
+    }
+
+    private static toReadable(amount: number, total: IIngredientTotal): { quantity: number; unit: string | null } {
+        if (!total.dimension || !total.unit) {
+            return { quantity: PriceCalculatorService.roundPrice(amount), unit: total.unit };
+        }
+
+        return UnitRegistry.toReadable(amount, total.dimension, total.unit);
+    }
+}
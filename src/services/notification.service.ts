@@ -31,6 +31,7 @@ export default class NotificationService {
             case NotificationTypes.CHAT_ACTIVATED:
                 return 'low';
             case NotificationTypes.USER_LEFT_CHAT:
+            case NotificationTypes.PANTRY_RESTOCK_REMINDER:
                 return 'low';
             case NotificationTypes.PAYMENT_SUCCESSFUL:
             case NotificationTypes.ORDER_COMPLETED:
@@ -16,6 +16,10 @@ import OrderTrailService from './orderTrail.service';
 import PriceCalculatorService from './priceCalculator.service';
 import SystemSettingsService from './systemSettings.service';
 import NotificationService from './notification.service';
+import RefundService from './refund.service';
+import WalletService, { IWalletPaymentOptions } from './wallet.service';
+import DeliverySlotService from './deliverySlot.service';
+import OrderStateMachine, { OrderActor, OrderStatus } from './orderStateMachine.service';
 import { NotificationTypes } from '../utils/interface';
 
 export interface IViewOrdersQuery {
@@ -143,83 +147,43 @@ export default class OrderService {
     }
 
     /**
-     * Validates if a user has permission to change an order to the requested status
+     * Works out which actor a user is on an order, so the state machine can check the transition
      *
      * @param order - The order being updated
      * @param user - User attempting to update the order
      * @param userId - ID of the user attempting the update
-     * @param status - The requested new status
-     * @throws {ForbiddenError|BadRequestError} - When user lacks permission for the requested change
+     * @returns The actor the user is acting as on this order
+     * @throws {ForbiddenError} - When the user is neither the assigned agent nor the customer
      */
-    private static validateOrderStatusPermissions(
+    private static resolveOrderActor(
         order: Order,
         user: User,
         userId: string,
-        status: string,
-    ): void {
+    ): OrderActor {
         if (user.status.userType === 'agent') {
             // Agents can only update orders assigned to them
             if (order.agentId !== userId) {
                 throw new ForbiddenError('You are not assigned to this order');
             }
-
-            // Agents can set statuses throughout the shopping and delivery workflow
-            // accepted → in_progress → shopping → shopping_completed → delivery → completed
-            if (!['accepted', 'in_progress', 'shopping', 'shopping_completed', 'delivery', 'completed'].includes(status)) {
-                throw new ForbiddenError('Agents can only update orders through the shopping and delivery workflow');
-            }
-        } else if (order.customerId === userId) {
-            // Customers can only cancel their own orders
-            if (status !== 'cancelled') {
-                throw new ForbiddenError('You can only cancel your orders');
-            }
-
-            // Can't cancel if already completed
-            if (order.status === 'completed') {
-                throw new BadRequestError('Cannot cancel a completed order');
-            }
-            // } else if (user.status.userType === 'admin') {
-            // Admins can update to any status
-        } else {
-            throw new ForbiddenError('You are not authorized to update this order');
+            return 'agent';
         }
-    }
 
-    /**
-     * Validates if a transition between order statuses is allowed
-     *
-     * @param currentStatus - The current status of the order
-     * @param newStatus - The requested target status
-     * @returns `true` if the transition is valid, `false` otherwise
-     *
-     * @example
-     * // Valid transitions:
-     * isValidStatusTransition('pending', 'accepted') // true
-     * isValidStatusTransition('accepted', 'in_progress') // true
-     *
-     * // Invalid transitions:
-     * isValidStatusTransition('pending', 'completed') // false
-     * isValidStatusTransition('completed', 'in_progress') // false
-     */
-    private static isValidStatusTransition(currentStatus: string, newStatus: string): boolean {
-        const validTransitions: Record<string, string[]> = {
-            pending: ['accepted', 'cancelled'],
-            accepted: ['in_progress', 'cancelled'],
-            in_progress: ['shopping', 'cancelled'],
-            shopping: ['shopping_completed', 'cancelled'],
-            shopping_completed: ['delivery', 'cancelled'],
-            delivery: ['completed', 'cancelled'],
-            completed: [],
-            cancelled: ['cancelled'], // Allow cancelled -> cancelled for concurrent cancellation handling
-        };
+        if (order.customerId === userId) {
+            return 'customer';
+        }
 
-        return validTransitions[currentStatus]?.includes(newStatus) || false;
+        throw new ForbiddenError('You are not authorized to update this order');
     }
 
     /**
-     * Create a new order without automatic agent assignment (agents are assigned after payment completion)
+     * Create a new order without automatic agent assignment (agents are assigned after payment completion).
+     * Wallet funds, if requested, are taken in the same transaction; the rest is charged through the payment provider.
      */
-    static async createOrder(orderData: IOrder): Promise<Order> {
+    static async createOrder(
+        orderData: IOrder,
+        walletPayment?: IWalletPaymentOptions,
+        deliverySlotStart?: Date | string,
+    ): Promise<Order> {
         return await Database.transaction(async (transaction: Transaction) => {
             // Check if the shopping list exists and is in a valid state
             const shoppingList = await ShoppingList.findByPk(orderData.shoppingListId, {
@@ -256,6 +220,17 @@ export default class OrderService {
                 { transaction },
             );
 
+            // Hold the customer's chosen delivery window until payment comes through
+            if (deliverySlotStart) {
+                await DeliverySlotService.reserveSlot(newOrder, shoppingList.marketId, deliverySlotStart, transaction);
+            }
+
+            // Cover part or all of the order from the customer's wallet
+            if (walletPayment?.amount || walletPayment?.useAvailableBalance) {
+                const walletAmount = await WalletService.debitForOrder(newOrder, walletPayment, transaction);
+                await newOrder.update({ walletAmount }, { transaction });
+            }
+
             // Keep the shopping list status as draft until payment is completed
             await shoppingList.update(
                 {
@@ -281,6 +256,15 @@ export default class OrderService {
                     order.customerId,
                     order,
                 );
+
+                if (Number(order.walletAmount) > 0) {
+                    await OrderTrailService.logOrderEvent(order.id, {
+                        action: 'wallet_payment_applied',
+                        description: `₦${order.walletAmount} paid from the customer's wallet`,
+                        performedBy: order.customerId,
+                        metadata: { walletAmount: order.walletAmount, totalAmount: order.totalAmount },
+                    });
+                }
             } catch (error) {
                 logger.error('Failed to create order trail entry', {
                     orderId: order.id,
@@ -341,23 +325,15 @@ export default class OrderService {
 
             if (assignedAgent) {
                 // Update the order with agent assignment
-                await order.update(
-                    {
-                        agentId: assignedAgent.id,
-                        status: 'accepted',
-                        acceptedAt: new Date(),
-                    },
-                    { transaction },
-                );
+                await OrderStateMachine.transition(order, 'accepted', {
+                    actor: 'system',
+                    transaction,
+                    changes: { agentId: assignedAgent.id, acceptedAt: new Date() },
+                    reason: 'Agent assigned automatically',
+                });
 
-                // Update the shopping list status and agent
-                await shoppingList.update(
-                    {
-                        status: 'processing',
-                        agentId: assignedAgent.id,
-                    },
-                    { transaction },
-                );
+                // Update the shopping list agent
+                await shoppingList.update({ agentId: assignedAgent.id }, { transaction });
 
                 // Set agent as busy
                 await AgentService.setAgentBusy(assignedAgent.id, order.id, transaction);
@@ -368,14 +344,6 @@ export default class OrderService {
                     assignedAgent.id,
                 );
 
-                // Log status change
-                await OrderTrailService.logStatusChange(
-                    orderId,
-                    assignedAgent.id,
-                    'pending',
-                    'accepted',
-                );
-
                 // Send notifications for agent assignment
                 try {
                     // Notify customer about agent assignment
@@ -767,19 +735,58 @@ export default class OrderService {
 
         const updateData: Partial<IOrder> = { paymentStatus };
         
-        // If payment completed, also update order status if still pending
         if (paymentStatus === 'completed' && order.status === 'pending') {
-            updateData.status = 'accepted';
-            updateData.acceptedAt = new Date();
             updateData.paymentProcessedAt = new Date();
         }
+
+        // Remember what was actually charged so later price changes can be reconciled
+        if (paymentStatus === 'completed' && (order.amountPaid === null || order.amountPaid === undefined)) {
+            updateData.amountPaid = order.totalAmount;
+        }
         
-        // If payment failed or expired, cancel the order if still pending
-        if ((paymentStatus === 'failed' || paymentStatus === 'expired') && order.status === 'pending') {
-            updateData.status = 'cancelled';
+        // If payment completed, also accept the order if still pending;
+        // if it failed or expired, cancel the order if still pending
+        let nextStatus: OrderStatus | null = null;
+        if (order.status === 'pending') {
+            if (paymentStatus === 'completed') {
+                nextStatus = 'accepted';
+            } else if (paymentStatus === 'failed' || paymentStatus === 'expired') {
+                nextStatus = 'cancelled';
+            }
+        }
+
+        if (nextStatus) {
+            const applyPaymentStatus = async (txn: Transaction) => {
+                await OrderStateMachine.transition(order, nextStatus as OrderStatus, {
+                    actor: 'system',
+                    transaction: txn,
+                    changes: updateData,
+                    reason: `Payment ${paymentStatus}`,
+                });
+            };
+
+            if (transaction) {
+                await applyPaymentStatus(transaction);
+            } else {
+                await Database.transaction(applyPaymentStatus);
+            }
+        } else {
+            await order.update(updateData, { transaction });
+        }
+
+        // Give back any wallet funds applied at checkout
+        if ((paymentStatus === 'failed' || paymentStatus === 'expired') && Number(order.walletAmount) > 0) {
+            await WalletService.releaseOrderPayment(orderId, 'system', transaction);
         }
 
-        await order.update(updateData, { transaction });
+        // Keep or free the order's delivery window
+        if (order.deliverySlotId) {
+            if (paymentStatus === 'completed') {
+                await DeliverySlotService.confirmReservation(orderId, transaction);
+            } else if (paymentStatus === 'failed' || paymentStatus === 'expired') {
+                await DeliverySlotService.releaseReservation(orderId, `payment_${paymentStatus}`, transaction);
+            }
+        }
         
         // Log the payment status change (outside transaction for non-critical operation)
         if (!transaction) {
@@ -823,141 +830,29 @@ export default class OrderService {
                 throw new NotFoundError('User not found');
             }
 
-            // Validate permissions
-            this.validateOrderStatusPermissions(order, user, userId, status);
-
-            // Validate status transition
-            if (!this.isValidStatusTransition(order.status, status)) {
-                throw new BadRequestError(`Cannot change status from ${order.status} to ${status}`);
-            }
+            const actor = this.resolveOrderActor(order, user, userId);
+            const previousStatus = order.status;
 
-            // Update order status with appropriate timestamps and side effects
-            const updateData: Partial<IOrder> = { status };
-            const now = new Date();
+            await OrderStateMachine.transition(order, status, { actor, actorId: userId, transaction });
 
-            switch (status) {
-                case 'accepted':
-                    if (!order.acceptedAt) {
-                        updateData.acceptedAt = now;
-                    }
-                    break;
-                case 'shopping':
-                    if (!order.shoppingStartedAt) {
-                        updateData.shoppingStartedAt = now;
+            // Refund paid orders only once the cancellation is committed
+            if (status === 'cancelled' && previousStatus !== 'cancelled' && order.paymentStatus === 'completed') {
+                transaction.afterCommit(async () => {
+                    try {
+                        await RefundService.issueCancellationRefund(order.id, previousStatus, userId);
+                    } catch (refundError) {
+                        logger.error(`Failed to issue cancellation refund for order ${order.orderNumber}:`, refundError);
                     }
-                    break;
-                case 'shopping_completed':
-                    if (!order.shoppingCompletedAt) {
-                        updateData.shoppingCompletedAt = now;
-                    }
-                    break;
-                case 'delivery':
-                    if (!order.deliveryStartedAt) {
-                        updateData.deliveryStartedAt = now;
-                    }
-                    break;
-                case 'completed':
-                    if (!order.completedAt) {
-                        updateData.completedAt = now;
-                        // Update shopping list status
-                        await ShoppingList.update(
-                            { status: 'completed' },
-                            { where: { id: order.shoppingListId }, transaction },
-                        );
-                        // Update agent status back to available
-                        if (order.agentId) {
-                            await AgentService.updateAgentStatus(order.agentId, 'available');
-                        }
-                    }
-                    break;
-                case 'cancelled':
-                    updateData.cancelledAt = now;
-                    // Update shopping list status
-                    // await ShoppingList.update(
-                    //     { status: 'cancelled' },
-                    //     { where: { id: order.shoppingListId }, transaction },
-                    // );
-                    // Update agent status back to available
-                    if (order.agentId) {
-                        await AgentService.updateAgentStatus(order.agentId, 'available');
-                    }
-                    break;
+                });
             }
 
-            // Store previous status for logging
-            const previousStatus = order.status;
-
-            await order.update(updateData, { transaction });
-
-            // Log status change
-            await OrderTrailService.logStatusChange(
-                order.id,
-                userId,
-                previousStatus,
-                status,
-            );
-
-            // Log completion if order is completed
-            if (status === 'completed') {
-                await OrderTrailService.logOrderCompletion(
-                    order.id,
-                    userId,
-                    { completedAt: updateData.completedAt || new Date() },
-                );
+            // Unpaid orders just get their checkout wallet funds back
+            if (status === 'cancelled' && previousStatus !== 'cancelled' && order.paymentStatus !== 'completed' && Number(order.walletAmount) > 0) {
+                await WalletService.releaseOrderPayment(order.id, userId, transaction);
             }
 
-            // Get agent info for notifications
-            const agent = order.agentId ? await User.findByPk(order.agentId, { transaction }) : null;
-            const agentName = agent ? `${agent.firstName} ${agent.lastName}` : 'An agent';
-
-            // Send notifications based on status changes
-            try {
-                if (status === 'shopping') {
-                    // Notify customer when shopping starts
-                    await NotificationService.addNotification({
-                        userId: order.customerId,
-                        title: NotificationTypes.ORDER_IN_PROGRESS,
-                        heading: 'Shopping Started',
-                        message: `${agentName} has started shopping for your order #${order.orderNumber}`,
-                        resource: order.id,
-                        actorId: userId,
-                    });
-                } else if (status === 'shopping_completed') {
-                    // Notify customer when shopping is complete
-                    await NotificationService.addNotification({
-                        userId: order.customerId,
-                        title: NotificationTypes.ORDER_READY,
-                        heading: 'Shopping Complete',
-                        message: `Your order #${order.orderNumber} has been packed and is ready for delivery`,
-                        resource: order.id,
-                        actorId: userId,
-                    });
-                } else if (status === 'delivery') {
-                    // Notify customer when delivery starts
-                    await NotificationService.addNotification({
-                        userId: order.customerId,
-                        title: NotificationTypes.ORDER_DELIVERY_STARTED,
-                        heading: 'Out for Delivery',
-                        message: `Your order #${order.orderNumber} is on the way!`,
-                        resource: order.id,
-                        actorId: userId,
-                    });
-                } else if (status === 'completed') {
-                    // Notify customer when order is delivered
-                    await NotificationService.addNotification({
-                        userId: order.customerId,
-                        title: NotificationTypes.ORDER_COMPLETED,
-                        heading: 'Order Delivered',
-                        message: `Your order #${order.orderNumber} has been successfully delivered. Thank you!`,
-                        resource: order.id,
-                        actorId: userId,
-                    });
-                }
-
-                logger.info(`Order status notification sent for order ${order.orderNumber}: ${previousStatus} -> ${status}`);
-            } catch (notificationError) {
-                logger.error(`Failed to send status change notification for order ${order.orderNumber}:`, notificationError);
-                // Don't fail the status update if notification fails
+            if (status === 'cancelled' && previousStatus !== 'cancelled' && order.deliverySlotId) {
+                await DeliverySlotService.releaseReservation(order.id, 'order_cancelled', transaction);
             }
 
             return await this.getOrderById(order.id);
@@ -987,46 +882,13 @@ export default class OrderService {
         const executeInTransaction = async (txn: Transaction) => {
             const order = await this.getOrderById(id);
 
-            // Validate status transition
-            if (!this.isValidStatusTransition(order.status, status)) {
-                throw new BadRequestError(`Cannot change status from ${order.status} to ${status}`);
-            }
-
-            // Update order status with appropriate timestamps
-            const updateData: Partial<IOrder> = { status };
-            const now = new Date();
-
-            switch (status) {
-                case 'accepted':
-                    if (!order.acceptedAt) {
-                        updateData.acceptedAt = now;
-                    }
-                    break;
-                case 'in_progress':
-                    if (!order.shoppingStartedAt) {
-                        updateData.shoppingStartedAt = now;
-                    }
-                    break;
-                case 'completed':
-                    if (!order.completedAt) {
-                        updateData.completedAt = now;
-                    }
-                    break;
-                case 'cancelled':
-                    if (!order.cancelledAt) {
-                        updateData.cancelledAt = now;
-                    }
-                    break;
-            }
-
             const previousStatus = order.status;
 
-            // Update the order
-            await order.update(updateData, { transaction: txn });
+            await OrderStateMachine.transition(order, status, { actor: 'system', transaction: txn });
 
-            // Log the status change in the trail (skip logging for system operations to avoid FK issues)
-            // System operations are already logged in the unified payment confirmation trail
-            console.log(`System status change: ${order.id} from ${previousStatus} to ${status}`);
+            if (status === 'cancelled' && previousStatus !== 'cancelled' && order.deliverySlotId) {
+                await DeliverySlotService.releaseReservation(order.id, 'order_cancelled', txn);
+            }
 
             return await this.getOrderById(order.id);
         };
@@ -1209,30 +1071,13 @@ export default class OrderService {
             // Check if we've reached the maximum number of rejections (5)
             if (rejectedAgents.length >= 5) {
                 // Update order status to cancelled
-                await order.update(
-                    {
-                        status: 'cancelled',
-                        cancelledAt: new Date(),
-                        agentId: undefined,
-                        rejectedAgents,
-                    },
-                    { transaction },
-                );
-
-                // Update shopping list status
-                await shoppingList.update(
-                    {
-                        status: 'cancelled',
-                    },
-                    { transaction },
-                );
-                
-                // Log order cancellation due to rejections
-                await OrderTrailService.logOrderCancellation(
-                    orderId,
-                    agentId, // Last rejecting agent
-                    'Maximum agent rejections reached',
-                );
+                await OrderStateMachine.transition(order, 'cancelled', {
+                    actor: 'system',
+                    actorId: agentId, // Last rejecting agent
+                    transaction,
+                    changes: { rejectedAgents },
+                    reason: 'Maximum agent rejections reached',
+                });
 
                 throw new BadRequestError(
                     'Maximum number of agent rejections reached. Order has been cancelled.',
@@ -1263,30 +1108,13 @@ export default class OrderService {
 
             // If no new agent found, update the order status
             if (!newAgent) {
-                await order.update(
-                    {
-                        status: 'cancelled',
-                        cancelledAt: new Date(),
-                        agentId: undefined,
-                        rejectedAgents,
-                    },
-                    { transaction },
-                );
-
-                // Update shopping list status
-                await shoppingList.update(
-                    {
-                        status: 'cancelled',
-                    },
-                    { transaction },
-                );
-                
-                // Log order cancellation due to no available agents
-                await OrderTrailService.logOrderCancellation(
-                    orderId,
-                    agentId, // Last rejecting agent
-                    'No available agents found after rejection',
-                );
+                await OrderStateMachine.transition(order, 'cancelled', {
+                    actor: 'system',
+                    actorId: agentId, // Last rejecting agent
+                    transaction,
+                    changes: { rejectedAgents },
+                    reason: 'No available agents found after rejection',
+                });
 
                 // Log details about the rejection
                 console.warn(
@@ -1381,11 +1209,19 @@ export default class OrderService {
         }
 
         // Update order status to indicate payment is processed
-        await order.update({
-            status: 'accepted',
-            paymentId,
-            paymentStatus: 'completed',
-            paymentProcessedAt: new Date(),
+        await Database.transaction(async (transaction: Transaction) => {
+            await OrderStateMachine.transition(order, 'accepted', {
+                actor: 'system',
+                transaction,
+                changes: {
+                    paymentId,
+                    paymentStatus: 'completed',
+                    paymentProcessedAt: new Date(),
+                    // Remember what was actually charged so later price changes can be reconciled
+                    amountPaid: order.amountPaid ?? order.totalAmount,
+                },
+                reason: 'Payment processed',
+            });
         });
         
         // Log payment processing
@@ -1413,6 +1249,7 @@ export default class OrderService {
         options?: {
             discountAmount?: number;
             deliveryQuoteId?: string | null;
+            tipAmount?: number;
         }
     ): Promise<Order | null> {
         const whereClause: any = {
@@ -1420,6 +1257,8 @@ export default class OrderService {
             customerId: userId,
             // Only look for pending orders to avoid returning completed/expired orders
             paymentStatus: 'pending',
+            // Basket orders are only paid for through their basket
+            basketId: null,
         };
 
         // If discount amount is specified, only return orders with matching discount
@@ -1432,6 +1271,11 @@ export default class OrderService {
             whereClause.deliveryQuoteId = options.deliveryQuoteId;
         }
 
+        // If tip amount is specified, only return orders with matching tip
+        if (options?.tipAmount !== undefined) {
+            whereClause.tipAmount = options.tipAmount;
+        }
+
         // Debug logging to track order lookup
         logger.info('🔍 ORDER LOOKUP - Searching for order with criteria:', {
             shoppingListId,
@@ -1439,6 +1283,7 @@ export default class OrderService {
             providedOptions: {
                 discountAmount: options?.discountAmount,
                 deliveryQuoteId: options?.deliveryQuoteId,
+                tipAmount: options?.tipAmount,
             },
             finalWhereClause: JSON.stringify(whereClause, null, 2),
         });
@@ -1522,21 +1367,16 @@ export default class OrderService {
             }
 
             // Update the order
-            await order.update(
-                {
-                    agentId,
-                    status: 'accepted',
-                    acceptedAt: new Date(),
-                },
-                { transaction },
-            );
+            await OrderStateMachine.transition(order, 'accepted', {
+                actor: 'admin',
+                transaction,
+                changes: { agentId, acceptedAt: new Date() },
+                reason: 'Agent assigned manually',
+            });
 
             // Also update the shopping list
             await ShoppingList.update(
-                {
-                    agentId,
-                    status: 'processing',
-                },
+                { agentId },
                 {
                     where: { id: order.shoppingListId },
                     transaction,
@@ -1552,14 +1392,6 @@ export default class OrderService {
                 agentId,
                 undefined, // No previous agent
             );
-            
-            // Log status change
-            await OrderTrailService.logStatusChange(
-                orderId,
-                agentId,
-                'pending',
-                'accepted',
-            );
 
             return order;
         });
@@ -0,0 +1,476 @@
+import { Op, Transaction } from 'sequelize';
+import OrderBasket, { BasketAssignmentMode, BasketStatus, IOrderBasket } from '../models/orderBasket.model';
+import Order from '../models/order.model';
+import ShoppingList from '../models/shoppingList.model';
+import ShoppingListItem from '../models/shoppingListItem.model';
+import Market from '../models/market.model';
+import User from '../models/user.model';
+import { BadRequestError, NotFoundError } from '../utils/customErrors';
+import Pagination, { IPaging } from '../utils/pagination';
+import { Database } from '../models';
+import { logger } from '../utils/logger';
+import OrderService from './order.service';
+import OrderTrailService from './orderTrail.service';
+import PaymentStatusSyncService from './paymentStatusSync.service';
+import PriceCalculatorService from './priceCalculator.service';
+import SystemSettingsService from './systemSettings.service';
+import PaystackService from './payment/paystack.service';
+import { ITopUpPaymentDetails } from './priceVariance.service';
+import { OrderActor } from './orderStateMachine.service';
+
+export interface ICreateBasketData {
+    shoppingListIds: string[];
+    deliveryAddress: IOrderBasket['deliveryAddress'];
+    customerNotes?: string | null;
+    assignmentMode?: BasketAssignmentMode;
+}
+
+export interface IBasketQuery {
+    page?: number;
+    size?: number;
+    status?: BasketStatus;
+}
+
+export default class OrderBasketService {
+    // A basket is for splitting a shop across markets; more stops than this can't be delivered together
+    private static readonly MIN_LISTS = 2;
+    private static readonly MAX_LISTS = 4;
+
+    // Child orders at or past these statuses no longer hold up delivery of the rest of the basket
+    private static readonly DELIVERY_READY_STATUSES = ['shopping_completed', 'delivery', 'completed', 'cancelled'];
+
+    /**
+     * Check out shopping lists from different markets together.
+     * Each list becomes a child order; the service fee is charged per market and the delivery fee once.
+     */
+    static async createBasket(
+        customer: User,
+        data: ICreateBasketData,
+    ): Promise<{ basket: OrderBasket; payment: ITopUpPaymentDetails }> {
+        const shoppingListIds = [...new Set(data.shoppingListIds || [])];
+
+        if (shoppingListIds.length < this.MIN_LISTS || shoppingListIds.length > this.MAX_LISTS) {
+            throw new BadRequestError(`A basket needs between ${this.MIN_LISTS} and ${this.MAX_LISTS} shopping lists`);
+        }
+
+        if (data.assignmentMode && !Object.values(BasketAssignmentMode).includes(data.assignmentMode)) {
+            throw new BadRequestError(
+                `Invalid assignment mode. Must be one of: ${Object.values(BasketAssignmentMode).join(', ')}`
+            );
+        }
+
+        const lists = await ShoppingList.findAll({
+            where: { id: shoppingListIds, customerId: customer.id },
+            include: [
+                { model: ShoppingListItem, as: 'items' },
+                { model: Market, as: 'market', attributes: ['id', 'name'] },
+            ],
+        });
+
+        if (lists.length !== shoppingListIds.length) {
+            throw new NotFoundError('One or more shopping lists were not found');
+        }
+
+        const marketIds = new Set<string>();
+        for (const list of lists) {
+            if (list.status !== 'draft') {
+                throw new BadRequestError(`Shopping list "${list.name}" has already been processed (status: ${list.status})`);
+            }
+
+            if (!list.marketId) {
+                throw new BadRequestError(`Choose a market for shopping list "${list.name}" before checking out`);
+            }
+
+            if (!list.items || list.items.length === 0) {
+                throw new BadRequestError(`Shopping list "${list.name}" has no items`);
+            }
+
+            if (marketIds.has(list.marketId)) {
+                throw new BadRequestError('Each shopping list in a basket must be from a different market');
+            }
+            marketIds.add(list.marketId);
+        }
+
+        // Keep the customer's order of lists; the first one carries the delivery fee
+        lists.sort((a, b) => shoppingListIds.indexOf(a.id) - shoppingListIds.indexOf(b.id));
+
+        await this.expirePendingBaskets(customer.id, shoppingListIds);
+
+        const deliveryFee = await SystemSettingsService.getDeliveryFee();
+        const listFees = await Promise.all(lists.map(async (list, index) => {
+            const subtotal = this.getListSubtotal(list);
+            return {
+                list,
+                subtotal,
+                fees: await SystemSettingsService.calculateTotal(subtotal, 0, { deliveryFee: index === 0 ? deliveryFee : 0 }),
+            };
+        }));
+
+        // Whole naira, like single-list checkout
+        const totalAmount = listFees.reduce((sum, { fees }) => sum + Math.ceil(fees.total), 0);
+
+        const basket = await OrderBasket.create({
+            customerId: customer.id,
+            assignmentMode: data.assignmentMode || BasketAssignmentMode.PER_MARKET,
+            totalAmount,
+            deliveryFee: Math.ceil(deliveryFee),
+            deliveryAddress: data.deliveryAddress,
+            customerNotes: data.customerNotes || null,
+        });
+
+        const orders: Order[] = [];
+        try {
+            for (const { list, subtotal, fees } of listFees) {
+                const order = await OrderService.createOrder({
+                    customerId: customer.id,
+                    shoppingListId: list.id,
+                    basketId: basket.id,
+                    totalAmount: Math.ceil(fees.total),
+                    status: 'pending',
+                    paymentStatus: 'pending',
+                    serviceFee: Math.ceil(fees.serviceFee),
+                    deliveryFee: Math.ceil(fees.deliveryFee),
+                    deliveryAddress: data.deliveryAddress,
+                    customerNotes: data.customerNotes || undefined,
+                    paymentMethod: 'PAYSTACK',
+                    discountAmount: 0,
+                    originalSubtotal: subtotal,
+                });
+                orders.push(order);
+            }
+
+            const reference = PaystackService.generateReference(`busy2shop_basket_${basket.id}`);
+            const response = await PaystackService.initializeTransaction({
+                email: customer.email,
+                amount: PaystackService.toKobo(totalAmount),
+                reference,
+                metadata: {
+                    orderId: orders[0].id,
+                    orderNumber: orders.map(order => order.orderNumber).join(', '),
+                    customerId: customer.id,
+                    paymentType: 'basket',
+                    basketId: basket.id,
+                },
+            });
+
+            // Child orders share the basket's reference so refunds can be raised against it per order
+            await Order.update({ paymentId: reference }, { where: { basketId: basket.id } });
+            await basket.update({ paymentId: reference });
+
+            logger.info(`Basket ${basket.id} created with ${orders.length} orders for ₦${totalAmount}`);
+
+            return {
+                basket: await this.getBasket(basket.id, customer.id),
+                payment: {
+                    provider: 'PAYSTACK',
+                    reference: response.data.reference,
+                    amount: totalAmount,
+                    authorizationUrl: response.data.authorization_url,
+                    accessCode: response.data.access_code,
+                    publicKey: PaystackService.getPublicKey(),
+                },
+            };
+        } catch (error) {
+            // Don't leave half a basket behind
+            for (const order of orders) {
+                await OrderService.updateOrderPaymentStatus(order.id, 'expired');
+            }
+            await basket.update({ paymentStatus: 'expired', status: BasketStatus.CANCELLED });
+            throw error;
+        }
+    }
+
+    /**
+     * Mark a basket as paid and confirm each child order, assigning agents as it goes.
+     * Safe to call again; child orders that are already confirmed are skipped.
+     * Returns null when the reference doesn't belong to a basket.
+     */
+    static async confirmBasketPayment(
+        reference: string,
+        source: 'webhook' | 'api_sync',
+        performedBy: string = 'system',
+    ): Promise<OrderBasket | null> {
+        const basket = await OrderBasket.findOne({ where: { paymentId: reference } });
+
+        if (!basket) {
+            return null;
+        }
+
+        if (basket.paymentStatus !== 'completed') {
+            await basket.update({
+                paymentStatus: 'completed',
+                paidAt: new Date(),
+                status: BasketStatus.IN_PROGRESS,
+            });
+        }
+
+        const orders = await Order.findAll({
+            where: { basketId: basket.id },
+            order: [['createdAt', 'ASC']],
+        });
+
+        // In single-agent mode the first order's agent picks up every other stop
+        let preferredAgentId: string | undefined =
+            basket.assignmentMode === BasketAssignmentMode.SINGLE_AGENT ? orders[0]?.agentId || undefined : undefined;
+
+        for (const order of orders) {
+            if (order.paymentStatus === 'completed') {
+                continue;
+            }
+
+            try {
+                const result = await PaymentStatusSyncService.confirmPayment(
+                    order.id,
+                    reference,
+                    source,
+                    performedBy,
+                    undefined,
+                    preferredAgentId,
+                );
+
+                if (basket.assignmentMode === BasketAssignmentMode.SINGLE_AGENT && !preferredAgentId) {
+                    preferredAgentId = result.assignedAgentId;
+                }
+            } catch (error) {
+                // Leave the order for the next webhook or verify call to pick up
+                logger.error(`Failed to confirm basket ${basket.id} payment for order ${order.orderNumber}:`, error);
+            }
+        }
+
+        logger.info(`Basket ${basket.id} payment confirmed via ${source}`);
+
+        return await basket.reload();
+    }
+
+    /**
+     * Bring a basket's status in line with its child orders
+     */
+    static async syncBasketStatus(basketId: string): Promise<OrderBasket | null> {
+        const basket = await OrderBasket.findByPk(basketId, {
+            include: [{ model: Order, as: 'orders', attributes: ['id', 'status', 'paymentStatus'] }],
+        });
+
+        if (!basket || basket.paymentStatus !== 'completed') {
+            return basket;
+        }
+
+        const active = basket.orders.filter(order => order.status !== 'cancelled');
+        let status: BasketStatus;
+
+        if (active.length === 0) {
+            status = BasketStatus.CANCELLED;
+        } else if (active.every(order => order.status === 'completed')) {
+            status = BasketStatus.COMPLETED;
+        } else if (active.some(order => order.status === 'delivery')) {
+            status = BasketStatus.OUT_FOR_DELIVERY;
+        } else if (active.every(order => this.DELIVERY_READY_STATUSES.includes(order.status))) {
+            status = BasketStatus.READY_FOR_DELIVERY;
+        } else {
+            status = BasketStatus.IN_PROGRESS;
+        }
+
+        if (status !== basket.status) {
+            await basket.update({ status });
+            logger.info(`Basket ${basket.id} moved to ${status}`);
+        }
+
+        return basket;
+    }
+
+    /**
+     * Throw if the order is part of a basket whose other markets are still being shopped,
+     * so everything reaches the customer together. Admins can release an order early.
+     */
+    static async assertReadyForDelivery(order: Order, actor: OrderActor, transaction?: Transaction): Promise<void> {
+        if (!order.basketId || actor === 'admin') {
+            return;
+        }
+
+        const waiting = await Order.count({
+            where: {
+                basketId: order.basketId,
+                id: { [Op.ne]: order.id },
+                status: { [Op.notIn]: this.DELIVERY_READY_STATUSES },
+            },
+            transaction,
+        });
+
+        if (waiting > 0) {
+            throw new BadRequestError(
+                `This order is part of a basket; wait for the other ${waiting === 1 ? 'market' : `${waiting} markets`} to finish shopping before delivery`
+            );
+        }
+    }
+
+    /**
+     * A customer's baskets, newest first
+     */
+    static async getCustomerBaskets(
+        customerId: string,
+        query: IBasketQuery,
+    ): Promise<{ baskets: OrderBasket[]; pagination: IPaging }> {
+        const { page, size, status } = query;
+
+        const where: Record<string, unknown> = { customerId };
+        if (status) where.status = status;
+
+        const queryOptions: { limit?: number; offset?: number } = {};
+        if (page && size && page > 0 && size > 0) {
+            const { limit, offset } = Pagination.getPagination({ page, size } as IPaging);
+            queryOptions.limit = limit ?? 0;
+            queryOptions.offset = offset ?? 0;
+        }
+
+        const { count, rows } = await OrderBasket.findAndCountAll({
+            where,
+            include: [
+                {
+                    model: Order,
+                    as: 'orders',
+                    attributes: ['id', 'orderNumber', 'status', 'totalAmount', 'shoppingListId'],
+                    include: [
+                        {
+                            model: ShoppingList,
+                            as: 'shoppingList',
+                            attributes: ['id', 'name', 'marketId'],
+                            include: [{ model: Market, as: 'market', attributes: ['id', 'name'] }],
+                        },
+                    ],
+                },
+            ],
+            order: [['createdAt', 'DESC']],
+            distinct: true,
+            ...queryOptions,
+        });
+
+        let pagination: IPaging = { page: page || null, limit: size || null, size: size || null };
+        if (page && size && rows.length > 0) {
+            const totalPages = Pagination.estimateTotalPage({ count, limit: size } as IPaging);
+            pagination = { count, page, limit: size, size, ...totalPages };
+        }
+
+        return { baskets: rows, pagination };
+    }
+
+    /**
+     * One basket with every market's order, its items and its agent
+     */
+    static async getBasket(id: string, customerId: string): Promise<OrderBasket> {
+        const basket = await OrderBasket.findOne({
+            where: { id, customerId },
+            include: [
+                {
+                    model: Order,
+                    as: 'orders',
+                    include: [
+                        {
+                            model: ShoppingList,
+                            as: 'shoppingList',
+                            include: [
+                                { model: ShoppingListItem, as: 'items' },
+                                { model: Market, as: 'market', attributes: ['id', 'name', 'marketType', 'address'] },
+                            ],
+                        },
+                        {
+                            model: User,
+                            as: 'agent',
+                            attributes: ['id', 'firstName', 'lastName', 'phone', 'displayImage'],
+                            required: false,
+                        },
+                    ],
+                },
+            ],
+            order: [[{ model: Order, as: 'orders' }, 'createdAt', 'ASC']],
+        });
+
+        if (!basket) {
+            throw new NotFoundError('Basket not found');
+        }
+
+        return basket;
+    }
+
+    /**
+     * Cancel every order in a basket. Paid orders are refunded through the usual cancellation flow.
+     */
+    static async cancelBasket(id: string, customerId: string): Promise<OrderBasket> {
+        const basket = await this.getBasket(id, customerId);
+
+        if (basket.status === BasketStatus.CANCELLED) {
+            throw new BadRequestError('This basket has already been cancelled');
+        }
+
+        if (basket.orders.some(order => order.status === 'delivery' || order.status === 'completed')) {
+            throw new BadRequestError('Part of this basket is already out for delivery; contact support to cancel');
+        }
+
+        const isPaid = basket.paymentStatus === 'completed';
+
+        await Database.transaction(async (transaction: Transaction) => {
+            for (const order of basket.orders) {
+                if (order.status === 'cancelled') {
+                    continue;
+                }
+
+                if (isPaid) {
+                    await OrderService.updateOrderStatus(order.id, customerId, 'cancelled', transaction);
+                } else {
+                    await OrderService.updateOrderPaymentStatus(order.id, 'expired', transaction);
+                }
+            }
+
+            await basket.update({
+                status: BasketStatus.CANCELLED,
+                ...(isPaid ? {} : { paymentStatus: 'expired' as const }),
+            }, { transaction });
+        });
+
+        for (const order of basket.orders) {
+            await OrderTrailService.logOrderEvent(order.id, {
+                action: 'basket_cancelled',
+                description: 'Order cancelled together with the rest of its basket',
+                performedBy: customerId,
+                metadata: { basketId: basket.id },
+            });
+        }
+
+        return await this.getBasket(id, customerId);
+    }
+
+    // Unpaid baskets holding any of these lists are replaced by the new checkout
+    private static async expirePendingBaskets(customerId: string, shoppingListIds: string[]): Promise<void> {
+        const pendingOrders = await Order.findAll({
+            where: {
+                customerId,
+                shoppingListId: shoppingListIds,
+                basketId: { [Op.ne]: null },
+                paymentStatus: 'pending',
+            },
+            attributes: ['basketId'],
+        });
+
+        const basketIds = [...new Set(pendingOrders.map(order => order.basketId as string))];
+
+        for (const basketId of basketIds) {
+            const orders = await Order.findAll({ where: { basketId, paymentStatus: 'pending' } });
+            for (const order of orders) {
+                await OrderService.updateOrderPaymentStatus(order.id, 'expired');
+            }
+
+            await OrderBasket.update(
+                { paymentStatus: 'expired', status: BasketStatus.CANCELLED },
+                { where: { id: basketId, paymentStatus: 'pending' } },
+            );
+            logger.info(`Expired unpaid basket ${basketId} replaced by a new checkout`);
+        }
+    }
+
+    // Same price order checkout uses: user-set, then user-provided, then estimated
+    private static getListSubtotal(list: ShoppingList): number {
+        const subtotal = list.estimatedTotal ||
+            list.items.reduce((acc, item) =>
+                acc + Number(item.userSetPrice || item.userProvidedPrice || item.estimatedPrice || 0) * Number(item.quantity || 1), 0);
+
+        return PriceCalculatorService.roundPrice(Number(subtotal));
+    }
+}
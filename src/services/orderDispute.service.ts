@@ -0,0 +1,711 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Op, Transaction, WhereOptions } from 'sequelize';
+import OrderDispute, { DisputeOutcome, DisputeStatus, DisputeType } from '../models/orderDispute.model';
+import OrderDisputeItem, { IOrderDisputeItem } from '../models/orderDisputeItem.model';
+import { RefundReason, RefundType } from '../models/refund.model';
+import Order from '../models/order.model';
+import WalletTransaction, { WalletTransactionType } from '../models/walletTransaction.model';
+import ShoppingListItem from '../models/shoppingListItem.model';
+import User from '../models/user.model';
+import { BadRequestError, NotFoundError } from '../utils/customErrors';
+import Pagination, { IPaginationQuery, IPaging } from '../utils/pagination';
+import { Database } from '../models';
+import { logger } from '../utils/logger';
+import { NotificationTypes } from '../utils/interface';
+import NotificationService from './notification.service';
+import OrderTrailService from './orderTrail.service';
+import PriceCalculatorService from './priceCalculator.service';
+import RefundService from './refund.service';
+import WalletService from './wallet.service';
+
+export interface IDisputeItemInput {
+    shoppingListItemId: string;
+    quantity?: number; // Defaults to everything that was ordered
+}
+
+export interface IOpenDisputeInput {
+    type: DisputeType;
+    description: string;
+    items?: IDisputeItemInput[];
+    photoUrls?: string[];
+}
+
+export interface IResolveDisputeInput {
+    outcome: DisputeOutcome;
+    amount?: number; // Defaults to the claimed amount
+    notes?: string | null;
+}
+
+export interface IDisputeFilters extends IPaginationQuery {
+    status?: DisputeStatus;
+    type?: DisputeType;
+    outcome?: DisputeOutcome;
+    orderId?: string;
+    agentId?: string;
+    customerId?: string;
+}
+
+export interface IAgentDisputeStats {
+    disputeCount: number;
+    upheldCount: number; // Resolved in the customer's favour
+    upheldAmount: number;
+    upheldRate: number; // Percentage of resolved disputes that were upheld
+}
+
+export default class OrderDisputeService {
+    private static readonly DISPUTE_WINDOW_HOURS = 72;
+    private static readonly MAX_DESCRIPTION_LENGTH = 2000;
+
+    // Item problems the customer has to show us
+    private static readonly PHOTO_REQUIRED_TYPES = [DisputeType.DAMAGED_ITEM, DisputeType.WRONG_ITEM];
+
+    private static readonly OPEN_STATUSES = [DisputeStatus.AWAITING_AGENT, DisputeStatus.UNDER_REVIEW];
+
+    /**
+     * Customer reports missing, damaged or wrong items on a delivered order.
+     * Only one dispute per order can be open at a time, and an item can't be claimed twice.
+     */
+    static async openDispute(orderId: string, customerId: string, input: IOpenDisputeInput): Promise<OrderDispute> {
+        if (!Object.values(DisputeType).includes(input.type)) {
+            throw new BadRequestError(`Invalid dispute type. Valid types are: ${Object.values(DisputeType).join(', ')}`);
+        }
+
+        const description = input.description ? String(input.description).trim() : '';
+        if (!description) {
+            throw new BadRequestError('Please describe the problem with your order');
+        }
+        if (description.length > this.MAX_DESCRIPTION_LENGTH) {
+            throw new BadRequestError(`Description cannot be longer than ${this.MAX_DESCRIPTION_LENGTH} characters`);
+        }
+
+        const photoUrls = input.photoUrls || [];
+        if (this.PHOTO_REQUIRED_TYPES.includes(input.type) && photoUrls.length === 0) {
+            throw new BadRequestError('Please attach a photo of the affected items');
+        }
+
+        const itemInputs = input.items || [];
+        if (input.type !== DisputeType.OTHER && itemInputs.length === 0) {
+            throw new BadRequestError('Select the items this dispute is about');
+        }
+
+        const dispute = await Database.transaction(async (transaction: Transaction) => {
+            // Lock the order so a double submit can't open two disputes
+            const order = await Order.findByPk(orderId, { lock: transaction.LOCK.UPDATE, transaction });
+
+            // Don't reveal other customers' orders
+            if (!order || order.customerId !== customerId) {
+                throw new NotFoundError('Order not found');
+            }
+
+            if (order.status !== 'completed') {
+                throw new BadRequestError('You can report a problem once the order has been delivered');
+            }
+
+            const completedAt = order.completedAt ? new Date(order.completedAt) : null;
+            if (completedAt && Date.now() - completedAt.getTime() > this.DISPUTE_WINDOW_HOURS * 60 * 60 * 1000) {
+                throw new BadRequestError(`Problems must be reported within ${this.DISPUTE_WINDOW_HOURS} hours of delivery. Please contact support.`);
+            }
+
+            const openDispute = await OrderDispute.findOne({
+                where: { orderId, status: { [Op.in]: this.OPEN_STATUSES } },
+                transaction,
+            });
+            if (openDispute) {
+                throw new BadRequestError('You already have an open dispute for this order');
+            }
+
+            const items = await this.buildDisputeItems(order, itemInputs, transaction);
+            const claimedAmount = PriceCalculatorService.roundPrice(items.reduce((sum, item) => sum + item.amount, 0));
+
+            const created = await OrderDispute.create({
+                orderId,
+                customerId,
+                agentId: order.agentId || null,
+                type: input.type,
+                status: order.agentId ? DisputeStatus.AWAITING_AGENT : DisputeStatus.UNDER_REVIEW,
+                description,
+                photoUrls,
+                claimedAmount,
+            }, { transaction });
+
+            if (items.length > 0) {
+                await OrderDisputeItem.bulkCreate(
+                    items.map(item => ({ ...item, disputeId: created.id })),
+                    { transaction },
+                );
+            }
+
+            transaction.afterCommit(async () => {
+                await this.logEvent(order.id, 'dispute_opened', `Customer reported a ${this.describeType(created.type)} claim of ₦${claimedAmount}`, customerId, created);
+
+                if (order.agentId) {
+                    await this.notify(
+                        order.agentId,
+                        NotificationTypes.DISPUTE_OPENED,
+                        'Order Dispute',
+                        `The customer reported a problem with order #${order.orderNumber}. Please respond with your side.`,
+                        order.id,
+                        customerId,
+                    );
+                }
+            });
+
+            return created;
+        });
+
+        logger.info(`Dispute ${dispute.id} opened on order ${orderId} by customer ${customerId}`);
+
+        return await this.getDisputeById(dispute.id);
+    }
+
+    /**
+     * Customer closes their own dispute before it's been decided
+     */
+    static async withdrawDispute(disputeId: string, customerId: string): Promise<OrderDispute> {
+        const dispute = await OrderDispute.findByPk(disputeId);
+
+        if (!dispute || dispute.customerId !== customerId) {
+            throw new NotFoundError('Dispute not found');
+        }
+
+        if (!this.OPEN_STATUSES.includes(dispute.status)) {
+            throw new BadRequestError(`Cannot withdraw a dispute that is ${dispute.status}`);
+        }
+
+        await dispute.update({ status: DisputeStatus.WITHDRAWN });
+
+        await this.logEvent(dispute.orderId, 'dispute_withdrawn', 'Customer withdrew their dispute', customerId, dispute);
+
+        return dispute;
+    }
+
+    /**
+     * Agent gives their side of the story, optionally with photos (e.g. of the packed bags)
+     */
+    static async respondToDispute(
+        disputeId: string,
+        agentId: string,
+        data: { response: string; photoUrls?: string[] },
+    ): Promise<OrderDispute> {
+        const response = data.response ? String(data.response).trim() : '';
+        if (!response) {
+            throw new BadRequestError('Response is required');
+        }
+        if (response.length > this.MAX_DESCRIPTION_LENGTH) {
+            throw new BadRequestError(`Response cannot be longer than ${this.MAX_DESCRIPTION_LENGTH} characters`);
+        }
+
+        const dispute = await OrderDispute.findByPk(disputeId);
+
+        if (!dispute || dispute.agentId !== agentId) {
+            throw new NotFoundError('Dispute not found or not assigned to this agent');
+        }
+
+        if (dispute.status !== DisputeStatus.AWAITING_AGENT) {
+            throw new BadRequestError('This dispute is no longer waiting for your response');
+        }
+
+        await dispute.update({
+            agentResponse: response,
+            agentPhotoUrls: data.photoUrls || [],
+            agentRespondedAt: new Date(),
+            status: DisputeStatus.UNDER_REVIEW,
+        });
+
+        await this.logEvent(dispute.orderId, 'dispute_agent_responded', 'Agent responded to the dispute', agentId, dispute);
+
+        return await this.getDisputeById(dispute.id);
+    }
+
+    /**
+     * Admin decides a dispute and settles it: a refund to the original payment method,
+     * credit to the customer's wallet, or nothing if the claim isn't upheld
+     */
+    static async resolveDispute(disputeId: string, adminId: string, input: IResolveDisputeInput): Promise<OrderDispute> {
+        if (!Object.values(DisputeOutcome).includes(input.outcome)) {
+            throw new BadRequestError(`Invalid outcome. Valid outcomes are: ${Object.values(DisputeOutcome).join(', ')}`);
+        }
+
+        const notes = input.notes ? String(input.notes).trim() : null;
+
+        // Claim the dispute first so two admins can't settle it twice
+        const { dispute, previousStatus } = await Database.transaction(async (transaction: Transaction) => {
+            const locked = await OrderDispute.findByPk(disputeId, { lock: transaction.LOCK.UPDATE, transaction });
+
+            if (!locked) {
+                throw new NotFoundError('Dispute not found');
+            }
+
+            if (!this.OPEN_STATUSES.includes(locked.status)) {
+                throw new BadRequestError(`Cannot resolve a dispute that is ${locked.status}`);
+            }
+
+            const status = locked.status;
+            await locked.update({
+                status: DisputeStatus.RESOLVED,
+                outcome: input.outcome,
+                resolutionNotes: notes,
+                resolvedBy: adminId,
+                resolvedAt: new Date(),
+            }, { transaction });
+
+            return { dispute: locked, previousStatus: status };
+        });
+
+        const order = await Order.findByPk(dispute.orderId) as Order;
+
+        try {
+            if (input.outcome === DisputeOutcome.REFUND) {
+                await this.settleWithRefund(dispute, order, adminId, input.amount, notes);
+            } else if (input.outcome === DisputeOutcome.CREDIT) {
+                await this.settleWithCredit(dispute, order, adminId, input.amount);
+            }
+        } catch (error) {
+            // Put the dispute back so the admin can try again
+            await dispute.update({
+                status: previousStatus,
+                outcome: null,
+                resolutionAmount: null,
+                resolutionNotes: null,
+                resolvedBy: null,
+                resolvedAt: null,
+            });
+            throw error;
+        }
+
+        const settlement = dispute.resolutionAmount ? ` with ₦${dispute.resolutionAmount} ${input.outcome === DisputeOutcome.REFUND ? 'refunded' : 'credited to the wallet'}` : '';
+        await this.logEvent(
+            dispute.orderId,
+            'dispute_resolved',
+            dispute.isUpheld ? `Dispute upheld${settlement}` : 'Dispute not upheld',
+            adminId,
+            dispute,
+        );
+
+        await this.notify(
+            dispute.customerId,
+            NotificationTypes.DISPUTE_RESOLVED,
+            'Dispute Resolved',
+            dispute.isUpheld
+                ? `Your claim on order #${order.orderNumber} was upheld${settlement}.`
+                : `We've reviewed your claim on order #${order.orderNumber} and couldn't approve it.${notes ? ` ${notes}` : ''}`,
+            order.id,
+        );
+
+        if (dispute.agentId) {
+            await this.notify(
+                dispute.agentId,
+                NotificationTypes.DISPUTE_RESOLVED,
+                'Dispute Resolved',
+                `The dispute on order #${order.orderNumber} was ${dispute.isUpheld ? 'upheld in the customer\'s favour' : 'closed with no action'}.`,
+                order.id,
+            );
+        }
+
+        logger.info(`Dispute ${dispute.id} resolved by ${adminId}: ${input.outcome}${dispute.resolutionAmount ? ` ₦${dispute.resolutionAmount}` : ''}`);
+
+        return await this.getDisputeById(dispute.id);
+    }
+
+    /**
+     * Disputes on an order, for its customer or its agent
+     */
+    static async getOrderDisputes(orderId: string, userId: string): Promise<OrderDispute[]> {
+        const order = await Order.findByPk(orderId, { attributes: ['id', 'customerId', 'agentId'] });
+
+        if (!order || (order.customerId !== userId && order.agentId !== userId)) {
+            throw new NotFoundError('Order not found');
+        }
+
+        return await OrderDispute.findAll({
+            where: { orderId },
+            include: this.detailIncludes(),
+            order: [['createdAt', 'DESC']],
+        });
+    }
+
+    /**
+     * Disputes raised against an agent's orders, newest first
+     */
+    static async getAgentDisputes(
+        agentId: string,
+        queryData: { page?: number; size?: number; status?: DisputeStatus },
+    ): Promise<{ disputes: OrderDispute[]; stats: IAgentDisputeStats; pagination: IPaging }> {
+        const { disputes, pagination } = await this.getDisputes({ ...queryData, agentId });
+        const stats = await this.getAgentDisputeStats(agentId);
+
+        return { disputes, stats, pagination };
+    }
+
+    /**
+     * All disputes with filtering (admin)
+     */
+    static async getDisputes(filters: IDisputeFilters): Promise<{ disputes: OrderDispute[]; pagination: IPaging }> {
+        const where: WhereOptions<OrderDispute> = {};
+
+        if (filters.status) {
+            where.status = filters.status;
+        }
+        if (filters.type) {
+            where.type = filters.type;
+        }
+        if (filters.outcome) {
+            where.outcome = filters.outcome;
+        }
+        if (filters.orderId) {
+            where.orderId = filters.orderId;
+        }
+        if (filters.agentId) {
+            where.agentId = filters.agentId;
+        }
+        if (filters.customerId) {
+            where.customerId = filters.customerId;
+        }
+
+        const queryOptions: any = {};
+        if (filters.page && filters.size && filters.page > 0 && filters.size > 0) {
+            const { limit, offset } = Pagination.getPagination({ page: filters.page, size: filters.size } as IPaging);
+            queryOptions.limit = limit ?? 0;
+            queryOptions.offset = offset ?? 0;
+        }
+
+        const { count, rows } = await OrderDispute.findAndCountAll({
+            where,
+            include: [
+                {
+                    model: Order,
+                    attributes: ['id', 'orderNumber', 'status', 'totalAmount', 'completedAt'],
+                },
+                {
+                    model: User,
+                    as: 'customer',
+                    attributes: ['id', 'firstName', 'lastName', 'email', 'phone'],
+                },
+                {
+                    model: User,
+                    as: 'agent',
+                    attributes: ['id', 'firstName', 'lastName', 'email', 'phone'],
+                },
+            ],
+            order: [['createdAt', 'DESC']],
+            distinct: true,
+            ...queryOptions,
+        });
+
+        let pagination: IPaging = {
+            page: filters.page || null,
+            limit: filters.size || null,
+            size: filters.size || null,
+        };
+
+        if (filters.page && filters.size && rows.length > 0) {
+            const totalPages = Pagination.estimateTotalPage({ count, limit: filters.size } as IPaging);
+            pagination = {
+                count,
+                page: filters.page,
+                limit: filters.size,
+                size: filters.size,
+                ...totalPages,
+            };
+        }
+
+        return { disputes: rows, pagination };
+    }
+
+    static async getDisputeById(id: string): Promise<OrderDispute> {
+        const dispute = await OrderDispute.findByPk(id, {
+            include: [
+                ...this.detailIncludes(),
+                {
+                    model: Order,
+                    attributes: ['id', 'orderNumber', 'status', 'totalAmount', 'paymentMethod', 'completedAt'],
+                },
+                {
+                    model: User,
+                    as: 'customer',
+                    attributes: ['id', 'firstName', 'lastName', 'email', 'phone'],
+                },
+                {
+                    model: User,
+                    as: 'agent',
+                    attributes: ['id', 'firstName', 'lastName', 'email', 'phone'],
+                },
+            ],
+        });
+
+        if (!dispute) {
+            throw new NotFoundError('Dispute not found');
+        }
+
+        return dispute;
+    }
+
+    /**
+     * How often an agent's orders are disputed and how often the customer is found to be right
+     */
+    static async getAgentDisputeStats(agentId: string, since?: Date): Promise<IAgentDisputeStats> {
+        const [result] = await OrderDispute.findAll({
+            where: {
+                agentId,
+                status: { [Op.ne]: DisputeStatus.WITHDRAWN },
+                ...(since && { createdAt: { [Op.gte]: since } }),
+            },
+            attributes: [
+                [Database.fn('COUNT', Database.col('id')), 'disputeCount'],
+                [Database.literal('COUNT(CASE WHEN "status" = \'resolved\' THEN 1 END)'), 'resolvedCount'],
+                [Database.literal('COUNT(CASE WHEN "outcome" IN (\'refund\', \'credit\') THEN 1 END)'), 'upheldCount'],
+                [Database.literal('COALESCE(SUM(CASE WHEN "outcome" IN (\'refund\', \'credit\') THEN "resolutionAmount" END), 0)'), 'upheldAmount'],
+            ],
+            raw: true,
+        }) as any[];
+
+        const resolvedCount = Number(result?.resolvedCount ?? 0);
+        const upheldCount = Number(result?.upheldCount ?? 0);
+
+        return {
+            disputeCount: Number(result?.disputeCount ?? 0),
+            upheldCount,
+            upheldAmount: PriceCalculatorService.roundPrice(Number(result?.upheldAmount ?? 0)),
+            upheldRate: resolvedCount > 0 ? Math.round((upheldCount / resolvedCount) * 1000) / 10 : 0,
+        };
+    }
+
+    /**
+     * Upheld disputes per agent since a date, keyed by agent ID; agents without any are left out
+     */
+    static async getUpheldDisputeCounts(agentIds: string[], since: Date): Promise<Map<string, number>> {
+        if (agentIds.length === 0) {
+            return new Map();
+        }
+
+        const rows = await OrderDispute.findAll({
+            where: {
+                agentId: { [Op.in]: agentIds },
+                outcome: { [Op.in]: [DisputeOutcome.REFUND, DisputeOutcome.CREDIT] },
+                resolvedAt: { [Op.gte]: since },
+            },
+            attributes: ['agentId', [Database.fn('COUNT', Database.col('id')), 'upheldCount']],
+            group: ['agentId'],
+            raw: true,
+        }) as any[];
+
+        return new Map(rows.map(row => [row.agentId, Number(row.upheldCount)]));
+    }
+
+    private static async settleWithRefund(
+        dispute: OrderDispute,
+        order: Order,
+        adminId: string,
+        requestedAmount: number | undefined,
+        notes: string | null,
+    ): Promise<void> {
+        const balance = await RefundService.getRefundableBalance(order);
+        const amount = this.resolveAmount(dispute, requestedAmount, balance.refundable, 'refunded');
+
+        const refunds = await RefundService.createRefund(order, {
+            type: amount >= balance.paidAmount ? RefundType.FULL : RefundType.PARTIAL,
+            reason: RefundReason.DISPUTE,
+            amount,
+            paidAmount: balance.paidAmount,
+            requiresApproval: false, // The admin has just reviewed it
+            initiatedBy: adminId,
+            reasonDetails: notes || `Upheld ${this.describeType(dispute.type)} claim`,
+            metadata: { disputeId: dispute.id },
+        });
+
+        // Split-paid orders get a wallet and a provider refund; both carry the dispute ID in their metadata
+        await dispute.update({ resolutionAmount: amount, refundId: refunds[0].id });
+    }
+
+    private static async settleWithCredit(
+        dispute: OrderDispute,
+        order: Order,
+        adminId: string,
+        requestedAmount: number | undefined,
+    ): Promise<void> {
+        const { refundable } = await RefundService.getRefundableBalance(order);
+
+        // Earlier dispute credits count against the order too, so it can't be credited again per dispute
+        const previousCredits = await WalletTransaction.sum('amount', {
+            where: {
+                type: WalletTransactionType.DISPUTE_CREDIT,
+                referenceId: { [Op.ne]: dispute.id },
+                metadata: { orderId: order.id },
+            } as WhereOptions<WalletTransaction>,
+        });
+        const creditable = Math.max(0, PriceCalculatorService.roundPrice(refundable - Number(previousCredits || 0)));
+
+        const amount = this.resolveAmount(dispute, requestedAmount, creditable, 'credited');
+
+        const walletTransaction = await WalletService.creditDispute(dispute, amount, adminId);
+
+        await dispute.update({ resolutionAmount: walletTransaction.amount, walletTransactionId: walletTransaction.id });
+    }
+
+    private static resolveAmount(
+        dispute: OrderDispute,
+        requestedAmount: number | undefined,
+        maxAmount: number,
+        verb: string,
+    ): number {
+        const amount = PriceCalculatorService.roundPrice(
+            requestedAmount !== undefined ? Number(requestedAmount) : Number(dispute.claimedAmount),
+        );
+
+        if (isNaN(amount) || amount <= 0) {
+            throw new BadRequestError('Enter the amount to settle this dispute with');
+        }
+
+        if (amount > maxAmount) {
+            throw new BadRequestError(`At most ₦${maxAmount} can be ${verb} for this order`);
+        }
+
+        return amount;
+    }
+
+    /**
+     * Price each claimed item at what the customer paid for it, making sure it belongs to
+     * the order and hasn't already been claimed in another open or upheld dispute
+     */
+    private static async buildDisputeItems(
+        order: Order,
+        inputs: IDisputeItemInput[],
+        transaction: Transaction,
+    ): Promise<Omit<IOrderDisputeItem, 'disputeId'>[]> {
+        if (inputs.length === 0) {
+            return [];
+        }
+
+        const itemIds = inputs.map(input => input.shoppingListItemId);
+        if (new Set(itemIds).size !== itemIds.length) {
+            throw new BadRequestError('Each item can only be listed once');
+        }
+
+        const listItems = await ShoppingListItem.findAll({
+            where: { id: { [Op.in]: itemIds }, shoppingListId: order.shoppingListId },
+            transaction,
+        });
+        const listItemsById = new Map(listItems.map(item => [item.id, item]));
+
+        const alreadyClaimed = await OrderDisputeItem.findAll({
+            where: { shoppingListItemId: { [Op.in]: itemIds } },
+            include: [
+                {
+                    model: OrderDispute,
+                    attributes: [],
+                    where: {
+                        [Op.or]: [
+                            { status: { [Op.in]: this.OPEN_STATUSES } },
+                            { outcome: { [Op.in]: [DisputeOutcome.REFUND, DisputeOutcome.CREDIT] } },
+                        ],
+                    },
+                },
+            ],
+            attributes: ['shoppingListItemId', 'quantity'],
+            transaction,
+        });
+        const claimedQuantities = new Map<string, number>();
+        for (const claimed of alreadyClaimed) {
+            claimedQuantities.set(
+                claimed.shoppingListItemId,
+                (claimedQuantities.get(claimed.shoppingListItemId) ?? 0) + Number(claimed.quantity),
+            );
+        }
+
+        return inputs.map(input => {
+            const listItem = listItemsById.get(input.shoppingListItemId);
+            if (!listItem) {
+                throw new BadRequestError(`Item ${input.shoppingListItemId} is not part of this order`);
+            }
+
+            const available = Number(listItem.quantity) - (claimedQuantities.get(listItem.id) ?? 0);
+            if (available <= 0) {
+                throw new BadRequestError(`${listItem.name} has already been claimed`);
+            }
+
+            const quantity = input.quantity !== undefined ? Number(input.quantity) : available;
+            if (isNaN(quantity) || quantity <= 0 || quantity > available) {
+                throw new BadRequestError(`Quantity for ${listItem.name} must be between 1 and ${available}`);
+            }
+
+            const unitPrice = PriceCalculatorService.getEffectivePrice(listItem, true);
+
+            return {
+                shoppingListItemId: listItem.id,
+                quantity,
+                unitPrice,
+                amount: PriceCalculatorService.roundPrice(unitPrice * quantity),
+            };
+        });
+    }
+
+    private static detailIncludes(): any[] {
+        return [
+            {
+                model: OrderDisputeItem,
+                as: 'items',
+                include: [
+                    {
+                        model: ShoppingListItem,
+                        as: 'shoppingListItem',
+                        attributes: ['id', 'name', 'quantity', 'unit', 'actualPrice', 'productImage'],
+                    },
+                ],
+            },
+        ];
+    }
+
+    private static describeType(type: DisputeType): string {
+        return type.replace(/_/g, ' ');
+    }
+
+    private static async logEvent(
+        orderId: string,
+        action: string,
+        description: string,
+        performedBy: string,
+        dispute: OrderDispute,
+    ): Promise<void> {
+        try {
+            await OrderTrailService.logOrderEvent(orderId, {
+                action,
+                description,
+                performedBy,
+                metadata: {
+                    disputeId: dispute.id,
+                    type: dispute.type,
+                    status: dispute.status,
+                    outcome: dispute.outcome,
+                    claimedAmount: dispute.claimedAmount,
+                    resolutionAmount: dispute.resolutionAmount,
+                    refundId: dispute.refundId,
+                    walletTransactionId: dispute.walletTransactionId,
+                },
+            });
+        } catch (trailError) {
+            logger.error(`Failed to log ${action} for order ${orderId}:`, trailError);
+        }
+    }
+
+    private static async notify(
+        userId: string,
+        title: NotificationTypes,
+        heading: string,
+        message: string,
+        resource: string,
+        actorId?: string,
+    ): Promise<void> {
+        try {
+            await NotificationService.addNotification({
+                userId,
+                title,
+                heading,
+                message,
+                resource,
+                actorId,
+            });
+        } catch (notificationError) {
+            logger.error(`Failed to send dispute notification to user ${userId}:`, notificationError);
+        }
+    }
+}
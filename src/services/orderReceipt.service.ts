@@ -0,0 +1,418 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { QueryTypes, Transaction } from 'sequelize';
+import OrderReceipt from '../models/orderReceipt.model';
+import OrderReceiptLine from '../models/orderReceiptLine.model';
+import Order from '../models/order.model';
+import ShoppingListItem from '../models/shoppingListItem.model';
+import { BadRequestError, NotFoundError } from '../utils/customErrors';
+import Pagination, { IPaging } from '../utils/pagination';
+import { Database } from '../models';
+import { logger } from '../utils/logger';
+import PriceCalculatorService from './priceCalculator.service';
+
+export interface IReceiptLineInput {
+    shoppingListItemId?: string | null;
+    description?: string;
+    quantity?: number;
+    amount: number;
+}
+
+export interface IReceiptInput {
+    imageUrl: string;
+    merchantName?: string | null;
+    receiptTotal?: number | null;
+    notes?: string | null;
+    lines?: IReceiptLineInput[];
+}
+
+export interface IReceiptItemComparison {
+    shoppingListItemId: string;
+    name: string;
+    quantity: number;
+    actualPrice: number | null;
+    reportedTotal: number; // actualPrice x quantity
+    receiptTotal: number; // Sum of receipt lines mapped to the item
+    difference: number; // receiptTotal - reportedTotal
+}
+
+export interface IReceiptDiscrepancyReport {
+    orderId: string;
+    orderNumber: string;
+    receiptCount: number;
+    reportedTotal: number;
+    receiptLinesTotal: number;
+    unmappedTotal: number; // Receipt lines not tied to a list item
+    difference: number;
+    hasDiscrepancy: boolean;
+    items: IReceiptItemComparison[];
+}
+
+export default class OrderReceiptService {
+    // Receipts can be added from the start of shopping until the handover
+    private static readonly EDITABLE_STATUSES = ['shopping', 'shopping_completed', 'delivery'];
+    private static readonly TOLERANCE = 0.01;
+
+    /**
+     * Agent attaches a photographed market receipt to the order, optionally with
+     * its lines mapped to the shopping list items they paid for
+     */
+    static async addReceipt(orderId: string, agentId: string, data: IReceiptInput): Promise<OrderReceipt> {
+        if (!data.imageUrl) {
+            throw new BadRequestError('Receipt photo is required');
+        }
+
+        const receiptId = await Database.transaction(async (transaction: Transaction) => {
+            const order = await this.getEditableOrder(orderId, agentId, transaction);
+            const lines = await this.validateLines(order, data.lines || [], transaction);
+
+            const receipt = await OrderReceipt.create({
+                orderId: order.id,
+                uploadedBy: agentId,
+                imageUrl: data.imageUrl,
+                merchantName: data.merchantName || null,
+                receiptTotal: data.receiptTotal !== undefined && data.receiptTotal !== null
+                    ? PriceCalculatorService.roundPrice(Number(data.receiptTotal))
+                    : null,
+                notes: data.notes || null,
+            }, { transaction });
+
+            await this.createLines(receipt, lines, transaction);
+
+            return receipt.id;
+        });
+
+        logger.info(`Receipt ${receiptId} added to order ${orderId} by agent ${agentId}`);
+
+        return await this.getReceipt(receiptId);
+    }
+
+    /**
+     * Replace the line mapping of a receipt
+     */
+    static async updateReceiptLines(
+        orderId: string,
+        receiptId: string,
+        agentId: string,
+        lines: IReceiptLineInput[],
+    ): Promise<OrderReceipt> {
+        await Database.transaction(async (transaction: Transaction) => {
+            const order = await this.getEditableOrder(orderId, agentId, transaction);
+            const receipt = await this.getOrderReceipt(order.id, receiptId, transaction);
+            const validLines = await this.validateLines(order, lines, transaction);
+
+            await OrderReceiptLine.destroy({ where: { receiptId: receipt.id }, transaction });
+            await this.createLines(receipt, validLines, transaction);
+        });
+
+        return await this.getReceipt(receiptId);
+    }
+
+    /**
+     * Remove a receipt uploaded by mistake
+     */
+    static async deleteReceipt(orderId: string, receiptId: string, agentId: string): Promise<void> {
+        await Database.transaction(async (transaction: Transaction) => {
+            const order = await this.getEditableOrder(orderId, agentId, transaction);
+            const receipt = await this.getOrderReceipt(order.id, receiptId, transaction);
+
+            await OrderReceiptLine.destroy({ where: { receiptId: receipt.id }, transaction });
+            await receipt.destroy({ transaction });
+        });
+    }
+
+    /**
+     * Receipts for an order with their lines. Pass agentId to restrict to the assigned agent.
+     */
+    static async getOrderReceipts(orderId: string, agentId?: string): Promise<OrderReceipt[]> {
+        if (agentId) {
+            const order = await Order.findOne({ where: { id: orderId, agentId }, attributes: ['id'] });
+            if (!order) {
+                throw new NotFoundError('Order not found or not assigned to this agent');
+            }
+        }
+
+        return await OrderReceipt.findAll({
+            where: { orderId },
+            include: [
+                {
+                    model: OrderReceiptLine,
+                    as: 'lines',
+                    include: [
+                        {
+                            model: ShoppingListItem,
+                            as: 'shoppingListItem',
+                            attributes: ['id', 'name', 'quantity', 'unit', 'actualPrice'],
+                        },
+                    ],
+                },
+            ],
+            order: [
+                ['createdAt', 'ASC'],
+                [{ model: OrderReceiptLine, as: 'lines' }, 'createdAt', 'ASC'],
+            ],
+        });
+    }
+
+    /**
+     * Compare what the receipts say the market charged with the actual prices
+     * the agent reported for each item
+     */
+    static async getDiscrepancyReport(orderId: string): Promise<IReceiptDiscrepancyReport> {
+        const order = await Order.findByPk(orderId, {
+            attributes: ['id', 'orderNumber', 'shoppingListId'],
+        });
+
+        if (!order) {
+            throw new NotFoundError('Order not found');
+        }
+
+        const [items, receiptCount, lines] = await Promise.all([
+            ShoppingListItem.findAll({
+                where: { shoppingListId: order.shoppingListId },
+                attributes: ['id', 'name', 'quantity', 'actualPrice'],
+            }),
+            OrderReceipt.count({ where: { orderId } }),
+            OrderReceiptLine.findAll({
+                where: { orderId },
+                attributes: ['shoppingListItemId', 'amount'],
+            }),
+        ]);
+
+        const receiptTotals = new Map<string, number>();
+        let unmappedTotal = 0;
+
+        for (const line of lines) {
+            const amount = Number(line.amount);
+            if (line.shoppingListItemId) {
+                receiptTotals.set(line.shoppingListItemId, (receiptTotals.get(line.shoppingListItemId) ?? 0) + amount);
+            } else {
+                unmappedTotal += amount;
+            }
+        }
+
+        const comparisons: IReceiptItemComparison[] = items.map(item => {
+            const actualPrice = item.actualPrice !== null && item.actualPrice !== undefined ? Number(item.actualPrice) : null;
+            const reportedTotal = PriceCalculatorService.roundPrice((actualPrice ?? 0) * item.quantity);
+            const receiptTotal = PriceCalculatorService.roundPrice(receiptTotals.get(item.id) ?? 0);
+
+            return {
+                shoppingListItemId: item.id,
+                name: item.name,
+                quantity: item.quantity,
+                actualPrice,
+                reportedTotal,
+                receiptTotal,
+                difference: PriceCalculatorService.roundPrice(receiptTotal - reportedTotal),
+            };
+        });
+
+        const reportedTotal = PriceCalculatorService.roundPrice(
+            comparisons.reduce((sum, item) => sum + item.reportedTotal, 0),
+        );
+        const receiptLinesTotal = PriceCalculatorService.roundPrice(
+            lines.reduce((sum, line) => sum + Number(line.amount), 0),
+        );
+        const difference = PriceCalculatorService.roundPrice(receiptLinesTotal - reportedTotal);
+
+        return {
+            orderId: order.id,
+            orderNumber: order.orderNumber,
+            receiptCount,
+            reportedTotal,
+            receiptLinesTotal,
+            unmappedTotal: PriceCalculatorService.roundPrice(unmappedTotal),
+            difference,
+            hasDiscrepancy: lines.length > 0 && Math.abs(difference) >= this.TOLERANCE,
+            items: comparisons.filter(item => Math.abs(item.difference) >= this.TOLERANCE),
+        };
+    }
+
+    /**
+     * Admin: orders whose receipt lines don't add up to the reported actual prices
+     */
+    static async getDiscrepancies(queryData: { page?: number; size?: number }): Promise<{
+        orders: any[];
+        pagination: IPaging;
+    }> {
+        const { page, size } = queryData;
+        const { limit, offset } = Pagination.getPagination({ page, size } as IPaging);
+
+        const baseQuery = `
+            FROM "Orders" o
+            JOIN (
+                SELECT "orderId", SUM(amount) AS "receiptLinesTotal"
+                FROM "OrderReceiptLines"
+                GROUP BY "orderId"
+            ) r ON r."orderId" = o.id
+            LEFT JOIN (
+                SELECT "shoppingListId", SUM("actualPrice" * quantity) AS "reportedTotal"
+                FROM "ShoppingListItems"
+                WHERE "actualPrice" IS NOT NULL
+                GROUP BY "shoppingListId"
+            ) i ON i."shoppingListId" = o."shoppingListId"
+            WHERE ABS(r."receiptLinesTotal" - COALESCE(i."reportedTotal", 0)) >= :tolerance
+        `;
+
+        const [countResult] = await Database.query(`SELECT COUNT(*) AS count ${baseQuery}`, {
+            replacements: { tolerance: this.TOLERANCE },
+            type: QueryTypes.SELECT,
+        }) as any[];
+
+        const rows = await Database.query(`
+            SELECT
+                o.id AS "orderId",
+                o."orderNumber",
+                o.status,
+                o."agentId",
+                o."shoppingCompletedAt",
+                r."receiptLinesTotal",
+                COALESCE(i."reportedTotal", 0) AS "reportedTotal"
+            ${baseQuery}
+            ORDER BY o."shoppingCompletedAt" DESC NULLS LAST
+            ${limit !== null ? 'LIMIT :limit OFFSET :offset' : ''}
+        `, {
+            replacements: { tolerance: this.TOLERANCE, limit, offset },
+            type: QueryTypes.SELECT,
+        }) as any[];
+
+        const orders = rows.map(row => {
+            const receiptLinesTotal = PriceCalculatorService.roundPrice(Number(row.receiptLinesTotal));
+            const reportedTotal = PriceCalculatorService.roundPrice(Number(row.reportedTotal));
+
+            return {
+                ...row,
+                receiptLinesTotal,
+                reportedTotal,
+                difference: PriceCalculatorService.roundPrice(receiptLinesTotal - reportedTotal),
+            };
+        });
+
+        const count = Number(countResult?.count ?? 0);
+        let pagination: IPaging = { page: page || null, limit: size || null, size: size || null };
+        if (page && size && count > 0) {
+            const totalPages = Pagination.estimateTotalPage({ count, limit: size } as IPaging);
+            pagination = { count, page, limit: size, size, ...totalPages };
+        }
+
+        return { orders, pagination };
+    }
+
+    private static async getReceipt(receiptId: string): Promise<OrderReceipt> {
+        const receipt = await OrderReceipt.findByPk(receiptId, {
+            include: [
+                {
+                    model: OrderReceiptLine,
+                    as: 'lines',
+                },
+            ],
+        });
+
+        if (!receipt) {
+            throw new NotFoundError('Receipt not found');
+        }
+
+        return receipt;
+    }
+
+    private static async getEditableOrder(orderId: string, agentId: string, transaction: Transaction): Promise<Order> {
+        const order = await Order.findOne({
+            where: { id: orderId, agentId },
+            transaction,
+        });
+
+        if (!order) {
+            throw new NotFoundError('Order not found or not assigned to this agent');
+        }
+
+        if (!this.EDITABLE_STATUSES.includes(order.status)) {
+            throw new BadRequestError('Receipts can only be changed between shopping and delivery');
+        }
+
+        return order;
+    }
+
+    private static async getOrderReceipt(orderId: string, receiptId: string, transaction: Transaction): Promise<OrderReceipt> {
+        const receipt = await OrderReceipt.findOne({
+            where: { id: receiptId, orderId },
+            transaction,
+        });
+
+        if (!receipt) {
+            throw new NotFoundError('Receipt not found on this order');
+        }
+
+        return receipt;
+    }
+
+    private static async validateLines(
+        order: Order,
+        lines: IReceiptLineInput[],
+        transaction: Transaction,
+    ): Promise<IReceiptLineInput[]> {
+        if (!Array.isArray(lines)) {
+            throw new BadRequestError('Receipt lines must be a list');
+        }
+
+        if (lines.length === 0) {
+            return [];
+        }
+
+        const items = await ShoppingListItem.findAll({
+            where: { shoppingListId: order.shoppingListId },
+            attributes: ['id', 'name'],
+            transaction,
+        });
+        const itemNames = new Map(items.map(item => [item.id, item.name]));
+
+        return lines.map(line => {
+            const amount = Number(line.amount);
+            if (!Number.isFinite(amount) || amount < 0) {
+                throw new BadRequestError('Each receipt line needs a valid amount');
+            }
+
+            const quantity = line.quantity !== undefined ? Number(line.quantity) : 1;
+            if (!Number.isFinite(quantity) || quantity <= 0) {
+                throw new BadRequestError('Receipt line quantity must be greater than zero');
+            }
+
+            if (line.shoppingListItemId && !itemNames.has(line.shoppingListItemId)) {
+                throw new BadRequestError('Receipt lines can only be mapped to items on this order');
+            }
+
+            const description = line.description?.trim()
+                || (line.shoppingListItemId ? itemNames.get(line.shoppingListItemId) : undefined);
+            if (!description) {
+                throw new BadRequestError('Receipt lines that are not mapped to an item need a description');
+            }
+
+            return {
+                shoppingListItemId: line.shoppingListItemId || null,
+                description,
+                quantity,
+                amount: PriceCalculatorService.roundPrice(amount),
+            };
+        });
+    }
+
+    private static async createLines(
+        receipt: OrderReceipt,
+        lines: IReceiptLineInput[],
+        transaction: Transaction,
+    ): Promise<void> {
+        if (lines.length === 0) {
+            return;
+        }
+
+        await OrderReceiptLine.bulkCreate(
+            lines.map(line => ({
+                receiptId: receipt.id,
+                orderId: receipt.orderId,
+                shoppingListItemId: line.shoppingListItemId,
+                description: line.description as string,
+                quantity: line.quantity,
+                amount: line.amount,
+            })),
+            { transaction },
+        );
+    }
+}
@@ -0,0 +1,451 @@
+import { Op, QueryTypes, Transaction } from 'sequelize';
+import moment from 'moment';
+import Order from '../models/order.model';
+import User from '../models/user.model';
+import OrderSlaBreach, { OrderSlaStage } from '../models/orderSlaBreach.model';
+import { IOrderSlaSettings } from '../models/systemSettings.model';
+import { TicketCategory, TicketPriority, TicketType } from '../models/supportTicket.model';
+import { Database } from '../models';
+import Pagination, { IPaging } from '../utils/pagination';
+import { logger } from '../utils/logger';
+import { NotificationTypes } from '../utils/interface';
+import NotificationService from './notification.service';
+import OrderTrailService from './orderTrail.service';
+import SystemSettingsService from './systemSettings.service';
+import DeliverySlotService from './deliverySlot.service';
+import SupportTicketService from './supportTicket.service';
+import AgentService from './agent.service';
+import OrderStateMachine from './orderStateMachine.service';
+
+export interface IOrderSlaClock {
+    stage: OrderSlaStage;
+    startedAt: Date;
+    dueAt: Date;
+    slaMinutes: number;
+}
+
+export interface IAtRiskOrder extends IOrderSlaClock {
+    orderId: string;
+    orderNumber: string;
+    status: string;
+    state: 'at_risk' | 'breached' | 'escalated';
+    minutesRemaining: number; // Negative once the SLA has been missed
+    customer: { id: string; firstName: string; lastName: string } | null;
+    agent: { id: string; firstName: string; lastName: string } | null;
+    breach: OrderSlaBreach | null;
+}
+
+export interface IOrderSlaScanResult {
+    breached: number;
+    reassigned: number;
+    escalated: number;
+    resolved: number;
+}
+
+const STAGE_LABELS: Record<OrderSlaStage, string> = {
+    [OrderSlaStage.ASSIGNMENT]: 'agent assignment',
+    [OrderSlaStage.SHOPPING_START]: 'shopping to start',
+    [OrderSlaStage.SHOPPING]: 'shopping to finish',
+};
+
+export default class OrderSlaService {
+    // Statuses the watcher keeps an eye on
+    private static readonly WATCHED_STATUSES = ['pending', 'accepted', 'in_progress', 'shopping'];
+
+    /**
+     * Which SLA an order is currently running against, or null if none applies
+     */
+    static async getSlaClock(order: Order, settings: IOrderSlaSettings): Promise<IOrderSlaClock | null> {
+        switch (order.status) {
+            case 'pending':
+                return order.paymentStatus === 'completed' ? await this.getAssignmentClock(order, settings) : null;
+            case 'accepted':
+            case 'in_progress':
+                // Paid orders are accepted before an agent takes them on, so they are still waiting for assignment
+                if (!order.agentId) {
+                    return await this.getAssignmentClock(order, settings);
+                }
+                return order.acceptedAt
+                    ? this.buildClock(OrderSlaStage.SHOPPING_START, order.acceptedAt, settings.shoppingStartMinutes)
+                    : null;
+            case 'shopping':
+                return order.shoppingStartedAt
+                    ? this.buildClock(OrderSlaStage.SHOPPING, order.shoppingStartedAt, settings.shoppingMinutes)
+                    : null;
+            default:
+                return null;
+        }
+    }
+
+    /**
+     * Flag orders that have overrun their SLA, escalate them, and close breaches for orders that moved on.
+     * Run periodically by the SLA watcher queue.
+     */
+    static async scanOrders(): Promise<IOrderSlaScanResult> {
+        const settings = await SystemSettingsService.getOrderSlaSettings();
+        const result: IOrderSlaScanResult = { breached: 0, reassigned: 0, escalated: 0, resolved: 0 };
+
+        result.resolved = await this.resolveFinishedBreaches(settings);
+
+        const orders = await this.getWatchedOrders();
+        const now = new Date();
+
+        for (const order of orders) {
+            try {
+                const clock = await this.getSlaClock(order, settings);
+                if (!clock || clock.dueAt > now) {
+                    continue;
+                }
+
+                let breach = await OrderSlaBreach.findOne({ where: { orderId: order.id, stage: clock.stage } });
+
+                // Breached again after an earlier breach of the same stage was resolved
+                if (breach?.resolvedAt && breach.dueAt.getTime() !== clock.dueAt.getTime()) {
+                    await breach.update({
+                        dueAt: clock.dueAt,
+                        breachedAt: now,
+                        reassignedFromAgentId: null,
+                        escalatedAt: null,
+                        supportTicketId: null,
+                        resolvedAt: null,
+                    });
+                    breach = await this.handleBreach(order, breach, result);
+                } else if (!breach) {
+                    const [created, isNew] = await OrderSlaBreach.findOrCreate({
+                        where: { orderId: order.id, stage: clock.stage },
+                        defaults: {
+                            orderId: order.id,
+                            stage: clock.stage,
+                            dueAt: clock.dueAt,
+                            breachedAt: now,
+                        },
+                    });
+
+                    // Another scan got there first
+                    if (!isNew) {
+                        continue;
+                    }
+                    breach = await this.handleBreach(order, created, result);
+                }
+
+                if (
+                    breach &&
+                    !breach.resolvedAt &&
+                    !breach.escalatedAt &&
+                    moment(breach.dueAt).add(settings.ticketAfterMinutes, 'minutes').isSameOrBefore(now)
+                ) {
+                    await this.openSupportTicket(order, breach);
+                    result.escalated++;
+                }
+            } catch (error) {
+                logger.error(`Failed to check SLA for order ${order.orderNumber}:`, error);
+            }
+        }
+
+        return result;
+    }
+
+    /**
+     * Orders close to or past their SLA, most overdue first
+     */
+    static async getAtRiskOrders(queryData: { page?: number; size?: number }): Promise<{
+        orders: IAtRiskOrder[];
+        pagination: IPaging;
+    }> {
+        const { page, size } = queryData;
+        const settings = await SystemSettingsService.getOrderSlaSettings();
+        const orders = await this.getWatchedOrders(true);
+        const now = Date.now();
+
+        const breaches = await OrderSlaBreach.findAll({
+            where: {
+                orderId: { [Op.in]: orders.map(order => order.id) },
+                resolvedAt: null,
+            },
+        });
+        const breachByKey = new Map(breaches.map(breach => [`${breach.orderId}:${breach.stage}`, breach]));
+
+        const atRisk: IAtRiskOrder[] = [];
+        for (const order of orders) {
+            const clock = await this.getSlaClock(order, settings);
+            if (!clock) {
+                continue;
+            }
+
+            const elapsed = now - clock.startedAt.getTime();
+            const slaMs = clock.slaMinutes * 60 * 1000;
+            if (elapsed < slaMs * (settings.atRiskPercentage / 100)) {
+                continue;
+            }
+
+            const breach = breachByKey.get(`${order.id}:${clock.stage}`) ?? null;
+            let state: IAtRiskOrder['state'] = 'at_risk';
+            if (breach?.escalatedAt) {
+                state = 'escalated';
+            } else if (elapsed >= slaMs) {
+                state = 'breached';
+            }
+
+            atRisk.push({
+                ...clock,
+                orderId: order.id,
+                orderNumber: order.orderNumber,
+                status: order.status,
+                state,
+                minutesRemaining: Math.round((clock.dueAt.getTime() - now) / (60 * 1000)),
+                customer: order.customer
+                    ? { id: order.customer.id, firstName: order.customer.firstName, lastName: order.customer.lastName }
+                    : null,
+                agent: order.agent
+                    ? { id: order.agent.id, firstName: order.agent.firstName, lastName: order.agent.lastName }
+                    : null,
+                breach,
+            });
+        }
+
+        atRisk.sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime());
+
+        const { limit, offset } = Pagination.getPagination({ page, size } as IPaging);
+        const rows = limit !== null ? atRisk.slice(offset ?? 0, (offset ?? 0) + limit) : atRisk;
+
+        let pagination: IPaging = { page: page || null, limit: size || null, size: size || null };
+        if (page && size && atRisk.length > 0) {
+            const totalPages = Pagination.estimateTotalPage({ count: atRisk.length, limit: size } as IPaging);
+            pagination = { count: atRisk.length, page, limit: size, size, ...totalPages };
+        }
+
+        return { orders: rows, pagination };
+    }
+
+    /**
+     * Breaches recorded against an order, oldest first
+     */
+    static async getOrderBreaches(orderId: string): Promise<OrderSlaBreach[]> {
+        return await OrderSlaBreach.findAll({
+            where: { orderId },
+            order: [['breachedAt', 'ASC']],
+        });
+    }
+
+    /**
+     * The assignment clock starts at payment, or later when a scheduled order becomes due for
+     * assignment or an agent drops the order. Scheduled orders have no clock until they are due.
+     */
+    private static async getAssignmentClock(order: Order, settings: IOrderSlaSettings): Promise<IOrderSlaClock | null> {
+        const starts = [order.paymentProcessedAt ?? order.createdAt];
+
+        const assignmentTime = await DeliverySlotService.getAgentAssignmentTime(order);
+        if (assignmentTime) {
+            if (assignmentTime > new Date()) {
+                return null;
+            }
+            starts.push(assignmentTime);
+        }
+
+        const rejections = order.rejectedAgents || [];
+        const lastRejection = rejections[rejections.length - 1];
+        if (lastRejection) {
+            starts.push(new Date(lastRejection.rejectedAt));
+        }
+
+        const startedAt = new Date(Math.max(...starts.map(date => new Date(date).getTime())));
+        return this.buildClock(OrderSlaStage.ASSIGNMENT, startedAt, settings.assignmentMinutes);
+    }
+
+    private static buildClock(stage: OrderSlaStage, startedAt: Date, slaMinutes: number): IOrderSlaClock {
+        return {
+            stage,
+            startedAt: new Date(startedAt),
+            dueAt: moment(startedAt).add(slaMinutes, 'minutes').toDate(),
+            slaMinutes,
+        };
+    }
+
+    private static async getWatchedOrders(withPeople = false): Promise<Order[]> {
+        return await Order.findAll({
+            where: {
+                status: { [Op.in]: this.WATCHED_STATUSES },
+                paymentStatus: 'completed',
+            },
+            include: withPeople
+                ? [
+                    { model: User, as: 'customer', attributes: ['id', 'firstName', 'lastName'] },
+                    { model: User, as: 'agent', attributes: ['id', 'firstName', 'lastName'] },
+                ]
+                : [],
+        });
+    }
+
+    /**
+     * Flag a breach on the order, re-run agent assignment where it helps, and let the customer know
+     */
+    private static async handleBreach(
+        order: Order,
+        breach: OrderSlaBreach,
+        result: IOrderSlaScanResult,
+    ): Promise<OrderSlaBreach> {
+        result.breached++;
+        const label = STAGE_LABELS[breach.stage];
+
+        await OrderTrailService.logOrderEvent(order.id, {
+            action: 'sla_breached',
+            description: `Order overran its SLA for ${label}`,
+            performedBy: 'system',
+            metadata: { stage: breach.stage, dueAt: breach.dueAt, agentId: order.agentId },
+        });
+
+        logger.warn(`Order ${order.orderNumber} overran its SLA for ${label} (due ${breach.dueAt.toISOString()})`);
+
+        // Agents mid-shop keep the order; earlier stages go to another agent
+        if (breach.stage !== OrderSlaStage.SHOPPING) {
+            try {
+                if (await this.reassignOrder(order, breach)) {
+                    result.reassigned++;
+                }
+            } catch (error) {
+                logger.error(`Failed to reassign order ${order.orderNumber} after SLA breach:`, error);
+            }
+        }
+
+        try {
+            await NotificationService.addNotification({
+                userId: order.customerId,
+                title: NotificationTypes.ORDER_DELAYED,
+                heading: 'Your Order Is Running Late',
+                message: breach.stage === OrderSlaStage.SHOPPING
+                    ? `Shopping for order #${order.orderNumber} is taking longer than expected. We're checking in with your agent.`
+                    : `Order #${order.orderNumber} is taking longer than expected to get going. We're finding an agent to take it on.`,
+                resource: order.id,
+            });
+        } catch (notificationError) {
+            logger.error(`Failed to send SLA delay notification for order ${order.orderNumber}:`, notificationError);
+        }
+
+        return breach;
+    }
+
+    /**
+     * Take the order off an agent who hasn't started on it and try to assign someone else.
+     * Returns true if a new agent was assigned.
+     */
+    private static async reassignOrder(order: Order, breach: OrderSlaBreach): Promise<boolean> {
+        const previousAgentId = order.agentId;
+
+        if (previousAgentId) {
+            await Database.transaction(async (transaction: Transaction) => {
+                await order.reload({ lock: transaction.LOCK.UPDATE, transaction });
+
+                // The agent may have started in the meantime
+                if (!['accepted', 'in_progress'].includes(order.status) || order.agentId !== previousAgentId) {
+                    return;
+                }
+
+                await OrderStateMachine.transition(order, 'pending', {
+                    actor: 'system',
+                    transaction,
+                    changes: {
+                        rejectedAgents: [
+                            ...(order.rejectedAgents || []),
+                            { agentId: previousAgentId, reason: 'SLA breach: shopping not started in time', rejectedAt: new Date() },
+                        ],
+                    },
+                    reason: 'SLA breach',
+                });
+
+                await Database.query('UPDATE "Orders" SET "agentId" = NULL WHERE id = ?', {
+                    replacements: [order.id],
+                    type: QueryTypes.UPDATE,
+                    transaction,
+                });
+
+                await breach.update({ reassignedFromAgentId: previousAgentId }, { transaction });
+            });
+
+            if (order.status !== 'pending') {
+                return false;
+            }
+        }
+
+        const excludedAgentIds = (order.rejectedAgents || []).map(rejection => rejection.agentId);
+        const availableAgents = await AgentService.getAvailableAgentsForOrder(order.shoppingListId, excludedAgentIds);
+
+        if (availableAgents.length === 0) {
+            // Keep trying in the background; the support ticket follows if nobody picks it up
+            const { queueImmediateAgentAssignment } = await import('../queues/agent.queue');
+            await queueImmediateAgentAssignment(order.id, order.shoppingListId, 'system');
+            return false;
+        }
+
+        await AgentService.assignOrderToAgent(order.id, availableAgents[0].id);
+
+        await OrderTrailService.logOrderEvent(order.id, {
+            action: 'agent_assigned',
+            description: `Order reassigned to agent ${availableAgents[0].firstName} ${availableAgents[0].lastName} after SLA breach`,
+            performedBy: 'system',
+            metadata: {
+                agentId: availableAgents[0].id,
+                previousAgentId,
+                assignmentMethod: 'sla_escalation',
+            },
+        });
+
+        return true;
+    }
+
+    private static async openSupportTicket(order: Order, breach: OrderSlaBreach): Promise<void> {
+        const customer = await User.findByPk(order.customerId, {
+            attributes: ['id', 'firstName', 'lastName', 'email'],
+        });
+
+        if (!customer) {
+            return;
+        }
+
+        const label = STAGE_LABELS[breach.stage];
+        const ticket = await SupportTicketService.createTicket({
+            email: customer.email,
+            name: `${customer.firstName} ${customer.lastName}`.trim(),
+            subject: `Order #${order.orderNumber} overdue: waiting for ${label}`,
+            message: [
+                `Order #${order.orderNumber} (${order.id}) has been waiting for ${label} since ${moment(breach.dueAt).format('YYYY-MM-DD HH:mm')}.`,
+                `Current status: ${order.status}.`,
+                order.agentId ? `Assigned agent: ${order.agentId}.` : 'No agent is assigned.',
+                breach.reassignedFromAgentId ? `Previously assigned agent: ${breach.reassignedFromAgentId}.` : '',
+            ].filter(Boolean).join('\n'),
+            type: TicketType.SupportRequest,
+            category: TicketCategory.General,
+            priority: TicketPriority.High,
+        }, customer.id);
+
+        await breach.update({ escalatedAt: new Date(), supportTicketId: ticket.id });
+
+        await OrderTrailService.logOrderEvent(order.id, {
+            action: 'sla_escalated',
+            description: `Support ticket opened for order overdue on ${label}`,
+            performedBy: 'system',
+            metadata: { stage: breach.stage, supportTicketId: ticket.id },
+        });
+    }
+
+    /**
+     * Close breaches for orders that have moved past the stage they were flagged in
+     */
+    private static async resolveFinishedBreaches(settings: IOrderSlaSettings): Promise<number> {
+        const openBreaches = await OrderSlaBreach.findAll({
+            where: { resolvedAt: null },
+            include: [{ model: Order }],
+        });
+
+        let resolved = 0;
+        for (const breach of openBreaches) {
+            const clock = breach.order ? await this.getSlaClock(breach.order, settings) : null;
+
+            if (clock?.stage !== breach.stage) {
+                await breach.update({ resolvedAt: new Date() });
+                resolved++;
+            }
+        }
+
+        return resolved;
+    }
+}
@@ -0,0 +1,380 @@
+import { Op, Transaction } from 'sequelize';
+import Order, { IOrder } from '../models/order.model';
+import ShoppingList from '../models/shoppingList.model';
+import User from '../models/user.model';
+import { BadRequestError, InvalidStatusTransitionError } from '../utils/customErrors';
+import { logger } from '../utils/logger';
+import { NotificationTypes } from '../utils/interface';
+import NotificationService from './notification.service';
+import OrderTrailService from './orderTrail.service';
+import DeliveryProofService from './deliveryProof.service';
+import PayoutService from './payout.service';
+import EnhancedChatService from './chat-enhanced.service';
+
+export type OrderStatus = NonNullable<IOrder['status']>;
+export type ShoppingListStatus = 'draft' | 'accepted' | 'processing' | 'completed' | 'cancelled';
+
+// Who is moving the order: the customer, the assigned agent, an admin, or an automated process
+export type OrderActor = 'customer' | 'agent' | 'admin' | 'system';
+
+type OrderTimestamp = 'acceptedAt' | 'shoppingStartedAt' | 'shoppingCompletedAt' | 'deliveryStartedAt' | 'completedAt' | 'cancelledAt';
+
+interface IOrderStateDefinition {
+    from: Partial<Record<OrderActor, OrderStatus[]>>; // Statuses each actor may move the order out of, into this one
+    timestamp?: OrderTimestamp; // Set the first time the order reaches this status
+    shoppingListStatus: ShoppingListStatus; // Where the linked shopping list should be once the order is paid
+    releasesAgent?: boolean; // The agent no longer has this order on their plate
+    activatesChat?: boolean;
+    notifyCustomer?: {
+        title: NotificationTypes;
+        heading: string;
+        message: (order: Order, agentName: string) => string;
+    };
+}
+
+export interface IOrderTransitionContext {
+    actor: OrderActor;
+    actorId?: string; // User ID for customers and agents; admin ID or email for admins
+    transaction: Transaction;
+    changes?: Partial<IOrder>; // Other fields to write together with the status
+    reason?: string;
+}
+
+const ACTIVE_STATUSES: OrderStatus[] = ['pending', 'accepted', 'in_progress', 'shopping', 'shopping_completed', 'delivery'];
+
+export default class OrderStateMachine {
+    private static readonly STATES: Record<OrderStatus, IOrderStateDefinition> = {
+        pending: {
+            // An agent turning down an order sends it back for reassignment
+            from: {
+                agent: ['accepted', 'in_progress'],
+                admin: ['accepted', 'in_progress'],
+                system: ['accepted', 'in_progress'],
+            },
+            shoppingListStatus: 'accepted',
+            releasesAgent: true,
+        },
+        accepted: {
+            from: {
+                admin: ['pending'],
+                system: ['pending'],
+            },
+            timestamp: 'acceptedAt',
+            shoppingListStatus: 'accepted',
+            activatesChat: true,
+        },
+        in_progress: {
+            from: {
+                agent: ['accepted'],
+                admin: ['accepted'],
+            },
+            shoppingListStatus: 'processing',
+            activatesChat: true,
+        },
+        shopping: {
+            from: {
+                agent: ['accepted', 'in_progress'],
+                admin: ['accepted', 'in_progress'],
+            },
+            timestamp: 'shoppingStartedAt',
+            shoppingListStatus: 'processing',
+            notifyCustomer: {
+                title: NotificationTypes.ORDER_IN_PROGRESS,
+                heading: 'Shopping Started',
+                message: (order, agentName) => `${agentName} has started shopping for your order #${order.orderNumber}`,
+            },
+        },
+        shopping_completed: {
+            from: {
+                agent: ['in_progress', 'shopping'],
+                admin: ['in_progress', 'shopping'],
+            },
+            timestamp: 'shoppingCompletedAt',
+            shoppingListStatus: 'processing',
+            notifyCustomer: {
+                title: NotificationTypes.ORDER_READY,
+                heading: 'Shopping Complete',
+                message: order => `Your order #${order.orderNumber} has been packed and is ready for delivery`,
+            },
+        },
+        delivery: {
+            from: {
+                agent: ['shopping_completed'],
+                admin: ['shopping_completed'],
+                system: ['shopping_completed'], // Courier picked up the order
+            },
+            timestamp: 'deliveryStartedAt',
+            shoppingListStatus: 'processing',
+            notifyCustomer: {
+                title: NotificationTypes.ORDER_DELIVERY_STARTED,
+                heading: 'Out for Delivery',
+                message: order => `Your order #${order.orderNumber} is on the way!`,
+            },
+        },
+        completed: {
+            from: {
+                agent: ['delivery'],
+                admin: ['delivery'],
+                system: ['delivery'], // Courier confirmed delivery
+            },
+            timestamp: 'completedAt',
+            shoppingListStatus: 'completed',
+            releasesAgent: true,
+            notifyCustomer: {
+                title: NotificationTypes.ORDER_COMPLETED,
+                heading: 'Order Delivered',
+                message: order => `Your order #${order.orderNumber} has been successfully delivered. Thank you!`,
+            },
+        },
+        cancelled: {
+            from: {
+                // Once the order is on its way, customer cancellations go through support
+                customer: ['pending', 'accepted', 'in_progress', 'shopping', 'shopping_completed'],
+                agent: ['accepted', 'in_progress', 'shopping', 'shopping_completed', 'delivery'],
+                admin: ACTIVE_STATUSES,
+                system: ACTIVE_STATUSES,
+            },
+            timestamp: 'cancelledAt',
+            shoppingListStatus: 'cancelled',
+            releasesAgent: true,
+        },
+    };
+
+    /**
+     * Whether the actor may move an order from one status to another
+     */
+    static canTransition(from: OrderStatus, to: OrderStatus, actor: OrderActor): boolean {
+        return this.STATES[to]?.from[actor]?.includes(from) ?? false;
+    }
+
+    /**
+     * Statuses the actor may move an order to from its current status
+     */
+    static getAllowedTransitions(from: OrderStatus, actor: OrderActor): OrderStatus[] {
+        return (Object.keys(this.STATES) as OrderStatus[]).filter(to => this.canTransition(from, to, actor));
+    }
+
+    /**
+     * Throw unless the actor may move the order to the given status
+     */
+    static assertTransition(order: Order, to: OrderStatus, actor: OrderActor): void {
+        if (!this.STATES[to]) {
+            throw new BadRequestError(`Invalid order status: ${to}`);
+        }
+
+        if (!this.canTransition(order.status, to, actor)) {
+            throw new InvalidStatusTransitionError(
+                `Cannot change status from ${order.status} to ${to}`,
+                order.status,
+                to,
+                actor,
+            );
+        }
+    }
+
+    /**
+     * The shopping list status that matches an order's status.
+     * Lists stay in draft until the order is paid so the customer can check out again.
+     */
+    static getShoppingListStatus(orderStatus: OrderStatus, paymentStatus?: string): ShoppingListStatus {
+        if (paymentStatus !== 'completed') {
+            return 'draft';
+        }
+
+        return this.STATES[orderStatus]?.shoppingListStatus ?? 'draft';
+    }
+
+    /**
+     * Move an order to a new status and apply the side effects of reaching it.
+     * Moving an order to the status it is already in only writes the extra changes, unless
+     * those assign a new agent: paid orders are accepted before an agent is found, so the
+     * assignment follow-ups (trail entry, chat) still run.
+     */
+    static async transition(order: Order, to: OrderStatus, context: IOrderTransitionContext): Promise<Order> {
+        const { actor, actorId, transaction, changes, reason } = context;
+        const from = order.status;
+
+        // Concurrent requests (e.g. two cancellations) can race to the same status
+        if (from === to) {
+            const previousAgentId = order.agentId;
+            if (changes && Object.keys(changes).length > 0) {
+                await order.update(changes, { transaction });
+            }
+            if (changes?.agentId && changes.agentId !== previousAgentId) {
+                this.runAfterCommit(order, from, to, context, previousAgentId);
+            }
+            return order;
+        }
+
+        this.assertTransition(order, to, actor);
+
+        // Completion needs the customer's handover code (or an admin override); couriers confirm their own deliveries
+        if (to === 'completed' && actor !== 'system' && !(await DeliveryProofService.isHandoverConfirmed(order.id, transaction))) {
+            throw new BadRequestError('Enter the customer\'s delivery code to complete this order');
+        }
+
+        // Markets in a basket are delivered together
+        if (to === 'delivery' && order.basketId) {
+            // Imported here to avoid a circular dependency (basket checkout creates orders through this machine)
+            const OrderBasketService = (await import('./orderBasket.service')).default;
+            await OrderBasketService.assertReadyForDelivery(order, actor, transaction);
+        }
+
+        const state = this.STATES[to];
+        const agentId = order.agentId;
+        const updateData: Partial<IOrder> = { ...changes, status: to };
+
+        if (state.timestamp && !order[state.timestamp]) {
+            updateData[state.timestamp] = new Date();
+        }
+
+        await order.update(updateData, { transaction });
+
+        if (order.shoppingListId && order.paymentStatus === 'completed') {
+            const listStatus = this.getShoppingListStatus(to, order.paymentStatus);
+            await ShoppingList.update(
+                { status: listStatus },
+                { where: { id: order.shoppingListId, status: { [Op.ne]: listStatus } }, transaction },
+            );
+        }
+
+        if (to === 'delivery') {
+            await DeliveryProofService.issueCode(order, transaction);
+        }
+
+        if (state.releasesAgent && agentId) {
+            // Imported here to avoid a circular dependency (agents move orders through this machine)
+            const AgentService = (await import('./agent.service')).default;
+            await AgentService.releaseAgentFromOrder(agentId, order.id, transaction);
+        }
+
+        this.runAfterCommit(order, from, to, context);
+
+        logger.info(`Order ${order.orderNumber} moved from ${from} to ${to} by ${actor}${actorId ? ` ${actorId}` : ''}${reason ? `: ${reason}` : ''}`);
+
+        return order;
+    }
+
+    private static runAfterCommit(
+        order: Order,
+        from: OrderStatus,
+        to: OrderStatus,
+        context: IOrderTransitionContext,
+        previousAgentId?: string,
+    ): void {
+        // Sequelize doesn't await afterCommit hooks, so nothing may escape from here
+        context.transaction.afterCommit(async () => {
+            try {
+                await this.afterTransition(order, from, to, this.STATES[to], context, previousAgentId);
+            } catch (error) {
+                logger.error(`Failed to run follow-ups for order ${order.orderNumber} moving from ${from} to ${to}:`, error);
+            }
+        });
+    }
+
+    private static async afterTransition(
+        order: Order,
+        from: OrderStatus,
+        to: OrderStatus,
+        state: IOrderStateDefinition,
+        context: IOrderTransitionContext,
+        previousAgentId?: string,
+    ): Promise<void> {
+        const { actor, actorId, reason } = context;
+        // Trail entries reference users; admins and automated processes are recorded in the metadata instead
+        const trailUserId = actor === 'customer' || actor === 'agent' ? actorId : undefined;
+        const isAssignment = from === to;
+
+        try {
+            await OrderTrailService.createTrailEntry({
+                orderId: order.id,
+                userId: trailUserId,
+                action: isAssignment ? 'AGENT_ASSIGNED' : 'STATUS_CHANGED',
+                description: isAssignment ? 'Agent assigned to order' : `Order status changed from ${from} to ${to}`,
+                previousValue: isAssignment ? { agentId: previousAgentId ?? null } : { status: from },
+                newValue: isAssignment ? { agentId: order.agentId } : { status: to },
+                metadata: {
+                    source: 'status_update',
+                    actor,
+                    performedBy: actorId || actor,
+                    reason,
+                    timestamp: new Date().toISOString(),
+                },
+            });
+
+            if (to === 'completed') {
+                await OrderTrailService.logOrderCompletion(order.id, trailUserId as string, { completedAt: order.completedAt });
+            }
+        } catch (trailError) {
+            logger.error(`Failed to log status change for order ${order.orderNumber}:`, trailError);
+        }
+
+        if (to === 'completed' && order.agentId) {
+            try {
+                await PayoutService.recordOrderEarnings(order.id, actorId || actor);
+            } catch (earningsError) {
+                logger.error(`Failed to record agent earnings for order ${order.orderNumber}:`, earningsError);
+            }
+        }
+
+        if (to === 'completed') {
+            try {
+                const PantryService = (await import('./pantry.service')).default;
+                await PantryService.recordOrderPurchases(order.id);
+            } catch (pantryError) {
+                logger.error(`Failed to update pantry for order ${order.orderNumber}:`, pantryError);
+            }
+        }
+
+        if (order.basketId) {
+            try {
+                const OrderBasketService = (await import('./orderBasket.service')).default;
+                await OrderBasketService.syncBasketStatus(order.basketId);
+            } catch (basketError) {
+                logger.error(`Failed to update basket ${order.basketId} for order ${order.orderNumber}:`, basketError);
+            }
+        }
+
+        if (to === 'completed') {
+            const { queueInvoiceEmail } = await import('../queues/invoice.queue');
+            await queueInvoiceEmail(order.id);
+        }
+
+        const agent = order.agentId
+            ? await User.findByPk(order.agentId, { attributes: ['id', 'firstName', 'lastName'] })
+            : null;
+
+        if (state.activatesChat && agent) {
+            try {
+                if (!(await EnhancedChatService.isChatActive(order.id))) {
+                    await EnhancedChatService.activateChat({
+                        orderId: order.id,
+                        activatedBy: {
+                            id: agent.id,
+                            type: 'agent',
+                            name: `${agent.firstName} ${agent.lastName}`.trim(),
+                        },
+                    });
+                }
+            } catch (chatError) {
+                logger.warn(`Failed to activate chat for order ${order.orderNumber}:`, chatError);
+            }
+        }
+
+        if (state.notifyCustomer) {
+            try {
+                const agentName = agent ? `${agent.firstName} ${agent.lastName}` : 'An agent';
+                await NotificationService.addNotification({
+                    userId: order.customerId,
+                    title: state.notifyCustomer.title,
+                    heading: state.notifyCustomer.heading,
+                    message: state.notifyCustomer.message(order, agentName),
+                    resource: order.id,
+                    actorId: trailUserId,
+                });
+            } catch (notificationError) {
+                logger.error(`Failed to send status change notification for order ${order.orderNumber}:`, notificationError);
+            }
+        }
+    }
+}
@@ -0,0 +1,306 @@
+import { Transaction } from 'sequelize';
+import OrderTip, { OrderTipStatus } from '../models/orderTip.model';
+import Order from '../models/order.model';
+import User from '../models/user.model';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../utils/customErrors';
+import { Database } from '../models';
+import { logger } from '../utils/logger';
+import { NotificationTypes } from '../utils/interface';
+import NotificationService from './notification.service';
+import OrderTrailService from './orderTrail.service';
+import PriceCalculatorService from './priceCalculator.service';
+import PaystackService from './payment/paystack.service';
+import AlatPayService from './payment/alatpay.service';
+import { ITopUpPaymentDetails } from './priceVariance.service';
+
+export default class OrderTipService {
+    // Tips after delivery are accepted for as long as the agent can be rated
+    private static readonly TIP_WINDOW_DAYS = 14;
+
+    /**
+     * Start a separate charge to tip the agent on a completed order
+     */
+    static async initiateTipCharge(
+        orderId: string,
+        customerId: string,
+        amount: number,
+        paymentMethod?: 'ALATPAY' | 'PAYSTACK',
+    ): Promise<{ tip: OrderTip; payment: ITopUpPaymentDetails }> {
+        // Tips are charged in whole naira
+        const tipAmount = Math.ceil(Number(amount));
+        if (!tipAmount || tipAmount <= 0) {
+            throw new BadRequestError('Tip amount must be a positive number');
+        }
+
+        const order = await Order.findByPk(orderId);
+
+        // Don't reveal other customers' orders
+        if (!order || order.customerId !== customerId) {
+            throw new NotFoundError('Order not found');
+        }
+
+        if (order.status !== 'completed') {
+            throw new BadRequestError('You can tip your agent once the order is completed');
+        }
+
+        if (!order.agentId) {
+            throw new BadRequestError('This order has no agent to tip');
+        }
+
+        const completedAt = order.completedAt ? new Date(order.completedAt) : null;
+        if (completedAt && Date.now() - completedAt.getTime() > this.TIP_WINDOW_DAYS * 24 * 60 * 60 * 1000) {
+            throw new BadRequestError(`Orders can only be tipped within ${this.TIP_WINDOW_DAYS} days of delivery`);
+        }
+
+        const customer = await User.findByPk(customerId);
+        if (!customer) {
+            throw new NotFoundError('Customer not found');
+        }
+
+        const provider = paymentMethod || order.paymentMethod || 'PAYSTACK';
+        const tip = await OrderTip.create({
+            orderId,
+            customerId,
+            agentId: order.agentId,
+            amount: tipAmount,
+            paymentMethod: provider,
+        });
+
+        let payment: ITopUpPaymentDetails;
+
+        if (provider === 'PAYSTACK') {
+            const reference = PaystackService.generateReference(`busy2shop_tip_${order.id}`);
+            const response = await PaystackService.initializeTransaction({
+                email: customer.email,
+                amount: PaystackService.toKobo(tipAmount),
+                reference,
+                metadata: {
+                    orderId: order.id,
+                    orderNumber: order.orderNumber,
+                    customerId,
+                    paymentType: 'tip',
+                    tipId: tip.id,
+                },
+            });
+
+            payment = {
+                provider,
+                reference: response.data.reference,
+                amount: tipAmount,
+                authorizationUrl: response.data.authorization_url,
+                accessCode: response.data.access_code,
+                publicKey: PaystackService.getPublicKey(),
+            };
+        } else {
+            const response = await AlatPayService.generateVirtualAccount({
+                amount: tipAmount,
+                orderId: order.id,
+                orderNumber: `${order.orderNumber}-TIP`,
+                description: `Tip for order ${order.orderNumber}`,
+                user: customer,
+                currency: 'NGN',
+            });
+
+            const accountData = response.data.data;
+            if (!accountData?.transactionId) {
+                throw new BadRequestError('Failed to generate payment details for the tip');
+            }
+
+            payment = {
+                provider,
+                reference: accountData.transactionId,
+                amount: tipAmount,
+                virtualAccount: {
+                    accountNumber: accountData.virtualBankAccountNumber,
+                    bankCode: accountData.virtualBankCode,
+                    expiredAt: accountData.expiredAt,
+                },
+            };
+        }
+
+        await tip.update({ paymentReference: payment.reference });
+
+        await OrderTrailService.logOrderEvent(orderId, {
+            action: 'tip_charge_initiated',
+            description: `Tip of ₦${tipAmount} started via ${provider}`,
+            performedBy: customerId,
+            metadata: { tipId: tip.id, reference: payment.reference },
+        });
+
+        return { tip, payment };
+    }
+
+    /**
+     * Check the provider for a tip the customer says they have paid
+     */
+    static async verifyTipPayment(orderId: string, tipId: string, customerId: string): Promise<OrderTip> {
+        const tip = await OrderTip.findByPk(tipId);
+
+        if (!tip || tip.orderId !== orderId) {
+            throw new NotFoundError('Tip not found');
+        }
+
+        if (tip.customerId !== customerId) {
+            throw new ForbiddenError('You are not authorized to manage this tip');
+        }
+
+        if (tip.status === OrderTipStatus.PAID) {
+            return tip;
+        }
+
+        if (!tip.paymentReference) {
+            throw new BadRequestError('No payment has been started for this tip');
+        }
+
+        let isPaid = false;
+        if (tip.paymentMethod === 'PAYSTACK') {
+            const verification = await PaystackService.verifyTransaction(tip.paymentReference);
+            isPaid = verification.data?.status === 'success';
+        } else {
+            const status = await AlatPayService.checkTransactionStatus(tip.paymentReference);
+            isPaid = status?.status === 'COMPLETED' || status?.status === 'completed';
+        }
+
+        if (!isPaid) {
+            return tip;
+        }
+
+        return (await this.confirmTipPayment(tip.paymentReference, 'api_sync')) || tip;
+    }
+
+    /**
+     * Mark a tip as paid, add it to the order total and credit it to the agent.
+     * Returns null when the reference doesn't belong to a tip,
+     * so payment webhooks can fall through to regular order handling.
+     */
+    static async confirmTipPayment(
+        reference: string,
+        source: 'webhook' | 'api_sync',
+    ): Promise<OrderTip | null> {
+        const existing = await OrderTip.findOne({ where: { paymentReference: reference } });
+
+        if (!existing) {
+            return null;
+        }
+
+        const confirmed = await Database.transaction(async (transaction: Transaction) => {
+            // Lock so a webhook and a verify call can't both add the tip to the order
+            const tip = await OrderTip.findByPk(existing.id, { lock: transaction.LOCK.UPDATE, transaction });
+
+            if (!tip || tip.status === OrderTipStatus.PAID) {
+                return null;
+            }
+
+            await tip.update({
+                status: OrderTipStatus.PAID,
+                paidAt: new Date(),
+            }, { transaction });
+
+            const order = await Order.findByPk(tip.orderId, { lock: transaction.LOCK.UPDATE, transaction });
+            if (order) {
+                await order.update({
+                    tipAmount: PriceCalculatorService.roundPrice(Number(order.tipAmount || 0) + Number(tip.amount)),
+                    totalAmount: PriceCalculatorService.roundPrice(Number(order.totalAmount) + Number(tip.amount)),
+                }, { transaction });
+            }
+
+            transaction.afterCommit(async () => {
+                await this.creditAgent(tip, order);
+            });
+
+            return tip;
+        });
+
+        if (!confirmed) {
+            return await existing.reload();
+        }
+
+        await OrderTrailService.logOrderEvent(confirmed.orderId, {
+            action: 'tip_paid',
+            description: `Tip of ₦${confirmed.amount} received`,
+            performedBy: 'system',
+            metadata: { tipId: confirmed.id, reference, source },
+        });
+
+        logger.info(`Tip ${confirmed.id} paid via ${source}`);
+
+        return confirmed;
+    }
+
+    /**
+     * Tips the customer has paid or started on one of their orders
+     */
+    static async getOrderTips(orderId: string, customerId: string): Promise<{ tipAmount: number; tips: OrderTip[] }> {
+        const order = await Order.findOne({
+            where: { id: orderId, customerId },
+            attributes: ['id', 'tipAmount'],
+        });
+
+        if (!order) {
+            throw new NotFoundError('Order not found');
+        }
+
+        const tips = await OrderTip.findAll({
+            where: { orderId },
+            order: [['createdAt', 'DESC']],
+        });
+
+        return { tipAmount: Number(order.tipAmount || 0), tips };
+    }
+
+    /**
+     * The part of an order's tip that was paid with the order at checkout
+     */
+    static async getCheckoutTip(order: Order, transaction?: Transaction): Promise<number> {
+        const tipAmount = Number(order.tipAmount || 0);
+        if (tipAmount <= 0) {
+            return 0;
+        }
+
+        const laterTips = await OrderTip.sum('amount', {
+            where: {
+                orderId: order.id,
+                status: OrderTipStatus.PAID,
+            },
+            transaction,
+        });
+
+        return PriceCalculatorService.roundPrice(Math.max(0, tipAmount - Number(laterTips || 0)));
+    }
+
+    /**
+     * Tips after delivery that have been paid
+     */
+    static async getPaidTips(orderId: string): Promise<OrderTip[]> {
+        return await OrderTip.findAll({
+            where: {
+                orderId,
+                status: OrderTipStatus.PAID,
+            },
+        });
+    }
+
+    private static async creditAgent(tip: OrderTip, order: Order | null): Promise<void> {
+        try {
+            // Imported here to avoid a circular dependency (payouts read the checkout tip)
+            const PayoutService = (await import('./payout.service')).default;
+            await PayoutService.recordOrderEarnings(tip.orderId);
+        } catch (error) {
+            // The payout batch catches up on tips that failed to record here
+            logger.error(`Failed to record tip ${tip.id} as agent earnings:`, error);
+        }
+
+        try {
+            await NotificationService.addNotification({
+                userId: tip.agentId,
+                title: NotificationTypes.AGENT_TIPPED,
+                heading: 'You Got a Tip',
+                message: `The customer tipped you ₦${tip.amount} for order #${order?.orderNumber ?? ''}.`,
+                resource: tip.orderId,
+                actorId: tip.customerId,
+            });
+        } catch (notificationError) {
+            logger.error(`Failed to send tip notification for order ${tip.orderId}:`, notificationError);
+        }
+    }
+}
@@ -0,0 +1,434 @@
+import { Op, Transaction } from 'sequelize';
+import moment from 'moment';
+import PantryItem from '../models/pantryItem.model';
+import Order from '../models/order.model';
+import ShoppingList from '../models/shoppingList.model';
+import ShoppingListItem, { IShoppingListItem } from '../models/shoppingListItem.model';
+import Product from '../models/product.model';
+import { Database } from '../models';
+import { NotFoundError } from '../utils/customErrors';
+import { NotificationTypes } from '../utils/interface';
+import { logger } from '../utils/logger';
+import NotificationService from './notification.service';
+import PriceCalculatorService from './priceCalculator.service';
+import SystemSettingsService from './systemSettings.service';
+
+export type PantryStockStatus = 'running_low' | 'in_stock' | 'unknown';
+
+export interface IPantryItemView {
+    id: string;
+    name: string;
+    productId: string | null;
+    unit: string | null;
+    lastQuantity: number;
+    lastPurchasedAt: Date;
+    purchaseCount: number;
+    consumptionPerDay: number | null;
+    estimatedRunOutAt: Date | null;
+    daysLeft: number | null; // Negative once the item has probably run out
+    status: PantryStockStatus;
+    isTracked: boolean;
+}
+
+export default class PantryService {
+    // Items predicted to run out within this many days are suggested for restocking
+    private static readonly LOW_STOCK_DAYS = 3;
+
+    // Items that ran out this long ago and weren't rebought are assumed to be no longer wanted
+    private static readonly STALE_AFTER_DAYS = 60;
+
+    // Weight given to the latest purchase interval; the rest comes from earlier ones
+    private static readonly SMOOTHING_FACTOR = 0.5;
+
+    private static readonly MAX_REMINDER_ITEMS = 3;
+
+    // Without a consumption rate yet, an item bought this recently is assumed to still be there
+    private static readonly RECENT_PURCHASE_DAYS = 7;
+
+    /**
+     * Add a completed order's items to the customer's pantry. Safe to call more than once per order.
+     */
+    static async recordOrderPurchases(orderId: string): Promise<number> {
+        const order = await Order.findByPk(orderId, {
+            attributes: ['id', 'customerId', 'status', 'completedAt', 'updatedAt'],
+            include: [
+                {
+                    model: ShoppingList,
+                    as: 'shoppingList',
+                    attributes: ['id'],
+                    include: [{ model: ShoppingListItem, as: 'items' }],
+                },
+            ],
+        });
+
+        if (!order || order.status !== 'completed' || !order.shoppingList) {
+            return 0;
+        }
+
+        return await Database.transaction(async (transaction: Transaction) => {
+            return await this.applyOrder(order, transaction);
+        });
+    }
+
+    /**
+     * Rebuild the pantry from every completed order, e.g. for customers who ordered before
+     * the pantry existed. Items the customer stopped tracking stay untracked.
+     */
+    static async rebuildFromOrderHistory(userId: string): Promise<IPantryItemView[]> {
+        const orders = await Order.findAll({
+            where: { customerId: userId, status: 'completed' },
+            attributes: ['id', 'customerId', 'status', 'completedAt', 'updatedAt'],
+            include: [
+                {
+                    model: ShoppingList,
+                    as: 'shoppingList',
+                    attributes: ['id'],
+                    include: [{ model: ShoppingListItem, as: 'items' }],
+                },
+            ],
+            order: [['completedAt', 'ASC']],
+        });
+
+        await Database.transaction(async (transaction: Transaction) => {
+            const untracked = await PantryItem.findAll({
+                where: { userId, isTracked: false },
+                attributes: ['normalizedName'],
+                transaction,
+            });
+
+            await PantryItem.destroy({ where: { userId }, transaction });
+
+            for (const order of orders) {
+                await this.applyOrder(order, transaction);
+            }
+
+            if (untracked.length > 0) {
+                await PantryItem.update(
+                    { isTracked: false },
+                    {
+                        where: { userId, normalizedName: { [Op.in]: untracked.map(item => item.normalizedName) } },
+                        transaction,
+                    },
+                );
+            }
+        });
+
+        return await this.getPantry(userId);
+    }
+
+    static async getPantry(userId: string): Promise<IPantryItemView[]> {
+        const items = await PantryItem.findAll({
+            where: { userId },
+            order: [
+                ['estimatedRunOutAt', 'ASC NULLS LAST'],
+                ['name', 'ASC'],
+            ],
+        });
+
+        return items.map(item => this.toView(item));
+    }
+
+    /**
+     * Tracked items expected to run out in the next few days, soonest first
+     */
+    static async getRunningLow(userId: string): Promise<IPantryItemView[]> {
+        const items = await PantryItem.findAll({
+            where: {
+                userId,
+                isTracked: true,
+                estimatedRunOutAt: {
+                    [Op.lte]: moment().add(this.LOW_STOCK_DAYS, 'days').toDate(),
+                    [Op.gte]: moment().subtract(this.STALE_AFTER_DAYS, 'days').toDate(),
+                },
+            },
+            order: [['estimatedRunOutAt', 'ASC']],
+        });
+
+        return items.map(item => this.toView(item));
+    }
+
+    /**
+     * Running-low items as shopping list items, priced from the chosen market where the
+     * product is stocked there
+     */
+    static async getRestockItems(userId: string, marketId?: string): Promise<Omit<IShoppingListItem, 'shoppingListId'>[]> {
+        const runningLow = await this.getRunningLow(userId);
+        if (runningLow.length === 0) {
+            return [];
+        }
+
+        const productIds = runningLow.map(item => item.productId).filter(Boolean) as string[];
+        const products = productIds.length > 0
+            ? await Product.findAll({
+                where: { id: { [Op.in]: productIds }, isAvailable: true },
+                attributes: ['id', 'name', 'price', 'images', 'marketId'],
+            })
+            : [];
+        const productsById = new Map(products.map(product => [product.id, product]));
+
+        const markupPercentage = await SystemSettingsService.getItemMarkupPercentage();
+
+        return runningLow.map(item => {
+            const product = item.productId ? productsById.get(item.productId) : undefined;
+            // Products belong to a market, so a product from elsewhere only carries over its name
+            const inMarket = product && (!marketId || product.marketId === marketId) ? product : undefined;
+
+            return {
+                name: item.name,
+                quantity: item.lastQuantity || 1,
+                unit: item.unit,
+                notes: 'Restock from your pantry',
+                productId: inMarket?.id ?? null,
+                productImage: inMarket?.images && inMarket.images.length > 0 ? inMarket.images[0] : null,
+                estimatedPrice: inMarket?.price
+                    ? PriceCalculatorService.applyMarkup(Number(inMarket.price), markupPercentage)
+                    : null,
+                addedBy: userId,
+            };
+        });
+    }
+
+    /**
+     * What the customer probably still has, keyed by normalized name. Quantities are
+     * what was last bought less what has been used since, at the item's consumption rate.
+     */
+    static async getOnHand(userId: string): Promise<Map<string, { name: string; quantity: number; unit: string | null }>> {
+        const items = await PantryItem.findAll({
+            where: {
+                userId,
+                isTracked: true,
+                [Op.or]: [
+                    { estimatedRunOutAt: { [Op.gt]: new Date() } },
+                    {
+                        consumptionPerDay: null,
+                        lastPurchasedAt: { [Op.gte]: moment().subtract(this.RECENT_PURCHASE_DAYS, 'days').toDate() },
+                    },
+                ],
+            },
+        });
+
+        const onHand = new Map<string, { name: string; quantity: number; unit: string | null }>();
+
+        for (const item of items) {
+            const daysSince = moment().diff(moment(item.lastPurchasedAt), 'days', true);
+            const used = item.consumptionPerDay ? Number(item.consumptionPerDay) * daysSince : 0;
+            const quantity = Math.max(Number(item.lastQuantity) - used, 0);
+
+            if (quantity > 0) {
+                onHand.set(item.normalizedName, { name: item.name, quantity, unit: item.unit });
+            }
+        }
+
+        return onHand;
+    }
+
+    static async updateItem(userId: string, id: string, data: { isTracked: boolean }): Promise<IPantryItemView> {
+        const item = await PantryItem.findOne({ where: { id, userId } });
+
+        if (!item) {
+            throw new NotFoundError('Pantry item not found');
+        }
+
+        await item.update({ isTracked: data.isTracked });
+
+        return this.toView(item);
+    }
+
+    static async removeItem(userId: string, id: string): Promise<void> {
+        const deleted = await PantryItem.destroy({ where: { id, userId } });
+
+        if (!deleted) {
+            throw new NotFoundError('Pantry item not found');
+        }
+    }
+
+    /**
+     * Weekly nudge to everyone with items running low. One reminder per customer per week.
+     */
+    static async sendRestockReminders(): Promise<number> {
+        const runningLow = await PantryItem.findAll({
+            where: {
+                isTracked: true,
+                estimatedRunOutAt: {
+                    [Op.lte]: moment().add(this.LOW_STOCK_DAYS, 'days').toDate(),
+                    [Op.gte]: moment().subtract(this.STALE_AFTER_DAYS, 'days').toDate(),
+                },
+            },
+            attributes: ['userId', 'name', 'estimatedRunOutAt'],
+            order: [['estimatedRunOutAt', 'ASC']],
+        });
+
+        const byUser = new Map<string, string[]>();
+        for (const item of runningLow) {
+            byUser.set(item.userId, [...(byUser.get(item.userId) || []), item.name]);
+        }
+
+        // Notifications are unique per resource, so the week in the resource keeps this to one a week
+        const week = moment().format('GGGG-[W]WW');
+        let sent = 0;
+
+        for (const [userId, names] of byUser) {
+            const shown = names.slice(0, this.MAX_REMINDER_ITEMS).join(', ');
+            const more = names.length > this.MAX_REMINDER_ITEMS ? ` and ${names.length - this.MAX_REMINDER_ITEMS} more` : '';
+
+            try {
+                await NotificationService.addNotification({
+                    userId,
+                    title: NotificationTypes.PANTRY_RESTOCK_REMINDER,
+                    heading: 'Time to Restock',
+                    message: `You're running low on ${shown}${more}. Start a restock list in one tap.`,
+                    resource: `pantry-restock-${week}`,
+                });
+                sent++;
+            } catch (error) {
+                logger.error(`Failed to send restock reminder to user ${userId}:`, error);
+            }
+        }
+
+        return sent;
+    }
+
+    private static async applyOrder(order: Order, transaction: Transaction): Promise<number> {
+        const purchasedAt = order.completedAt || order.updatedAt;
+
+        // The same item can appear twice on a list; count it once with the combined quantity
+        const purchases = new Map<string, { item: ShoppingListItem; quantity: number }>();
+        for (const item of order.shoppingList?.items || []) {
+            const key = this.normalizeName(item.name);
+            if (!key) continue;
+
+            const existing = purchases.get(key);
+            purchases.set(key, {
+                item: existing?.item ?? item,
+                quantity: (existing?.quantity ?? 0) + (Number(item.quantity) || 1),
+            });
+        }
+
+        let recorded = 0;
+
+        for (const [normalizedName, { item, quantity }] of purchases) {
+            const pantryItem = await PantryItem.findOne({
+                where: { userId: order.customerId, normalizedName },
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
+
+            if (!pantryItem) {
+                await PantryItem.create(
+                    {
+                        userId: order.customerId,
+                        name: item.name,
+                        normalizedName,
+                        productId: item.productId ?? null,
+                        unit: item.unit,
+                        lastQuantity: quantity,
+                        lastPurchasedAt: purchasedAt,
+                        lastOrderId: order.id,
+                        purchaseCount: 1,
+                    },
+                    { transaction },
+                );
+                recorded++;
+                continue;
+            }
+
+            if (pantryItem.lastOrderId === order.id || purchasedAt <= pantryItem.lastPurchasedAt) {
+                continue;
+            }
+
+            const intervalDays = moment(purchasedAt).diff(moment(pantryItem.lastPurchasedAt), 'days', true);
+
+            // Two orders a few hours apart are one shop; add to it rather than learn a tiny interval
+            if (intervalDays < 1) {
+                const lastQuantity = Number(pantryItem.lastQuantity) + quantity;
+                await pantryItem.update(
+                    {
+                        lastQuantity,
+                        lastOrderId: order.id,
+                        estimatedRunOutAt: this.predictRunOut(pantryItem.lastPurchasedAt, lastQuantity, pantryItem.consumptionPerDay),
+                    },
+                    { transaction },
+                );
+                recorded++;
+                continue;
+            }
+
+            // What was bought last time lasted until now
+            const observedRate = Number(pantryItem.lastQuantity) / intervalDays;
+            const previousRate = pantryItem.consumptionPerDay === null ? null : Number(pantryItem.consumptionPerDay);
+            const consumptionPerDay = previousRate === null
+                ? observedRate
+                : this.SMOOTHING_FACTOR * observedRate + (1 - this.SMOOTHING_FACTOR) * previousRate;
+
+            await pantryItem.update(
+                {
+                    name: item.name,
+                    productId: item.productId ?? pantryItem.productId,
+                    unit: item.unit ?? pantryItem.unit,
+                    lastQuantity: quantity,
+                    lastPurchasedAt: purchasedAt,
+                    lastOrderId: order.id,
+                    purchaseCount: pantryItem.purchaseCount + 1,
+                    consumptionPerDay: Math.round(consumptionPerDay * 10000) / 10000,
+                    estimatedRunOutAt: this.predictRunOut(purchasedAt, quantity, consumptionPerDay),
+                },
+                { transaction },
+            );
+            recorded++;
+        }
+
+        return recorded;
+    }
+
+    private static predictRunOut(purchasedAt: Date, quantity: number, consumptionPerDay: number | null): Date | null {
+        if (!consumptionPerDay || Number(consumptionPerDay) <= 0) {
+            return null;
+        }
+
+        const days = quantity / Number(consumptionPerDay);
+        return moment(purchasedAt).add(Math.round(days * 24), 'hours').toDate();
+    }
+
+    private static toView(item: PantryItem): IPantryItemView {
+        const daysLeft = item.estimatedRunOutAt
+            ? Math.floor(moment(item.estimatedRunOutAt).diff(moment(), 'days', true))
+            : null;
+
+        let status: PantryStockStatus = 'unknown';
+        if (daysLeft !== null) {
+            status = daysLeft <= this.LOW_STOCK_DAYS ? 'running_low' : 'in_stock';
+        }
+
+        return {
+            id: item.id,
+            name: item.name,
+            productId: item.productId,
+            unit: item.unit,
+            lastQuantity: Number(item.lastQuantity),
+            lastPurchasedAt: item.lastPurchasedAt,
+            purchaseCount: item.purchaseCount,
+            consumptionPerDay: item.consumptionPerDay === null ? null : Number(item.consumptionPerDay),
+            estimatedRunOutAt: item.estimatedRunOutAt,
+            daysLeft,
+            status,
+            isTracked: item.isTracked,
+        };
+    }
+
+    /**
+     * Lowercased and singular, so "Tomatoes" and "tomato" count as the same item
+     */
+    static normalizeName(name: string): string {
+        return (name || '')
+            .toLowerCase()
+            .replace(/[^a-z0-9\s]/g, ' ')
+            .split(/\s+/)
+            .filter(Boolean)
+            .map(word => {
+                if (word.length > 4 && word.endsWith('oes')) return word.slice(0, -2);
+                if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+                return word;
+            })
+            .join(' ');
+    }
+}
@@ -15,6 +15,10 @@ export interface PaystackInitializeRequest {
         orderId: string;
         orderNumber: string;
         customerId: string;
+        paymentType?: 'order' | 'price_adjustment' | 'tip' | 'basket';
+        adjustmentId?: string;
+        tipId?: string;
+        basketId?: string;
         custom_fields?: Array<{
             display_name: string;
             variable_name: string;
@@ -34,6 +38,15 @@ export interface PaystackInitializeResponse {
     };
 }
 
+export interface PaystackChargeAuthorizationRequest {
+    email: string; // Must match the email the authorization was issued to
+    amount: number; // Amount in kobo
+    authorization_code: string;
+    currency?: string;
+    reference?: string;
+    metadata?: PaystackInitializeRequest['metadata'] & { recurringOrderId?: string };
+}
+
 export interface PaystackVerifyResponse {
     status: boolean;
     message: string;
@@ -89,6 +102,93 @@ export interface PaystackVerifyResponse {
     };
 }
 
+export interface PaystackRefundRequest {
+    transaction: string; // Transaction reference or ID
+    amount?: number; // Amount in kobo, defaults to the full transaction amount
+    currency?: string;
+    customer_note?: string;
+    merchant_note?: string;
+}
+
+export interface PaystackRefundResponse {
+    status: boolean;
+    message: string;
+    data: {
+        id: number;
+        integration: number;
+        domain: string;
+        transaction: any;
+        dispute: any;
+        amount: number;
+        deducted_amount: number;
+        currency: string;
+        channel: string | null;
+        fully_deducted: boolean;
+        refunded_by: string;
+        refunded_at: string | null;
+        expected_at: string;
+        customer_note: string;
+        merchant_note: string;
+        status: 'pending' | 'processing' | 'processed' | 'failed';
+        createdAt: string;
+        updatedAt: string;
+    };
+}
+
+export interface PaystackTransferRecipientRequest {
+    name: string;
+    account_number: string;
+    bank_code: string;
+    currency?: string;
+}
+
+export interface PaystackTransferRecipientResponse {
+    status: boolean;
+    message: string;
+    data: {
+        id: number;
+        recipient_code: string;
+        type: string;
+        name: string;
+        currency: string;
+        details: {
+            account_number: string;
+            account_name: string | null;
+            bank_code: string;
+            bank_name: string;
+        };
+    };
+}
+
+export interface PaystackTransferRequest {
+    amount: number; // Amount in kobo
+    recipient: string; // Recipient code
+    reference: string;
+    reason?: string;
+    currency?: string;
+}
+
+export interface PaystackTransferResponse {
+    status: boolean;
+    message: string;
+    data: {
+        id: number;
+        integration: number;
+        domain: string;
+        amount: number;
+        currency: string;
+        source: string;
+        reason: string;
+        recipient: any;
+        reference: string;
+        transfer_code: string;
+        status: 'pending' | 'otp' | 'success' | 'failed' | 'reversed' | 'abandoned' | 'blocked' | 'rejected' | 'received';
+        failures: any;
+        createdAt: string;
+        updatedAt: string;
+    };
+}
+
 export interface PaystackWebhookPayload {
     event: string;
     data: {
@@ -276,6 +376,278 @@ export default class PaystackService {
         }
     }
 
+    /**
+     * Charge a saved card without the customer present, using a reusable authorization
+     */
+    static async chargeAuthorization(request: PaystackChargeAuthorizationRequest): Promise<PaystackVerifyResponse> {
+        try {
+            if (!this.secretKey) {
+                throw new BadRequestError('Paystack secret key not configured');
+            }
+
+            if (!request.amount || request.amount <= 0) {
+                throw new BadRequestError('Amount must be greater than zero');
+            }
+
+            logger.info('Charging Paystack authorization', {
+                email: request.email,
+                amount: Math.round(request.amount),
+                reference: request.reference,
+                orderId: request.metadata?.orderId,
+            });
+
+            const response = await axios.post(
+                `${PAYSTACK_BASE_URL}/transaction/charge_authorization`,
+                {
+                    ...request,
+                    amount: Math.round(request.amount),
+                    currency: request.currency || 'NGN',
+                },
+                { headers: this.getHeaders() }
+            );
+
+            if (!response.data.status) {
+                throw new BadRequestError(response.data.message || 'Failed to charge Paystack authorization');
+            }
+
+            logger.info('Paystack authorization charged', {
+                reference: response.data.data.reference,
+                status: response.data.data.status,
+            });
+
+            return response.data;
+
+        } catch (error) {
+            logger.error('Error charging Paystack authorization:', error);
+
+            if (error instanceof AxiosError) {
+                const errorMessage = error.response?.data?.message || error.message;
+                throw new BadRequestError(`Paystack API error: ${errorMessage}`);
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Refund all or part of a successful transaction
+     */
+    static async createRefund(request: PaystackRefundRequest): Promise<PaystackRefundResponse> {
+        try {
+            if (!this.secretKey) {
+                throw new BadRequestError('Paystack secret key not configured');
+            }
+
+            if (!request.transaction) {
+                throw new BadRequestError('Transaction reference is required');
+            }
+
+            if (request.amount !== undefined && request.amount <= 0) {
+                throw new BadRequestError('Refund amount must be greater than zero');
+            }
+
+            logger.info('Creating Paystack refund', {
+                transaction: request.transaction,
+                amount: request.amount,
+            });
+
+            const response = await axios.post(
+                `${PAYSTACK_BASE_URL}/refund`,
+                {
+                    ...request,
+                    amount: request.amount !== undefined ? Math.round(request.amount) : undefined,
+                },
+                { headers: this.getHeaders() }
+            );
+
+            if (!response.data.status) {
+                throw new BadRequestError(response.data.message || 'Failed to create Paystack refund');
+            }
+
+            logger.info('Paystack refund created', {
+                transaction: request.transaction,
+                refundId: response.data.data.id,
+                status: response.data.data.status,
+            });
+
+            return response.data;
+
+        } catch (error) {
+            logger.error('Error creating Paystack refund:', error);
+
+            if (error instanceof AxiosError) {
+                const errorMessage = error.response?.data?.message || error.message;
+                throw new BadRequestError(`Paystack refund error: ${errorMessage}`);
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Get refund details
+     */
+    static async getRefund(refundId: string | number): Promise<PaystackRefundResponse> {
+        try {
+            if (!this.secretKey) {
+                throw new BadRequestError('Paystack secret key not configured');
+            }
+
+            const response = await axios.get(
+                `${PAYSTACK_BASE_URL}/refund/${refundId}`,
+                { headers: this.getHeaders() }
+            );
+
+            if (!response.data.status) {
+                throw new BadRequestError(response.data.message || 'Failed to get Paystack refund');
+            }
+
+            return response.data;
+
+        } catch (error) {
+            logger.error('Error getting Paystack refund:', error);
+
+            if (error instanceof AxiosError) {
+                const errorMessage = error.response?.data?.message || error.message;
+                throw new BadRequestError(`Paystack refund error: ${errorMessage}`);
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Register a bank account as a transfer recipient
+     */
+    static async createTransferRecipient(
+        request: PaystackTransferRecipientRequest,
+    ): Promise<PaystackTransferRecipientResponse> {
+        try {
+            if (!this.secretKey) {
+                throw new BadRequestError('Paystack secret key not configured');
+            }
+
+            if (!request.account_number || !request.bank_code) {
+                throw new BadRequestError('Account number and bank code are required');
+            }
+
+            const response = await axios.post(
+                `${PAYSTACK_BASE_URL}/transferrecipient`,
+                {
+                    type: 'nuban',
+                    name: request.name,
+                    account_number: request.account_number,
+                    bank_code: request.bank_code,
+                    currency: request.currency || 'NGN',
+                },
+                { headers: this.getHeaders() }
+            );
+
+            if (!response.data.status) {
+                throw new BadRequestError(response.data.message || 'Failed to create Paystack transfer recipient');
+            }
+
+            return response.data;
+
+        } catch (error) {
+            logger.error('Error creating Paystack transfer recipient:', error);
+
+            if (error instanceof AxiosError) {
+                const errorMessage = error.response?.data?.message || error.message;
+                throw new BadRequestError(`Paystack transfer error: ${errorMessage}`);
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Send money from the Paystack balance to a transfer recipient
+     */
+    static async initiateTransfer(request: PaystackTransferRequest): Promise<PaystackTransferResponse> {
+        try {
+            if (!this.secretKey) {
+                throw new BadRequestError('Paystack secret key not configured');
+            }
+
+            if (!request.amount || request.amount <= 0) {
+                throw new BadRequestError('Transfer amount must be greater than zero');
+            }
+
+            logger.info('Initiating Paystack transfer', {
+                reference: request.reference,
+                amount: request.amount,
+            });
+
+            const response = await axios.post(
+                `${PAYSTACK_BASE_URL}/transfer`,
+                {
+                    source: 'balance',
+                    amount: Math.round(request.amount),
+                    recipient: request.recipient,
+                    reference: request.reference,
+                    reason: request.reason,
+                    currency: request.currency || 'NGN',
+                },
+                { headers: this.getHeaders() }
+            );
+
+            if (!response.data.status) {
+                throw new BadRequestError(response.data.message || 'Failed to initiate Paystack transfer');
+            }
+
+            logger.info('Paystack transfer initiated', {
+                reference: request.reference,
+                transferCode: response.data.data.transfer_code,
+                status: response.data.data.status,
+            });
+
+            return response.data;
+
+        } catch (error) {
+            logger.error('Error initiating Paystack transfer:', error);
+
+            if (error instanceof AxiosError) {
+                const errorMessage = error.response?.data?.message || error.message;
+                throw new BadRequestError(`Paystack transfer error: ${errorMessage}`);
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Verify a transfer by its reference
+     */
+    static async verifyTransfer(reference: string): Promise<PaystackTransferResponse> {
+        try {
+            if (!this.secretKey) {
+                throw new BadRequestError('Paystack secret key not configured');
+            }
+
+            const response = await axios.get(
+                `${PAYSTACK_BASE_URL}/transfer/verify/${reference}`,
+                { headers: this.getHeaders() }
+            );
+
+            if (!response.data.status) {
+                throw new BadRequestError(response.data.message || 'Failed to verify Paystack transfer');
+            }
+
+            return response.data;
+
+        } catch (error) {
+            logger.error('Error verifying Paystack transfer:', error);
+
+            if (error instanceof AxiosError) {
+                const errorMessage = error.response?.data?.message || error.message;
+                throw new BadRequestError(`Paystack transfer error: ${errorMessage}`);
+            }
+
+            throw error;
+        }
+    }
+
     /**
      * Validate webhook signature
      */
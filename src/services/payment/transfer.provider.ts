@@ -0,0 +1,127 @@
+import { logger } from '../../utils/logger';
+import { BadRequestError } from '../../utils/customErrors';
+import { PAYOUT_TRANSFER_PROVIDER } from '../../utils/constants';
+import { IPayoutBankDetails } from '../../models/agentPayout.model';
+import PaystackService from './paystack.service';
+
+export interface ITransferRequest {
+    reference: string; // Stable per payout so a retried transfer is recognised by the provider
+    amount: number; // Amount in Naira
+    currency: string;
+    bankDetails: IPayoutBankDetails;
+    reason: string;
+}
+
+export interface ITransferResult {
+    status: 'processing' | 'paid' | 'failed';
+    providerReference: string | null;
+    failureReason?: string;
+}
+
+/**
+ * Moves money to an agent's bank account.
+ * Providers that settle asynchronously return 'processing' and report the outcome later
+ * through a webhook or checkTransfer.
+ */
+export interface ITransferProvider {
+    readonly name: string;
+    sendTransfer(request: ITransferRequest): Promise<ITransferResult>;
+    checkTransfer(reference: string): Promise<ITransferResult>;
+}
+
+/**
+ * Development provider: records the transfer as paid without contacting a bank
+ */
+export class LocalTransferProvider implements ITransferProvider {
+    readonly name = 'local';
+
+    async sendTransfer(request: ITransferRequest): Promise<ITransferResult> {
+        logger.info(`[LocalTransfer] Simulated transfer ${request.reference}`, {
+            amount: request.amount,
+            accountNumber: request.bankDetails.accountNumber,
+            bankName: request.bankDetails.bankName,
+        });
+
+        return { status: 'paid', providerReference: `local_${request.reference}` };
+    }
+
+    async checkTransfer(reference: string): Promise<ITransferResult> {
+        return { status: 'paid', providerReference: `local_${reference}` };
+    }
+}
+
+export class PaystackTransferProvider implements ITransferProvider {
+    readonly name = 'paystack';
+
+    async sendTransfer(request: ITransferRequest): Promise<ITransferResult> {
+        const { bankDetails } = request;
+
+        if (!bankDetails.bankCode) {
+            throw new BadRequestError('Bank code is required for Paystack transfers');
+        }
+
+        const recipient = await PaystackService.createTransferRecipient({
+            name: bankDetails.accountName,
+            account_number: bankDetails.accountNumber,
+            bank_code: bankDetails.bankCode,
+            currency: request.currency,
+        });
+
+        const transfer = await PaystackService.initiateTransfer({
+            amount: PaystackService.toKobo(request.amount),
+            recipient: recipient.data.recipient_code,
+            reference: request.reference,
+            reason: request.reason,
+            currency: request.currency,
+        });
+
+        return this.toResult(transfer.data.status, transfer.data.transfer_code);
+    }
+
+    async checkTransfer(reference: string): Promise<ITransferResult> {
+        const transfer = await PaystackService.verifyTransfer(reference);
+        return this.toResult(transfer.data.status, transfer.data.transfer_code);
+    }
+
+    private toResult(status: string, transferCode: string): ITransferResult {
+        if (status === 'success') {
+            return { status: 'paid', providerReference: transferCode };
+        }
+
+        if (['failed', 'reversed', 'abandoned', 'blocked', 'rejected'].includes(status)) {
+            return { status: 'failed', providerReference: transferCode, failureReason: `Transfer ${status}` };
+        }
+
+        // 'otp' means transfers need OTP approval on the Paystack dashboard
+        return { status: 'processing', providerReference: transferCode };
+    }
+}
+
+const providers: Record<string, ITransferProvider> = {
+    local: new LocalTransferProvider(),
+    paystack: new PaystackTransferProvider(),
+};
+
+/**
+ * Fail fast at startup unless PAYOUT_TRANSFER_PROVIDER names a known provider
+ */
+export function assertTransferProviderConfigured(): void {
+    if (!PAYOUT_TRANSFER_PROVIDER || !providers[PAYOUT_TRANSFER_PROVIDER]) {
+        throw new Error(
+            `PAYOUT_TRANSFER_PROVIDER must be set to one of: ${Object.keys(providers).join(', ')} (got "${PAYOUT_TRANSFER_PROVIDER ?? ''}")`,
+        );
+    }
+}
+
+/**
+ * Get a transfer provider by name, defaulting to the configured one
+ */
+export function getTransferProvider(name: string = PAYOUT_TRANSFER_PROVIDER): ITransferProvider {
+    const provider = providers[name];
+
+    if (!provider) {
+        throw new BadRequestError(`Unknown transfer provider: ${name}`);
+    }
+
+    return provider;
+}
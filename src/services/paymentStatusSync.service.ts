@@ -4,13 +4,16 @@ import OrderService from './order.service';
 import ShoppingListService from './shoppingList.service';
 import AgentService from './agent.service';
 import OrderTrailService from './orderTrail.service';
+import DeliverySlotService from './deliverySlot.service';
 import EnhancedChatService from './chat-enhanced.service';
 import NotificationService from './notification.service';
 import { logger } from '../utils/logger';
 import { Database } from '../models';
 import Order from '../models/order.model';
 import ShoppingList from '../models/shoppingList.model';
+import User from '../models/user.model';
 import { NotificationTypes } from '../utils/interface';
+import OrderStateMachine, { OrderStatus } from './orderStateMachine.service';
 
 /**
  * Unified Payment Status Synchronization Service
@@ -30,13 +33,15 @@ export default class PaymentStatusSyncService {
      * @param source - Source of the confirmation ('webhook' | 'api_sync')
      * @param performedBy - User ID or 'system' for webhook
      * @param externalTransaction - Optional external transaction to use
+     * @param preferredAgentId - Agent to assign instead of picking one, e.g. the agent already shopping the rest of a basket
      */
     static async confirmPayment(
         orderId: string,
         transactionId: string,
         source: 'webhook' | 'api_sync',
         performedBy: string,
-        externalTransaction?: Transaction
+        externalTransaction?: Transaction,
+        preferredAgentId?: string
     ): Promise<{ success: boolean; assignedAgentId?: string; error?: string }> {
         
         const executeInTransaction = async (transaction: Transaction) => {
@@ -104,22 +109,38 @@ export default class PaymentStatusSyncService {
                     logger.info(`Shopping list ${order.shoppingListId} payment info updated`);
                 }
                 
-                // 6. Auto-assign agent to the order if available
+                // 6. Auto-assign agent to the order if available. Scheduled orders are
+                // assigned later, a lead time before their delivery window starts
+                const assignmentTime = await DeliverySlotService.getAgentAssignmentTime(order);
+                const deferAssignment = !!assignmentTime && assignmentTime.getTime() > Date.now();
+
+                if (deferAssignment && order.shoppingListId) {
+                    transaction.afterCommit(async () => {
+                        try {
+                            const { queueScheduledAgentAssignment } = await import('../queues/agent.queue');
+                            await queueScheduledAgentAssignment(orderId, order.shoppingListId, performedBy, assignmentTime!);
+                        } catch (queueError) {
+                            logger.error(`Failed to schedule agent assignment for order ${order.orderNumber}:`, queueError);
+                        }
+                    });
+                    logger.info(`Agent assignment for scheduled order ${order.orderNumber} deferred until ${assignmentTime!.toISOString()}`);
+                }
+
                 try {
-                    if (order.shoppingListId) {
-                        const unparsedavailableAgents = await AgentService.getAvailableAgentsForOrder(order.shoppingListId);
+                    if (order.shoppingListId && !deferAssignment) {
+                        // A preferred agent is already committed to the customer, so skip the availability checks
+                        const unparsedavailableAgents = preferredAgentId
+                            ? await User.findAll({ where: { id: preferredAgentId }, attributes: ['id', 'firstName', 'lastName'], transaction })
+                            : await AgentService.getAvailableAgentsForOrder(order.shoppingListId);
                         const availableAgents = JSON.parse(JSON.stringify(unparsedavailableAgents));
                         if (availableAgents.length > 0) {
                             const selectedAgent = availableAgents[0];
                             await AgentService.assignOrderToAgent(orderId, selectedAgent.id, transaction);
                             assignedAgentId = selectedAgent.id;
 
-                            logger.info(`Agent ${selectedAgent.id} automatically assigned to order ${order.orderNumber}`);
-
-                            // 7. Update order status to 'accepted' after agent assignment (not in_progress yet)
+                            // Assignment leaves the order 'accepted' (not in_progress yet)
                             // Agent still needs to accept the order in their dashboard
-                            await OrderService.updateOrderStatusSystem(orderId, 'accepted', transaction);
-                            logger.info(`Order ${order.orderNumber} status updated to accepted after agent assignment`);
+                            logger.info(`Agent ${selectedAgent.id} automatically assigned to order ${order.orderNumber}`);
 
                             // 8. Shopping list remains 'accepted' until agent starts working
                             // It will be updated to 'processing' when agent accepts the order
@@ -206,7 +227,7 @@ export default class PaymentStatusSyncService {
                         userId: order.customerId,
                         title: NotificationTypes.PAYMENT_SUCCESSFUL,
                         heading: 'Payment Confirmed',
-                        message: `Your payment for order #${order.orderNumber} has been confirmed. ${assignedAgentId ? 'An agent has been assigned and will start shopping soon.' : 'An agent will be assigned soon.'}`,
+                        message: `Your payment for order #${order.orderNumber} has been confirmed. ${assignedAgentId ? 'An agent has been assigned and will start shopping soon.' : deferAssignment ? 'An agent will be assigned ahead of your delivery slot.' : 'An agent will be assigned soon.'}`,
                         resource: order.id,
                         actorId: order.customerId,
                     });
@@ -249,29 +270,7 @@ export default class PaymentStatusSyncService {
         orderStatus: string,
         paymentStatus: string
     ): 'draft' | 'accepted' | 'processing' | 'completed' | 'cancelled' {
-        
-        // If payment not completed, shopping list should remain draft
-        if (paymentStatus !== 'completed') {
-            return 'draft';
-        }
-        
-        // Map order status to shopping list status
-        switch (orderStatus) {
-            case 'pending':
-            case 'accepted':
-                return 'accepted'; // Payment confirmed, ready for agent
-            case 'in_progress':
-            case 'shopping':
-            case 'shopping_completed':
-            case 'delivery':
-                return 'processing'; // Agent actively working
-            case 'completed':
-                return 'completed'; // Order delivered
-            case 'cancelled':
-                return 'cancelled'; // Order cancelled
-            default:
-                return 'draft';
-        }
+        return OrderStateMachine.getShoppingListStatus(orderStatus as OrderStatus, paymentStatus);
     }
     
     /**
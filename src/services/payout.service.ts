@@ -0,0 +1,910 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Op, QueryTypes, Transaction, UniqueConstraintError } from 'sequelize';
+import AgentEarning, { AgentEarningStatus, AgentEarningType, IAgentEarning } from '../models/agentEarning.model';
+import AgentPayout, { AgentPayoutStatus, IPayoutBankDetails } from '../models/agentPayout.model';
+import Order from '../models/order.model';
+import { OrderTipStatus } from '../models/orderTip.model';
+import ShoppingListItem from '../models/shoppingListItem.model';
+import User from '../models/user.model';
+import UserSettings from '../models/userSettings.model';
+import { BadRequestError, NotFoundError } from '../utils/customErrors';
+import Pagination, { IPaginationQuery, IPaging } from '../utils/pagination';
+import { Database } from '../models';
+import { logger } from '../utils/logger';
+import { NotificationTypes } from '../utils/interface';
+import NotificationService from './notification.service';
+import PriceCalculatorService from './priceCalculator.service';
+import SystemSettingsService from './systemSettings.service';
+import OrderTipService from './orderTip.service';
+import { getTransferProvider, ITransferResult } from './payment/transfer.provider';
+
+export interface IAgentBalance {
+    available: number; // Will go out with the next payout batch
+    inPayout: number; // Locked into payouts that are pending, processing or failed
+    paidOut: number;
+    lifetimeEarnings: number; // Everything except shopping reimbursements
+    currency: string;
+}
+
+export interface IAgentStatementQuery extends IPaginationQuery {
+    type?: AgentEarningType;
+    status?: AgentEarningStatus;
+    startDate?: Date;
+    endDate?: Date;
+}
+
+export interface IPayoutFilters extends IPaginationQuery {
+    agentId?: string;
+    status?: AgentPayoutStatus;
+    batchReference?: string;
+}
+
+export interface IAddEarningData {
+    type: AgentEarningType;
+    amount: number;
+    description: string;
+    orderId?: string;
+    idempotencyKey: string;
+    metadata?: Record<string, any>;
+}
+
+export interface IPayoutBatchResult {
+    batchReference: string;
+    payouts: AgentPayout[];
+    skipped: { agentId: string; amount: number; reason: string }[];
+}
+
+export default class PayoutService {
+    // Earning types an admin can add by hand; commission and reimbursements come from completed orders
+    private static readonly MANUAL_EARNING_TYPES = [
+        AgentEarningType.BONUS,
+        AgentEarningType.TIP,
+        AgentEarningType.ADJUSTMENT,
+    ];
+
+    // How far back the batch job looks for completed orders that never had earnings recorded
+    private static readonly EARNINGS_CATCH_UP_DAYS = 30;
+
+    /**
+     * Record commission, shopping reimbursement and tips for a completed order.
+     * Safe to call more than once; each earning is only recorded the first time.
+     */
+    static async recordOrderEarnings(orderId: string, performedBy: string = 'system'): Promise<AgentEarning[]> {
+        const order = await Order.findByPk(orderId);
+
+        if (!order) {
+            throw new NotFoundError('Order not found');
+        }
+
+        if (order.status !== 'completed' || !order.agentId) {
+            return [];
+        }
+
+        const rules = await SystemSettingsService.getAgentCommissionRules();
+        const deliveryFee = Number(order.deliveryFee || 0);
+        const serviceFee = Number(order.serviceFee || 0);
+
+        const commission = PriceCalculatorService.roundPrice(Math.max(
+            (deliveryFee * rules.deliveryFeePercentage) / 100 +
+            (serviceFee * rules.serviceFeePercentage) / 100 +
+            rules.flatAmountPerOrder,
+            rules.minimumPerOrder,
+        ));
+
+        const earnings: AgentEarning[] = [];
+
+        if (commission > 0) {
+            earnings.push(await this.recordEarning({
+                agentId: order.agentId,
+                orderId: order.id,
+                type: AgentEarningType.COMMISSION,
+                amount: commission,
+                description: `Commission for order ${order.orderNumber}`,
+                idempotencyKey: `commission:${order.id}`,
+                createdBy: performedBy,
+                metadata: { rules, deliveryFee, serviceFee },
+            }));
+        }
+
+        if (rules.reimburseShoppingCosts && order.shoppingListId) {
+            const items = await ShoppingListItem.findAll({
+                where: {
+                    shoppingListId: order.shoppingListId,
+                    actualPrice: { [Op.ne]: null },
+                },
+            });
+
+            const shoppingCost = PriceCalculatorService.roundPrice(
+                items.reduce((sum, item) => sum + Number(item.actualPrice) * (item.quantity || 1), 0),
+            );
+
+            if (shoppingCost > 0) {
+                earnings.push(await this.recordEarning({
+                    agentId: order.agentId,
+                    orderId: order.id,
+                    type: AgentEarningType.SHOPPING_REIMBURSEMENT,
+                    amount: shoppingCost,
+                    description: `Shopping reimbursement for order ${order.orderNumber}`,
+                    idempotencyKey: `shopping-reimbursement:${order.id}`,
+                    createdBy: performedBy,
+                    metadata: { itemCount: items.length },
+                }));
+            }
+        }
+
+        // Tips go to the agent in full
+        const checkoutTip = await OrderTipService.getCheckoutTip(order);
+        if (checkoutTip > 0) {
+            earnings.push(await this.recordEarning({
+                agentId: order.agentId,
+                orderId: order.id,
+                type: AgentEarningType.TIP,
+                amount: checkoutTip,
+                description: `Tip for order ${order.orderNumber}`,
+                idempotencyKey: `tip:${order.id}`,
+                createdBy: performedBy,
+                metadata: { source: 'checkout' },
+            }));
+        }
+
+        const laterTips = await OrderTipService.getPaidTips(order.id);
+        for (const tip of laterTips) {
+            earnings.push(await this.recordEarning({
+                agentId: tip.agentId,
+                orderId: order.id,
+                type: AgentEarningType.TIP,
+                amount: Number(tip.amount),
+                description: `Tip for order ${order.orderNumber}`,
+                idempotencyKey: `tip:${tip.id}`,
+                createdBy: performedBy,
+                metadata: { source: 'after_delivery', tipId: tip.id },
+            }));
+        }
+
+        return earnings;
+    }
+
+    /**
+     * Add a bonus, tip or adjustment to an agent's earnings
+     */
+    static async addEarning(agentId: string, data: IAddEarningData, performedBy: string): Promise<AgentEarning> {
+        if (!this.MANUAL_EARNING_TYPES.includes(data.type)) {
+            throw new BadRequestError(`Earning type must be one of: ${this.MANUAL_EARNING_TYPES.join(', ')}`);
+        }
+
+        const amount = PriceCalculatorService.roundPrice(Number(data.amount));
+
+        if (!amount || (amount < 0 && data.type !== AgentEarningType.ADJUSTMENT)) {
+            throw new BadRequestError('Amount must be a positive number; only adjustments can be negative');
+        }
+
+        const agent = await User.findByPk(agentId, { attributes: ['id', 'status'] });
+
+        if (!agent || agent.status?.userType !== 'agent') {
+            throw new NotFoundError('Agent not found');
+        }
+
+        if (data.orderId) {
+            const order = await Order.findByPk(data.orderId, { attributes: ['id', 'agentId'] });
+
+            if (!order || order.agentId !== agentId) {
+                throw new BadRequestError('Order does not belong to this agent');
+            }
+        }
+
+        return await this.recordEarning({
+            agentId,
+            orderId: data.orderId || null,
+            type: data.type,
+            amount,
+            description: data.description,
+            idempotencyKey: `${data.type}:${data.idempotencyKey}`,
+            createdBy: performedBy,
+            metadata: data.metadata || null,
+        });
+    }
+
+    static async getAgentBalance(agentId: string): Promise<IAgentBalance> {
+        const totals = await AgentEarning.findAll({
+            where: { agentId },
+            attributes: [
+                'status',
+                'type',
+                [Database.fn('SUM', Database.col('amount')), 'total'],
+            ],
+            group: ['status', 'type'],
+            raw: true,
+        }) as unknown as { status: AgentEarningStatus; type: AgentEarningType; total: string }[];
+
+        const balance: IAgentBalance = {
+            available: 0,
+            inPayout: 0,
+            paidOut: 0,
+            lifetimeEarnings: 0,
+            currency: 'NGN',
+        };
+
+        for (const row of totals) {
+            const total = Number(row.total);
+
+            if (row.status === AgentEarningStatus.AVAILABLE) balance.available += total;
+            if (row.status === AgentEarningStatus.IN_PAYOUT) balance.inPayout += total;
+            if (row.status === AgentEarningStatus.PAID) balance.paidOut += total;
+            if (row.type !== AgentEarningType.SHOPPING_REIMBURSEMENT) balance.lifetimeEarnings += total;
+        }
+
+        balance.available = PriceCalculatorService.roundPrice(balance.available);
+        balance.inPayout = PriceCalculatorService.roundPrice(balance.inPayout);
+        balance.paidOut = PriceCalculatorService.roundPrice(balance.paidOut);
+        balance.lifetimeEarnings = PriceCalculatorService.roundPrice(balance.lifetimeEarnings);
+
+        return balance;
+    }
+
+    /**
+     * Earnings overview for the agent dashboard, with a daily breakdown of the last 30 days
+     */
+    static async getEarningsSummary(agentId: string): Promise<{
+        totalEarnings: number;
+        totalTips: number;
+        completedOrders: number;
+        totalOrders: number;
+        earnings: { date: string; amount: number; tips: number; orders: number }[];
+        balance: IAgentBalance;
+    }> {
+        const orderStats = await Database.query(`
+            SELECT
+                COUNT(CASE WHEN status = 'completed' THEN 1 END) as "completedOrders",
+                COUNT(*) as "totalOrders"
+            FROM "Orders"
+            WHERE "agentId" = :agentId
+        `, {
+            replacements: { agentId },
+            type: QueryTypes.SELECT,
+        });
+
+        const recentEarnings = await Database.query(`
+            SELECT
+                DATE("createdAt") as date,
+                COALESCE(SUM("amount"), 0) as amount,
+                COALESCE(SUM(CASE WHEN "type" = :tip THEN "amount" ELSE 0 END), 0) as tips,
+                COUNT(DISTINCT "orderId") as orders
+            FROM "AgentEarnings"
+            WHERE "agentId" = :agentId
+            AND "type" != :reimbursement
+            AND "createdAt" >= NOW() - INTERVAL '30 days'
+            GROUP BY DATE("createdAt")
+            ORDER BY date ASC
+        `, {
+            replacements: { agentId, reimbursement: AgentEarningType.SHOPPING_REIMBURSEMENT, tip: AgentEarningType.TIP },
+            type: QueryTypes.SELECT,
+        }) as any[];
+
+        const totalTips = await AgentEarning.sum('amount', {
+            where: { agentId, type: AgentEarningType.TIP },
+        });
+
+        const stats = orderStats[0] as any;
+        const balance = await this.getAgentBalance(agentId);
+
+        return {
+            totalEarnings: balance.lifetimeEarnings,
+            totalTips: PriceCalculatorService.roundPrice(Number(totalTips || 0)), // Included in totalEarnings
+            completedOrders: parseInt(stats?.completedOrders || '0'),
+            totalOrders: parseInt(stats?.totalOrders || '0'),
+            earnings: recentEarnings.map(row => ({
+                date: row.date,
+                amount: parseFloat(row.amount || '0'),
+                tips: parseFloat(row.tips || '0'),
+                orders: parseInt(row.orders || '0'),
+            })),
+            balance,
+        };
+    }
+
+    /**
+     * Itemised earnings for an agent, newest first
+     */
+    static async getAgentStatement(
+        agentId: string,
+        query: IAgentStatementQuery,
+    ): Promise<{ earnings: AgentEarning[]; balance: IAgentBalance; pagination: IPaging }> {
+        const { page, size, type, status, startDate, endDate } = query;
+
+        const where: any = { agentId };
+        if (type) where.type = type;
+        if (status) where.status = status;
+        if (startDate || endDate) {
+            where.createdAt = {
+                ...(startDate && { [Op.gte]: startDate }),
+                ...(endDate && { [Op.lte]: endDate }),
+            };
+        }
+
+        const queryOptions: any = {};
+        if (page && size && page > 0 && size > 0) {
+            const { limit, offset } = Pagination.getPagination({ page, size } as IPaging);
+            queryOptions.limit = limit ?? 0;
+            queryOptions.offset = offset ?? 0;
+        }
+
+        const { count, rows } = await AgentEarning.findAndCountAll({
+            where,
+            include: [
+                {
+                    model: Order,
+                    attributes: ['id', 'orderNumber', 'status', 'completedAt'],
+                },
+                {
+                    model: AgentPayout,
+                    attributes: ['id', 'reference', 'status', 'paidAt'],
+                },
+            ],
+            order: [['createdAt', 'DESC']],
+            ...queryOptions,
+        });
+
+        const balance = await this.getAgentBalance(agentId);
+
+        return { earnings: rows, balance, pagination: this.buildPagination(count, rows.length, page, size) };
+    }
+
+    static async getPayouts(filters: IPayoutFilters): Promise<{ payouts: AgentPayout[]; pagination: IPaging }> {
+        const { page, size, agentId, status, batchReference } = filters;
+
+        const where: any = {};
+        if (agentId) where.agentId = agentId;
+        if (status) where.status = status;
+        if (batchReference) where.batchReference = batchReference;
+
+        const queryOptions: any = {};
+        if (page && size && page > 0 && size > 0) {
+            const { limit, offset } = Pagination.getPagination({ page, size } as IPaging);
+            queryOptions.limit = limit ?? 0;
+            queryOptions.offset = offset ?? 0;
+        }
+
+        const { count, rows } = await AgentPayout.findAndCountAll({
+            where,
+            include: [
+                {
+                    model: User,
+                    as: 'agent',
+                    attributes: ['id', 'firstName', 'lastName', 'email', 'displayImage'],
+                },
+            ],
+            order: [['createdAt', 'DESC']],
+            ...queryOptions,
+        });
+
+        return { payouts: rows, pagination: this.buildPagination(count, rows.length, page, size) };
+    }
+
+    static async getPayoutById(payoutId: string, agentId?: string): Promise<AgentPayout> {
+        const payout = await AgentPayout.findByPk(payoutId, {
+            include: [
+                {
+                    model: User,
+                    as: 'agent',
+                    attributes: ['id', 'firstName', 'lastName', 'email', 'displayImage'],
+                },
+                {
+                    model: AgentEarning,
+                    include: [{ model: Order, attributes: ['id', 'orderNumber'] }],
+                },
+            ],
+        });
+
+        // Agents only see their own payouts
+        if (!payout || (agentId && payout.agentId !== agentId)) {
+            throw new NotFoundError('Payout not found');
+        }
+
+        return payout;
+    }
+
+    /**
+     * Pay out every agent whose available balance has reached the payout minimum.
+     * Each payout is sent to the bank account on the agent's profile at the time of the run;
+     * agents with no usable bank details are skipped and keep their balance.
+     */
+    static async runPayoutBatch(initiatedBy: string): Promise<IPayoutBatchResult> {
+        await this.recordMissedOrderEarnings();
+
+        const minimumAmount = await SystemSettingsService.getAgentPayoutMinimumAmount();
+        const batchReference = this.generateReference('PAYOUT-BATCH');
+
+        const balances = await AgentEarning.findAll({
+            where: { status: AgentEarningStatus.AVAILABLE },
+            attributes: ['agentId', [Database.fn('SUM', Database.col('amount')), 'total']],
+            group: ['agentId'],
+            raw: true,
+        }) as unknown as { agentId: string; total: string }[];
+
+        const result: IPayoutBatchResult = { batchReference, payouts: [], skipped: [] };
+
+        for (const { agentId, total } of balances) {
+            const amount = PriceCalculatorService.roundPrice(Number(total));
+
+            if (amount < minimumAmount || amount <= 0) {
+                continue;
+            }
+
+            const bankDetails = await this.getAgentBankDetails(agentId);
+
+            if (!bankDetails) {
+                result.skipped.push({ agentId, amount, reason: 'No bank details on file' });
+                continue;
+            }
+
+            try {
+                const payout = await this.createPayout(agentId, bankDetails, batchReference, minimumAmount, initiatedBy);
+
+                if (payout) {
+                    result.payouts.push(await this.processPayout(payout));
+                }
+            } catch (error) {
+                logger.error(`Failed to create payout for agent ${agentId}:`, error);
+                result.skipped.push({ agentId, amount, reason: (error as Error).message });
+            }
+        }
+
+        logger.info(`Payout batch ${batchReference} finished`, {
+            payouts: result.payouts.length,
+            skipped: result.skipped.length,
+            initiatedBy,
+        });
+
+        return result;
+    }
+
+    /**
+     * Send a failed payout again, using the agent's current bank details
+     */
+    static async retryPayout(payoutId: string, adminId: string): Promise<AgentPayout> {
+        // Locked so two retries of the same payout can't both send a transfer
+        const payout = await Database.transaction(async (transaction: Transaction) => {
+            const locked = await AgentPayout.findByPk(payoutId, {
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
+
+            if (!locked) {
+                throw new NotFoundError('Payout not found');
+            }
+
+            if (locked.status !== AgentPayoutStatus.FAILED || locked.metadata?.releasedAt) {
+                throw new BadRequestError('Only failed payouts that still hold earnings can be retried');
+            }
+
+            const bankDetails = await this.getAgentBankDetails(locked.agentId);
+
+            if (!bankDetails) {
+                throw new BadRequestError('Agent has no bank details on file');
+            }
+
+            const attempts = Number(locked.metadata?.attempts || 1) + 1;
+
+            // Providers reject a reused reference, so each attempt gets its own
+            await locked.update({
+                status: AgentPayoutStatus.PENDING,
+                reference: this.generateReference('PAYOUT'),
+                bankDetails,
+                failureReason: null,
+                metadata: {
+                    ...locked.metadata,
+                    attempts,
+                    previousReferences: [...(locked.metadata?.previousReferences || []), locked.reference],
+                    retriedBy: adminId,
+                },
+            }, { transaction });
+
+            return locked;
+        });
+
+        return await this.processPayout(payout);
+    }
+
+    /**
+     * Give up on a failed payout and return its earnings to the agent's available balance
+     */
+    static async releasePayout(payoutId: string, adminId: string, reason: string): Promise<AgentPayout> {
+        return await Database.transaction(async (transaction: Transaction) => {
+            const payout = await AgentPayout.findByPk(payoutId, {
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
+
+            if (!payout) {
+                throw new NotFoundError('Payout not found');
+            }
+
+            if (payout.status !== AgentPayoutStatus.FAILED || payout.metadata?.releasedAt) {
+                throw new BadRequestError('Only failed payouts can be released');
+            }
+
+            await AgentEarning.update(
+                { status: AgentEarningStatus.AVAILABLE, payoutId: null },
+                { where: { payoutId: payout.id, status: AgentEarningStatus.IN_PAYOUT }, transaction },
+            );
+
+            await payout.update({
+                metadata: {
+                    ...payout.metadata,
+                    releasedAt: new Date().toISOString(),
+                    releasedBy: adminId,
+                    releaseReason: reason,
+                },
+            }, { transaction });
+
+            return payout;
+        });
+    }
+
+    /**
+     * Check payouts still waiting on the provider and settle any that have finished
+     */
+    static async reconcileProcessingPayouts(): Promise<{ checked: number; paid: number; failed: number }> {
+        const payouts = await AgentPayout.findAll({
+            where: { status: AgentPayoutStatus.PROCESSING },
+        });
+
+        const summary = { checked: payouts.length, paid: 0, failed: 0 };
+
+        for (const payout of payouts) {
+            try {
+                const result = await getTransferProvider(payout.provider || undefined).checkTransfer(payout.reference);
+                const updated = await this.applyTransferResult(payout, result);
+
+                if (updated.status === AgentPayoutStatus.PAID) summary.paid++;
+                if (updated.status === AgentPayoutStatus.FAILED) summary.failed++;
+            } catch (error) {
+                logger.error(`Failed to reconcile payout ${payout.id}:`, error);
+            }
+        }
+
+        return summary;
+    }
+
+    /**
+     * Apply a Paystack transfer webhook to the matching payout
+     */
+    static async handlePaystackTransferEvent(eventType: string, data: any): Promise<AgentPayout | null> {
+        const payout = await AgentPayout.findOne({
+            where: {
+                reference: data?.reference,
+                status: { [Op.in]: [AgentPayoutStatus.PENDING, AgentPayoutStatus.PROCESSING, AgentPayoutStatus.PAID] },
+            },
+        });
+
+        if (!payout) {
+            logger.warn(`No open payout found for Paystack transfer ${data?.reference}`);
+            return null;
+        }
+
+        // Banks can send a transfer back after it was reported successful
+        if (payout.status === AgentPayoutStatus.PAID) {
+            return eventType === 'transfer.reversed' ? await this.markReversed(payout) : payout;
+        }
+
+        if (eventType === 'transfer.success') {
+            return await this.markPaid(payout, data?.transfer_code || payout.providerReference);
+        }
+
+        return await this.markFailed(payout, `Transfer ${eventType.replace('transfer.', '')}`);
+    }
+
+    private static async recordEarning(data: IAgentEarning, transaction?: Transaction): Promise<AgentEarning> {
+        const existing = await AgentEarning.findOne({
+            where: { idempotencyKey: data.idempotencyKey },
+            transaction,
+        });
+
+        if (existing) {
+            return existing;
+        }
+
+        try {
+            return await AgentEarning.create(data, { transaction });
+        } catch (error) {
+            // Lost a race with a concurrent call for the same earning
+            if (error instanceof UniqueConstraintError) {
+                const earning = await AgentEarning.findOne({
+                    where: { idempotencyKey: data.idempotencyKey },
+                    transaction,
+                });
+
+                if (earning) return earning;
+            }
+
+            throw error;
+        }
+    }
+
+    /**
+     * Catch up on completed orders whose earnings weren't recorded when they completed,
+     * and on tips paid after delivery that weren't credited
+     */
+    private static async recordMissedOrderEarnings(): Promise<void> {
+        const since = new Date();
+        since.setDate(since.getDate() - this.EARNINGS_CATCH_UP_DAYS);
+
+        const where: any = {
+            status: 'completed',
+            agentId: { [Op.ne]: null },
+            completedAt: { [Op.gte]: since },
+            [Op.or]: [
+                {
+                    id: {
+                        [Op.notIn]: Database.literal(
+                            `(SELECT "orderId" FROM "AgentEarnings" WHERE "type" = '${AgentEarningType.COMMISSION}' AND "orderId" IS NOT NULL)`,
+                        ),
+                    },
+                },
+                {
+                    id: {
+                        [Op.in]: Database.literal(
+                            `(SELECT "orderId" FROM "OrderTips" WHERE "status" = '${OrderTipStatus.PAID}' AND "id"::text NOT IN ` +
+                            `(SELECT SUBSTRING("idempotencyKey" FROM 5) FROM "AgentEarnings" WHERE "type" = '${AgentEarningType.TIP}'))`,
+                        ),
+                    },
+                },
+            ],
+        };
+
+        const orders = await Order.findAll({ where, attributes: ['id'] });
+
+        for (const order of orders) {
+            try {
+                await this.recordOrderEarnings(order.id);
+            } catch (error) {
+                logger.error(`Failed to record earnings for order ${order.id}:`, error);
+            }
+        }
+    }
+
+    /**
+     * Lock an agent's available earnings into a new pending payout
+     */
+    private static async createPayout(
+        agentId: string,
+        bankDetails: IPayoutBankDetails,
+        batchReference: string,
+        minimumAmount: number,
+        initiatedBy: string,
+    ): Promise<AgentPayout | null> {
+        return await Database.transaction(async (transaction: Transaction) => {
+            const earnings = await AgentEarning.findAll({
+                where: { agentId, status: AgentEarningStatus.AVAILABLE },
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
+
+            const amount = PriceCalculatorService.roundPrice(
+                earnings.reduce((sum, earning) => sum + Number(earning.amount), 0),
+            );
+
+            // Balance changed since the batch totals were read
+            if (amount < minimumAmount || amount <= 0) {
+                return null;
+            }
+
+            const payout = await AgentPayout.create({
+                agentId,
+                batchReference,
+                reference: this.generateReference('PAYOUT'),
+                amount,
+                bankDetails,
+                initiatedBy,
+                metadata: { attempts: 1, earningCount: earnings.length },
+            }, { transaction });
+
+            await AgentEarning.update(
+                { status: AgentEarningStatus.IN_PAYOUT, payoutId: payout.id },
+                { where: { id: { [Op.in]: earnings.map(e => e.id) } }, transaction },
+            );
+
+            return payout;
+        });
+    }
+
+    private static async processPayout(payout: AgentPayout): Promise<AgentPayout> {
+        const provider = getTransferProvider();
+
+        try {
+            await payout.update({ provider: provider.name, processedAt: new Date() });
+
+            const result = await provider.sendTransfer({
+                reference: payout.reference,
+                amount: Number(payout.amount),
+                currency: payout.currency,
+                bankDetails: payout.bankDetails,
+                reason: `Busy2Shop earnings payout ${payout.batchReference}`,
+            });
+
+            return await this.applyTransferResult(payout, result);
+        } catch (error) {
+            logger.error(`Transfer failed for payout ${payout.id}:`, error);
+            return await this.markFailed(payout, (error as Error).message);
+        }
+    }
+
+    private static async applyTransferResult(payout: AgentPayout, result: ITransferResult): Promise<AgentPayout> {
+        if (result.status === 'paid') {
+            return await this.markPaid(payout, result.providerReference);
+        }
+
+        if (result.status === 'failed') {
+            return await this.markFailed(payout, result.failureReason || 'Transfer failed');
+        }
+
+        await payout.update({
+            status: AgentPayoutStatus.PROCESSING,
+            providerReference: result.providerReference,
+        });
+
+        return payout;
+    }
+
+    private static async markPaid(payout: AgentPayout, providerReference: string | null): Promise<AgentPayout> {
+        if (payout.status === AgentPayoutStatus.PAID) {
+            return payout;
+        }
+
+        await Database.transaction(async (transaction: Transaction) => {
+            await payout.update({
+                status: AgentPayoutStatus.PAID,
+                providerReference,
+                paidAt: new Date(),
+                failureReason: null,
+            }, { transaction });
+
+            await AgentEarning.update(
+                { status: AgentEarningStatus.PAID },
+                { where: { payoutId: payout.id }, transaction },
+            );
+        });
+
+        await this.notifyAgent(
+            payout.agentId,
+            NotificationTypes.PAYOUT_SENT,
+            'Payout Sent',
+            `₦${Number(payout.amount).toLocaleString()} has been sent to your ${payout.bankDetails.bankName} account ending ${payout.bankDetails.accountNumber.slice(-4)}.`,
+            payout.id,
+        );
+
+        return payout;
+    }
+
+    /**
+     * Earnings stay locked to a failed payout until an admin retries or releases it
+     */
+    private static async markFailed(payout: AgentPayout, reason: string): Promise<AgentPayout> {
+        if (payout.status === AgentPayoutStatus.FAILED || payout.status === AgentPayoutStatus.PAID) {
+            return payout;
+        }
+
+        await payout.update({
+            status: AgentPayoutStatus.FAILED,
+            failureReason: reason,
+        });
+
+        await this.notifyAgent(
+            payout.agentId,
+            NotificationTypes.PAYOUT_FAILED,
+            'Payout Failed',
+            `We couldn't send your ₦${Number(payout.amount).toLocaleString()} payout. Please check your bank details; our team will retry it.`,
+            payout.id,
+        );
+
+        return payout;
+    }
+
+    /**
+     * A paid transfer came back, so the money never reached the agent: the earnings go back
+     * to their available balance for the next payout
+     */
+    private static async markReversed(payout: AgentPayout): Promise<AgentPayout> {
+        const reversed = await Database.transaction(async (transaction: Transaction) => {
+            await payout.reload({ lock: transaction.LOCK.UPDATE, transaction });
+
+            // Paystack retries webhooks, so only the first delivery reverses the payout
+            if (payout.status !== AgentPayoutStatus.PAID) {
+                return false;
+            }
+
+            await AgentEarning.update(
+                { status: AgentEarningStatus.AVAILABLE, payoutId: null },
+                { where: { payoutId: payout.id, status: AgentEarningStatus.PAID }, transaction },
+            );
+
+            await payout.update({
+                status: AgentPayoutStatus.REVERSED,
+                failureReason: 'Transfer reversed',
+                metadata: {
+                    ...payout.metadata,
+                    reversedAt: new Date().toISOString(),
+                },
+            }, { transaction });
+
+            return true;
+        });
+
+        if (reversed) {
+            await this.notifyAgent(
+                payout.agentId,
+                NotificationTypes.PAYOUT_REVERSED,
+                'Payout Reversed',
+                `Your ₦${Number(payout.amount).toLocaleString()} payout was returned by your bank. The amount is back in your available balance; please check your bank details.`,
+                payout.id,
+            );
+        }
+
+        return payout;
+    }
+
+    private static async getAgentBankDetails(agentId: string): Promise<IPayoutBankDetails | null> {
+        const settings = await UserSettings.findOne({
+            where: { userId: agentId },
+            attributes: ['agentMetaData'],
+        });
+
+        const bankDetails = settings?.agentMetaData?.bankDetails;
+
+        if (!bankDetails?.accountNumber || !bankDetails?.accountName) {
+            return null;
+        }
+
+        return {
+            bankName: bankDetails.bankName,
+            accountNumber: bankDetails.accountNumber,
+            accountName: bankDetails.accountName,
+            bankCode: bankDetails.bankCode,
+        };
+    }
+
+    private static generateReference(prefix: string): string {
+        const date = new Date().toISOString().slice(0, 10).replace(/-/g, '');
+        const random = Math.random().toString(36).substring(2, 10).toUpperCase();
+        return `${prefix}-${date}-${random}`;
+    }
+
+    private static buildPagination(count: number, rowCount: number, page?: number, size?: number): IPaging {
+        if (page && size && rowCount > 0) {
+            const totalPages = Pagination.estimateTotalPage({ count, limit: size } as IPaging);
+            return {
+                count,
+                page,
+                limit: size,
+                size,
+                ...totalPages,
+            };
+        }
+
+        return {
+            page: page || null,
+            limit: size || null,
+            size: size || null,
+        };
+    }
+
+    private static async notifyAgent(
+        agentId: string,
+        title: NotificationTypes,
+        heading: string,
+        message: string,
+        resource: string,
+    ): Promise<void> {
+        try {
+            await NotificationService.addNotification({
+                userId: agentId,
+                title,
+                heading,
+                message,
+                resource,
+            });
+        } catch (notificationError) {
+            logger.error(`Failed to send payout notification to agent ${agentId}:`, notificationError);
+        }
+    }
+}
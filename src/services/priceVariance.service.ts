@@ -0,0 +1,735 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Op, Transaction } from 'sequelize';
+import PriceAdjustment, { PriceAdjustmentStatus, PriceAdjustmentType } from '../models/priceAdjustment.model';
+import Order from '../models/order.model';
+import Refund, { RefundReason, RefundStatus, RefundType } from '../models/refund.model';
+import ShoppingListItem from '../models/shoppingListItem.model';
+import User from '../models/user.model';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../utils/customErrors';
+import { Database } from '../models';
+import { logger } from '../utils/logger';
+import { NotificationTypes } from '../utils/interface';
+import NotificationService from './notification.service';
+import OrderTrailService from './orderTrail.service';
+import PriceCalculatorService from './priceCalculator.service';
+import OrderTipService from './orderTip.service';
+import SystemSettingsService from './systemSettings.service';
+import PaystackService from './payment/paystack.service';
+import AlatPayService from './payment/alatpay.service';
+
+export interface IPriceVarianceSummary {
+    orderId: string;
+    checkoutAmount: number; // Amount captured at checkout
+    paidTopUps: number; // Follow-up charges received since checkout
+    settledAmount: number; // Checkout amount plus paid top-ups, minus credits
+    actualSubtotal: number;
+    actualTotal: number;
+    variance: number; // Positive means the customer owes money
+}
+
+export interface ITopUpPaymentDetails {
+    provider: 'ALATPAY' | 'PAYSTACK';
+    reference: string;
+    amount: number;
+    authorizationUrl?: string;
+    accessCode?: string;
+    publicKey?: string;
+    virtualAccount?: {
+        accountNumber: string;
+        bankCode: string;
+        expiredAt: string;
+    };
+}
+
+export default class PriceVarianceService {
+    // Differences below this are rounding noise from fee calculation
+    private static readonly MIN_VARIANCE_AMOUNT = 1;
+
+    private static readonly OPEN_STATUSES = [
+        PriceAdjustmentStatus.PENDING_APPROVAL,
+        PriceAdjustmentStatus.AWAITING_PAYMENT,
+        PriceAdjustmentStatus.PENDING_CREDIT,
+    ];
+
+    // Overpayments are only returned once the agent has finished recording prices
+    private static readonly CREDITABLE_ORDER_STATUSES = ['shopping_completed', 'delivery', 'completed'];
+
+    // Agents record actual prices while shopping; completing the shopping re-evaluates once more
+    private static readonly SHOPPING_ORDER_STATUSES = ['accepted', 'in_progress', 'shopping'];
+
+    /**
+     * Compare what the customer has paid with the order total based on actual prices
+     */
+    static async getVarianceSummary(orderId: string, transaction?: Transaction): Promise<IPriceVarianceSummary> {
+        const order = await Order.findByPk(orderId, { transaction });
+
+        if (!order) {
+            throw new NotFoundError('Order not found');
+        }
+
+        return await this.calculateVariance(order, transaction);
+    }
+
+    /**
+     * Recalculate the variance for an order and open a new adjustment if needed.
+     * Any adjustment still waiting on the customer is replaced by the new calculation,
+     * but a credit that already has a refund raised for it is left to that refund.
+     */
+    static async evaluateOrderVariance(orderId: string, performedBy: string): Promise<PriceAdjustment | null> {
+        const result = await Database.transaction(async (transaction: Transaction) => {
+            const order = await Order.findByPk(orderId, {
+                transaction,
+                lock: transaction.LOCK.UPDATE,
+            });
+
+            if (!order || order.paymentStatus !== 'completed' || order.status === 'cancelled') {
+                return null;
+            }
+
+            const summary = await this.calculateVariance(order, transaction);
+            const refundedCreditIds = await this.getRefundedCreditIds(orderId, transaction);
+
+            const superseded = await PriceAdjustment.update(
+                { status: PriceAdjustmentStatus.CANCELLED },
+                {
+                    where: {
+                        orderId,
+                        status: { [Op.in]: this.OPEN_STATUSES },
+                        ...(refundedCreditIds.length > 0 && { id: { [Op.notIn]: refundedCreditIds } }),
+                    },
+                    transaction,
+                },
+            );
+
+            if (Math.abs(summary.variance) < this.MIN_VARIANCE_AMOUNT) {
+                return { order, summary, adjustment: null, supersededCount: superseded[0] };
+            }
+
+            let adjustment: PriceAdjustment;
+
+            if (summary.variance > 0) {
+                const threshold = await SystemSettingsService.getPriceVarianceApprovalThreshold();
+                const requiresApproval = summary.variance > threshold;
+
+                adjustment = await PriceAdjustment.create(
+                    {
+                        orderId,
+                        customerId: order.customerId,
+                        type: PriceAdjustmentType.TOP_UP,
+                        status: requiresApproval
+                            ? PriceAdjustmentStatus.PENDING_APPROVAL
+                            : PriceAdjustmentStatus.AWAITING_PAYMENT,
+                        paidAmount: summary.settledAmount,
+                        actualAmount: summary.actualTotal,
+                        amount: summary.variance,
+                        requiresApproval,
+                        approvedAt: requiresApproval ? null : new Date(),
+                        metadata: { threshold, actualSubtotal: summary.actualSubtotal },
+                    },
+                    { transaction },
+                );
+            } else {
+                adjustment = await PriceAdjustment.create(
+                    {
+                        orderId,
+                        customerId: order.customerId,
+                        type: PriceAdjustmentType.CREDIT,
+                        status: PriceAdjustmentStatus.PENDING_CREDIT,
+                        paidAmount: summary.settledAmount,
+                        actualAmount: summary.actualTotal,
+                        amount: Math.abs(summary.variance),
+                        metadata: { actualSubtotal: summary.actualSubtotal },
+                    },
+                    { transaction },
+                );
+            }
+
+            return { order, summary, adjustment, supersededCount: superseded[0] };
+        });
+
+        if (!result) {
+            return null;
+        }
+
+        const { order, summary, adjustment, supersededCount } = result;
+
+        if (!adjustment) {
+            if (supersededCount > 0) {
+                await OrderTrailService.logOrderEvent(orderId, {
+                    action: 'price_variance_cleared',
+                    description: 'Actual prices now match the amount paid',
+                    performedBy,
+                    metadata: { ...summary },
+                });
+            }
+            return null;
+        }
+
+        await OrderTrailService.logOrderEvent(orderId, {
+            action: 'price_variance_detected',
+            description: adjustment.type === PriceAdjustmentType.TOP_UP
+                ? `Actual prices exceed the amount paid by ₦${adjustment.amount}`
+                : `Amount paid exceeds actual prices by ₦${adjustment.amount}`,
+            performedBy,
+            previousValue: { settledAmount: summary.settledAmount },
+            newValue: { actualTotal: summary.actualTotal },
+            metadata: {
+                adjustmentId: adjustment.id,
+                type: adjustment.type,
+                status: adjustment.status,
+                requiresApproval: adjustment.requiresApproval,
+            },
+        });
+
+        if (adjustment.type === PriceAdjustmentType.TOP_UP) {
+            await this.notifyUser(
+                order.customerId,
+                NotificationTypes.PRICE_ADJUSTMENT_REQUIRED,
+                adjustment.requiresApproval ? 'Price Change Needs Approval' : 'Top-up Payment Due',
+                adjustment.requiresApproval
+                    ? `Market prices for order #${order.orderNumber} are ₦${adjustment.amount} higher than you paid. Please approve or decline the difference.`
+                    : `Market prices for order #${order.orderNumber} are ₦${adjustment.amount} higher than you paid. Please pay the difference to continue.`,
+                orderId,
+                performedBy,
+            );
+        } else if (this.CREDITABLE_ORDER_STATUSES.includes(order.status)) {
+            await this.creditOverpayment(adjustment, order, performedBy);
+        }
+
+        return adjustment;
+    }
+
+    /**
+     * Convenience wrapper for callers that only know the shopping list. Only orders still
+     * being shopped are re-evaluated, so late price edits can't reopen a settled order.
+     */
+    static async evaluateShoppingListVariance(
+        shoppingListId: string,
+        performedBy: string,
+    ): Promise<PriceAdjustment | null> {
+        const order = await Order.findOne({
+            where: {
+                shoppingListId,
+                paymentStatus: 'completed',
+                status: { [Op.in]: this.SHOPPING_ORDER_STATUSES },
+            },
+            attributes: ['id'],
+            order: [['createdAt', 'DESC']],
+        });
+
+        if (!order) {
+            return null;
+        }
+
+        return await this.evaluateOrderVariance(order.id, performedBy);
+    }
+
+    /**
+     * Get all price adjustments for an order, visible to the customer and the assigned agent
+     */
+    static async getOrderAdjustments(
+        orderId: string,
+        userId: string,
+    ): Promise<{ summary: IPriceVarianceSummary; adjustments: PriceAdjustment[] }> {
+        const order = await Order.findByPk(orderId);
+
+        if (!order) {
+            throw new NotFoundError('Order not found');
+        }
+
+        if (order.customerId !== userId && order.agentId !== userId) {
+            throw new ForbiddenError('You are not authorized to view price adjustments for this order');
+        }
+
+        const summary = await this.calculateVariance(order);
+        const adjustments = await PriceAdjustment.findAll({
+            where: { orderId },
+            order: [['createdAt', 'DESC']],
+        });
+
+        return { summary, adjustments };
+    }
+
+    /**
+     * Customer approves a top-up and starts the follow-up charge
+     */
+    static async approveAdjustment(
+        orderId: string,
+        adjustmentId: string,
+        customerId: string,
+        paymentMethod?: 'ALATPAY' | 'PAYSTACK',
+    ): Promise<{ adjustment: PriceAdjustment; payment: ITopUpPaymentDetails }> {
+        const adjustment = await this.getCustomerAdjustment(orderId, adjustmentId, customerId);
+
+        if (adjustment.status !== PriceAdjustmentStatus.PENDING_APPROVAL) {
+            throw new BadRequestError('This price adjustment is not waiting for approval');
+        }
+
+        await adjustment.update({
+            status: PriceAdjustmentStatus.AWAITING_PAYMENT,
+            approvedAt: new Date(),
+        });
+
+        await OrderTrailService.logOrderEvent(orderId, {
+            action: 'price_variance_approved',
+            description: `Customer approved a top-up of ₦${adjustment.amount}`,
+            performedBy: customerId,
+            metadata: { adjustmentId: adjustment.id },
+        });
+
+        return await this.initiateTopUpCharge(orderId, adjustmentId, customerId, paymentMethod);
+    }
+
+    /**
+     * Customer declines a top-up; the agent has to bring the basket back within budget
+     */
+    static async declineAdjustment(
+        orderId: string,
+        adjustmentId: string,
+        customerId: string,
+        reason?: string,
+    ): Promise<PriceAdjustment> {
+        const adjustment = await this.getCustomerAdjustment(orderId, adjustmentId, customerId);
+
+        if (adjustment.status !== PriceAdjustmentStatus.PENDING_APPROVAL) {
+            throw new BadRequestError('Only price adjustments waiting for approval can be declined');
+        }
+
+        await adjustment.update({
+            status: PriceAdjustmentStatus.DECLINED,
+            declineReason: reason || null,
+        });
+
+        await OrderTrailService.logOrderEvent(orderId, {
+            action: 'price_variance_declined',
+            description: `Customer declined a top-up of ₦${adjustment.amount}`,
+            performedBy: customerId,
+            metadata: { adjustmentId: adjustment.id, reason: reason || null },
+        });
+
+        const order = await Order.findByPk(orderId, { attributes: ['id', 'agentId', 'orderNumber'] });
+        if (order?.agentId) {
+            await this.notifyUser(
+                order.agentId,
+                NotificationTypes.PRICE_ADJUSTMENT_DECLINED,
+                'Price Change Declined',
+                `The customer declined the extra ₦${adjustment.amount} for order #${order.orderNumber}. Please adjust the items to match what was paid.`,
+                orderId,
+                customerId,
+            );
+        }
+
+        return adjustment;
+    }
+
+    /**
+     * Start (or restart) the follow-up charge for an approved top-up
+     */
+    static async initiateTopUpCharge(
+        orderId: string,
+        adjustmentId: string,
+        customerId: string,
+        paymentMethod?: 'ALATPAY' | 'PAYSTACK',
+    ): Promise<{ adjustment: PriceAdjustment; payment: ITopUpPaymentDetails }> {
+        const adjustment = await this.getCustomerAdjustment(orderId, adjustmentId, customerId);
+
+        if (adjustment.status !== PriceAdjustmentStatus.AWAITING_PAYMENT) {
+            throw new BadRequestError('This price adjustment is not awaiting payment');
+        }
+
+        const order = await Order.findByPk(orderId);
+        const customer = await User.findByPk(customerId);
+
+        if (!order || !customer) {
+            throw new NotFoundError('Order or customer not found');
+        }
+
+        const provider = paymentMethod || order.paymentMethod || 'PAYSTACK';
+        const amount = Math.ceil(Number(adjustment.amount));
+        let payment: ITopUpPaymentDetails;
+
+        if (provider === 'PAYSTACK') {
+            const reference = PaystackService.generateReference(`busy2shop_topup_${order.id}`);
+            const response = await PaystackService.initializeTransaction({
+                email: customer.email,
+                amount: PaystackService.toKobo(amount),
+                reference,
+                metadata: {
+                    orderId: order.id,
+                    orderNumber: order.orderNumber,
+                    customerId,
+                    paymentType: 'price_adjustment',
+                    adjustmentId: adjustment.id,
+                },
+            });
+
+            payment = {
+                provider,
+                reference: response.data.reference,
+                amount,
+                authorizationUrl: response.data.authorization_url,
+                accessCode: response.data.access_code,
+                publicKey: PaystackService.getPublicKey(),
+            };
+        } else {
+            const response = await AlatPayService.generateVirtualAccount({
+                amount,
+                orderId: order.id,
+                orderNumber: `${order.orderNumber}-TOPUP`,
+                description: `Price adjustment for order ${order.orderNumber}`,
+                user: customer,
+                currency: 'NGN',
+            });
+
+            const accountData = response.data.data;
+            if (!accountData?.transactionId) {
+                throw new BadRequestError('Failed to generate payment details for the top-up');
+            }
+
+            payment = {
+                provider,
+                reference: accountData.transactionId,
+                amount,
+                virtualAccount: {
+                    accountNumber: accountData.virtualBankAccountNumber,
+                    bankCode: accountData.virtualBankCode,
+                    expiredAt: accountData.expiredAt,
+                },
+            };
+        }
+
+        await adjustment.update({
+            paymentMethod: provider,
+            paymentReference: payment.reference,
+        });
+
+        await OrderTrailService.logOrderEvent(orderId, {
+            action: 'price_variance_charge_initiated',
+            description: `Follow-up charge of ₦${amount} started via ${provider}`,
+            performedBy: customerId,
+            metadata: { adjustmentId: adjustment.id, reference: payment.reference },
+        });
+
+        return { adjustment, payment };
+    }
+
+    /**
+     * Check the provider for a top-up the customer says they have paid
+     */
+    static async verifyTopUpPayment(
+        orderId: string,
+        adjustmentId: string,
+        customerId: string,
+    ): Promise<PriceAdjustment> {
+        const adjustment = await this.getCustomerAdjustment(orderId, adjustmentId, customerId);
+
+        if (adjustment.status === PriceAdjustmentStatus.PAID) {
+            return adjustment;
+        }
+
+        if (!adjustment.paymentReference) {
+            throw new BadRequestError('No payment has been started for this price adjustment');
+        }
+
+        let isPaid = false;
+        if (adjustment.paymentMethod === 'PAYSTACK') {
+            const verification = await PaystackService.verifyTransaction(adjustment.paymentReference);
+            isPaid = verification.data?.status === 'success';
+        } else {
+            const status = await AlatPayService.checkTransactionStatus(adjustment.paymentReference);
+            isPaid = status?.status === 'COMPLETED' || status?.status === 'completed';
+        }
+
+        if (!isPaid) {
+            return adjustment;
+        }
+
+        return (await this.confirmTopUpPayment(adjustment.paymentReference, 'api_sync')) || adjustment;
+    }
+
+    /**
+     * Mark a top-up as paid. Returns null when the reference doesn't belong to a price adjustment,
+     * so payment webhooks can fall through to regular order handling.
+     */
+    static async confirmTopUpPayment(
+        reference: string,
+        source: 'webhook' | 'api_sync',
+    ): Promise<PriceAdjustment | null> {
+        const adjustment = await PriceAdjustment.findOne({
+            where: { paymentReference: reference, type: PriceAdjustmentType.TOP_UP },
+        });
+
+        if (!adjustment) {
+            return null;
+        }
+
+        if (adjustment.status === PriceAdjustmentStatus.PAID) {
+            return adjustment;
+        }
+
+        // Money received for a superseded adjustment still counts towards what the customer has paid
+        await adjustment.update({
+            status: PriceAdjustmentStatus.PAID,
+            settledAt: new Date(),
+        });
+
+        await OrderTrailService.logOrderEvent(adjustment.orderId, {
+            action: 'price_variance_paid',
+            description: `Top-up of ₦${adjustment.amount} received`,
+            performedBy: 'system',
+            metadata: { adjustmentId: adjustment.id, reference, source },
+        });
+
+        const order = await Order.findByPk(adjustment.orderId, { attributes: ['id', 'agentId', 'orderNumber'] });
+        if (order?.agentId) {
+            await this.notifyUser(
+                order.agentId,
+                NotificationTypes.PRICE_ADJUSTMENT_PAID,
+                'Top-up Received',
+                `The customer paid the extra ₦${adjustment.amount} for order #${order.orderNumber}.`,
+                order.id,
+                adjustment.customerId,
+            );
+        }
+
+        logger.info(`Price adjustment ${adjustment.id} paid via ${source}`);
+
+        return adjustment;
+    }
+
+    /**
+     * Return an overpayment to the customer through the refund ledger.
+     * Paystack payments are partially refunded and wallet payments credited back;
+     * anything else stays pending until the payout is recorded.
+     */
+    private static async creditOverpayment(
+        adjustment: PriceAdjustment,
+        order: Order,
+        performedBy: string,
+    ): Promise<void> {
+        // Imported here to avoid a circular dependency (refunds read the variance summary)
+        const RefundService = (await import('./refund.service')).default;
+
+        try {
+            const refunds = await RefundService.createRefund(order, {
+                type: RefundType.PARTIAL,
+                reason: RefundReason.PRICE_ADJUSTMENT,
+                amount: Number(adjustment.amount),
+                paidAmount: Number(adjustment.paidAmount),
+                requiresApproval: false,
+                initiatedBy: performedBy,
+                reasonDetails: 'Refund of the difference between estimated and actual market prices',
+                metadata: { adjustmentId: adjustment.id },
+            });
+            const refundIds = refunds.map(refund => refund.id);
+
+            if (refunds.some(refund => refund.status !== RefundStatus.PROCESSING && refund.status !== RefundStatus.COMPLETED)) {
+                await OrderTrailService.logOrderEvent(order.id, {
+                    action: 'price_variance_credit_pending',
+                    description: `Overpayment of ₦${adjustment.amount} is pending manual credit`,
+                    performedBy,
+                    metadata: { adjustmentId: adjustment.id, refundIds, paymentMethod: order.paymentMethod },
+                });
+                return;
+            }
+
+            const providerRefund = refunds.find(refund => refund.provider !== 'WALLET');
+
+            await adjustment.update({
+                status: PriceAdjustmentStatus.CREDITED,
+                paymentMethod: providerRefund?.provider === 'PAYSTACK' ? 'PAYSTACK' : adjustment.paymentMethod,
+                paymentReference: refunds[0].id,
+                settledAt: new Date(),
+            });
+
+            await OrderTrailService.logOrderEvent(order.id, {
+                action: 'price_variance_credited',
+                description: providerRefund
+                    ? `Overpayment of ₦${adjustment.amount} refunded via Paystack${refunds.length > 1 ? ' and the customer\'s wallet' : ''}`
+                    : `Overpayment of ₦${adjustment.amount} credited to the customer's wallet`,
+                performedBy,
+                metadata: { adjustmentId: adjustment.id, refundIds },
+            });
+
+            await this.notifyUser(
+                order.customerId,
+                NotificationTypes.PRICE_ADJUSTMENT_CREDITED,
+                'Refund On The Way',
+                `Items in order #${order.orderNumber} cost less than expected. ₦${adjustment.amount} is being refunded to you.`,
+                order.id,
+                performedBy,
+            );
+        } catch (error) {
+            logger.error(`Failed to refund overpayment for order ${order.orderNumber}:`, error);
+
+            await OrderTrailService.logOrderEvent(order.id, {
+                action: 'price_variance_credit_pending',
+                description: `Automatic refund of ₦${adjustment.amount} failed and needs manual credit`,
+                performedBy,
+                metadata: {
+                    adjustmentId: adjustment.id,
+                    error: error instanceof Error ? error.message : String(error),
+                },
+            });
+        }
+    }
+
+    private static async calculateVariance(order: Order, transaction?: Transaction): Promise<IPriceVarianceSummary> {
+        const items = await ShoppingListItem.findAll({
+            where: { shoppingListId: order.shoppingListId },
+            transaction,
+        });
+
+        const actualSubtotal = PriceCalculatorService.calculateSubtotal(
+            items.map(i => i.get({ plain: true })),
+            true,
+        );
+
+        // A tip paid at checkout is part of the checkout amount, so it belongs in the actual total too
+        const checkoutTip = await OrderTipService.getCheckoutTip(order, transaction);
+
+        const actualTotal = PriceCalculatorService.roundPrice(
+            actualSubtotal +
+            Number(order.serviceFee || 0) +
+            Number(order.deliveryFee || 0) -
+            Number(order.discountAmount || 0) +
+            checkoutTip,
+        );
+
+        const checkoutAmount = this.getCheckoutAmount(order);
+
+        // A credit with a refund still on its way counts as returned, so it isn't refunded again
+        const refundedCreditIds = await this.getRefundedCreditIds(order.id, transaction);
+
+        const settledAdjustments = await PriceAdjustment.findAll({
+            where: {
+                orderId: order.id,
+                [Op.or]: [
+                    { status: { [Op.in]: [PriceAdjustmentStatus.PAID, PriceAdjustmentStatus.CREDITED] } },
+                    { status: PriceAdjustmentStatus.PENDING_CREDIT, id: { [Op.in]: refundedCreditIds } },
+                ],
+            },
+            transaction,
+        });
+
+        const settledAmount = PriceCalculatorService.roundPrice(
+            settledAdjustments.reduce((sum, adjustment) => {
+                const amount = Number(adjustment.amount);
+                return adjustment.status === PriceAdjustmentStatus.PAID ? sum + amount : sum - amount;
+            }, checkoutAmount),
+        );
+
+        const paidTopUps = PriceCalculatorService.roundPrice(
+            settledAdjustments
+                .filter(adjustment => adjustment.status === PriceAdjustmentStatus.PAID)
+                .reduce((sum, adjustment) => sum + Number(adjustment.amount), 0),
+        );
+
+        return {
+            orderId: order.id,
+            checkoutAmount,
+            paidTopUps,
+            settledAmount,
+            actualSubtotal,
+            actualTotal,
+            variance: PriceCalculatorService.roundPrice(actualTotal - settledAmount),
+        };
+    }
+
+    /**
+     * Credits waiting on a refund that hasn't been rejected: approved or failed payouts
+     * still being handled by an admin, or provider refunds not yet confirmed
+     */
+    private static async getRefundedCreditIds(orderId: string, transaction?: Transaction): Promise<string[]> {
+        const refunds = await Refund.findAll({
+            where: {
+                orderId,
+                reason: RefundReason.PRICE_ADJUSTMENT,
+                status: { [Op.ne]: RefundStatus.REJECTED },
+            },
+            attributes: ['id', 'metadata'],
+            transaction,
+        });
+
+        const adjustmentIds = refunds
+            .map(refund => refund.metadata?.adjustmentId as string | undefined)
+            .filter((id): id is string => !!id);
+
+        if (adjustmentIds.length === 0) {
+            return [];
+        }
+
+        const credits = await PriceAdjustment.findAll({
+            where: {
+                id: { [Op.in]: adjustmentIds },
+                status: PriceAdjustmentStatus.PENDING_CREDIT,
+            },
+            attributes: ['id'],
+            transaction,
+        });
+
+        return credits.map(credit => credit.id);
+    }
+
+    private static getCheckoutAmount(order: Order): number {
+        if (order.amountPaid !== null && order.amountPaid !== undefined) {
+            return Number(order.amountPaid);
+        }
+
+        // Orders paid before amountPaid was tracked: rebuild the checkout total from its parts
+        if (order.originalSubtotal !== null && order.originalSubtotal !== undefined) {
+            return PriceCalculatorService.roundPrice(
+                Number(order.originalSubtotal) +
+                Number(order.serviceFee || 0) +
+                Number(order.deliveryFee || 0) -
+                Number(order.discountAmount || 0),
+            );
+        }
+
+        return Number(order.totalAmount);
+    }
+
+    private static async getCustomerAdjustment(
+        orderId: string,
+        adjustmentId: string,
+        customerId: string,
+    ): Promise<PriceAdjustment> {
+        const adjustment = await PriceAdjustment.findByPk(adjustmentId);
+
+        if (!adjustment || adjustment.orderId !== orderId) {
+            throw new NotFoundError('Price adjustment not found');
+        }
+
+        if (adjustment.customerId !== customerId) {
+            throw new ForbiddenError('You are not authorized to manage this price adjustment');
+        }
+
+        if (adjustment.type !== PriceAdjustmentType.TOP_UP) {
+            throw new BadRequestError('Only top-ups can be managed by the customer');
+        }
+
+        return adjustment;
+    }
+
+    private static async notifyUser(
+        userId: string,
+        title: NotificationTypes,
+        heading: string,
+        message: string,
+        orderId: string,
+        actorId: string,
+    ): Promise<void> {
+        try {
+            await NotificationService.addNotification({
+                userId,
+                title,
+                heading,
+                message,
+                resource: orderId,
+                actorId: actorId === 'system' ? undefined : actorId,
+            });
+        } catch (notificationError) {
+            logger.error(`Failed to send price adjustment notification for order ${orderId}:`, notificationError);
+        }
+    }
+}
@@ -0,0 +1,898 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Op, Transaction, UniqueConstraintError } from 'sequelize';
+import moment from 'moment-timezone';
+import RecurringOrder, {
+    IRecurringOrder,
+    RecurringOrderFrequency,
+    RecurringOrderPaymentMethod,
+    RecurringOrderStatus,
+} from '../models/recurringOrder.model';
+import RecurringOrderRun, { RecurringOrderRunStatus } from '../models/recurringOrderRun.model';
+import ShoppingList from '../models/shoppingList.model';
+import ShoppingListItem from '../models/shoppingListItem.model';
+import Product from '../models/product.model';
+import Order from '../models/order.model';
+import User from '../models/user.model';
+import { BadRequestError, NotFoundError } from '../utils/customErrors';
+import Pagination, { IPaginationQuery, IPaging } from '../utils/pagination';
+import { Database } from '../models';
+import { logger } from '../utils/logger';
+import { NotificationTypes } from '../utils/interface';
+import NotificationService from './notification.service';
+import OrderService from './order.service';
+import WalletService from './wallet.service';
+import PaymentStatusSyncService from './paymentStatusSync.service';
+import PriceCalculatorService from './priceCalculator.service';
+import SystemSettingsService from './systemSettings.service';
+import PaystackService from './payment/paystack.service';
+
+export interface IRecurringOrderSchedule {
+    frequency: RecurringOrderFrequency;
+    dayOfWeek?: number | null;
+    dayOfMonth?: number | null;
+    deliverySlotTime?: string | null;
+}
+
+export interface ICreateRecurringOrderData extends IRecurringOrderSchedule {
+    shoppingListId: string;
+    deliveryAddress: IRecurringOrder['deliveryAddress'];
+    customerNotes?: string | null;
+    paymentMethod?: RecurringOrderPaymentMethod;
+    paymentReference?: string; // Earlier Paystack payment whose card should be charged
+}
+
+export type IUpdateRecurringOrderData = Partial<Omit<ICreateRecurringOrderData, 'shoppingListId'>>;
+
+export interface IRecurringOrderQuery extends IPaginationQuery {
+    status?: RecurringOrderStatus;
+}
+
+export default class RecurringOrderService {
+    // Schedules are worked out in Lagos time
+    private static readonly TIMEZONE = 'Africa/Lagos';
+
+    // As-soon-as-possible orders are placed on the morning of the delivery day
+    private static readonly ASAP_RUN_TIME = '07:00';
+
+    // Orders with a delivery slot are placed this long before the slot starts
+    private static readonly RUN_HOURS_BEFORE_SLOT = 12;
+
+    // Customers are reminded this long before an order is placed
+    static readonly REMINDER_HOURS_BEFORE_RUN = 24;
+
+    // A subscription is paused after this many runs in a row fail
+    private static readonly MAX_CONSECUTIVE_FAILURES = 3;
+
+    /**
+     * Set up a recurring order. A personal list is copied into a new template
+     * so later edits to the original don't change what gets ordered.
+     */
+    static async createRecurringOrder(customerId: string, data: ICreateRecurringOrderData): Promise<RecurringOrder> {
+        this.validateSchedule(data);
+
+        if (!data.deliveryAddress?.city || !data.deliveryAddress?.state || !data.deliveryAddress?.address) {
+            throw new BadRequestError('Delivery address with address, city and state is required');
+        }
+
+        const sourceList = await ShoppingList.findOne({
+            where: { id: data.shoppingListId, customerId },
+            include: [{ model: ShoppingListItem, as: 'items' }],
+        });
+
+        if (!sourceList) {
+            throw new NotFoundError('Shopping list not found');
+        }
+
+        if (!sourceList.marketId) {
+            throw new BadRequestError('Select a market for the shopping list before making it recurring');
+        }
+
+        if (!sourceList.items || sourceList.items.length === 0) {
+            throw new BadRequestError('Cannot make an empty shopping list recurring');
+        }
+
+        const paymentMethod = data.paymentMethod || RecurringOrderPaymentMethod.WALLET;
+        const cardAuthorization = paymentMethod === RecurringOrderPaymentMethod.CARD
+            ? await this.getCardAuthorization(customerId, data.paymentReference)
+            : null;
+
+        const firstOccurrence = this.getFirstOccurrence(data);
+
+        const recurringOrder = await Database.transaction(async (transaction: Transaction) => {
+            const templateList = sourceList.listType === 'template'
+                ? sourceList
+                : await this.copyList(sourceList, { listType: 'template', name: sourceList.name }, false, transaction);
+
+            return await RecurringOrder.create(
+                {
+                    customerId,
+                    templateListId: templateList.id,
+                    frequency: data.frequency,
+                    dayOfWeek: data.frequency === RecurringOrderFrequency.MONTHLY ? null : Number(data.dayOfWeek),
+                    dayOfMonth: data.frequency === RecurringOrderFrequency.MONTHLY ? Number(data.dayOfMonth) : null,
+                    deliverySlotTime: data.deliverySlotTime || null,
+                    deliveryAddress: data.deliveryAddress,
+                    customerNotes: data.customerNotes || null,
+                    paymentMethod,
+                    ...cardAuthorization,
+                    status: RecurringOrderStatus.ACTIVE,
+                    nextDeliveryDate: firstOccurrence.deliveryDate,
+                    nextRunAt: firstOccurrence.runAt,
+                },
+                { transaction },
+            );
+        });
+
+        logger.info(`Recurring order ${recurringOrder.id} created for customer ${customerId}`, {
+            frequency: recurringOrder.frequency,
+            nextRunAt: recurringOrder.nextRunAt,
+        });
+
+        return await this.getRecurringOrder(recurringOrder.id, customerId);
+    }
+
+    static async getRecurringOrders(
+        customerId: string,
+        query: IRecurringOrderQuery,
+    ): Promise<{ recurringOrders: RecurringOrder[]; pagination: IPaging }> {
+        const { page, size, status } = query;
+
+        const where: any = { customerId };
+        if (status) where.status = status;
+
+        const queryOptions: any = {};
+        if (page && size && page > 0 && size > 0) {
+            const { limit, offset } = Pagination.getPagination({ page, size } as IPaging);
+            queryOptions.limit = limit ?? 0;
+            queryOptions.offset = offset ?? 0;
+        }
+
+        const { count, rows } = await RecurringOrder.findAndCountAll({
+            where,
+            include: [
+                {
+                    model: ShoppingList,
+                    as: 'templateList',
+                    attributes: ['id', 'name', 'marketId', 'estimatedTotal'],
+                },
+            ],
+            order: [['createdAt', 'DESC']],
+            ...queryOptions,
+        });
+
+        let pagination: IPaging = { page: page || null, limit: size || null, size: size || null };
+        if (page && size && rows.length > 0) {
+            const totalPages = Pagination.estimateTotalPage({ count, limit: size } as IPaging);
+            pagination = { count, page, limit: size, size, ...totalPages };
+        }
+
+        return { recurringOrders: rows, pagination };
+    }
+
+    static async getRecurringOrder(id: string, customerId: string): Promise<RecurringOrder> {
+        const recurringOrder = await RecurringOrder.findOne({
+            where: { id, customerId },
+            include: [
+                {
+                    model: ShoppingList,
+                    as: 'templateList',
+                    include: [{ model: ShoppingListItem, as: 'items' }],
+                },
+                {
+                    model: RecurringOrderRun,
+                    separate: true,
+                    limit: 10,
+                    order: [['scheduledFor', 'DESC']],
+                    include: [{ model: Order, attributes: ['id', 'orderNumber', 'status', 'paymentStatus', 'totalAmount'] }],
+                },
+            ],
+        });
+
+        if (!recurringOrder) {
+            throw new NotFoundError('Recurring order not found');
+        }
+
+        return recurringOrder;
+    }
+
+    /**
+     * Change the schedule, delivery details or payment method. Items are edited
+     * on the template list through the shopping list endpoints.
+     */
+    static async updateRecurringOrder(
+        id: string,
+        customerId: string,
+        data: IUpdateRecurringOrderData,
+    ): Promise<RecurringOrder> {
+        const recurringOrder = await this.getOwnedRecurringOrder(id, customerId);
+
+        if (recurringOrder.status === RecurringOrderStatus.CANCELLED) {
+            throw new BadRequestError('A cancelled recurring order cannot be changed');
+        }
+
+        const updateData: Partial<IRecurringOrder> = {};
+
+        const scheduleChanged = ['frequency', 'dayOfWeek', 'dayOfMonth', 'deliverySlotTime']
+            .some(key => (data as any)[key] !== undefined);
+
+        if (scheduleChanged) {
+            const schedule: IRecurringOrderSchedule = {
+                frequency: data.frequency ?? recurringOrder.frequency,
+                dayOfWeek: data.dayOfWeek !== undefined ? data.dayOfWeek : recurringOrder.dayOfWeek,
+                dayOfMonth: data.dayOfMonth !== undefined ? data.dayOfMonth : recurringOrder.dayOfMonth,
+                deliverySlotTime: data.deliverySlotTime !== undefined ? data.deliverySlotTime : recurringOrder.deliverySlotTime,
+            };
+            this.validateSchedule(schedule);
+
+            const isMonthly = schedule.frequency === RecurringOrderFrequency.MONTHLY;
+            updateData.frequency = schedule.frequency;
+            updateData.dayOfWeek = isMonthly ? null : Number(schedule.dayOfWeek);
+            updateData.dayOfMonth = isMonthly ? Number(schedule.dayOfMonth) : null;
+            updateData.deliverySlotTime = schedule.deliverySlotTime || null;
+
+            if (recurringOrder.status === RecurringOrderStatus.ACTIVE) {
+                const nextOccurrence = this.getFirstOccurrence(schedule);
+                updateData.nextDeliveryDate = nextOccurrence.deliveryDate;
+                updateData.nextRunAt = nextOccurrence.runAt;
+                updateData.reminderSentFor = null;
+            }
+        }
+
+        if (data.deliveryAddress !== undefined) {
+            if (!data.deliveryAddress?.city || !data.deliveryAddress?.state || !data.deliveryAddress?.address) {
+                throw new BadRequestError('Delivery address with address, city and state is required');
+            }
+            updateData.deliveryAddress = data.deliveryAddress;
+        }
+
+        if (data.customerNotes !== undefined) {
+            updateData.customerNotes = data.customerNotes || null;
+        }
+
+        if (data.paymentMethod !== undefined || data.paymentReference) {
+            const paymentMethod = data.paymentMethod ?? recurringOrder.paymentMethod;
+
+            if (!Object.values(RecurringOrderPaymentMethod).includes(paymentMethod)) {
+                throw new BadRequestError('Invalid payment method');
+            }
+
+            updateData.paymentMethod = paymentMethod;
+
+            if (paymentMethod === RecurringOrderPaymentMethod.CARD) {
+                if (data.paymentReference || !recurringOrder.authorizationCode) {
+                    Object.assign(updateData, await this.getCardAuthorization(customerId, data.paymentReference));
+                }
+            } else {
+                updateData.authorizationCode = null;
+                updateData.authorizationEmail = null;
+                updateData.cardDetails = null;
+            }
+        }
+
+        await recurringOrder.update(updateData);
+
+        return await this.getRecurringOrder(id, customerId);
+    }
+
+    static async pauseRecurringOrder(id: string, customerId: string): Promise<RecurringOrder> {
+        const recurringOrder = await this.getOwnedRecurringOrder(id, customerId);
+
+        if (recurringOrder.status !== RecurringOrderStatus.ACTIVE) {
+            throw new BadRequestError(`Cannot pause a recurring order that is ${recurringOrder.status}`);
+        }
+
+        await recurringOrder.update({ status: RecurringOrderStatus.PAUSED, pausedAt: new Date() });
+
+        return recurringOrder;
+    }
+
+    /**
+     * Start a paused subscription again from the next matching day
+     */
+    static async resumeRecurringOrder(id: string, customerId: string): Promise<RecurringOrder> {
+        const recurringOrder = await this.getOwnedRecurringOrder(id, customerId);
+
+        if (recurringOrder.status !== RecurringOrderStatus.PAUSED) {
+            throw new BadRequestError(`Cannot resume a recurring order that is ${recurringOrder.status}`);
+        }
+
+        const nextOccurrence = this.getFirstOccurrence(recurringOrder);
+
+        await recurringOrder.update({
+            status: RecurringOrderStatus.ACTIVE,
+            pausedAt: null,
+            consecutiveFailures: 0,
+            nextDeliveryDate: nextOccurrence.deliveryDate,
+            nextRunAt: nextOccurrence.runAt,
+            reminderSentFor: null,
+        });
+
+        return recurringOrder;
+    }
+
+    /**
+     * Skip the next occurrence; the one after it goes ahead as usual
+     */
+    static async skipNextOccurrence(id: string, customerId: string): Promise<RecurringOrder> {
+        return await Database.transaction(async (transaction: Transaction) => {
+            const recurringOrder = await RecurringOrder.findOne({
+                where: { id, customerId },
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
+
+            if (!recurringOrder) {
+                throw new NotFoundError('Recurring order not found');
+            }
+
+            if (recurringOrder.status !== RecurringOrderStatus.ACTIVE) {
+                throw new BadRequestError(`Cannot skip an occurrence of a recurring order that is ${recurringOrder.status}`);
+            }
+
+            await RecurringOrderRun.create(
+                {
+                    recurringOrderId: recurringOrder.id,
+                    scheduledFor: recurringOrder.nextDeliveryDate,
+                    status: RecurringOrderRunStatus.SKIPPED,
+                },
+                { transaction },
+            );
+
+            const following = this.getFollowingOccurrence(recurringOrder, recurringOrder.nextDeliveryDate);
+
+            await recurringOrder.update(
+                {
+                    nextDeliveryDate: following.deliveryDate,
+                    nextRunAt: following.runAt,
+                    reminderSentFor: null,
+                },
+                { transaction },
+            );
+
+            return recurringOrder;
+        });
+    }
+
+    static async cancelRecurringOrder(id: string, customerId: string): Promise<RecurringOrder> {
+        const recurringOrder = await this.getOwnedRecurringOrder(id, customerId);
+
+        if (recurringOrder.status === RecurringOrderStatus.CANCELLED) {
+            throw new BadRequestError('Recurring order is already cancelled');
+        }
+
+        await recurringOrder.update({ status: RecurringOrderStatus.CANCELLED, cancelledAt: new Date() });
+
+        return recurringOrder;
+    }
+
+    /**
+     * IDs of active subscriptions whose next order is due
+     */
+    static async getDueRecurringOrderIds(): Promise<string[]> {
+        const due = await RecurringOrder.findAll({
+            where: {
+                status: RecurringOrderStatus.ACTIVE,
+                nextRunAt: { [Op.lte]: new Date() },
+            },
+            attributes: ['id'],
+            order: [['nextRunAt', 'ASC']],
+        });
+
+        return due.map(recurringOrder => recurringOrder.id);
+    }
+
+    /**
+     * Remind customers ahead of their next order so they can skip or edit it
+     */
+    static async sendDueReminders(): Promise<number> {
+        const now = new Date();
+        const upcoming = await RecurringOrder.findAll({
+            where: {
+                status: RecurringOrderStatus.ACTIVE,
+                nextRunAt: {
+                    [Op.gt]: now,
+                    [Op.lte]: moment(now).add(this.REMINDER_HOURS_BEFORE_RUN, 'hours').toDate(),
+                },
+                [Op.or]: [
+                    { reminderSentFor: null },
+                    { reminderSentFor: { [Op.ne]: Database.col('nextRunAt') } },
+                ],
+            },
+            include: [
+                {
+                    model: ShoppingList,
+                    as: 'templateList',
+                    attributes: ['id', 'name', 'estimatedTotal'],
+                },
+            ],
+        });
+
+        let sent = 0;
+        for (const recurringOrder of upcoming) {
+            try {
+                const deliveryDay = moment.tz(recurringOrder.nextDeliveryDate, this.TIMEZONE).format('dddd, D MMMM');
+                let message = `Your recurring order "${recurringOrder.templateList?.name}" for ${deliveryDay} will be placed soon. Skip or edit it before then if your plans have changed.`;
+
+                if (recurringOrder.paymentMethod === RecurringOrderPaymentMethod.WALLET) {
+                    const { balance } = await WalletService.getBalance(recurringOrder.customerId);
+                    const estimate = Number(recurringOrder.templateList?.estimatedTotal || 0);
+
+                    if (estimate > 0 && balance < estimate) {
+                        message += ' Your wallet balance may not cover it, so please top up.';
+                    }
+                }
+
+                await NotificationService.addNotification({
+                    userId: recurringOrder.customerId,
+                    title: NotificationTypes.RECURRING_ORDER_REMINDER,
+                    heading: 'Upcoming Recurring Order',
+                    message,
+                    resource: `${recurringOrder.id}:${recurringOrder.nextDeliveryDate}`,
+                });
+
+                await recurringOrder.update({ reminderSentFor: recurringOrder.nextRunAt });
+                sent++;
+            } catch (error) {
+                logger.error(`Failed to send reminder for recurring order ${recurringOrder.id}:`, error);
+            }
+        }
+
+        return sent;
+    }
+
+    /**
+     * Place the order for a subscription's due occurrence. The occurrence is
+     * claimed and the schedule moved on first, so it is never placed twice.
+     */
+    static async runOccurrence(id: string): Promise<RecurringOrderRun | null> {
+        let run: RecurringOrderRun | null = null;
+        let recurringOrder: RecurringOrder | null = null;
+
+        try {
+            await Database.transaction(async (transaction: Transaction) => {
+                recurringOrder = await RecurringOrder.findByPk(id, {
+                    lock: transaction.LOCK.UPDATE,
+                    transaction,
+                });
+
+                if (
+                    !recurringOrder ||
+                    recurringOrder.status !== RecurringOrderStatus.ACTIVE ||
+                    new Date(recurringOrder.nextRunAt) > new Date()
+                ) {
+                    return;
+                }
+
+                run = await RecurringOrderRun.create(
+                    {
+                        recurringOrderId: recurringOrder.id,
+                        scheduledFor: recurringOrder.nextDeliveryDate,
+                        status: RecurringOrderRunStatus.PROCESSING,
+                    },
+                    { transaction },
+                );
+
+                const following = this.getFollowingOccurrence(recurringOrder, recurringOrder.nextDeliveryDate);
+
+                await recurringOrder.update(
+                    {
+                        nextDeliveryDate: following.deliveryDate,
+                        nextRunAt: following.runAt,
+                        lastRunAt: new Date(),
+                        reminderSentFor: null,
+                    },
+                    { transaction },
+                );
+            });
+        } catch (error) {
+            if (error instanceof UniqueConstraintError) {
+                logger.warn(`Recurring order ${id} occurrence was already claimed`);
+                return null;
+            }
+            throw error;
+        }
+
+        if (!run || !recurringOrder) {
+            return null;
+        }
+
+        return await this.placeOrder(recurringOrder, run);
+    }
+
+    /**
+     * Copy the template into a fresh list, order it and take payment
+     */
+    private static async placeOrder(recurringOrder: RecurringOrder, run: RecurringOrderRun): Promise<RecurringOrderRun> {
+        let shoppingList: ShoppingList | null = null;
+        let order: Order | null = null;
+
+        try {
+            const template = await ShoppingList.findByPk(recurringOrder.templateListId, {
+                include: [{ model: ShoppingListItem, as: 'items' }],
+            });
+
+            if (!template || !template.items || template.items.length === 0) {
+                throw new BadRequestError('The recurring shopping list has no items');
+            }
+
+            const deliveryDay = moment.tz(run.scheduledFor, this.TIMEZONE).format('D MMM');
+            shoppingList = await Database.transaction(async (transaction: Transaction) =>
+                await this.copyList(template, { listType: 'personal', name: `${template.name} (${deliveryDay})` }, true, transaction)
+            );
+
+            const subtotal = await this.getListSubtotal(shoppingList.id);
+            const fees = await SystemSettingsService.calculateTotal(subtotal, 0);
+
+            const useWallet = recurringOrder.paymentMethod === RecurringOrderPaymentMethod.WALLET;
+            if (useWallet) {
+                const { balance } = await WalletService.getBalance(recurringOrder.customerId);
+                if (balance < fees.total) {
+                    throw new BadRequestError(
+                        `Your wallet balance of ${balance} does not cover this order's total of ${fees.total}`
+                    );
+                }
+            }
+
+            const slotStart = recurringOrder.deliverySlotTime
+                ? moment.tz(`${run.scheduledFor} ${recurringOrder.deliverySlotTime}`, 'YYYY-MM-DD HH:mm', this.TIMEZONE).toDate()
+                : undefined;
+
+            order = await OrderService.createOrder(
+                {
+                    customerId: recurringOrder.customerId,
+                    shoppingListId: shoppingList.id,
+                    totalAmount: fees.total,
+                    status: 'pending',
+                    paymentStatus: 'pending',
+                    serviceFee: fees.serviceFee,
+                    deliveryFee: fees.deliveryFee,
+                    deliveryAddress: recurringOrder.deliveryAddress,
+                    customerNotes: recurringOrder.customerNotes || undefined,
+                    paymentMethod: useWallet ? undefined : 'PAYSTACK',
+                    discountAmount: 0,
+                    originalSubtotal: subtotal,
+                },
+                useWallet ? { useAvailableBalance: true } : undefined,
+                slotStart,
+            );
+
+            await run.update({ shoppingListId: shoppingList.id, orderId: order.id });
+
+            if (useWallet) {
+                await WalletService.confirmWalletPayment(order, 'system');
+            } else {
+                await this.chargeCard(recurringOrder, order);
+            }
+
+            await run.update({ status: RecurringOrderRunStatus.ORDER_PLACED });
+            await recurringOrder.update({ consecutiveFailures: 0 });
+
+            try {
+                await NotificationService.addNotification({
+                    userId: recurringOrder.customerId,
+                    title: NotificationTypes.RECURRING_ORDER_PLACED,
+                    heading: 'Recurring Order Placed',
+                    message: `Your recurring order #${order.orderNumber} has been placed for ${PriceCalculatorService.roundPrice(fees.total)}.`,
+                    resource: order.id,
+                });
+            } catch (notificationError) {
+                logger.error(`Failed to notify customer about recurring order ${recurringOrder.id}:`, notificationError);
+            }
+
+            logger.info(`Recurring order ${recurringOrder.id} placed order ${order.orderNumber}`);
+        } catch (error) {
+            const reason = error instanceof Error ? error.message : String(error);
+            logger.error(`Recurring order ${recurringOrder.id} failed for ${run.scheduledFor}:`, error);
+
+            // Free anything the order was holding if payment didn't go through
+            const currentOrder = order ? await Order.findByPk(order.id, { attributes: ['id', 'paymentStatus'] }) : null;
+            if (order && currentOrder?.paymentStatus === 'pending') {
+                try {
+                    await OrderService.updateOrderPaymentStatus(order.id, 'failed');
+                } catch (releaseError) {
+                    logger.error(`Failed to release recurring order ${order.orderNumber}:`, releaseError);
+                }
+            }
+
+            await run.update({
+                status: RecurringOrderRunStatus.FAILED,
+                failureReason: reason,
+                shoppingListId: shoppingList?.id ?? null,
+                orderId: order?.id ?? null,
+            });
+
+            const consecutiveFailures = recurringOrder.consecutiveFailures + 1;
+            const shouldPause = consecutiveFailures >= this.MAX_CONSECUTIVE_FAILURES;
+
+            await recurringOrder.update({
+                consecutiveFailures,
+                ...(shouldPause && { status: RecurringOrderStatus.PAUSED, pausedAt: new Date() }),
+            });
+
+            try {
+                await NotificationService.addNotification({
+                    userId: recurringOrder.customerId,
+                    title: NotificationTypes.RECURRING_ORDER_FAILED,
+                    heading: 'Recurring Order Not Placed',
+                    message: `We couldn't place your recurring order: ${reason}.` +
+                        (shoppingList ? ' Your list has been saved so you can check out yourself.' : '') +
+                        (shouldPause ? ' The recurring order has been paused after several failed attempts.' : ''),
+                    resource: run.id,
+                });
+            } catch (notificationError) {
+                logger.error(`Failed to notify customer about recurring order ${recurringOrder.id}:`, notificationError);
+            }
+        }
+
+        return run;
+    }
+
+    /**
+     * Charge the saved card. A charge Paystack hasn't settled yet is left to the
+     * webhook, with an expiry check as backstop.
+     */
+    private static async chargeCard(recurringOrder: RecurringOrder, order: Order): Promise<void> {
+        if (!recurringOrder.authorizationCode || !recurringOrder.authorizationEmail) {
+            throw new BadRequestError('No saved card on this recurring order');
+        }
+
+        const reference = PaystackService.generateReference(`busy2shop_${order.id}`);
+        await OrderService.updateOrderPaymentId(order.id, reference);
+        order.paymentId = reference;
+
+        const charge = await PaystackService.chargeAuthorization({
+            email: recurringOrder.authorizationEmail,
+            amount: PaystackService.toKobo(Number(order.totalAmount)),
+            authorization_code: recurringOrder.authorizationCode,
+            reference,
+            metadata: {
+                orderId: order.id,
+                orderNumber: order.orderNumber,
+                customerId: order.customerId,
+                paymentType: 'order',
+                recurringOrderId: recurringOrder.id,
+            },
+        });
+
+        const status = charge.data?.status as string;
+
+        if (status === 'success') {
+            const result = await PaymentStatusSyncService.confirmPayment(order.id, reference, 'api_sync', 'system');
+            if (!result.success) {
+                throw new BadRequestError(result.error || 'Failed to confirm card payment');
+            }
+            return;
+        }
+
+        if (status === 'failed' || status === 'abandoned') {
+            throw new BadRequestError(charge.data?.gateway_response || 'Your card was declined');
+        }
+
+        const { queuePaymentExpiryCheck } = await import('../queues/payment.queue');
+        await queuePaymentExpiryCheck(reference, order.customerId);
+    }
+
+    /**
+     * Look up a reusable card authorization from one of the customer's earlier Paystack payments
+     */
+    private static async getCardAuthorization(
+        customerId: string,
+        paymentReference?: string,
+    ): Promise<Pick<IRecurringOrder, 'authorizationCode' | 'authorizationEmail' | 'cardDetails'>> {
+        if (!paymentReference) {
+            throw new BadRequestError('A previous card payment reference is required to charge a card');
+        }
+
+        const customer = await User.findByPk(customerId, { attributes: ['id', 'email'] });
+        const verification = await PaystackService.verifyTransaction(paymentReference);
+        const { authorization, customer: payer } = verification.data;
+
+        if (verification.data.status !== 'success') {
+            throw new BadRequestError('That payment was not successful');
+        }
+
+        if (!customer || payer?.email?.toLowerCase() !== customer.email?.toLowerCase()) {
+            throw new BadRequestError('That payment was not made by you');
+        }
+
+        if (!authorization?.reusable || authorization.channel !== 'card') {
+            throw new BadRequestError('The card used for that payment cannot be charged again');
+        }
+
+        return {
+            authorizationCode: authorization.authorization_code,
+            authorizationEmail: payer.email,
+            cardDetails: {
+                last4: authorization.last4,
+                brand: authorization.brand,
+                expMonth: authorization.exp_month,
+                expYear: authorization.exp_year,
+                bank: authorization.bank,
+            },
+        };
+    }
+
+    /**
+     * Copy a list and its items. Refreshed copies take current catalogue prices
+     * for linked products instead of whatever was on the source list.
+     */
+    private static async copyList(
+        source: ShoppingList,
+        overrides: { listType: 'personal' | 'template'; name: string },
+        refreshPrices: boolean,
+        transaction: Transaction,
+    ): Promise<ShoppingList> {
+        const copy = await ShoppingList.create(
+            {
+                name: overrides.name,
+                notes: source.notes,
+                customerId: source.customerId,
+                marketId: source.marketId,
+                status: 'draft',
+                creatorType: 'user',
+                listType: overrides.listType,
+                category: source.category,
+                isReadOnly: false,
+            },
+            { transaction },
+        );
+
+        const productIds = (source.items || []).map(item => item.productId).filter(Boolean);
+        const products = refreshPrices && productIds.length > 0
+            ? await Product.findAll({ where: { id: { [Op.in]: productIds } }, attributes: ['id', 'price'], transaction })
+            : [];
+        const priceByProduct = new Map(products.map(product => [product.id, Number(product.price)]));
+
+        let estimatedTotal = 0;
+        for (const item of source.items || []) {
+            const catalogPrice = item.productId ? priceByProduct.get(item.productId) : undefined;
+            const hasCatalogPrice = catalogPrice !== undefined && catalogPrice > 0;
+
+            const estimatedPrice = hasCatalogPrice ? catalogPrice : item.estimatedPrice;
+            const userSetPrice = hasCatalogPrice ? null : item.userSetPrice;
+
+            await ShoppingListItem.create(
+                {
+                    name: item.name,
+                    quantity: item.quantity,
+                    unit: item.unit,
+                    notes: item.notes,
+                    estimatedPrice,
+                    userProvidedPrice: item.userProvidedPrice,
+                    userSetPrice,
+                    productId: item.productId,
+                    productImage: item.productImage,
+                    substitutionPreference: item.substitutionPreference,
+                    shoppingListId: copy.id,
+                },
+                { transaction },
+            );
+
+            estimatedTotal += Number(userSetPrice || item.userProvidedPrice || estimatedPrice || 0) * Number(item.quantity || 1);
+        }
+
+        await copy.update({ estimatedTotal: PriceCalculatorService.roundPrice(estimatedTotal) }, { transaction });
+
+        return copy;
+    }
+
+    // Same price order checkout uses: user-set, then user-provided, then estimated
+    private static async getListSubtotal(shoppingListId: string): Promise<number> {
+        const items = await ShoppingListItem.findAll({ where: { shoppingListId } });
+
+        const subtotal = items.reduce((acc, item) =>
+            acc + Number(item.userSetPrice || item.userProvidedPrice || item.estimatedPrice || 0) * Number(item.quantity || 1), 0);
+
+        return PriceCalculatorService.roundPrice(subtotal);
+    }
+
+    private static async getOwnedRecurringOrder(id: string, customerId: string): Promise<RecurringOrder> {
+        const recurringOrder = await RecurringOrder.findOne({ where: { id, customerId } });
+
+        if (!recurringOrder) {
+            throw new NotFoundError('Recurring order not found');
+        }
+
+        return recurringOrder;
+    }
+
+    private static validateSchedule(schedule: IRecurringOrderSchedule): void {
+        if (!Object.values(RecurringOrderFrequency).includes(schedule.frequency)) {
+            throw new BadRequestError(
+                `Invalid frequency. Must be one of: ${Object.values(RecurringOrderFrequency).join(', ')}`
+            );
+        }
+
+        if (schedule.frequency === RecurringOrderFrequency.MONTHLY) {
+            const day = Number(schedule.dayOfMonth);
+            if (!Number.isInteger(day) || day < 1 || day > 28) {
+                throw new BadRequestError('Day of month must be between 1 and 28');
+            }
+        } else {
+            const day = Number(schedule.dayOfWeek);
+            if (schedule.dayOfWeek === null || schedule.dayOfWeek === undefined || !Number.isInteger(day) || day < 0 || day > 6) {
+                throw new BadRequestError('Day of week must be between 0 (Sunday) and 6 (Saturday)');
+            }
+        }
+
+        if (schedule.deliverySlotTime && !/^([01]\d|2[0-3]):[0-5]\d$/.test(schedule.deliverySlotTime)) {
+            throw new BadRequestError('Delivery slot time must be in HH:mm format');
+        }
+    }
+
+    private static matchesSchedule(schedule: IRecurringOrderSchedule, day: moment.Moment): boolean {
+        if (schedule.frequency === RecurringOrderFrequency.MONTHLY) {
+            return day.date() === Number(schedule.dayOfMonth);
+        }
+
+        return day.day() === Number(schedule.dayOfWeek);
+    }
+
+    private static getRunAt(schedule: IRecurringOrderSchedule, deliveryDate: string): Date {
+        if (schedule.deliverySlotTime) {
+            return moment.tz(`${deliveryDate} ${schedule.deliverySlotTime}`, 'YYYY-MM-DD HH:mm', this.TIMEZONE)
+                .subtract(this.RUN_HOURS_BEFORE_SLOT, 'hours')
+                .toDate();
+        }
+
+        return moment.tz(`${deliveryDate} ${this.ASAP_RUN_TIME}`, 'YYYY-MM-DD HH:mm', this.TIMEZONE).toDate();
+    }
+
+    /**
+     * The first matching delivery day whose order hasn't already been due
+     */
+    private static getFirstOccurrence(schedule: IRecurringOrderSchedule): { deliveryDate: string; runAt: Date } {
+        const now = new Date();
+        const today = moment().tz(this.TIMEZONE).startOf('day');
+
+        for (let offset = 0; offset <= 62; offset++) {
+            const day = today.clone().add(offset, 'days');
+
+            if (!this.matchesSchedule(schedule, day)) {
+                continue;
+            }
+
+            const deliveryDate = day.format('YYYY-MM-DD');
+            const runAt = this.getRunAt(schedule, deliveryDate);
+
+            if (runAt > now) {
+                return { deliveryDate, runAt };
+            }
+        }
+
+        throw new BadRequestError('Could not work out the next delivery date for this schedule');
+    }
+
+    /**
+     * The occurrence after the given one. Occurrences missed while the
+     * scheduler was down are passed over rather than placed late.
+     */
+    private static getFollowingOccurrence(
+        schedule: IRecurringOrderSchedule,
+        currentDeliveryDate: string,
+    ): { deliveryDate: string; runAt: Date } {
+        const now = new Date();
+        let day = moment.tz(currentDeliveryDate, 'YYYY-MM-DD', this.TIMEZONE);
+
+        for (;;) {
+            switch (schedule.frequency) {
+                case RecurringOrderFrequency.WEEKLY:
+                    day = day.clone().add(1, 'week');
+                    break;
+                case RecurringOrderFrequency.BIWEEKLY:
+                    day = day.clone().add(2, 'weeks');
+                    break;
+                case RecurringOrderFrequency.MONTHLY:
+                    day = day.clone().add(1, 'month').date(Number(schedule.dayOfMonth));
+                    break;
+            }
+
+            const deliveryDate = day.format('YYYY-MM-DD');
+            const runAt = this.getRunAt(schedule, deliveryDate);
+
+            if (runAt > now) {
+                return { deliveryDate, runAt };
+            }
+        }
+    }
+}
@@ -0,0 +1,948 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Op, Transaction, WhereOptions } from 'sequelize';
+import Refund, { IRefundDeductions, RefundReason, RefundStatus, RefundType } from '../models/refund.model';
+import PriceAdjustment, { PriceAdjustmentStatus } from '../models/priceAdjustment.model';
+import Order from '../models/order.model';
+import ShoppingListItem from '../models/shoppingListItem.model';
+import User from '../models/user.model';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../utils/customErrors';
+import Pagination, { IPaginationQuery, IPaging } from '../utils/pagination';
+import { logger } from '../utils/logger';
+import { NotificationTypes } from '../utils/interface';
+import NotificationService from './notification.service';
+import OrderTrailService from './orderTrail.service';
+import PriceCalculatorService from './priceCalculator.service';
+import PriceVarianceService from './priceVariance.service';
+import PaystackService from './payment/paystack.service';
+import WalletService from './wallet.service';
+import { Database } from '../models';
+
+export interface ICancellationQuote {
+    orderId: string;
+    orderStatus: string;
+    canCancel: boolean; // Whether the customer can still cancel the order themselves
+    message: string;
+    refundType: RefundType | null;
+    paidAmount: number;
+    alreadyRefunded: number;
+    deductions: IRefundDeductions;
+    refundAmount: number;
+    requiresApproval: boolean;
+}
+
+export interface IRefundFilters extends IPaginationQuery {
+    status?: RefundStatus;
+    reason?: RefundReason;
+    provider?: 'ALATPAY' | 'PAYSTACK';
+    orderId?: string;
+    customerId?: string;
+    startDate?: string;
+    endDate?: string;
+}
+
+export interface ICreateRefundData {
+    type: RefundType;
+    reason: RefundReason;
+    amount: number;
+    paidAmount: number;
+    initiatedBy: string;
+    requiresApproval: boolean;
+    reasonDetails?: string | null;
+    deductions?: IRefundDeductions | null;
+    metadata?: Record<string, any> | null;
+}
+
+export interface IRefundReconciliationResult {
+    checked: number;
+    completed: number;
+    failed: number;
+    processing: number;
+    errors: { refundId: string; error: string }[];
+}
+
+export default class RefundService {
+    // Amounts below this aren't worth a provider refund
+    private static readonly MIN_REFUND_AMOUNT = 1;
+
+    // Nothing has been bought yet, so cancelling costs the customer nothing
+    private static readonly FREE_CANCELLATION_STATUSES = ['pending', 'accepted', 'in_progress'];
+
+    // Customers have to contact support once the order is on its way
+    private static readonly CUSTOMER_LOCKED_STATUSES = ['delivery', 'completed', 'cancelled'];
+
+    // Refunds that count against what can still be returned for an order
+    private static readonly ACTIVE_STATUSES = [
+        RefundStatus.PENDING_APPROVAL,
+        RefundStatus.APPROVED,
+        RefundStatus.PROCESSING,
+        RefundStatus.COMPLETED,
+    ];
+
+    /**
+     * Whether a customer can cancel an order in the given status
+     */
+    static canCustomerCancel(orderStatus: string): boolean {
+        return !this.CUSTOMER_LOCKED_STATUSES.includes(orderStatus);
+    }
+
+    /**
+     * Show the customer what they would get back if they cancelled now
+     */
+    static async getCancellationQuote(orderId: string, customerId: string): Promise<ICancellationQuote> {
+        const order = await Order.findByPk(orderId);
+
+        if (!order) {
+            throw new NotFoundError('Order not found');
+        }
+
+        if (order.customerId !== customerId) {
+            throw new ForbiddenError('You are not authorized to cancel this order');
+        }
+
+        return await this.buildCancellationQuote(order, order.status);
+    }
+
+    /**
+     * Raise the refund for an order that has just been cancelled.
+     * Full refunds are paid out straight away; partial refunds wait for an admin.
+     */
+    static async issueCancellationRefund(
+        orderId: string,
+        previousStatus: string,
+        initiatedBy: string,
+        reasonDetails?: string,
+    ): Promise<Refund[] | null> {
+        // The order row is locked so two cancellations can't both raise a refund
+        const result = await Database.transaction(async (transaction: Transaction) => {
+            const order = await Order.findByPk(orderId, { lock: transaction.LOCK.UPDATE, transaction });
+
+            if (!order || order.paymentStatus !== 'completed') {
+                return null;
+            }
+
+            // Cancellation can be triggered more than once for the same order
+            const existing = await Refund.findAll({
+                where: {
+                    orderId,
+                    reason: RefundReason.ORDER_CANCELLED,
+                    status: { [Op.ne]: RefundStatus.REJECTED },
+                },
+                transaction,
+            });
+
+            if (existing.length > 0) {
+                return { order, refunds: existing, isNew: false };
+            }
+
+            // Top-ups and credits still waiting on someone are covered by the cancellation refund
+            await PriceAdjustment.update(
+                { status: PriceAdjustmentStatus.CANCELLED },
+                {
+                    where: {
+                        orderId,
+                        status: {
+                            [Op.in]: [
+                                PriceAdjustmentStatus.PENDING_APPROVAL,
+                                PriceAdjustmentStatus.AWAITING_PAYMENT,
+                                PriceAdjustmentStatus.PENDING_CREDIT,
+                            ],
+                        },
+                    },
+                    transaction,
+                },
+            );
+
+            const quote = await this.buildCancellationQuote(order, previousStatus, transaction);
+
+            if (!quote.refundType || quote.refundAmount < this.MIN_REFUND_AMOUNT) {
+                return { order, quote, refunds: null, isNew: false };
+            }
+
+            const data: ICreateRefundData = {
+                type: quote.refundType,
+                reason: RefundReason.ORDER_CANCELLED,
+                amount: quote.refundAmount,
+                paidAmount: quote.paidAmount,
+                deductions: quote.deductions,
+                requiresApproval: quote.requiresApproval,
+                initiatedBy,
+                reasonDetails: reasonDetails || null,
+                metadata: { previousStatus },
+            };
+
+            return { order, data, refunds: await this.recordRefunds(order, data, transaction), isNew: true };
+        });
+
+        if (!result) {
+            return null;
+        }
+
+        if (!result.refunds) {
+            await OrderTrailService.logOrderEvent(orderId, {
+                action: 'refund_not_applicable',
+                description: 'Order cancelled with nothing left to refund',
+                performedBy: initiatedBy,
+                metadata: { previousStatus, ...result.quote },
+            });
+            return null;
+        }
+
+        if (!result.isNew || !result.data) {
+            return result.refunds;
+        }
+
+        return await this.dispatchRefunds(result.order, result.data, result.refunds);
+    }
+
+    /**
+     * Record a refund in the ledger and pay it out if it doesn't need approval.
+     * Orders paid partly from the wallet get up to that much back in the wallet and the rest
+     * through the provider they paid with, as two refunds; the wallet part comes first.
+     */
+    static async createRefund(order: Order, data: ICreateRefundData): Promise<Refund[]> {
+        const refunds = await this.recordRefunds(order, data);
+        return await this.dispatchRefunds(order, data, refunds);
+    }
+
+    /**
+     * What the customer has paid for an order, including top-ups, and how much of it can still be refunded
+     */
+    static async getRefundableBalance(
+        order: Order,
+        transaction?: Transaction,
+    ): Promise<{ paidAmount: number; alreadyRefunded: number; refundable: number }> {
+        const summary = await PriceVarianceService.getVarianceSummary(order.id, transaction);
+        const paidAmount = PriceCalculatorService.roundPrice(summary.checkoutAmount + summary.paidTopUps);
+
+        const refunds = await Refund.findAll({
+            where: { orderId: order.id, status: { [Op.in]: this.ACTIVE_STATUSES } },
+            attributes: ['amount'],
+            transaction,
+        });
+        const alreadyRefunded = PriceCalculatorService.roundPrice(
+            refunds.reduce((sum, refund) => sum + Number(refund.amount), 0),
+        );
+
+        return {
+            paidAmount,
+            alreadyRefunded,
+            refundable: Math.max(0, PriceCalculatorService.roundPrice(paidAmount - alreadyRefunded)),
+        };
+    }
+
+    /**
+     * Get all refunds for an order, visible to the customer
+     */
+    static async getOrderRefunds(orderId: string, customerId: string): Promise<Refund[]> {
+        const order = await Order.findByPk(orderId, { attributes: ['id', 'customerId'] });
+
+        if (!order) {
+            throw new NotFoundError('Order not found');
+        }
+
+        if (order.customerId !== customerId) {
+            throw new ForbiddenError('You are not authorized to view refunds for this order');
+        }
+
+        return await Refund.findAll({
+            where: { orderId },
+            order: [['createdAt', 'DESC']],
+        });
+    }
+
+    /**
+     * Get all refunds with filtering (admin)
+     */
+    static async getRefunds(filters: IRefundFilters): Promise<{ refunds: Refund[]; pagination: IPaging }> {
+        const where: WhereOptions<Refund> = {};
+
+        if (filters.status) {
+            where.status = filters.status;
+        }
+        if (filters.reason) {
+            where.reason = filters.reason;
+        }
+        if (filters.provider) {
+            where.provider = filters.provider;
+        }
+        if (filters.orderId) {
+            where.orderId = filters.orderId;
+        }
+        if (filters.customerId) {
+            where.customerId = filters.customerId;
+        }
+        if (filters.startDate || filters.endDate) {
+            (where as any).createdAt = {
+                ...(filters.startDate && { [Op.gte]: new Date(filters.startDate) }),
+                ...(filters.endDate && { [Op.lte]: new Date(filters.endDate) }),
+            };
+        }
+
+        const queryOptions: any = {};
+        if (filters.page && filters.size && filters.page > 0 && filters.size > 0) {
+            const { limit, offset } = Pagination.getPagination({ page: filters.page, size: filters.size } as IPaging);
+            queryOptions.limit = limit ?? 0;
+            queryOptions.offset = offset ?? 0;
+        }
+
+        const { count, rows } = await Refund.findAndCountAll({
+            where,
+            include: [
+                {
+                    model: Order,
+                    attributes: ['id', 'orderNumber', 'status', 'paymentMethod', 'totalAmount'],
+                },
+                {
+                    model: User,
+                    as: 'customer',
+                    attributes: ['id', 'firstName', 'lastName', 'email', 'phone'],
+                },
+            ],
+            order: [['createdAt', 'DESC']],
+            ...queryOptions,
+        });
+
+        let pagination: IPaging = {
+            page: filters.page || null,
+            limit: filters.size || null,
+            size: filters.size || null,
+        };
+
+        if (filters.page && filters.size && rows.length > 0) {
+            const totalPages = Pagination.estimateTotalPage({ count, limit: filters.size } as IPaging);
+            pagination = {
+                count,
+                page: filters.page,
+                limit: filters.size,
+                size: filters.size,
+                ...totalPages,
+            };
+        }
+
+        return { refunds: rows, pagination };
+    }
+
+    static async getRefundById(id: string): Promise<Refund> {
+        const refund = await Refund.findByPk(id, {
+            include: [
+                {
+                    model: Order,
+                    attributes: ['id', 'orderNumber', 'status', 'paymentMethod', 'paymentId', 'totalAmount'],
+                },
+                {
+                    model: User,
+                    as: 'customer',
+                    attributes: ['id', 'firstName', 'lastName', 'email', 'phone'],
+                },
+            ],
+        });
+
+        if (!refund) {
+            throw new NotFoundError('Refund not found');
+        }
+
+        return refund;
+    }
+
+    /**
+     * Approve a refund (or retry a failed one) and pay it out.
+     * The admin can lower or raise the amount, up to what is still refundable on the order, and send it to the wallet instead.
+     */
+    static async approveRefund(
+        id: string,
+        adminId: string,
+        amount?: number,
+        toWallet?: boolean,
+    ): Promise<Refund> {
+        // Claim the refund first so two admins can't pay it out twice
+        const { refund, previousAmount, approvedAmount } = await Database.transaction(async (transaction: Transaction) => {
+            const locked = await Refund.findByPk(id, { lock: transaction.LOCK.UPDATE, transaction });
+
+            if (!locked) {
+                throw new NotFoundError('Refund not found');
+            }
+
+            if (![RefundStatus.PENDING_APPROVAL, RefundStatus.FAILED].includes(locked.status)) {
+                throw new BadRequestError(`Cannot approve a refund with status: ${locked.status}`);
+            }
+
+            const order = await Order.findByPk(locked.orderId, { lock: transaction.LOCK.UPDATE, transaction }) as Order;
+            const balance = await this.getRefundableBalance(order, transaction);
+
+            // Everything else raised against the order, not counting this refund
+            const ownAmount = this.ACTIVE_STATUSES.includes(locked.status) ? Number(locked.amount) : 0;
+            let maxAmount = PriceCalculatorService.roundPrice(Math.min(
+                Number(locked.paidAmount),
+                balance.paidAmount - (balance.alreadyRefunded - ownAmount),
+            ));
+
+            // The wallet part of a split refund can't return more than came out of the wallet
+            if (locked.metadata?.walletFunded) {
+                maxAmount = Math.min(maxAmount, await this.getWalletRefundable(order, transaction, locked.id));
+            }
+
+            const previous = Number(locked.amount);
+            const approved = amount !== undefined ? PriceCalculatorService.roundPrice(amount) : previous;
+
+            if (approved < this.MIN_REFUND_AMOUNT || approved > maxAmount) {
+                throw new BadRequestError(maxAmount < this.MIN_REFUND_AMOUNT
+                    ? 'Nothing is left to refund on this order'
+                    : `Refund amount must be between ₦${this.MIN_REFUND_AMOUNT} and ₦${maxAmount}`);
+            }
+
+            await locked.update({
+                status: RefundStatus.APPROVED,
+                amount: approved,
+                provider: toWallet ? 'WALLET' : locked.provider,
+                approvedBy: adminId,
+                approvedAt: new Date(),
+                failureReason: null,
+            }, { transaction });
+
+            return { refund: locked, previousAmount: previous, approvedAmount: approved };
+        });
+
+        await OrderTrailService.logOrderEvent(refund.orderId, {
+            action: 'refund_approved',
+            description: `Refund of ₦${approvedAmount} approved`,
+            performedBy: adminId,
+            previousValue: { amount: previousAmount },
+            newValue: { amount: approvedAmount },
+            metadata: { refundId: refund.id, provider: refund.provider },
+        });
+
+        return await this.processRefund(refund, adminId);
+    }
+
+    /**
+     * Decline a refund that is waiting for review or has failed
+     */
+    static async rejectRefund(id: string, adminId: string, reason: string): Promise<Refund> {
+        const refund = await Refund.findByPk(id);
+
+        if (!refund) {
+            throw new NotFoundError('Refund not found');
+        }
+
+        if (![RefundStatus.PENDING_APPROVAL, RefundStatus.FAILED].includes(refund.status)) {
+            throw new BadRequestError(`Cannot reject a refund with status: ${refund.status}`);
+        }
+
+        await refund.update({
+            status: RefundStatus.REJECTED,
+            failureReason: reason,
+        });
+
+        await OrderTrailService.logOrderEvent(refund.orderId, {
+            action: 'refund_rejected',
+            description: `Refund of ₦${refund.amount} rejected. Reason: ${reason}`,
+            performedBy: adminId,
+            metadata: { refundId: refund.id, reason },
+        });
+
+        await this.notifyCustomer(
+            refund,
+            NotificationTypes.REFUND_REJECTED,
+            'Refund Declined',
+            `Your refund of ₦${refund.amount} was declined. Reason: ${reason}`,
+        );
+
+        return refund;
+    }
+
+    /**
+     * Bring a refund in line with the provider, or record a manual payout.
+     * Paystack refunds are checked against the API; other refunds need the transfer reference.
+     */
+    static async reconcileRefund(id: string, adminId: string, reference?: string): Promise<Refund> {
+        const refund = await Refund.findByPk(id);
+
+        if (!refund) {
+            throw new NotFoundError('Refund not found');
+        }
+
+        if (refund.status === RefundStatus.PROCESSING && refund.provider === 'PAYSTACK' && refund.providerReference) {
+            return await this.syncPaystackRefund(refund, adminId);
+        }
+
+        if (refund.status === RefundStatus.APPROVED) {
+            if (!reference) {
+                throw new BadRequestError('Transfer reference is required to reconcile a manual refund');
+            }
+
+            return await this.markCompleted(refund, adminId, reference);
+        }
+
+        throw new BadRequestError(`Cannot reconcile a refund with status: ${refund.status}`);
+    }
+
+    /**
+     * Check every refund still processing with Paystack
+     */
+    static async reconcileProcessingRefunds(performedBy: string): Promise<IRefundReconciliationResult> {
+        const refunds = await Refund.findAll({
+            where: {
+                status: RefundStatus.PROCESSING,
+                provider: 'PAYSTACK',
+                providerReference: { [Op.ne]: null },
+            },
+            order: [['createdAt', 'ASC']],
+        });
+
+        const result: IRefundReconciliationResult = {
+            checked: refunds.length,
+            completed: 0,
+            failed: 0,
+            processing: 0,
+            errors: [],
+        };
+
+        for (const refund of refunds) {
+            try {
+                const synced = await this.syncPaystackRefund(refund, performedBy);
+
+                if (synced.status === RefundStatus.COMPLETED) {
+                    result.completed++;
+                } else if (synced.status === RefundStatus.FAILED) {
+                    result.failed++;
+                } else {
+                    result.processing++;
+                }
+            } catch (error) {
+                logger.error(`Error reconciling refund ${refund.id}:`, error);
+                result.errors.push({
+                    refundId: refund.id,
+                    error: error instanceof Error ? error.message : String(error),
+                });
+            }
+        }
+
+        logger.info('Refund reconciliation completed', result);
+
+        return result;
+    }
+
+    /**
+     * Apply a Paystack refund.processed / refund.failed webhook.
+     * Returns null when no processing refund matches the event.
+     */
+    static async handlePaystackRefundEvent(eventType: string, data: any): Promise<Refund | null> {
+        const candidates = await Refund.findAll({
+            where: {
+                status: RefundStatus.PROCESSING,
+                provider: 'PAYSTACK',
+                transactionReference: data.transaction_reference,
+            },
+            order: [['createdAt', 'ASC']],
+        });
+
+        // One charge can have several refunds (price credit, then cancellation); match on amount when it does
+        const amount = data.amount !== undefined ? PaystackService.fromKobo(Number(data.amount)) : null;
+        const refund = candidates.find(candidate => Number(candidate.amount) === amount) || candidates[0];
+
+        if (!refund) {
+            return null;
+        }
+
+        if (eventType === 'refund.processed') {
+            return await this.markCompleted(refund, 'system');
+        }
+
+        if (eventType === 'refund.failed') {
+            return await this.markFailed(refund, 'Refund failed at Paystack', 'system');
+        }
+
+        return refund;
+    }
+
+    /**
+     * Create the ledger entries for a refund. Orders paid partly from the wallet get up to that
+     * much back in the wallet and the rest through the provider they paid with, as two refunds;
+     * the wallet part comes first.
+     */
+    private static async recordRefunds(order: Order, data: ICreateRefundData, transaction?: Transaction): Promise<Refund[]> {
+        if (data.amount < this.MIN_REFUND_AMOUNT) {
+            throw new BadRequestError('Refund amount is too small');
+        }
+
+        const parts = await this.splitByPaymentSource(order, PriceCalculatorService.roundPrice(data.amount), transaction);
+
+        const refunds: Refund[] = [];
+        for (const part of parts) {
+            refunds.push(await Refund.create({
+                orderId: order.id,
+                customerId: order.customerId,
+                type: data.type,
+                reason: data.reason,
+                reasonDetails: data.reasonDetails || null,
+                status: data.requiresApproval ? RefundStatus.PENDING_APPROVAL : RefundStatus.APPROVED,
+                paidAmount: data.paidAmount,
+                amount: part.amount,
+                deductions: data.deductions || null,
+                provider: part.provider,
+                transactionReference: order.paymentId || null,
+                initiatedBy: data.initiatedBy,
+                approvedBy: data.requiresApproval ? null : 'system',
+                approvedAt: data.requiresApproval ? null : new Date(),
+                metadata: part.walletFunded ? { ...data.metadata, walletFunded: true } : data.metadata || null,
+            }, { transaction }));
+        }
+
+        return refunds;
+    }
+
+    /**
+     * Log newly recorded refunds, tell the customer, and pay out the ones that don't need approval
+     */
+    private static async dispatchRefunds(order: Order, data: ICreateRefundData, refunds: Refund[]): Promise<Refund[]> {
+        for (const refund of refunds) {
+            await OrderTrailService.logOrderEvent(order.id, {
+                action: 'refund_requested',
+                description: `${data.type === RefundType.FULL ? 'Full' : 'Partial'} refund of ₦${refund.amount} raised${refund.provider === 'WALLET' ? ' to the wallet' : ''}`,
+                performedBy: data.initiatedBy,
+                metadata: {
+                    refundId: refund.id,
+                    reason: data.reason,
+                    status: refund.status,
+                    provider: refund.provider,
+                    deductions: refund.deductions,
+                },
+            });
+        }
+
+        // Price adjustment credits and dispute settlements send their own notification
+        if (data.reason !== RefundReason.PRICE_ADJUSTMENT && data.reason !== RefundReason.DISPUTE) {
+            const total = PriceCalculatorService.roundPrice(data.amount);
+            await this.notifyCustomer(
+                refunds[0],
+                NotificationTypes.REFUND_INITIATED,
+                data.requiresApproval ? 'Refund Under Review' : 'Refund Initiated',
+                data.requiresApproval
+                    ? `Your refund of ₦${total} for order #${order.orderNumber} is being reviewed.`
+                    : `Your refund of ₦${total} for order #${order.orderNumber} is on the way.`,
+            );
+        }
+
+        const processed: Refund[] = [];
+        for (const refund of refunds) {
+            processed.push(
+                refund.status === RefundStatus.APPROVED ? await this.processRefund(refund, data.initiatedBy) : refund,
+            );
+        }
+
+        return processed;
+    }
+
+    /**
+     * What can still go back to the wallet: what was paid from it less wallet-funded refunds
+     */
+    private static async getWalletRefundable(order: Order, transaction?: Transaction, excludeRefundId?: string): Promise<number> {
+        const walletRefunds = await Refund.findAll({
+            where: {
+                orderId: order.id,
+                provider: 'WALLET',
+                status: { [Op.in]: this.ACTIVE_STATUSES },
+                ...(excludeRefundId && { id: { [Op.ne]: excludeRefundId } }),
+            },
+            attributes: ['amount'],
+            transaction,
+        });
+        const walletRefunded = walletRefunds.reduce((sum, refund) => sum + Number(refund.amount), 0);
+
+        return Math.max(0, PriceCalculatorService.roundPrice(Number(order.walletAmount || 0) - walletRefunded));
+    }
+
+    /**
+     * How much of a refund goes back to the wallet (no more than was paid from it and not yet
+     * returned) and how much to the provider the rest was paid with
+     */
+    private static async splitByPaymentSource(
+        order: Order,
+        amount: number,
+        transaction?: Transaction,
+    ): Promise<{ provider: Refund['provider']; amount: number; walletFunded?: boolean }[]> {
+        if (Number(order.walletAmount || 0) <= 0) {
+            return [{ provider: order.paymentMethod || null, amount }];
+        }
+
+        const walletPart = Math.min(amount, await this.getWalletRefundable(order, transaction));
+        const providerPart = PriceCalculatorService.roundPrice(amount - walletPart);
+
+        // Not worth a provider refund, and not worth leaving behind
+        if (walletPart < this.MIN_REFUND_AMOUNT || providerPart < this.MIN_REFUND_AMOUNT) {
+            return providerPart < this.MIN_REFUND_AMOUNT
+                ? [{ provider: 'WALLET', amount, walletFunded: true }]
+                : [{ provider: order.paymentMethod || null, amount }];
+        }
+
+        return [
+            { provider: 'WALLET', amount: walletPart, walletFunded: true },
+            { provider: order.paymentMethod || null, amount: providerPart },
+        ];
+    }
+
+    /**
+     * Send an approved refund to the wallet or the provider.
+     * AlatPay has no refund API, so those refunds stay approved until an admin records the payout.
+     */
+    private static async processRefund(refund: Refund, performedBy: string): Promise<Refund> {
+        if (refund.provider === 'WALLET') {
+            try {
+                const walletTransaction = await WalletService.creditRefund(refund, performedBy);
+                return await this.markCompleted(refund, performedBy, walletTransaction.id);
+            } catch (error) {
+                logger.error(`Failed to credit refund ${refund.id} to the wallet:`, error);
+                return await this.markFailed(refund, error instanceof Error ? error.message : String(error), performedBy);
+            }
+        }
+
+        if (refund.provider !== 'PAYSTACK' || !refund.transactionReference) {
+            await OrderTrailService.logOrderEvent(refund.orderId, {
+                action: 'refund_manual_payout_required',
+                description: `Refund of ₦${refund.amount} needs to be paid out manually`,
+                performedBy,
+                metadata: { refundId: refund.id, provider: refund.provider },
+            });
+            return refund;
+        }
+
+        const order = await Order.findByPk(refund.orderId, { attributes: ['id', 'orderNumber'] });
+
+        try {
+            const response = await PaystackService.createRefund({
+                transaction: refund.transactionReference,
+                amount: PaystackService.toKobo(Number(refund.amount)),
+                merchant_note: `Refund ${refund.id} for order ${order?.orderNumber}`,
+                customer_note: `Refund for order ${order?.orderNumber}`,
+            });
+
+            await refund.update({
+                status: RefundStatus.PROCESSING,
+                providerReference: String(response.data.id),
+                failureReason: null,
+                metadata: { ...refund.metadata, providerStatus: response.data.status },
+            });
+
+            await OrderTrailService.logOrderEvent(refund.orderId, {
+                action: 'refund_submitted',
+                description: `Refund of ₦${refund.amount} submitted to Paystack`,
+                performedBy,
+                metadata: { refundId: refund.id, providerReference: refund.providerReference },
+            });
+
+            if (response.data.status === 'processed') {
+                return await this.markCompleted(refund, performedBy);
+            }
+        } catch (error) {
+            logger.error(`Failed to submit refund ${refund.id} to Paystack:`, error);
+            await this.markFailed(refund, error instanceof Error ? error.message : String(error), performedBy);
+        }
+
+        return refund;
+    }
+
+    private static async syncPaystackRefund(refund: Refund, performedBy: string): Promise<Refund> {
+        const response = await PaystackService.getRefund(refund.providerReference as string);
+        const providerStatus = response.data.status;
+
+        if (providerStatus === 'processed') {
+            return await this.markCompleted(refund, performedBy);
+        }
+
+        if (providerStatus === 'failed') {
+            return await this.markFailed(refund, 'Refund failed at Paystack', performedBy);
+        }
+
+        await refund.update({
+            reconciledAt: new Date(),
+            metadata: { ...refund.metadata, providerStatus },
+        });
+
+        return refund;
+    }
+
+    private static async markCompleted(refund: Refund, performedBy: string, reference?: string): Promise<Refund> {
+        if (refund.status === RefundStatus.COMPLETED) {
+            return refund;
+        }
+
+        const now = new Date();
+        await refund.update({
+            status: RefundStatus.COMPLETED,
+            providerReference: reference || refund.providerReference,
+            processedAt: now,
+            reconciledAt: now,
+        });
+
+        // A manually paid price credit is only settled once the money has gone out, wallet and provider parts alike
+        if (refund.metadata?.adjustmentId && !(await this.hasUnsettledSiblings(refund))) {
+            await PriceAdjustment.update(
+                {
+                    status: PriceAdjustmentStatus.CREDITED,
+                    paymentReference: refund.id,
+                    settledAt: now,
+                },
+                { where: { id: refund.metadata.adjustmentId } },
+            );
+        }
+
+        await OrderTrailService.logOrderEvent(refund.orderId, {
+            action: 'refund_completed',
+            description: `Refund of ₦${refund.amount} completed`,
+            performedBy,
+            metadata: { refundId: refund.id, providerReference: refund.providerReference },
+        });
+
+        await this.notifyCustomer(
+            refund,
+            NotificationTypes.REFUND_COMPLETED,
+            'Refund Completed',
+            `Your refund of ₦${refund.amount} has been processed.`,
+        );
+
+        return refund;
+    }
+
+    /**
+     * Whether another part of the same price credit is still waiting to be paid out
+     */
+    private static async hasUnsettledSiblings(refund: Refund): Promise<boolean> {
+        const count = await Refund.count({
+            where: {
+                id: { [Op.ne]: refund.id },
+                orderId: refund.orderId,
+                status: { [Op.in]: [RefundStatus.PENDING_APPROVAL, RefundStatus.APPROVED, RefundStatus.FAILED] },
+                metadata: { adjustmentId: refund.metadata?.adjustmentId },
+            } as WhereOptions<Refund>,
+        });
+
+        return count > 0;
+    }
+
+    private static async markFailed(refund: Refund, failureReason: string, performedBy: string): Promise<Refund> {
+        await refund.update({
+            status: RefundStatus.FAILED,
+            failureReason,
+            reconciledAt: new Date(),
+        });
+
+        // The overpayment hasn't been returned after all
+        if (refund.metadata?.adjustmentId) {
+            await PriceAdjustment.update(
+                { status: PriceAdjustmentStatus.PENDING_CREDIT, settledAt: null },
+                {
+                    where: {
+                        id: refund.metadata.adjustmentId,
+                        status: PriceAdjustmentStatus.CREDITED,
+                    },
+                },
+            );
+        }
+
+        await OrderTrailService.logOrderEvent(refund.orderId, {
+            action: 'refund_failed',
+            description: `Refund of ₦${refund.amount} failed and needs review`,
+            performedBy,
+            metadata: { refundId: refund.id, failureReason },
+        });
+
+        return refund;
+    }
+
+    /**
+     * Work out the refund for cancelling an order that was in the given status.
+     * Before shopping starts the customer gets everything back; after that the service fee
+     * and anything the agent has already bought are held back, plus delivery once it's on its way.
+     */
+    private static async buildCancellationQuote(
+        order: Order,
+        orderStatus: string,
+        transaction?: Transaction,
+    ): Promise<ICancellationQuote> {
+        const deductions: IRefundDeductions = { serviceFee: 0, deliveryFee: 0, purchasedItems: 0 };
+        const canCancel = this.canCustomerCancel(orderStatus);
+
+        if (order.paymentStatus !== 'completed') {
+            return {
+                orderId: order.id,
+                orderStatus,
+                canCancel,
+                message: 'This order has not been paid for, so there is nothing to refund',
+                refundType: null,
+                paidAmount: 0,
+                alreadyRefunded: 0,
+                deductions,
+                refundAmount: 0,
+                requiresApproval: false,
+            };
+        }
+
+        const { paidAmount, alreadyRefunded } = await this.getRefundableBalance(order, transaction);
+
+        const isFree = this.FREE_CANCELLATION_STATUSES.includes(orderStatus);
+
+        if (!isFree) {
+            const purchasedItems = await ShoppingListItem.findAll({
+                where: { shoppingListId: order.shoppingListId, actualPrice: { [Op.ne]: null } },
+                attributes: ['actualPrice', 'quantity'],
+                transaction,
+            });
+
+            deductions.serviceFee = Number(order.serviceFee || 0);
+            deductions.purchasedItems = PriceCalculatorService.roundPrice(
+                purchasedItems.reduce((sum, item) => sum + Number(item.actualPrice) * Number(item.quantity || 1), 0),
+            );
+            if (orderStatus === 'delivery') {
+                deductions.deliveryFee = Number(order.deliveryFee || 0);
+            }
+        }
+
+        const totalDeductions = deductions.serviceFee + deductions.deliveryFee + deductions.purchasedItems;
+        const refundAmount = Math.max(
+            0,
+            PriceCalculatorService.roundPrice(paidAmount - alreadyRefunded - totalDeductions),
+        );
+
+        let message: string;
+        if (!canCancel) {
+            message = 'This order can no longer be cancelled. Please contact support.';
+        } else if (isFree) {
+            message = `Cancelling now refunds ₦${refundAmount} in full`;
+        } else {
+            message = `Shopping has started. Cancelling now refunds ₦${refundAmount} after review, less the service fee and items already bought`;
+        }
+
+        return {
+            orderId: order.id,
+            orderStatus,
+            canCancel,
+            message,
+            refundType: isFree ? RefundType.FULL : RefundType.PARTIAL,
+            paidAmount,
+            alreadyRefunded,
+            deductions,
+            refundAmount,
+            requiresApproval: !isFree,
+        };
+    }
+
+    private static async notifyCustomer(
+        refund: Refund,
+        title: NotificationTypes,
+        heading: string,
+        message: string,
+    ): Promise<void> {
+        // No actorId: refunds are driven by the system or an admin, neither of which is a user
+        try {
+            await NotificationService.addNotification({
+                userId: refund.customerId,
+                title,
+                heading,
+                message,
+                resource: refund.orderId,
+            });
+        } catch (notificationError) {
+            logger.error(`Failed to send refund notification for order ${refund.orderId}:`, notificationError);
+        }
+    }
+}
@@ -1,18 +1,25 @@
-import { Transaction, Op, FindAndCountOptions } from 'sequelize';
+import { Transaction, Op, FindAndCountOptions, WhereOptions } from 'sequelize';
 import ShoppingList, { IShoppingList } from '../models/shoppingList.model';
 import ShoppingListItem, { IShoppingListItem } from '../models/shoppingListItem.model';
 import Market from '../models/market.model';
 import Product from '../models/product.model';
 import User from '../models/user.model';
-import { NotFoundError, BadRequestError, ForbiddenError } from '../utils/customErrors';
+import { NotFoundError, BadRequestError, ForbiddenError, ConflictError } from '../utils/customErrors';
 import Pagination, { IPaging } from '../utils/pagination';
 import Order, { IOrder } from '../models/order.model';
 import OrderTrail from '../models/orderTrail.model';
+import RecurringOrder, { RecurringOrderStatus } from '../models/recurringOrder.model';
 import { Database } from '../models';
 import AgentService from './agent.service';
 import { logger } from '../utils/logger';
 import PriceCalculatorService from './priceCalculator.service';
 import SystemSettingsService from './systemSettings.service';
+import PriceVarianceService from './priceVariance.service';
+import ShoppingListCollaboratorService from './shoppingListCollaborator.service';
+import ShoppingListVersionService from './shoppingListVersion.service';
+import BudgetService from './budget.service';
+import PantryService from './pantry.service';
+import { ShoppingListChangeType } from '../models/shoppingListVersion.model';
 
 export interface IViewShoppingListsQuery {
     page?: number;
@@ -21,7 +28,39 @@ export interface IViewShoppingListsQuery {
     marketId?: string;
 }
 
+export type ReorderItemStatus = 'available' | 'price_changed' | 'unavailable' | 'manual';
+
+export interface IReorderAlternative {
+    productId: string;
+    name: string;
+    price: number; // Marked-up price the customer would see on their list
+    image: string | null;
+}
+
+export interface IReorderItem {
+    itemId: string; // Item on the new list
+    name: string;
+    quantity: number;
+    status: ReorderItemStatus;
+    previousPrice: number | null; // Unit price on the original order
+    currentPrice: number | null; // Unit price on the new list
+    alternatives: IReorderAlternative[]; // Only for unavailable items
+}
+
+export interface IReorderResult {
+    shoppingList: ShoppingList;
+    items: IReorderItem[];
+    summary: {
+        previousTotal: number;
+        estimatedTotal: number;
+        priceChangedCount: number;
+        unavailableCount: number;
+    };
+}
+
 export default class ShoppingListService {
+    private static readonly MAX_REORDER_ALTERNATIVES = 3;
+
     /**
      * Executes a paginated query for shopping lists and formats the results
      *
@@ -102,7 +141,7 @@ export default class ShoppingListService {
         }
 
         // Use a transaction to ensure all operations succeed or fail together
-        return await Database.transaction(async (transaction: Transaction) => {
+        const createdList = await Database.transaction(async (transaction: Transaction) => {
             // Create the shopping list with final name
             const newList = await ShoppingList.create({ 
                 ...listData, 
@@ -135,6 +174,10 @@ export default class ShoppingListService {
                 transaction,
             })) as ShoppingList;
         });
+
+        await ShoppingListVersionService.recordVersion(createdList.id, ShoppingListChangeType.CREATED, listData.customerId);
+
+        return createdList;
     }
 
     static async viewUserShoppingLists(
@@ -295,6 +338,12 @@ export default class ShoppingListService {
                             attributes: ['id', 'name', 'images', 'price'],
                             required: false,
                         },
+                        {
+                            model: User,
+                            as: 'addedByUser',
+                            attributes: ['id', 'firstName', 'lastName', 'displayImage'],
+                            required: false,
+                        },
                     ],
                 },
                 {
@@ -332,9 +381,13 @@ export default class ShoppingListService {
     ): Promise<ShoppingList> {
         const list = await this.getShoppingList(id, transaction);
 
-        // Check if the user is the owner of the list
+        // Editors can rename the list and change its notes; the market is the owner's call
         if (list.customerId !== customerId) {
-            throw new ForbiddenError('You are not authorized to update this shopping list');
+            await ShoppingListCollaboratorService.assertCanEdit(list, customerId);
+
+            if (updateData.marketId && updateData.marketId !== list.marketId) {
+                throw new ForbiddenError('Only the list owner can change the market');
+            }
         }
 
         // Cannot update certain properties if the list is no longer in draft status
@@ -344,6 +397,12 @@ export default class ShoppingListService {
 
         await list.update(updateData, { transaction });
 
+        // Calls inside a transaction come from payment processing and only touch payment fields
+        if (!transaction) {
+            await ShoppingListVersionService.recordVersion(id, ShoppingListChangeType.LIST_UPDATED, customerId);
+            ShoppingListCollaboratorService.broadcastListUpdate(id, { type: 'list_updated', updatedBy: customerId });
+        }
+
         return await this.getShoppingList(id, transaction);
     }
 
@@ -360,6 +419,18 @@ export default class ShoppingListService {
             throw new BadRequestError('Cannot delete a shopping list that has been submitted');
         }
 
+        // Template lists stay while a recurring order still orders from them
+        const recurringOrder = await RecurringOrder.findOne({
+            where: {
+                templateListId: id,
+                status: { [Op.ne]: RecurringOrderStatus.CANCELLED },
+            },
+        });
+
+        if (recurringOrder) {
+            throw new BadRequestError('Cancel the recurring order that uses this list before deleting it');
+        }
+
         // Check for existing orders and validate deletion eligibility
         const existingOrder = await Order.findOne({
             where: {
@@ -456,6 +527,7 @@ export default class ShoppingListService {
             itemName: itemData.name,
             productId: itemData.productId,
             estimatedPrice: itemData.estimatedPrice,
+            substitutionPreference: itemData.substitutionPreference,
             timestamp: new Date().toISOString()
         });
 
@@ -467,11 +539,8 @@ export default class ShoppingListService {
             ownerId: list.customerId
         });
 
-        // Check if the user is the owner of the list
-        if (list.customerId !== customerId) {
-            console.error('❌ [SERVICE] Authorization failed: User is not list owner');
-            throw new ForbiddenError('You are not authorized to modify this shopping list');
-        }
+        // The owner and collaborators with edit access can add items
+        await ShoppingListCollaboratorService.assertCanEdit(list, customerId);
 
         // Can only add items if the list is in draft status
         if (list.status !== 'draft') {
@@ -537,6 +606,7 @@ export default class ShoppingListService {
         const newItem = await ShoppingListItem.create({
             ...itemData,
             shoppingListId: listId,
+            addedBy: customerId,
         });
         const createDuration = Date.now() - createStartTime;
 
@@ -558,21 +628,27 @@ export default class ShoppingListService {
             listId
         });
 
+        await ShoppingListVersionService.recordVersion(listId, ShoppingListChangeType.ITEM_ADDED, customerId);
+        ShoppingListCollaboratorService.broadcastListUpdate(listId, { type: 'item_added', item: newItem, updatedBy: customerId });
+
         return newItem;
     }
 
+    /**
+     * Update an item on a list. On shared lists, pass the version the user last saw so
+     * an edit made in the meantime isn't overwritten, or a quantity delta that applies
+     * on top of whatever the quantity is now.
+     */
     static async updateListItem(
         listId: string,
         itemId: string,
         customerId: string,
         updateData: Partial<IShoppingListItem>,
+        options?: { expectedVersion?: number; quantityDelta?: number },
     ): Promise<ShoppingListItem> {
         const list = await this.getShoppingList(listId);
 
-        // Check if the user is the owner of the list
-        if (list.customerId !== customerId) {
-            throw new ForbiddenError('You are not authorized to modify this shopping list');
-        }
+        await ShoppingListCollaboratorService.assertCanEdit(list, customerId);
 
         // Can only update items if the list is in draft status
         const allowedListStatuses = ['draft'];
@@ -580,22 +656,48 @@ export default class ShoppingListService {
             throw new BadRequestError('Cannot update items in a submitted shopping list');
         }
 
-        const item = await ShoppingListItem.findOne({
-            where: {
-                id: itemId,
-                shoppingListId: listId,
-            },
-        });
+        const item = await Database.transaction(async (transaction: Transaction) => {
+            // Lock so concurrent edits are applied one after the other
+            const item = await ShoppingListItem.findOne({
+                where: {
+                    id: itemId,
+                    shoppingListId: listId,
+                },
+                lock: transaction.LOCK.UPDATE,
+                transaction,
+            });
 
-        if (!item) {
-            throw new NotFoundError('Item not found in this shopping list');
-        }
+            if (!item) {
+                throw new NotFoundError('Item not found in this shopping list');
+            }
+
+            if (options?.expectedVersion !== undefined && Number(options.expectedVersion) !== item.version) {
+                throw new ConflictError('This item was changed by someone else. Refresh the list and try again');
+            }
 
-        await item.update(updateData);
+            const changes: Partial<IShoppingListItem> = {
+                ...updateData,
+                updatedBy: customerId,
+                version: item.version + 1,
+            };
+
+            if (options?.quantityDelta) {
+                const quantity = Number(item.quantity) + Number(options.quantityDelta);
+                if (quantity <= 0) {
+                    throw new BadRequestError('Quantity must be greater than zero');
+                }
+                changes.quantity = quantity;
+            }
+
+            return await item.update(changes, { transaction });
+        });
 
         // Update estimated total of the shopping lists
         await this.updateShoppingListTotal(listId);
 
+        await ShoppingListVersionService.recordVersion(listId, ShoppingListChangeType.ITEM_UPDATED, customerId);
+        ShoppingListCollaboratorService.broadcastListUpdate(listId, { type: 'item_updated', item, updatedBy: customerId });
+
         return item;
     }
 
@@ -606,10 +708,7 @@ export default class ShoppingListService {
     ): Promise<void> {
         const list = await this.getShoppingList(listId);
 
-        // Check if the user is the owner of the list
-        if (list.customerId !== customerId) {
-            throw new ForbiddenError('You are not authorized to modify this shopping list');
-        }
+        await ShoppingListCollaboratorService.assertCanEdit(list, customerId);
 
         // Can only remove items if the list is in draft status
         const allowedListStatuses = ['draft'];
@@ -632,6 +731,9 @@ export default class ShoppingListService {
 
         // Update estimated total of the shopping lists
         await this.updateShoppingListTotal(listId);
+
+        await ShoppingListVersionService.recordVersion(listId, ShoppingListChangeType.ITEM_REMOVED, customerId);
+        ShoppingListCollaboratorService.broadcastListUpdate(listId, { type: 'item_removed', itemId, updatedBy: customerId });
     }
 
     /**
@@ -862,7 +964,7 @@ export default class ShoppingListService {
         agentId: string,
         items: { itemId: string; actualPrice: number }[],
     ): Promise<ShoppingList> {
-        return await Database.transaction(async (transaction: Transaction) => {
+        const updatedList = await Database.transaction(async (transaction: Transaction) => {
             const list = await this.getShoppingList(listId, transaction);
 
             // Only the assigned agent can update actual prices
@@ -889,6 +991,23 @@ export default class ShoppingListService {
 
             return await this.getShoppingList(listId, transaction);
         });
+
+        await ShoppingListVersionService.recordVersion(listId, ShoppingListChangeType.PRICES_UPDATED, agentId);
+
+        try {
+            await BudgetService.checkShoppingProgress(listId, agentId);
+        } catch (error) {
+            logger.error(`Failed to check budget for shopping list ${listId}:`, error);
+        }
+
+        // Reconcile the new prices against what the customer paid
+        try {
+            await PriceVarianceService.evaluateShoppingListVariance(listId, agentId);
+        } catch (error) {
+            logger.error(`Failed to evaluate price variance for shopping list ${listId}:`, error);
+        }
+
+        return updatedList;
     }
 
     /**
@@ -899,7 +1018,7 @@ export default class ShoppingListService {
         customerId: string,
         marketId?: string,
     ): Promise<ShoppingList> {
-        return await Database.transaction(async (transaction: Transaction) => {
+        const personalList = await Database.transaction(async (transaction: Transaction) => {
             // Get the suggested list with items
             const suggestedList = await ShoppingList.findOne({
                 where: {
@@ -998,6 +1117,242 @@ export default class ShoppingListService {
                 transaction,
             }) as ShoppingList;
         });
+
+        await ShoppingListVersionService.recordVersion(personalList.id, ShoppingListChangeType.CREATED, customerId);
+
+        return personalList;
+    }
+
+    /**
+     * Start a new draft list from a completed order. Items are matched against the market's
+     * current catalogue: prices are refreshed, and products that are gone or out of stock are
+     * flagged with in-market alternatives for the customer to pick from.
+     */
+    static async reorderFromOrder(orderId: string, customerId: string): Promise<IReorderResult> {
+        const order = await Order.findByPk(orderId, {
+            include: [
+                {
+                    model: ShoppingList,
+                    as: 'shoppingList',
+                    include: [
+                        {
+                            model: ShoppingListItem,
+                            as: 'items',
+                        },
+                        {
+                            model: Market,
+                            as: 'market',
+                            attributes: ['id', 'name', 'isActive'],
+                        },
+                    ],
+                },
+            ],
+        });
+
+        // Don't reveal other customers' orders
+        if (!order || order.customerId !== customerId) {
+            throw new NotFoundError('Order not found');
+        }
+
+        if (order.status !== 'completed') {
+            throw new BadRequestError('Only completed orders can be reordered');
+        }
+
+        const sourceList = order.shoppingList;
+        if (!sourceList || !sourceList.items || sourceList.items.length === 0) {
+            throw new BadRequestError('This order has no items to reorder');
+        }
+
+        if (!sourceList.market || !sourceList.market.isActive) {
+            throw new BadRequestError('The market for this order is no longer available');
+        }
+
+        const marketId = sourceList.marketId;
+        const markupPercentage = await SystemSettingsService.getItemMarkupPercentage();
+
+        const productIds = sourceList.items.map(item => item.productId).filter(Boolean);
+        const products = productIds.length > 0
+            ? await Product.findAll({ where: { id: { [Op.in]: productIds } } })
+            : [];
+        const productsById = new Map(products.map(product => [product.id, product]));
+
+        const result = await Database.transaction(async (transaction: Transaction) => {
+            const newList = await ShoppingList.create(
+                {
+                    name: sourceList.name,
+                    notes: `Reordered from order #${order.orderNumber}`,
+                    customerId,
+                    marketId,
+                    status: 'draft',
+                    creatorType: 'user',
+                    listType: 'personal',
+                    category: sourceList.category,
+                    isReadOnly: false,
+                },
+                { transaction },
+            );
+
+            const items: IReorderItem[] = [];
+            let previousTotal = 0;
+            let estimatedTotal = 0;
+
+            for (const sourceItem of sourceList.items) {
+                const quantity = Number(sourceItem.quantity || 1);
+                const previousPrice = PriceCalculatorService.getEffectivePrice(sourceItem, true) || null;
+                previousTotal += (previousPrice ?? 0) * quantity;
+
+                const product = sourceItem.productId ? productsById.get(sourceItem.productId) : undefined;
+                const isAvailable = !!product && product.marketId === marketId && product.isAvailable && Number(product.price) > 0;
+
+                let status: ReorderItemStatus;
+                let currentPrice: number | null;
+                let alternatives: IReorderAlternative[] = [];
+
+                if (!sourceItem.productId) {
+                    // Manually entered items keep what the customer told us last time
+                    status = 'manual';
+                    currentPrice = sourceItem.userProvidedPrice !== null && sourceItem.userProvidedPrice !== undefined
+                        ? Number(sourceItem.userProvidedPrice)
+                        : previousPrice;
+                } else if (isAvailable) {
+                    currentPrice = PriceCalculatorService.applyMarkup(Number(product.price), markupPercentage);
+                    status = previousPrice !== null && currentPrice !== previousPrice ? 'price_changed' : 'available';
+                } else {
+                    status = 'unavailable';
+                    currentPrice = null;
+                    alternatives = await this.findReorderAlternatives(sourceItem, product, marketId, markupPercentage);
+                }
+
+                const newItem = await ShoppingListItem.create(
+                    {
+                        name: sourceItem.name,
+                        quantity,
+                        unit: sourceItem.unit,
+                        notes: sourceItem.notes,
+                        estimatedPrice: status === 'manual' ? sourceItem.estimatedPrice : currentPrice,
+                        userProvidedPrice: status === 'manual' ? sourceItem.userProvidedPrice : null,
+                        productId: isAvailable ? sourceItem.productId : null,
+                        productImage: isAvailable && product.images?.length ? product.images[0] : sourceItem.productImage,
+                        substitutionPreference: sourceItem.substitutionPreference,
+                        shoppingListId: newList.id,
+                    },
+                    { transaction },
+                );
+
+                estimatedTotal += (currentPrice ?? 0) * quantity;
+
+                items.push({
+                    itemId: newItem.id,
+                    name: newItem.name,
+                    quantity,
+                    status,
+                    previousPrice,
+                    currentPrice,
+                    alternatives,
+                });
+            }
+
+            estimatedTotal = PriceCalculatorService.roundPrice(estimatedTotal);
+            await newList.update({ estimatedTotal }, { transaction });
+
+            const shoppingList = await ShoppingList.findByPk(newList.id, {
+                include: [
+                    {
+                        model: ShoppingListItem,
+                        as: 'items',
+                        include: [
+                            {
+                                model: Product,
+                                as: 'product',
+                                required: false,
+                            },
+                        ],
+                    },
+                    {
+                        model: Market,
+                        as: 'market',
+                        attributes: ['id', 'name', 'marketType', 'address'],
+                    },
+                ],
+                transaction,
+            }) as ShoppingList;
+
+            logger.info(`Order ${order.orderNumber} reordered by customer ${customerId} as list ${newList.id}`);
+
+            return {
+                shoppingList,
+                items,
+                summary: {
+                    previousTotal: PriceCalculatorService.roundPrice(previousTotal),
+                    estimatedTotal,
+                    priceChangedCount: items.filter(item => item.status === 'price_changed').length,
+                    unavailableCount: items.filter(item => item.status === 'unavailable').length,
+                },
+            };
+        });
+
+        await ShoppingListVersionService.recordVersion(result.shoppingList.id, ShoppingListChangeType.CREATED, customerId);
+
+        return result;
+    }
+
+    /**
+     * Available products in the same market that could stand in for an item:
+     * names sharing the most words first, then the same category, then the closest price
+     */
+    private static async findReorderAlternatives(
+        item: ShoppingListItem,
+        originalProduct: Product | undefined,
+        marketId: string,
+        markupPercentage: number,
+    ): Promise<IReorderAlternative[]> {
+        const keywords = item.name
+            .toLowerCase()
+            .split(/[^a-z0-9]+/)
+            .filter(word => word.length >= 3);
+
+        if (keywords.length === 0 && !originalProduct?.categoryId) {
+            return [];
+        }
+
+        const matchers: WhereOptions<Product>[] = keywords.map(word => ({ name: { [Op.iLike]: `%${word}%` } }));
+        if (originalProduct?.categoryId) {
+            matchers.push({ categoryId: originalProduct.categoryId });
+        }
+
+        const candidates = await Product.findAll({
+            where: {
+                marketId,
+                isAvailable: true,
+                price: { [Op.gt]: 0 },
+                ...(item.productId && { id: { [Op.ne]: item.productId } }),
+                [Op.or]: matchers,
+            },
+            attributes: ['id', 'name', 'price', 'images', 'categoryId'],
+            limit: 50,
+        });
+
+        const previousPrice = PriceCalculatorService.getEffectivePrice(item, true);
+
+        return candidates
+            .map(candidate => {
+                const name = candidate.name.toLowerCase();
+                const sharedWords = keywords.filter(word => name.includes(word)).length;
+                const sameCategory = !!originalProduct?.categoryId && candidate.categoryId === originalProduct.categoryId;
+                return { candidate, sharedWords, sameCategory };
+            })
+            .sort((a, b) =>
+                b.sharedWords - a.sharedWords ||
+                Number(b.sameCategory) - Number(a.sameCategory) ||
+                Math.abs(Number(a.candidate.price) - previousPrice) - Math.abs(Number(b.candidate.price) - previousPrice),
+            )
+            .slice(0, this.MAX_REORDER_ALTERNATIVES)
+            .map(({ candidate }) => ({
+                productId: candidate.id,
+                name: candidate.name,
+                price: PriceCalculatorService.applyMarkup(Number(candidate.price), markupPercentage),
+                image: candidate.images && candidate.images.length > 0 ? candidate.images[0] : null,
+            }));
     }
 
     /**
@@ -1062,10 +1417,8 @@ export default class ShoppingListService {
     ): Promise<ShoppingListItem> {
         const list = await this.getShoppingList(listId);
 
-        // Check if the user is the owner of the list
-        if (list.customerId !== customerId) {
-            throw new ForbiddenError('You are not authorized to modify this shopping list');
-        }
+        // The owner and collaborators with edit access can add items
+        await ShoppingListCollaboratorService.assertCanEdit(list, customerId);
 
         // Can only add items if the list is in draft status
         const allowedListStatuses = ['draft'];
@@ -1115,16 +1468,28 @@ export default class ShoppingListService {
             }
         }
 
+        // Lists with a budget, or owners with a monthly budget, can't be pushed over it
+        await BudgetService.assertWithinBudget(list, {
+            productId: itemData.productId,
+            name: itemData.name,
+            unitPrice: Number(finalEstimatedPrice || userProvidedPrice) || 0,
+            quantity: Number(itemData.quantity) || 1,
+        });
+
         const newItem = await ShoppingListItem.create({
             ...itemData,
             estimatedPrice: finalEstimatedPrice,
             userProvidedPrice,
             shoppingListId: listId,
+            addedBy: customerId,
         });
 
         // Update estimated total of the shopping list
         await this.updateShoppingListTotal(listId);
 
+        await ShoppingListVersionService.recordVersion(listId, ShoppingListChangeType.ITEM_ADDED, customerId);
+        ShoppingListCollaboratorService.broadcastListUpdate(listId, { type: 'item_added', item: newItem, updatedBy: customerId });
+
         return newItem;
     }
 
@@ -1162,15 +1527,20 @@ export default class ShoppingListService {
     ): Promise<ShoppingList> {
         const todayDate = new Date().toLocaleDateString();
         const listName = `Today's Collection - ${todayDate}`;
-        
+
+        // Start with whatever the customer's pantry says is running low
+        const restockItems = await PantryService.getRestockItems(customerId, marketId);
+
         return await this.createShoppingList({
             name: listName,
             customerId,
             marketId,
             category: 'todays_collection',
-            notes: 'Items from Today\'s Collection',
+            notes: restockItems.length > 0
+                ? 'Items from Today\'s Collection, starting with what you\'re running low on'
+                : 'Items from Today\'s Collection',
             status: 'draft',
-        }, []);
+        }, restockItems);
     }
 
     /**
@@ -0,0 +1,475 @@
+import { Op, Sequelize, WhereOptions } from 'sequelize';
+import { Server } from 'socket.io';
+import ShoppingList from '../models/shoppingList.model';
+import ShoppingListItem from '../models/shoppingListItem.model';
+import ShoppingListCollaborator, {
+    CollaboratorRole,
+    CollaboratorStatus,
+    IShoppingListCollaborator,
+} from '../models/shoppingListCollaborator.model';
+import Market from '../models/market.model';
+import User from '../models/user.model';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../utils/customErrors';
+import { logger } from '../utils/logger';
+import { NotificationTypes } from '../utils/interface';
+import { WEBSITE_URL } from '../utils/constants';
+import { emailService, EmailTemplate } from '../utils/Email';
+import NotificationService from './notification.service';
+import { ShoppingListUpdateType } from '../clients/socket/types';
+
+export interface IInviteCollaboratorData {
+    email?: string;
+    phone?: string;
+    role?: CollaboratorRole.EDITOR | CollaboratorRole.VIEWER;
+}
+
+export default class ShoppingListCollaboratorService {
+    // Enough for a household; keeps invitation spam in check
+    private static readonly MAX_COLLABORATORS = 10;
+
+    private static io: Server | null = null;
+
+    /**
+     * Set the Socket.IO server used to push list changes to collaborators
+     */
+    static setSocketServer(io: Server): void {
+        this.io = io;
+    }
+
+    static getRoomName(listId: string): string {
+        return `shopping-list:${listId}`;
+    }
+
+    /**
+     * Push a change to everyone who has the list open
+     */
+    static broadcastListUpdate(listId: string, update: Omit<ShoppingListUpdateType, 'listId' | 'at'>): void {
+        if (!this.io) {
+            return;
+        }
+
+        this.io.to(this.getRoomName(listId)).emit('shopping-list:updated', {
+            ...update,
+            listId,
+            at: new Date().toISOString(),
+        });
+    }
+
+    /**
+     * Take all of a user's open sockets out of a list's room so they stop getting its updates
+     */
+    static leaveListRoom(listId: string, userId: string): void {
+        if (!this.io) {
+            return;
+        }
+
+        this.io.in(`user:${userId}`).socketsLeave(this.getRoomName(listId));
+    }
+
+    /**
+     * The user's role on a list, or null if they have no access
+     */
+    static async getRole(list: ShoppingList, userId: string): Promise<CollaboratorRole | null> {
+        if (list.customerId === userId) {
+            return CollaboratorRole.OWNER;
+        }
+
+        const collaborator = await ShoppingListCollaborator.findOne({
+            where: { shoppingListId: list.id, userId, status: CollaboratorStatus.ACCEPTED },
+            attributes: ['role'],
+        });
+
+        return collaborator?.role ?? null;
+    }
+
+    static async assertCanView(list: ShoppingList, userId: string): Promise<CollaboratorRole> {
+        const role = await this.getRole(list, userId);
+        if (!role) {
+            throw new ForbiddenError('You are not authorized to view this shopping list');
+        }
+        return role;
+    }
+
+    static async assertCanEdit(list: ShoppingList, userId: string): Promise<CollaboratorRole> {
+        const role = await this.getRole(list, userId);
+        if (role !== CollaboratorRole.OWNER && role !== CollaboratorRole.EDITOR) {
+            throw new ForbiddenError('You are not authorized to modify this shopping list');
+        }
+        return role;
+    }
+
+    /**
+     * Invite someone to a list by email or phone. People without an account
+     * are emailed a sign-up link and pick the invitation up once registered.
+     */
+    static async inviteCollaborator(
+        listId: string,
+        ownerId: string,
+        data: IInviteCollaboratorData,
+    ): Promise<ShoppingListCollaborator> {
+        const list = await this.getOwnedList(listId, ownerId);
+
+        const inviteEmail = data.email ? data.email.toLowerCase().trim() : null;
+        const invitePhone = data.phone ? this.normalizePhone(data.phone) : null;
+
+        if (!inviteEmail && !invitePhone) {
+            throw new BadRequestError('An email or phone number is required to invite someone');
+        }
+
+        if (data.phone && !invitePhone) {
+            throw new BadRequestError('Invalid phone number');
+        }
+
+        const role = data.role || CollaboratorRole.EDITOR;
+        if (role !== CollaboratorRole.EDITOR && role !== CollaboratorRole.VIEWER) {
+            throw new BadRequestError(`Role must be one of: ${CollaboratorRole.EDITOR}, ${CollaboratorRole.VIEWER}`);
+        }
+
+        if (list.listType !== 'personal') {
+            throw new BadRequestError('Only personal shopping lists can be shared');
+        }
+
+        const invitee = await this.findUserByContact(inviteEmail, invitePhone);
+        if (invitee?.id === ownerId) {
+            throw new BadRequestError('You already own this shopping list');
+        }
+
+        const activeCount = await ShoppingListCollaborator.count({
+            where: {
+                shoppingListId: listId,
+                status: { [Op.in]: [CollaboratorStatus.PENDING, CollaboratorStatus.ACCEPTED] },
+            },
+        });
+
+        // Re-inviting someone updates their existing invitation rather than adding a second one
+        const contactMatches: WhereOptions<IShoppingListCollaborator>[] = [];
+        if (invitee) contactMatches.push({ userId: invitee.id });
+        if (inviteEmail) contactMatches.push({ inviteEmail });
+        if (invitePhone) contactMatches.push({ invitePhone });
+
+        const existing = await ShoppingListCollaborator.findOne({
+            where: { shoppingListId: listId, [Op.or]: contactMatches },
+        });
+
+        const isActive = existing && [CollaboratorStatus.PENDING, CollaboratorStatus.ACCEPTED].includes(existing.status);
+        if (!isActive && activeCount >= this.MAX_COLLABORATORS) {
+            throw new BadRequestError(`A shopping list can be shared with at most ${this.MAX_COLLABORATORS} people`);
+        }
+
+        let collaborator: ShoppingListCollaborator;
+        if (existing) {
+            collaborator = await existing.update({
+                role,
+                userId: invitee?.id ?? existing.userId,
+                inviteEmail: inviteEmail ?? existing.inviteEmail,
+                invitePhone: invitePhone ?? existing.invitePhone,
+                // Someone already on the list just has their role changed
+                status: existing.status === CollaboratorStatus.ACCEPTED ? CollaboratorStatus.ACCEPTED : CollaboratorStatus.PENDING,
+                invitedBy: ownerId,
+            });
+        } else {
+            collaborator = await ShoppingListCollaborator.create({
+                shoppingListId: listId,
+                userId: invitee?.id ?? null,
+                invitedBy: ownerId,
+                role,
+                inviteEmail,
+                invitePhone,
+            });
+        }
+
+        if (collaborator.status === CollaboratorStatus.PENDING) {
+            await this.sendInvitation(collaborator, list, invitee);
+        }
+
+        this.broadcastListUpdate(listId, { type: 'collaborators_updated', updatedBy: ownerId });
+
+        return collaborator;
+    }
+
+    /**
+     * Everyone on a list, visible to anyone who can see the list
+     */
+    static async getCollaborators(listId: string, userId: string): Promise<{
+        owner: User;
+        collaborators: ShoppingListCollaborator[];
+        role: CollaboratorRole;
+    }> {
+        const list = await ShoppingList.findByPk(listId, {
+            include: [{ model: User, as: 'customer', attributes: ['id', 'firstName', 'lastName', 'displayImage'] }],
+        });
+
+        if (!list) {
+            throw new NotFoundError('Shopping list not found');
+        }
+
+        const role = await this.assertCanView(list, userId);
+
+        const collaborators = await ShoppingListCollaborator.findAll({
+            where: {
+                shoppingListId: listId,
+                status: { [Op.in]: [CollaboratorStatus.PENDING, CollaboratorStatus.ACCEPTED] },
+            },
+            include: [{ model: User, as: 'user', attributes: ['id', 'firstName', 'lastName', 'displayImage'] }],
+            order: [['createdAt', 'ASC']],
+        });
+
+        return { owner: list.customer, collaborators, role };
+    }
+
+    /**
+     * Change a collaborator's role (owner only)
+     */
+    static async updateRole(
+        listId: string,
+        collaboratorId: string,
+        ownerId: string,
+        role: CollaboratorRole.EDITOR | CollaboratorRole.VIEWER,
+    ): Promise<ShoppingListCollaborator> {
+        await this.getOwnedList(listId, ownerId);
+
+        if (role !== CollaboratorRole.EDITOR && role !== CollaboratorRole.VIEWER) {
+            throw new BadRequestError(`Role must be one of: ${CollaboratorRole.EDITOR}, ${CollaboratorRole.VIEWER}`);
+        }
+
+        const collaborator = await this.getActiveCollaborator(listId, collaboratorId);
+        await collaborator.update({ role });
+
+        this.broadcastListUpdate(listId, { type: 'collaborators_updated', updatedBy: ownerId });
+
+        return collaborator;
+    }
+
+    /**
+     * Remove a collaborator. The owner can remove anyone; collaborators can remove themselves.
+     */
+    static async removeCollaborator(listId: string, collaboratorId: string, userId: string): Promise<void> {
+        const list = await ShoppingList.findByPk(listId);
+        if (!list) {
+            throw new NotFoundError('Shopping list not found');
+        }
+
+        const collaborator = await this.getActiveCollaborator(listId, collaboratorId);
+
+        if (list.customerId !== userId && collaborator.userId !== userId) {
+            throw new ForbiddenError('Only the list owner can remove other people');
+        }
+
+        await collaborator.update({ status: CollaboratorStatus.REMOVED });
+
+        if (collaborator.userId) {
+            this.leaveListRoom(listId, collaborator.userId);
+        }
+
+        this.broadcastListUpdate(listId, { type: 'collaborators_updated', updatedBy: userId });
+    }
+
+    /**
+     * Pending invitations addressed to the user, by account, email or phone
+     */
+    static async getInvitations(user: User): Promise<ShoppingListCollaborator[]> {
+        return await ShoppingListCollaborator.findAll({
+            where: {
+                status: CollaboratorStatus.PENDING,
+                [Op.or]: this.getContactMatches(user),
+            },
+            include: [
+                {
+                    model: ShoppingList,
+                    as: 'shoppingList',
+                    attributes: ['id', 'name', 'status', 'marketId'],
+                    include: [{ model: Market, as: 'market', attributes: ['id', 'name'] }],
+                },
+                { model: User, as: 'inviter', attributes: ['id', 'firstName', 'lastName', 'displayImage'] },
+            ],
+            order: [['createdAt', 'DESC']],
+        });
+    }
+
+    /**
+     * Accept or decline an invitation
+     */
+    static async respondToInvitation(
+        invitationId: string,
+        user: User,
+        accept: boolean,
+    ): Promise<ShoppingListCollaborator> {
+        const invitation = await ShoppingListCollaborator.findOne({
+            where: {
+                id: invitationId,
+                [Op.or]: this.getContactMatches(user),
+            },
+            include: [{ model: ShoppingList, as: 'shoppingList', attributes: ['id', 'name', 'customerId'] }],
+        });
+
+        // Don't reveal invitations meant for someone else
+        if (!invitation) {
+            throw new NotFoundError('Invitation not found');
+        }
+
+        if (invitation.status !== CollaboratorStatus.PENDING) {
+            throw new BadRequestError(`This invitation has already been ${invitation.status}`);
+        }
+
+        await invitation.update({
+            userId: user.id,
+            status: accept ? CollaboratorStatus.ACCEPTED : CollaboratorStatus.DECLINED,
+            respondedAt: new Date(),
+        });
+
+        if (accept) {
+            try {
+                await NotificationService.addNotification({
+                    userId: invitation.shoppingList.customerId,
+                    title: NotificationTypes.SHOPPING_LIST_INVITE_ACCEPTED,
+                    heading: 'Invitation Accepted',
+                    message: `${user.firstName} ${user.lastName} joined your shopping list "${invitation.shoppingList.name}"`,
+                    resource: invitation.shoppingListId,
+                    actorId: user.id,
+                });
+            } catch (notificationError) {
+                logger.error(`Failed to notify owner of shopping list ${invitation.shoppingListId}:`, notificationError);
+            }
+
+            this.broadcastListUpdate(invitation.shoppingListId, { type: 'collaborators_updated', updatedBy: user.id });
+        }
+
+        return invitation;
+    }
+
+    /**
+     * Lists other people have shared with the user
+     */
+    static async getSharedLists(userId: string): Promise<ShoppingList[]> {
+        const memberships = await ShoppingListCollaborator.findAll({
+            where: { userId, status: CollaboratorStatus.ACCEPTED },
+            attributes: ['shoppingListId', 'role'],
+        });
+
+        if (memberships.length === 0) {
+            return [];
+        }
+
+        return await ShoppingList.findAll({
+            where: { id: memberships.map(membership => membership.shoppingListId) },
+            include: [
+                { model: ShoppingListItem, as: 'items' },
+                { model: Market, as: 'market', attributes: ['id', 'name', 'marketType', 'address'] },
+                { model: User, as: 'customer', attributes: ['id', 'firstName', 'lastName', 'displayImage'] },
+            ],
+            order: [['updatedAt', 'DESC']],
+        });
+    }
+
+    private static async getOwnedList(listId: string, ownerId: string): Promise<ShoppingList> {
+        const list = await ShoppingList.findByPk(listId);
+
+        if (!list) {
+            throw new NotFoundError('Shopping list not found');
+        }
+
+        if (list.customerId !== ownerId) {
+            throw new ForbiddenError('Only the list owner can manage who it is shared with');
+        }
+
+        return list;
+    }
+
+    private static async getActiveCollaborator(listId: string, collaboratorId: string): Promise<ShoppingListCollaborator> {
+        const collaborator = await ShoppingListCollaborator.findOne({
+            where: {
+                id: collaboratorId,
+                shoppingListId: listId,
+                status: { [Op.in]: [CollaboratorStatus.PENDING, CollaboratorStatus.ACCEPTED] },
+            },
+        });
+
+        if (!collaborator) {
+            throw new NotFoundError('Collaborator not found');
+        }
+
+        return collaborator;
+    }
+
+    private static async sendInvitation(
+        collaborator: ShoppingListCollaborator,
+        list: ShoppingList,
+        invitee: User | null,
+    ): Promise<void> {
+        const owner = await User.findByPk(collaborator.invitedBy, { attributes: ['id', 'firstName', 'lastName'] });
+        const ownerName = owner ? `${owner.firstName} ${owner.lastName}`.trim() : 'Someone';
+
+        try {
+            if (invitee) {
+                await NotificationService.addNotification({
+                    userId: invitee.id,
+                    title: NotificationTypes.SHOPPING_LIST_INVITE,
+                    heading: 'Shopping List Invitation',
+                    message: `${ownerName} invited you to shop "${list.name}" together`,
+                    resource: collaborator.id,
+                    actorId: collaborator.invitedBy,
+                });
+            } else if (collaborator.inviteEmail) {
+                await emailService.send({
+                    email: collaborator.inviteEmail,
+                    subject: `${ownerName} shared a shopping list with you`,
+                    from: 'notifications',
+                    html: await new EmailTemplate().emailInvite({
+                        link: `${WEBSITE_URL}/signup?listInvite=${collaborator.id}`,
+                        name: ownerName,
+                    }),
+                });
+            }
+            // Phone-only invitations to people without an account wait until they sign up and verify that number
+        } catch (error) {
+            logger.error(`Failed to send shopping list invitation ${collaborator.id}:`, error);
+        }
+    }
+
+    private static async findUserByContact(email: string | null, phone: string | null): Promise<User | null> {
+        if (email) {
+            const user = await User.findOne({ where: { email }, attributes: ['id', 'firstName', 'lastName', 'email'] });
+            if (user) return user;
+        }
+
+        // Only a verified number proves the account belongs to the person invited
+        if (phone) {
+            return await User.findOne({
+                where: {
+                    [Op.and]: [
+                        Sequelize.where(
+                            Sequelize.fn('right', Sequelize.fn('regexp_replace', Sequelize.literal('"phone"->>\'number\''), '\\D', '', 'g'), 10),
+                            phone,
+                        ),
+                        { status: { phoneVerified: true } },
+                    ],
+                },
+                attributes: ['id', 'firstName', 'lastName', 'email'],
+            });
+        }
+
+        return null;
+    }
+
+    private static getContactMatches(user: User): WhereOptions<IShoppingListCollaborator>[] {
+        const matches: WhereOptions<IShoppingListCollaborator>[] = [{ userId: user.id }];
+
+        if (user.email) {
+            matches.push({ userId: null, inviteEmail: user.email.toLowerCase() });
+        }
+
+        // Anyone can sign up with a number, so phone invitations wait until it has been verified
+        const phone = user.phone?.number && user.status?.phoneVerified ? this.normalizePhone(user.phone.number) : null;
+        if (phone) {
+            matches.push({ userId: null, invitePhone: phone });
+        }
+
+        return matches;
+    }
+
+    // Nigerian numbers are compared on their last 10 digits, ignoring +234 or a leading 0
+    private static normalizePhone(phone: string): string | null {
+        const digits = phone.replace(/\D/g, '');
+        return digits.length >= 10 ? digits.slice(-10) : null;
+    }
+}
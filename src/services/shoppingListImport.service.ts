@@ -0,0 +1,364 @@
+import { Op, WhereOptions } from 'sequelize';
+import { v4 as uuidv4 } from 'uuid';
+import ShoppingList from '../models/shoppingList.model';
+import { IShoppingListItem } from '../models/shoppingListItem.model';
+import Market from '../models/market.model';
+import Product from '../models/product.model';
+import { BadRequestError, NotFoundError } from '../utils/customErrors';
+import UnitRegistry from '../utils/units';
+import PriceCalculatorService from './priceCalculator.service';
+import SystemSettingsService from './systemSettings.service';
+import ShoppingListService from './shoppingList.service';
+
+export interface IParsedListLine {
+    line: string; // The line as the user wrote it
+    quantity: number;
+    unit: string | null; // Canonical unit, e.g. 'paint' for "paints"
+    name: string;
+}
+
+export interface IProductMatch {
+    productId: string;
+    name: string;
+    price: number; // Marked-up price the customer would see on their list
+    image: string | null;
+    confidence: number; // 0 to 1
+}
+
+export interface IImportedItem extends IParsedListLine {
+    itemId: string; // Item on the new draft list
+    match: IProductMatch | null; // Linked product, when confident enough
+    suggestions: IProductMatch[]; // Other likely products to pick from
+}
+
+export interface IImportListData {
+    text: string;
+    marketId: string;
+    name?: string;
+}
+
+export interface IImportListResult {
+    shoppingList: ShoppingList;
+    items: IImportedItem[];
+    skippedLines: string[]; // Lines with no recognisable item
+    summary: {
+        matchedCount: number;
+        unmatchedCount: number;
+    };
+}
+
+/**
+ * Turns pasted notes like "2 tubers yam, 1 paint garri, 5 tomatoes" into a draft
+ * shopping list. Parsing and product matching are rule-based and run locally.
+ */
+export default class ShoppingListImportService {
+    private static readonly MAX_TEXT_LENGTH = 5000;
+    private static readonly MAX_LINES = 100;
+
+    // Matches below this are returned as suggestions rather than linked to the item
+    static readonly MATCH_THRESHOLD = 0.6;
+    private static readonly MAX_SUGGESTIONS = 3;
+
+    private static readonly NUMBER_WORDS: Record<string, number> = {
+        a: 1,
+        an: 1,
+        one: 1,
+        two: 2,
+        three: 3,
+        four: 4,
+        five: 5,
+        six: 6,
+        seven: 7,
+        eight: 8,
+        nine: 9,
+        ten: 10,
+        eleven: 11,
+        twelve: 12,
+        half: 0.5,
+        dozen: 12,
+    };
+
+    // Words that say nothing about which product is meant
+    private static readonly STOP_WORDS = new Set(['of', 'and', 'the', 'for', 'with', 'some', 'fresh', 'big', 'small', 'medium']);
+
+    /**
+     * Parse the text and create a draft list in the chosen market. Items that match a product
+     * confidently are linked to it and priced; the rest are added as typed, with suggestions.
+     */
+    static async importList(customerId: string, data: IImportListData): Promise<IImportListResult> {
+        const { text, marketId } = data;
+
+        if (!text || !text.trim()) {
+            throw new BadRequestError('Paste the list you want to import');
+        }
+
+        if (text.length > this.MAX_TEXT_LENGTH) {
+            throw new BadRequestError(`Lists can be at most ${this.MAX_TEXT_LENGTH} characters`);
+        }
+
+        const market = await Market.findByPk(marketId, { attributes: ['id', 'name'] });
+        if (!market) {
+            throw new NotFoundError('Market not found');
+        }
+
+        const { lines, skippedLines } = this.parseText(text);
+
+        if (lines.length === 0) {
+            throw new BadRequestError('No items could be read from the text');
+        }
+
+        if (lines.length > this.MAX_LINES) {
+            throw new BadRequestError(`A list can have at most ${this.MAX_LINES} items`);
+        }
+
+        const markupPercentage = await SystemSettingsService.getItemMarkupPercentage();
+
+        const matches: { match: IProductMatch | null; suggestions: IProductMatch[] }[] = [];
+        for (const line of lines) {
+            const ranked = await this.matchProducts(line.name, marketId, markupPercentage);
+            const best = ranked[0] && ranked[0].confidence >= this.MATCH_THRESHOLD ? ranked[0] : null;
+
+            matches.push({
+                match: best,
+                suggestions: ranked.slice(best ? 1 : 0, (best ? 1 : 0) + this.MAX_SUGGESTIONS),
+            });
+        }
+
+        // Ids are set up front so each imported line can point at the item it became
+        const itemIds = lines.map(() => uuidv4());
+
+        const items: Omit<IShoppingListItem, 'shoppingListId'>[] = lines.map((line, index) => {
+            const { match } = matches[index];
+            return {
+                id: itemIds[index],
+                name: match ? match.name : line.name,
+                quantity: line.quantity,
+                unit: line.unit,
+                notes: match && match.name.toLowerCase() !== line.name.toLowerCase() ? `Imported as "${line.line}"` : null,
+                productId: match?.productId ?? null,
+                productImage: match?.image ?? null,
+                estimatedPrice: match?.price ?? null,
+                addedBy: customerId,
+            };
+        });
+
+        const shoppingList = await ShoppingListService.createShoppingList(
+            {
+                name: data.name?.trim() || `Imported list - ${new Date().toLocaleDateString()}`,
+                customerId,
+                marketId,
+                status: 'draft',
+            },
+            items,
+        );
+
+        const importedItems: IImportedItem[] = lines.map((line, index) => ({
+            ...line,
+            itemId: itemIds[index],
+            ...matches[index],
+        }));
+
+        const matchedCount = importedItems.filter(item => item.match).length;
+
+        return {
+            shoppingList,
+            items: importedItems,
+            skippedLines,
+            summary: {
+                matchedCount,
+                unmatchedCount: importedItems.length - matchedCount,
+            },
+        };
+    }
+
+    /**
+     * Split pasted text into items. Items can be on separate lines or separated by commas,
+     * and may start with bullets or list numbering.
+     */
+    static parseText(text: string): { lines: IParsedListLine[]; skippedLines: string[] } {
+        const lines: IParsedListLine[] = [];
+        const skippedLines: string[] = [];
+
+        const entries = text
+            .split(/[\n\r,;]+/)
+            .map(entry => entry.trim())
+            .filter(Boolean);
+
+        for (const entry of entries) {
+            const parsed = this.parseLine(entry);
+            if (parsed) {
+                lines.push(parsed);
+            } else {
+                skippedLines.push(entry);
+            }
+        }
+
+        return { lines, skippedLines };
+    }
+
+    private static parseLine(entry: string): IParsedListLine | null {
+        const cleaned = entry
+            .replace(/^[-*•·>]+\s*/, '') // Bullets
+            .replace(/^\d+[.)]\s+/, '') // "1. " or "1) " numbering
+            .replace(/½/g, '0.5')
+            .toLowerCase();
+
+        const tokens = cleaned.split(/\s+/).filter(Boolean);
+
+        let quantity: number | null = null;
+        let unit: string | null = null;
+
+        // Leading quantity: "2", "2x", "1/2", "two", or a number stuck to its unit like "2kg"
+        if (tokens.length > 0) {
+            const joined = tokens[0].match(/^(\d+(?:\.\d+)?)([a-z]+)$/);
+            if (joined && (UnitRegistry.resolve(joined[2]) || joined[2] === 'x')) {
+                quantity = Number(joined[1]);
+                unit = UnitRegistry.resolve(joined[2]);
+                tokens.shift();
+            } else {
+                const value = this.parseQuantity(tokens[0]);
+                if (value !== null) {
+                    quantity = value;
+                    tokens.shift();
+                }
+            }
+        }
+
+        // "half a paint", "2 x yam"
+        if (quantity !== null && tokens.length > 0 && ['x', 'a', 'an'].includes(tokens[0])) {
+            tokens.shift();
+        }
+
+        // Two-word units first, so "paint bucket" isn't read as a paint of "bucket"
+        if (!unit && tokens.length > 1 && UnitRegistry.resolve(`${tokens[0]} ${tokens[1]}`)) {
+            unit = UnitRegistry.resolve(`${tokens[0]} ${tokens[1]}`);
+            tokens.splice(0, 2);
+        } else if (!unit && tokens.length > 0 && UnitRegistry.resolve(tokens[0])) {
+            unit = UnitRegistry.resolve(tokens[0]);
+            tokens.shift();
+        }
+
+        if (unit && tokens[0] === 'of') {
+            tokens.shift();
+        }
+
+        // Trailing quantity: "tomatoes 5", "tomatoes x5", "tomatoes x 5", "tomatoes (5)"
+        if (quantity === null && tokens.length > 1) {
+            const last = tokens[tokens.length - 1].replace(/[()]/g, '');
+            const trailing = last.match(/^x?(\d+(?:\.\d+)?)$/);
+            if (trailing) {
+                quantity = Number(trailing[1]);
+                tokens.pop();
+                if (tokens[tokens.length - 1] === 'x') {
+                    tokens.pop();
+                }
+            }
+        }
+
+        const name = tokens
+            .join(' ')
+            .replace(/[^a-z0-9\s'&-]/g, ' ')
+            .replace(/\s+/g, ' ')
+            .trim();
+
+        if (!name || !/[a-z]/.test(name)) {
+            return null;
+        }
+
+        return {
+            line: entry,
+            quantity: quantity && quantity > 0 ? quantity : 1,
+            unit,
+            name: name.replace(/\b[a-z]/g, letter => letter.toUpperCase()),
+        };
+    }
+
+    private static parseQuantity(token: string): number | null {
+        if (/^\d+(\.\d+)?x?$/.test(token)) {
+            return Number(token.replace('x', ''));
+        }
+
+        const fraction = token.match(/^(\d+)\/(\d+)$/);
+        if (fraction && Number(fraction[2]) > 0) {
+            return Number(fraction[1]) / Number(fraction[2]);
+        }
+
+        return this.NUMBER_WORDS[token] ?? null;
+    }
+
+    /**
+     * Available products in the market ranked by how well their names match, best first
+     */
+    private static async matchProducts(
+        name: string,
+        marketId: string,
+        markupPercentage: number,
+    ): Promise<IProductMatch[]> {
+        const keywords = this.getKeywords(name);
+        if (keywords.length === 0) {
+            return [];
+        }
+
+        // Match on word stems so "tomatoes" finds "Tomato" and vice versa
+        const matchers: WhereOptions<Product>[] = keywords.map(word => ({ name: { [Op.iLike]: `%${word}%` } }));
+
+        const candidates = await Product.findAll({
+            where: {
+                marketId,
+                isAvailable: true,
+                [Op.or]: matchers,
+            },
+            attributes: ['id', 'name', 'price', 'images'],
+            limit: 50,
+        });
+
+        return candidates
+            .map(candidate => ({
+                productId: candidate.id,
+                name: candidate.name,
+                price: candidate.price
+                    ? PriceCalculatorService.applyMarkup(Number(candidate.price), markupPercentage)
+                    : 0,
+                image: candidate.images && candidate.images.length > 0 ? candidate.images[0] : null,
+                confidence: this.scoreMatch(keywords, candidate.name),
+            }))
+            .filter(match => match.confidence > 0)
+            .sort((a, b) => b.confidence - a.confidence || a.name.length - b.name.length);
+    }
+
+    /**
+     * Share of the typed words found in the product name, weighted towards products
+     * that don't carry many extra words ("Yam" beats "Yam Flour" for "yam")
+     */
+    static scoreMatch(keywords: string[], productName: string): number {
+        const productWords = this.getKeywords(productName);
+        if (productWords.length === 0) {
+            return 0;
+        }
+
+        const found = keywords.filter(word => productWords.some(productWord => this.wordsMatch(word, productWord))).length;
+        const covered = productWords.filter(productWord => keywords.some(word => this.wordsMatch(word, productWord))).length;
+
+        const confidence = (found / keywords.length) * 0.7 + (covered / productWords.length) * 0.3;
+        return Math.round(confidence * 100) / 100;
+    }
+
+    private static wordsMatch(a: string, b: string): boolean {
+        return a === b || (Math.min(a.length, b.length) >= 4 && (a.startsWith(b) || b.startsWith(a)));
+    }
+
+    static getKeywords(text: string): string[] {
+        return text
+            .toLowerCase()
+            .split(/[^a-z0-9]+/)
+            .filter(word => word.length >= 2 && !this.STOP_WORDS.has(word) && !/^\d+$/.test(word))
+            .map(word => this.singularize(word));
+    }
+
+    private static singularize(word: string): string {
+        if (word.length > 4 && word.endsWith('oes')) return word.slice(0, -2); // tomatoes -> tomato
+        if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`; // berries -> berry
+        if (word.length > 3 && word.endsWith('s') && !word.endsWith('ss')) return word.slice(0, -1);
+        return word;
+    }
+}
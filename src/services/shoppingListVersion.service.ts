@@ -0,0 +1,359 @@
+import { Op, Transaction } from 'sequelize';
+import ShoppingList from '../models/shoppingList.model';
+import ShoppingListItem from '../models/shoppingListItem.model';
+import ShoppingListVersion, {
+    IShoppingListSnapshot,
+    IShoppingListVersion,
+    IShoppingListSnapshotItem,
+    ShoppingListChangeType,
+} from '../models/shoppingListVersion.model';
+import User from '../models/user.model';
+import { Database } from '../models';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../utils/customErrors';
+import Pagination, { IPaging } from '../utils/pagination';
+import { logger } from '../utils/logger';
+import ShoppingListCollaboratorService from './shoppingListCollaborator.service';
+
+export interface IFieldChange {
+    from: unknown;
+    to: unknown;
+}
+
+export interface IShoppingListDiff {
+    list: Record<string, IFieldChange>; // Name, notes, market and total
+    added: IShoppingListSnapshotItem[];
+    removed: IShoppingListSnapshotItem[];
+    changed: {
+        itemId: string;
+        name: string;
+        changes: Record<string, IFieldChange>;
+    }[];
+}
+
+export interface IVersionHistoryQuery {
+    page?: number;
+    size?: number;
+}
+
+export default class ShoppingListVersionService {
+    private static readonly LIST_FIELDS: (keyof IShoppingListSnapshot)[] = ['name', 'notes', 'marketId', 'estimatedTotal'];
+
+    private static readonly ITEM_FIELDS: (keyof IShoppingListSnapshotItem)[] = [
+        'name',
+        'quantity',
+        'unit',
+        'notes',
+        'estimatedPrice',
+        'userProvidedPrice',
+        'actualPrice',
+        'productId',
+        'substitutionPreference',
+    ];
+
+    private static readonly USER_ATTRIBUTES = ['id', 'firstName', 'lastName', 'displayImage'];
+
+    /**
+     * Snapshot the list as it is now. History is best-effort: a failure is logged
+     * and never undoes the change that triggered it.
+     */
+    static async recordVersion(
+        listId: string,
+        changeType: ShoppingListChangeType,
+        changedBy: string | null,
+        restoredFromVersion?: number,
+    ): Promise<ShoppingListVersion | null> {
+        try {
+            return await Database.transaction(async (transaction: Transaction) => {
+                // Lock the list so concurrent edits get consecutive version numbers
+                const list = await ShoppingList.findByPk(listId, {
+                    lock: transaction.LOCK.UPDATE,
+                    transaction,
+                });
+
+                if (!list) {
+                    return null;
+                }
+
+                const latest = await ShoppingListVersion.max<number, ShoppingListVersion>('version', {
+                    where: { shoppingListId: listId },
+                    transaction,
+                });
+
+                return await ShoppingListVersion.create(
+                    {
+                        shoppingListId: listId,
+                        version: (latest || 0) + 1,
+                        changeType,
+                        changedBy,
+                        snapshot: await this.takeSnapshot(list, transaction),
+                        restoredFromVersion: restoredFromVersion ?? null,
+                    },
+                    { transaction },
+                );
+            });
+        } catch (error) {
+            logger.error(`Failed to record version for shopping list ${listId}:`, error);
+            return null;
+        }
+    }
+
+    /**
+     * Versions newest first, each with what changed since the one before it
+     */
+    static async getHistory(
+        listId: string,
+        userId: string,
+        query: IVersionHistoryQuery,
+    ): Promise<{ versions: (IShoppingListVersion & { diff: IShoppingListDiff })[]; pagination: IPaging }> {
+        await this.getViewableList(listId, userId);
+
+        const { page, size } = query;
+
+        const queryOptions: { limit?: number; offset?: number } = {};
+        if (page && size && page > 0 && size > 0) {
+            const { limit, offset } = Pagination.getPagination({ page, size } as IPaging);
+            queryOptions.limit = limit ?? 0;
+            queryOptions.offset = offset ?? 0;
+        }
+
+        const { count, rows } = await ShoppingListVersion.findAndCountAll({
+            where: { shoppingListId: listId },
+            include: [{ model: User, as: 'changedByUser', attributes: this.USER_ATTRIBUTES }],
+            order: [['version', 'DESC']],
+            ...queryOptions,
+        });
+
+        // The oldest version on this page is diffed against the one just before it
+        const oldest = rows[rows.length - 1];
+        const previous = oldest && oldest.version > 1
+            ? await ShoppingListVersion.findOne({
+                where: { shoppingListId: listId, version: oldest.version - 1 },
+            })
+            : null;
+
+        const versions = rows.map((version, index) => {
+            const before = rows[index + 1] ?? previous;
+            return {
+                ...(version.toJSON() as IShoppingListVersion),
+                diff: this.diffSnapshots(before?.snapshot ?? null, version.snapshot),
+            };
+        });
+
+        let pagination: IPaging = { page: page || null, limit: size || null, size: size || null };
+        if (page && size && rows.length > 0) {
+            const totalPages = Pagination.estimateTotalPage({ count, limit: size } as IPaging);
+            pagination = { count, page, limit: size, size, ...totalPages };
+        }
+
+        return { versions, pagination };
+    }
+
+    /**
+     * What changed between any two versions of a list
+     */
+    static async compareVersions(
+        listId: string,
+        userId: string,
+        fromVersion: number,
+        toVersion: number,
+    ): Promise<{ from: ShoppingListVersion; to: ShoppingListVersion; diff: IShoppingListDiff }> {
+        await this.getViewableList(listId, userId);
+
+        const versions = await ShoppingListVersion.findAll({
+            where: { shoppingListId: listId, version: { [Op.in]: [fromVersion, toVersion] } },
+            include: [{ model: User, as: 'changedByUser', attributes: this.USER_ATTRIBUTES }],
+        });
+
+        const from = versions.find(version => version.version === fromVersion);
+        const to = versions.find(version => version.version === toVersion);
+
+        if (!from || !to) {
+            throw new NotFoundError('Version not found for this shopping list');
+        }
+
+        return { from, to, diff: this.diffSnapshots(from.snapshot, to.snapshot) };
+    }
+
+    /**
+     * Put a draft list's name, notes and items back the way they were at an earlier version.
+     * The restore is itself recorded as a new version, so it can be undone the same way.
+     */
+    static async restoreVersion(listId: string, userId: string, versionNumber: number): Promise<ShoppingList> {
+        const list = await ShoppingList.findByPk(listId);
+        if (!list) {
+            throw new NotFoundError('Shopping list not found');
+        }
+
+        await ShoppingListCollaboratorService.assertCanEdit(list, userId);
+
+        if (list.status !== 'draft') {
+            throw new BadRequestError('Only draft shopping lists can be restored');
+        }
+
+        const version = await ShoppingListVersion.findOne({
+            where: { shoppingListId: listId, version: versionNumber },
+        });
+
+        if (!version) {
+            throw new NotFoundError('Version not found for this shopping list');
+        }
+
+        const { snapshot } = version;
+
+        if (snapshot.marketId !== list.marketId && list.customerId !== userId) {
+            throw new ForbiddenError('Only the list owner can restore a version for a different market');
+        }
+
+        await Database.transaction(async (transaction: Transaction) => {
+            const snapshotItemIds = snapshot.items.map(item => item.id);
+
+            await ShoppingListItem.destroy({
+                where: { shoppingListId: listId, id: { [Op.notIn]: snapshotItemIds } },
+                transaction,
+            });
+
+            // Items keep their original ids so later diffs line up with earlier versions
+            for (const item of snapshot.items) {
+                const existing = await ShoppingListItem.findOne({
+                    where: { id: item.id, shoppingListId: listId },
+                    transaction,
+                });
+
+                const values = {
+                    name: item.name,
+                    quantity: item.quantity,
+                    unit: item.unit,
+                    notes: item.notes,
+                    estimatedPrice: item.estimatedPrice,
+                    userProvidedPrice: item.userProvidedPrice,
+                    productId: item.productId,
+                    productImage: item.productImage,
+                    substitutionPreference: item.substitutionPreference,
+                    updatedBy: userId,
+                };
+
+                if (existing) {
+                    await existing.update({ ...values, version: existing.version + 1 }, { transaction });
+                } else {
+                    await ShoppingListItem.create(
+                        { ...values, id: item.id, shoppingListId: listId, addedBy: item.addedBy },
+                        { transaction },
+                    );
+                }
+            }
+
+            const estimatedTotal = snapshot.items.reduce(
+                (total, item) => total + (Number(item.estimatedPrice || item.userProvidedPrice) || 0) * (item.quantity || 1),
+                0,
+            );
+
+            await list.update(
+                {
+                    name: snapshot.name,
+                    notes: snapshot.notes as string,
+                    marketId: snapshot.marketId as string,
+                    estimatedTotal,
+                },
+                { transaction },
+            );
+        });
+
+        await this.recordVersion(listId, ShoppingListChangeType.RESTORED, userId, versionNumber);
+
+        ShoppingListCollaboratorService.broadcastListUpdate(listId, { type: 'list_updated', updatedBy: userId });
+
+        return (await ShoppingList.findByPk(listId, {
+            include: [{ model: ShoppingListItem, as: 'items' }],
+        })) as ShoppingList;
+    }
+
+    /**
+     * The owner, collaborators and the assigned agent can see a list's history
+     */
+    private static async getViewableList(listId: string, userId: string): Promise<ShoppingList> {
+        const list = await ShoppingList.findByPk(listId);
+        if (!list) {
+            throw new NotFoundError('Shopping list not found');
+        }
+
+        if (list.agentId !== userId) {
+            await ShoppingListCollaboratorService.assertCanView(list, userId);
+        }
+
+        return list;
+    }
+
+    private static async takeSnapshot(list: ShoppingList, transaction: Transaction): Promise<IShoppingListSnapshot> {
+        const items = await ShoppingListItem.findAll({
+            where: { shoppingListId: list.id },
+            order: [['createdAt', 'ASC']],
+            transaction,
+        });
+
+        const toNumber = (value: number | null) => (value === null || value === undefined ? null : Number(value));
+
+        return {
+            name: list.name,
+            notes: list.notes ?? null,
+            marketId: list.marketId ?? null,
+            status: list.status,
+            estimatedTotal: toNumber(list.estimatedTotal),
+            items: items.map(item => ({
+                id: item.id,
+                name: item.name,
+                quantity: Number(item.quantity),
+                unit: item.unit,
+                notes: item.notes,
+                estimatedPrice: toNumber(item.estimatedPrice),
+                userProvidedPrice: toNumber(item.userProvidedPrice),
+                actualPrice: toNumber(item.actualPrice),
+                productId: item.productId ?? null,
+                productImage: item.productImage,
+                substitutionPreference: item.substitutionPreference,
+                addedBy: item.addedBy,
+            })),
+        };
+    }
+
+    private static diffSnapshots(before: IShoppingListSnapshot | null, after: IShoppingListSnapshot): IShoppingListDiff {
+        const diff: IShoppingListDiff = { list: {}, added: [], removed: [], changed: [] };
+
+        // The first version has nothing to compare against; everything on it was added
+        if (!before) {
+            diff.added = after.items;
+            return diff;
+        }
+
+        for (const field of this.LIST_FIELDS) {
+            if (before[field] !== after[field]) {
+                diff.list[field] = { from: before[field], to: after[field] };
+            }
+        }
+
+        const beforeItems = new Map(before.items.map(item => [item.id, item]));
+        const afterItems = new Map(after.items.map(item => [item.id, item]));
+
+        for (const item of after.items) {
+            const previous = beforeItems.get(item.id);
+            if (!previous) {
+                diff.added.push(item);
+                continue;
+            }
+
+            const changes: Record<string, IFieldChange> = {};
+            for (const field of this.ITEM_FIELDS) {
+                if (previous[field] !== item[field]) {
+                    changes[field] = { from: previous[field], to: item[field] };
+                }
+            }
+
+            if (Object.keys(changes).length > 0) {
+                diff.changed.push({ itemId: item.id, name: item.name, changes });
+            }
+        }
+
+        diff.removed = before.items.filter(item => !afterItems.has(item.id));
+
+        return diff;
+    }
+}
@@ -0,0 +1,37 @@
+import axios from 'axios';
+import { TERMII_API_KEY, TERMII_API_URL, TERMII_SENDER_ID } from '../utils/constants';
+import { BadRequestError } from '../utils/customErrors';
+import { logger } from '../utils/logger';
+
+export default class SmsService {
+    /**
+     * Send a text message through Termii. Numbers are sent in international format without the +.
+     */
+    static async send(countryCode: string, number: string, message: string): Promise<void> {
+        if (!TERMII_API_KEY) {
+            logger.error('TERMII_API_KEY is not set; cannot send SMS');
+            throw new BadRequestError('Text messages are not available right now. Please try again later.');
+        }
+
+        try {
+            await axios.post(`${TERMII_API_URL}/api/sms/send`, {
+                api_key: TERMII_API_KEY,
+                to: this.toInternational(countryCode, number),
+                from: TERMII_SENDER_ID,
+                sms: message,
+                type: 'plain',
+                channel: 'dnd', // Delivers to numbers on the do-not-disturb list, which one-time codes need
+            });
+        } catch (error) {
+            logger.error('Failed to send SMS:', error);
+            throw new BadRequestError('We could not send a text message to this number');
+        }
+    }
+
+    private static toInternational(countryCode: string, number: string): string {
+        const code = (countryCode || '+234').replace(/\D/g, '');
+        const digits = number.replace(/\D/g, '').replace(/^0/, '');
+
+        return digits.startsWith(code) ? digits : `${code}${digits}`;
+    }
+}
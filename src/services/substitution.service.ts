@@ -0,0 +1,547 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Op, Transaction } from 'sequelize';
+import ItemSubstitution, { ISubstitutedItemSnapshot, SubstitutionStatus } from '../models/itemSubstitution.model';
+import Order from '../models/order.model';
+import Product from '../models/product.model';
+import ShoppingList from '../models/shoppingList.model';
+import ShoppingListItem, { SubstitutionPreference } from '../models/shoppingListItem.model';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../utils/customErrors';
+import { Database } from '../models';
+import { logger } from '../utils/logger';
+import { NotificationTypes } from '../utils/interface';
+import NotificationService from './notification.service';
+import OrderTrailService from './orderTrail.service';
+import PriceCalculatorService from './priceCalculator.service';
+import PriceVarianceService from './priceVariance.service';
+import SystemSettingsService from './systemSettings.service';
+
+export interface ISubstitutionProposal {
+    productId?: string | null;
+    name?: string;
+    price: number;
+    quantity?: number;
+    unit?: string | null;
+    notes?: string | null;
+}
+
+export type SubstitutionTimeoutResolution = 'none' | 'auto_accepted' | 'expired';
+
+export default class SubstitutionService {
+    private static readonly MAX_PROPOSALS_PER_ITEM = 3;
+
+    /**
+     * Agent proposes one or more replacements for an out-of-stock item.
+     * Any earlier pending proposals for the same item are superseded.
+     */
+    static async proposeSubstitutions(
+        orderId: string,
+        shoppingListItemId: string,
+        agentId: string,
+        proposals: ISubstitutionProposal[],
+    ): Promise<ItemSubstitution[]> {
+        if (!proposals || proposals.length === 0) {
+            throw new BadRequestError('At least one substitute is required');
+        }
+
+        if (proposals.length > this.MAX_PROPOSALS_PER_ITEM) {
+            throw new BadRequestError(`You can propose at most ${this.MAX_PROPOSALS_PER_ITEM} substitutes per item`);
+        }
+
+        const timeoutMinutes = await SystemSettingsService.getSubstitutionResponseTimeout();
+
+        const { order, item, substitutions } = await Database.transaction(async (transaction: Transaction) => {
+            const order = await Order.findOne({
+                where: { id: orderId, agentId },
+                include: [
+                    {
+                        model: ShoppingList,
+                        as: 'shoppingList',
+                        attributes: ['id', 'marketId'],
+                    },
+                ],
+                transaction,
+            });
+
+            if (!order) {
+                throw new NotFoundError('Order not found or not assigned to this agent');
+            }
+
+            if (order.status !== 'shopping') {
+                throw new BadRequestError('Substitutions can only be proposed while shopping');
+            }
+
+            const item = await ShoppingListItem.findOne({
+                where: { id: shoppingListItemId, shoppingListId: order.shoppingListId },
+                transaction,
+            });
+
+            if (!item) {
+                throw new NotFoundError('Item not found in this order');
+            }
+
+            if (item.substitutionPreference === SubstitutionPreference.NO_SUBSTITUTE) {
+                throw new BadRequestError('The customer does not accept substitutes for this item');
+            }
+
+            const expiresAt = new Date(Date.now() + timeoutMinutes * 60 * 1000);
+            const records = [];
+
+            for (const proposal of proposals) {
+                const price = Number(proposal.price);
+                const priceValidation = PriceCalculatorService.validatePrice(price);
+                if (!proposal.price || isNaN(price) || !priceValidation.valid) {
+                    throw new BadRequestError(priceValidation.error || 'A valid price is required for each substitute');
+                }
+
+                let name = proposal.name;
+                let image: string | null = null;
+
+                if (proposal.productId) {
+                    const product = await Product.findByPk(proposal.productId, { transaction });
+
+                    if (!product) {
+                        throw new NotFoundError(`Product ${proposal.productId} not found`);
+                    }
+
+                    // Substitutes must come from the market the agent is shopping in
+                    if (product.marketId !== order.shoppingList?.marketId) {
+                        throw new BadRequestError(`${product.name} is not sold in this order's market`);
+                    }
+
+                    name = product.name;
+                    image = product.images && product.images.length > 0 ? product.images[0] : null;
+                }
+
+                if (!name) {
+                    throw new BadRequestError('Each substitute needs a product or a name');
+                }
+
+                records.push({
+                    orderId: order.id,
+                    shoppingListItemId: item.id,
+                    productId: proposal.productId || null,
+                    agentId,
+                    customerId: order.customerId,
+                    name,
+                    price: PriceCalculatorService.roundPrice(price),
+                    quantity: proposal.quantity || item.quantity || 1,
+                    unit: proposal.unit ?? item.unit,
+                    image,
+                    agentNotes: proposal.notes || null,
+                    status: SubstitutionStatus.PENDING,
+                    expiresAt,
+                });
+            }
+
+            // A fresh round of proposals replaces whatever the customer hasn't answered yet
+            await ItemSubstitution.update(
+                { status: SubstitutionStatus.SUPERSEDED, respondedAt: new Date() },
+                {
+                    where: { shoppingListItemId: item.id, status: SubstitutionStatus.PENDING },
+                    transaction,
+                },
+            );
+
+            const substitutions = await ItemSubstitution.bulkCreate(records, { transaction });
+
+            return { order, item, substitutions };
+        });
+
+        // Schedule the auto-accept / expiry check once the proposals are committed
+        const { queueSubstitutionTimeout } = await import('../queues/substitution.queue');
+        await queueSubstitutionTimeout(order.id, item.id, timeoutMinutes);
+
+        await OrderTrailService.logOrderEvent(order.id, {
+            action: 'substitution_proposed',
+            description: `Agent proposed ${substitutions.length} substitute(s) for ${item.name}`,
+            performedBy: agentId,
+            metadata: {
+                shoppingListItemId: item.id,
+                substitutionPreference: item.substitutionPreference,
+                substitutes: substitutions.map(s => ({ id: s.id, name: s.name, price: s.price })),
+                expiresAt: substitutions[0].expiresAt,
+            },
+        });
+
+        try {
+            await NotificationService.addNotification({
+                userId: order.customerId,
+                title: NotificationTypes.SUBSTITUTION_PROPOSED,
+                heading: 'Substitute Suggested',
+                message: `${item.name} is unavailable for order #${order.orderNumber}. Please review the suggested substitute(s) within ${timeoutMinutes} minutes.`,
+                resource: order.id,
+                actorId: agentId,
+            });
+        } catch (notificationError) {
+            logger.error(`Failed to send substitution notification for order ${order.orderNumber}:`, notificationError);
+        }
+
+        return substitutions;
+    }
+
+    /**
+     * Get all substitutions for an order, visible to the customer and the assigned agent
+     */
+    static async getOrderSubstitutions(orderId: string, userId: string): Promise<ItemSubstitution[]> {
+        const order = await Order.findByPk(orderId, {
+            attributes: ['id', 'customerId', 'agentId'],
+        });
+
+        if (!order) {
+            throw new NotFoundError('Order not found');
+        }
+
+        if (order.customerId !== userId && order.agentId !== userId) {
+            throw new ForbiddenError('You are not authorized to view substitutions for this order');
+        }
+
+        return await ItemSubstitution.findAll({
+            where: { orderId },
+            include: [
+                {
+                    model: ShoppingListItem,
+                    as: 'shoppingListItem',
+                    attributes: ['id', 'name', 'quantity', 'unit', 'substitutionPreference'],
+                },
+                {
+                    model: Product,
+                    as: 'product',
+                    attributes: ['id', 'name', 'price', 'images'],
+                    required: false,
+                },
+            ],
+            order: [['createdAt', 'DESC']],
+        });
+    }
+
+    /**
+     * Customer approves a proposed substitute
+     */
+    static async approveSubstitution(
+        orderId: string,
+        substitutionId: string,
+        customerId: string,
+        notes?: string,
+    ): Promise<ItemSubstitution> {
+        const substitution = await Database.transaction(async (transaction: Transaction) => {
+            const { substitution, order } = await this.getPendingSubstitutionForCustomer(
+                orderId,
+                substitutionId,
+                customerId,
+                transaction,
+            );
+
+            if (notes) {
+                substitution.customerNotes = notes;
+            }
+
+            await this.applySubstitution(substitution, order, SubstitutionStatus.APPROVED, transaction);
+
+            return substitution;
+        });
+
+        await OrderTrailService.logOrderEvent(substitution.orderId, {
+            action: 'substitution_approved',
+            description: `Customer approved ${substitution.name} as a substitute`,
+            performedBy: customerId,
+            previousValue: substitution.originalItem,
+            newValue: { name: substitution.name, productId: substitution.productId, actualPrice: substitution.price },
+            metadata: { substitutionId: substitution.id, shoppingListItemId: substitution.shoppingListItemId },
+        });
+
+        await this.notifyAgent(
+            substitution,
+            NotificationTypes.SUBSTITUTION_APPROVED,
+            'Substitute Approved',
+            `The customer approved ${substitution.name}. Go ahead and pick it up.`,
+        );
+
+        await this.evaluatePriceVariance(substitution.orderId, customerId);
+
+        return substitution;
+    }
+
+    /**
+     * Customer rejects a proposed substitute
+     */
+    static async rejectSubstitution(
+        orderId: string,
+        substitutionId: string,
+        customerId: string,
+        notes?: string,
+    ): Promise<ItemSubstitution> {
+        const substitution = await Database.transaction(async (transaction: Transaction) => {
+            const { substitution } = await this.getPendingSubstitutionForCustomer(
+                orderId,
+                substitutionId,
+                customerId,
+                transaction,
+            );
+
+            await substitution.update(
+                {
+                    status: SubstitutionStatus.REJECTED,
+                    respondedAt: new Date(),
+                    customerNotes: notes || null,
+                },
+                { transaction },
+            );
+
+            return substitution;
+        });
+
+        await OrderTrailService.logOrderEvent(substitution.orderId, {
+            action: 'substitution_rejected',
+            description: `Customer rejected ${substitution.name} as a substitute`,
+            performedBy: customerId,
+            metadata: {
+                substitutionId: substitution.id,
+                shoppingListItemId: substitution.shoppingListItemId,
+                notes: notes || null,
+            },
+        });
+
+        await this.notifyAgent(
+            substitution,
+            NotificationTypes.SUBSTITUTION_REJECTED,
+            'Substitute Rejected',
+            `The customer rejected ${substitution.name}.${notes ? ` Note: ${notes}` : ''}`,
+        );
+
+        return substitution;
+    }
+
+    /**
+     * Resolve proposals the customer didn't answer in time.
+     * "Any brand" items take the cheapest substitute; "call me" items expire so the agent follows up.
+     */
+    static async resolveExpiredSubstitutions(
+        orderId: string,
+        shoppingListItemId: string,
+    ): Promise<SubstitutionTimeoutResolution> {
+        const result = await Database.transaction(async (transaction: Transaction) => {
+            const pending = await ItemSubstitution.findAll({
+                where: {
+                    orderId,
+                    shoppingListItemId,
+                    status: SubstitutionStatus.PENDING,
+                    expiresAt: { [Op.lte]: new Date() },
+                },
+                order: [['price', 'ASC']],
+                transaction,
+                lock: transaction.LOCK.UPDATE,
+            });
+
+            if (pending.length === 0) {
+                return { resolution: 'none' as SubstitutionTimeoutResolution, substitution: null };
+            }
+
+            const order = await Order.findByPk(orderId, { transaction });
+            const item = await ShoppingListItem.findByPk(shoppingListItemId, { transaction });
+
+            const canAutoAccept = order?.status === 'shopping' &&
+                item?.substitutionPreference === SubstitutionPreference.ANY_BRAND;
+
+            if (!order || !canAutoAccept) {
+                await ItemSubstitution.update(
+                    { status: SubstitutionStatus.EXPIRED, respondedAt: new Date() },
+                    {
+                        where: { id: { [Op.in]: pending.map(s => s.id) } },
+                        transaction,
+                    },
+                );
+                return { resolution: 'expired' as SubstitutionTimeoutResolution, substitution: pending[0] };
+            }
+
+            const cheapest = pending[0];
+            await this.applySubstitution(cheapest, order, SubstitutionStatus.AUTO_ACCEPTED, transaction);
+
+            return { resolution: 'auto_accepted' as SubstitutionTimeoutResolution, substitution: cheapest };
+        });
+
+        const { resolution, substitution } = result;
+
+        if (resolution === 'auto_accepted' && substitution) {
+            await OrderTrailService.logOrderEvent(orderId, {
+                action: 'substitution_auto_accepted',
+                description: `${substitution.name} was accepted automatically after the customer did not respond`,
+                performedBy: 'system',
+                previousValue: substitution.originalItem,
+                newValue: { name: substitution.name, productId: substitution.productId, actualPrice: substitution.price },
+                metadata: { substitutionId: substitution.id, shoppingListItemId },
+            });
+
+            await this.notifyAgent(
+                substitution,
+                NotificationTypes.SUBSTITUTION_APPROVED,
+                'Substitute Auto-Accepted',
+                `No response from the customer, so ${substitution.name} was accepted automatically.`,
+            );
+
+            await this.evaluatePriceVariance(orderId, 'system');
+        } else if (resolution === 'expired' && substitution) {
+            await OrderTrailService.logOrderEvent(orderId, {
+                action: 'substitution_expired',
+                description: 'Substitution proposals expired without a customer response',
+                performedBy: 'system',
+                metadata: { shoppingListItemId },
+            });
+
+            await this.notifyAgent(
+                substitution,
+                NotificationTypes.SUBSTITUTION_REJECTED,
+                'Substitute Not Confirmed',
+                'The customer did not respond to your suggested substitute. Please call them before replacing the item.',
+            );
+        }
+
+        return resolution;
+    }
+
+    private static async getPendingSubstitutionForCustomer(
+        orderId: string,
+        substitutionId: string,
+        customerId: string,
+        transaction: Transaction,
+    ): Promise<{ substitution: ItemSubstitution; order: Order }> {
+        const substitution = await ItemSubstitution.findByPk(substitutionId, {
+            transaction,
+            lock: transaction.LOCK.UPDATE,
+        });
+
+        if (!substitution || substitution.orderId !== orderId) {
+            throw new NotFoundError('Substitution not found');
+        }
+
+        if (substitution.customerId !== customerId) {
+            throw new ForbiddenError('You are not authorized to respond to this substitution');
+        }
+
+        if (substitution.status !== SubstitutionStatus.PENDING) {
+            throw new BadRequestError(`This substitution has already been ${substitution.status.replace('_', ' ')}`);
+        }
+
+        const order = await Order.findByPk(substitution.orderId, { transaction });
+
+        if (!order || order.status !== 'shopping') {
+            throw new BadRequestError('Substitutions can only be answered while the order is being shopped');
+        }
+
+        return { substitution, order };
+    }
+
+    /**
+     * Swap the list item for the accepted substitute and refresh the order total
+     */
+    private static async applySubstitution(
+        substitution: ItemSubstitution,
+        order: Order,
+        status: SubstitutionStatus.APPROVED | SubstitutionStatus.AUTO_ACCEPTED,
+        transaction: Transaction,
+    ): Promise<void> {
+        const item = await ShoppingListItem.findByPk(substitution.shoppingListItemId, { transaction });
+
+        if (!item) {
+            throw new NotFoundError('The item being substituted no longer exists');
+        }
+
+        const originalItem: ISubstitutedItemSnapshot = {
+            name: item.name,
+            productId: item.productId || null,
+            quantity: Number(item.quantity),
+            unit: item.unit,
+            estimatedPrice: item.estimatedPrice !== null ? Number(item.estimatedPrice) : null,
+            actualPrice: item.actualPrice !== null ? Number(item.actualPrice) : null,
+            productImage: item.productImage,
+        };
+
+        await item.update(
+            {
+                name: substitution.name,
+                productId: substitution.productId,
+                quantity: substitution.quantity,
+                unit: substitution.unit,
+                actualPrice: substitution.price,
+                productImage: substitution.image || item.productImage,
+            },
+            { transaction },
+        );
+
+        await substitution.update(
+            {
+                status,
+                respondedAt: new Date(),
+                originalItem,
+            },
+            { transaction },
+        );
+
+        // Any other open proposals for this item are no longer relevant
+        await ItemSubstitution.update(
+            { status: SubstitutionStatus.SUPERSEDED, respondedAt: new Date() },
+            {
+                where: {
+                    shoppingListItemId: substitution.shoppingListItemId,
+                    status: SubstitutionStatus.PENDING,
+                    id: { [Op.ne]: substitution.id },
+                },
+                transaction,
+            },
+        );
+
+        await this.recalculateOrderTotal(order, transaction);
+    }
+
+    /**
+     * Recalculate the order total using actual prices where the agent has recorded them
+     */
+    private static async recalculateOrderTotal(order: Order, transaction: Transaction): Promise<void> {
+        const items = await ShoppingListItem.findAll({
+            where: { shoppingListId: order.shoppingListId },
+            transaction,
+        });
+
+        const subtotal = PriceCalculatorService.calculateSubtotal(
+            items.map(i => i.get({ plain: true })),
+            true,
+        );
+
+        const totalAmount = PriceCalculatorService.roundPrice(
+            subtotal +
+            Number(order.serviceFee || 0) +
+            Number(order.deliveryFee || 0) -
+            Number(order.discountAmount || 0) +
+            Number(order.tipAmount || 0),
+        );
+
+        await order.update({ totalAmount }, { transaction });
+    }
+
+    private static async evaluatePriceVariance(orderId: string, performedBy: string): Promise<void> {
+        try {
+            await PriceVarianceService.evaluateOrderVariance(orderId, performedBy);
+        } catch (error) {
+            logger.error(`Failed to evaluate price variance after substitution on order ${orderId}:`, error);
+        }
+    }
+
+    private static async notifyAgent(
+        substitution: ItemSubstitution,
+        title: NotificationTypes,
+        heading: string,
+        message: string,
+    ): Promise<void> {
+        try {
+            await NotificationService.addNotification({
+                userId: substitution.agentId,
+                title,
+                heading,
+                message,
+                resource: substitution.orderId,
+                actorId: substitution.customerId,
+            });
+        } catch (notificationError) {
+            logger.error(`Failed to notify agent about substitution ${substitution.id}:`, notificationError);
+        }
+    }
+}
@@ -1,8 +1,13 @@
 import SystemSettings, {
+    IAgentCommissionRules,
+    IDeliverySlotSettings,
+    IOrderSlaSettings,
     ISettingValue,
+    IUnitConversionSettings,
     SYSTEM_SETTING_KEYS,
 } from '../models/systemSettings.model';
 import { redisClient as redis } from '../utils/redis';
+import UnitRegistry from '../utils/units';
 
 export default class SystemSettingsService {
     // In-memory cache as fallback
@@ -354,6 +359,102 @@ export default class SystemSettingsService {
                     isPublic: false,
                 },
             },
+            {
+                key: SYSTEM_SETTING_KEYS.SUBSTITUTION_RESPONSE_TIMEOUT_MINUTES,
+                value: {
+                    value: 10,
+                    type: 'number' as const,
+                    description: 'Minutes a customer has to respond to a substitution before it is auto-accepted',
+                    category: 'business_rules',
+                    isPublic: true,
+                    validation: { min: 2, max: 60 },
+                },
+            },
+            {
+                key: SYSTEM_SETTING_KEYS.PRICE_VARIANCE_APPROVAL_THRESHOLD,
+                value: {
+                    value: 1000,
+                    type: 'number' as const,
+                    description: 'Top-ups above this amount (in Naira) need customer approval before they are charged',
+                    category: 'pricing',
+                    isPublic: true,
+                    validation: { min: 0, max: 100000 },
+                },
+            },
+            {
+                key: SYSTEM_SETTING_KEYS.AGENT_COMMISSION_RULES,
+                value: {
+                    value: {
+                        deliveryFeePercentage: 15,
+                        serviceFeePercentage: 0,
+                        flatAmountPerOrder: 0,
+                        minimumPerOrder: 0,
+                        reimburseShoppingCosts: true,
+                    },
+                    type: 'object' as const,
+                    description: 'How agent commission is calculated for each completed order',
+                    category: 'agent_payouts',
+                    isPublic: false,
+                },
+            },
+            {
+                key: SYSTEM_SETTING_KEYS.AGENT_PAYOUT_MINIMUM_AMOUNT,
+                value: {
+                    value: 1000,
+                    type: 'number' as const,
+                    description: 'Smallest available balance (in Naira) that is included in a payout batch',
+                    category: 'agent_payouts',
+                    isPublic: true,
+                    validation: { min: 0 },
+                },
+            },
+            {
+                key: SYSTEM_SETTING_KEYS.DELIVERY_SLOT_SETTINGS,
+                value: {
+                    value: {
+                        slotDurationMinutes: 120,
+                        defaultMarketCapacity: 10,
+                        marketCapacities: {},
+                        defaultZoneCapacity: 0,
+                        zoneCapacities: {},
+                        minimumLeadTimeMinutes: 120,
+                        maxDaysAhead: 7,
+                        assignmentLeadTimeMinutes: 90,
+                    },
+                    type: 'object' as const,
+                    description: 'Delivery window length, capacity per market and zone, and agent assignment lead time',
+                    category: 'delivery',
+                    isPublic: false,
+                },
+            },
+            {
+                key: SYSTEM_SETTING_KEYS.ORDER_SLA_SETTINGS,
+                value: {
+                    value: {
+                        assignmentMinutes: 10,
+                        shoppingStartMinutes: 30,
+                        shoppingMinutes: 120,
+                        atRiskPercentage: 80,
+                        ticketAfterMinutes: 30,
+                    },
+                    type: 'object' as const,
+                    description: 'How long orders may wait for an agent, for shopping to start and for shopping to finish',
+                    category: 'orders',
+                    isPublic: false,
+                },
+            },
+            {
+                key: SYSTEM_SETTING_KEYS.UNIT_CONVERSIONS,
+                value: {
+                    value: {
+                        localUnits: UnitRegistry.DEFAULT_LOCAL_UNITS,
+                    },
+                    type: 'object' as const,
+                    description: 'Approximate weight, volume or count of local market units like mudu, derica and paint bucket',
+                    category: 'pricing',
+                    isPublic: true,
+                },
+            },
         ];
 
         // Run all findOrCreate in parallel for maximum performance
@@ -401,26 +502,30 @@ export default class SystemSettingsService {
     static async calculateTotal(
         subtotal: number,
         discountAmount: number = 0,
-        options?: { deliveryFee?: number }
+        options?: { deliveryFee?: number; tipAmount?: number }
     ): Promise<{
         subtotal: number;
         serviceFee: number;
         deliveryFee: number;
         discountAmount: number;
+        tipAmount: number;
         total: number;
     }> {
         const serviceFee = await this.calculateServiceFee(subtotal);
         const deliveryFee = options?.deliveryFee !== undefined
             ? options.deliveryFee
             : await this.getDeliveryFee();
+        const tipAmount = Math.max(0, options?.tipAmount || 0);
 
-        const total = subtotal + serviceFee + deliveryFee - discountAmount;
+        // The tip goes to the agent in full, so it is added after fees and discounts
+        const total = Math.max(0, subtotal + serviceFee + deliveryFee - discountAmount) + tipAmount;
 
         return {
             subtotal: Math.round(subtotal * 100) / 100,
             serviceFee: Math.round(serviceFee * 100) / 100,
             deliveryFee: Math.round(deliveryFee * 100) / 100,
             discountAmount: Math.round(discountAmount * 100) / 100,
+            tipAmount: Math.round(tipAmount * 100) / 100,
             total: Math.round(total * 100) / 100,
         };
     }
@@ -429,6 +534,67 @@ export default class SystemSettingsService {
         return await this.getSetting(SYSTEM_SETTING_KEYS.PAYMENT_TIMEOUT_MINUTES);
     }
 
+    static async getSubstitutionResponseTimeout(): Promise<number> {
+        const timeout = await this.getSetting(SYSTEM_SETTING_KEYS.SUBSTITUTION_RESPONSE_TIMEOUT_MINUTES);
+        return timeout || 10;
+    }
+
+    static async getPriceVarianceApprovalThreshold(): Promise<number> {
+        const threshold = await this.getSetting(SYSTEM_SETTING_KEYS.PRICE_VARIANCE_APPROVAL_THRESHOLD);
+        return threshold ?? 1000;
+    }
+
+    static async getAgentCommissionRules(): Promise<IAgentCommissionRules> {
+        const rules = await this.getSetting(SYSTEM_SETTING_KEYS.AGENT_COMMISSION_RULES);
+        return {
+            deliveryFeePercentage: Number(rules?.deliveryFeePercentage ?? 15),
+            serviceFeePercentage: Number(rules?.serviceFeePercentage ?? 0),
+            flatAmountPerOrder: Number(rules?.flatAmountPerOrder ?? 0),
+            minimumPerOrder: Number(rules?.minimumPerOrder ?? 0),
+            reimburseShoppingCosts: rules?.reimburseShoppingCosts ?? true,
+        };
+    }
+
+    static async getAgentPayoutMinimumAmount(): Promise<number> {
+        const minimum = await this.getSetting(SYSTEM_SETTING_KEYS.AGENT_PAYOUT_MINIMUM_AMOUNT);
+        return minimum ?? 1000;
+    }
+
+    static async getDeliverySlotSettings(): Promise<IDeliverySlotSettings> {
+        const settings = await this.getSetting(SYSTEM_SETTING_KEYS.DELIVERY_SLOT_SETTINGS);
+        return {
+            slotDurationMinutes: Number(settings?.slotDurationMinutes ?? 120),
+            defaultMarketCapacity: Number(settings?.defaultMarketCapacity ?? 10),
+            marketCapacities: settings?.marketCapacities ?? {},
+            defaultZoneCapacity: Number(settings?.defaultZoneCapacity ?? 0),
+            zoneCapacities: settings?.zoneCapacities ?? {},
+            minimumLeadTimeMinutes: Number(settings?.minimumLeadTimeMinutes ?? 120),
+            maxDaysAhead: Number(settings?.maxDaysAhead ?? 7),
+            assignmentLeadTimeMinutes: Number(settings?.assignmentLeadTimeMinutes ?? 90),
+        };
+    }
+
+    static async getOrderSlaSettings(): Promise<IOrderSlaSettings> {
+        const settings = await this.getSetting(SYSTEM_SETTING_KEYS.ORDER_SLA_SETTINGS);
+        return {
+            assignmentMinutes: Number(settings?.assignmentMinutes ?? 10),
+            shoppingStartMinutes: Number(settings?.shoppingStartMinutes ?? 30),
+            shoppingMinutes: Number(settings?.shoppingMinutes ?? 120),
+            atRiskPercentage: Number(settings?.atRiskPercentage ?? 80),
+            ticketAfterMinutes: Number(settings?.ticketAfterMinutes ?? 30),
+        };
+    }
+
+    /**
+     * Local unit sizes, with any unit missing from the stored setting filled in from the defaults
+     */
+    static async getUnitConversionSettings(): Promise<IUnitConversionSettings> {
+        const settings = await this.getSetting(SYSTEM_SETTING_KEYS.UNIT_CONVERSIONS);
+        return {
+            localUnits: { ...UnitRegistry.DEFAULT_LOCAL_UNITS, ...(settings?.localUnits ?? {}) },
+        };
+    }
+
     /**
      * Validate discount constraints against system settings
      */
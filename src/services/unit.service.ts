@@ -0,0 +1,139 @@
+import { Op } from 'sequelize';
+import Product from '../models/product.model';
+import Market from '../models/market.model';
+import { ILocalUnitConversion } from '../models/systemSettings.model';
+import { BadRequestError } from '../utils/customErrors';
+import UnitRegistry from '../utils/units';
+import PriceCalculatorService from './priceCalculator.service';
+import SystemSettingsService from './systemSettings.service';
+
+export interface IUnitPrice {
+    price: number; // Price per `per`
+    per: string; // kg, l, pcs, or a package unit like "bag" that has no fixed size
+    approximate: boolean; // Worked out from a local unit's approximate size
+}
+
+export interface IProductUnitPrice {
+    productId: string;
+    name: string;
+    price: number;
+    marketId: string;
+    marketName: string | null;
+    size: { quantity: number; unit: string } | null; // How much one of the product is
+    unitPrice: IUnitPrice | null; // Null when we can't tell how much the product is
+}
+
+export default class UnitService {
+    private static readonly MAX_COMPARED_PRODUCTS = 50;
+
+    // "Rice (5kg bag)", "Vegetable Oil 75cl", "Eggs - 1 crate"
+    private static readonly SIZE_IN_NAME = /(\d+(?:\.\d+)?)\s*(kg|kgs|g|gms?|grams?|lbs?|oz|ml|cl|l|ltrs?|litres?|liters?|pcs|pieces?|dozen|mudu|derica|paint|tubers?|crates?|baskets?)\b/i;
+
+    static async getLocalUnits(): Promise<Record<string, ILocalUnitConversion>> {
+        return (await SystemSettingsService.getUnitConversionSettings()).localUnits;
+    }
+
+    /**
+     * How much of something a price buys, as a price per kilogram, litre or piece so
+     * prices for different pack sizes (and markets) can be compared
+     */
+    static getUnitPrice(
+        price: number,
+        quantity: number,
+        unit: string | null | undefined,
+        localUnits: Record<string, ILocalUnitConversion>,
+        itemName?: string,
+    ): IUnitPrice | null {
+        const base = UnitRegistry.toBase(quantity, unit, localUnits, itemName);
+        if (!base || base.amount <= 0) {
+            return null;
+        }
+
+        // Per kilogram and per litre read better than per gram and per millilitre
+        const scale = base.dimension === 'mass' || base.dimension === 'volume' ? 1000 : 1;
+        const per = { mass: 'kg', volume: 'l', count: 'pcs', package: base.unit }[base.dimension];
+
+        return {
+            price: PriceCalculatorService.roundPrice((price / base.amount) * scale),
+            per,
+            approximate: base.approximate,
+        };
+    }
+
+    /**
+     * How much one of a product is: `size` and `unit` in its attributes, or failing that a
+     * size in its name like "5kg"
+     */
+    static getProductSize(product: Pick<Product, 'name' | 'attributes'>): { quantity: number; unit: string } | null {
+        const attributes = (product.attributes ?? {}) as Record<string, unknown>;
+        const unit = typeof attributes.unit === 'string' ? UnitRegistry.normalize(attributes.unit) : null;
+
+        if (unit) {
+            const size = Number(attributes.size ?? 1);
+            return { quantity: size > 0 ? size : 1, unit };
+        }
+
+        const match = product.name.match(this.SIZE_IN_NAME);
+        if (match) {
+            const parsed = UnitRegistry.resolve(match[2]);
+            if (parsed) {
+                return { quantity: Number(match[1]), unit: parsed };
+            }
+        }
+
+        return null;
+    }
+
+    static getProductUnitPrice(
+        product: Pick<Product, 'name' | 'attributes' | 'price'>,
+        localUnits: Record<string, ILocalUnitConversion>,
+    ): IUnitPrice | null {
+        const size = this.getProductSize(product);
+        if (!size) {
+            return null;
+        }
+
+        return this.getUnitPrice(Number(product.price), size.quantity, size.unit, localUnits, product.name);
+    }
+
+    /**
+     * Products matching a name, across markets or in the ones given, cheapest per unit first.
+     * Products whose size we can't tell come last.
+     */
+    static async compareProductPrices(name: string, marketIds?: string[]): Promise<IProductUnitPrice[]> {
+        if (!name || name.trim().length < 2) {
+            throw new BadRequestError('A product name of at least 2 characters is required');
+        }
+
+        const products = await Product.findAll({
+            where: {
+                name: { [Op.iLike]: `%${name.trim()}%` },
+                isAvailable: true,
+                ...(marketIds && marketIds.length > 0 && { marketId: { [Op.in]: marketIds } }),
+            },
+            attributes: ['id', 'name', 'price', 'attributes', 'marketId'],
+            include: [{ model: Market, as: 'market', attributes: ['id', 'name'], where: { isActive: true } }],
+            limit: this.MAX_COMPARED_PRODUCTS,
+        });
+
+        const localUnits = await this.getLocalUnits();
+
+        const compared: IProductUnitPrice[] = products.map(product => ({
+            productId: product.id,
+            name: product.name,
+            price: Number(product.price),
+            marketId: product.marketId,
+            marketName: product.market?.name ?? null,
+            size: this.getProductSize(product),
+            unitPrice: this.getProductUnitPrice(product, localUnits),
+        }));
+
+        // Group by what the price is per, so per-kg prices are only ranked against each other
+        return compared.sort((a, b) => {
+            if (!a.unitPrice || !b.unitPrice) {
+                return (a.unitPrice ? 0 : 1) - (b.unitPrice ? 0 : 1) || a.price - b.price;
+            }
+            return a.unitPrice.per.localeCompare(b.unitPrice.per) || a.unitPrice.price - b.unitPrice.price;
+        });
+    }
+}
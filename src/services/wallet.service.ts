@@ -0,0 +1,612 @@
+/* eslint-disable @typescript-eslint/no-explicit-any */
+import { Op, Transaction, WhereOptions, fn, col } from 'sequelize';
+import Wallet, { SystemWalletAccount, WalletType } from '../models/wallet.model';
+import WalletTransaction, { WalletTransactionType } from '../models/walletTransaction.model';
+import WalletEntry, { WalletEntryDirection } from '../models/walletEntry.model';
+import ReferralBonus, { BonusStatus, BonusType } from '../models/referralBonus.model';
+import Order from '../models/order.model';
+import Refund from '../models/refund.model';
+import OrderDispute from '../models/orderDispute.model';
+import { BadRequestError, ForbiddenError, NotFoundError } from '../utils/customErrors';
+import Pagination, { IPaginationQuery, IPaging } from '../utils/pagination';
+import { Database } from '../models';
+import { logger } from '../utils/logger';
+import { NotificationTypes } from '../utils/interface';
+import NotificationService from './notification.service';
+import OrderTrailService from './orderTrail.service';
+import PriceCalculatorService from './priceCalculator.service';
+
+export interface IWalletPaymentOptions {
+    amount?: number; // Exact amount to take from the wallet
+    useAvailableBalance?: boolean; // Take as much as the balance allows, up to the order total
+}
+
+export interface IWalletHistoryQuery extends IPaginationQuery {
+    type?: WalletTransactionType;
+}
+
+export interface IWalletLedgerAudit {
+    walletsChecked: number;
+    transactionsChecked: number;
+    mismatchedWallets: { walletId: string; cachedBalance: number; ledgerBalance: number }[];
+    unbalancedTransactions: string[];
+    netBalance: number; // Sum of every wallet balance; zero when the books balance
+}
+
+interface IPostingData {
+    idempotencyKey: string;
+    type: WalletTransactionType;
+    amount: number;
+    debitWalletId: string;
+    creditWalletId: string;
+    description: string;
+    performedBy: string;
+    referenceType?: 'order' | 'refund' | 'referral_bonus' | 'admin' | 'dispute';
+    referenceId?: string;
+    metadata?: Record<string, any>;
+}
+
+export default class WalletService {
+    /**
+     * Get a customer's wallet, opening one on first use
+     */
+    static async getOrCreateWallet(userId: string, transaction?: Transaction): Promise<Wallet> {
+        const [wallet] = await Wallet.findOrCreate({
+            where: { userId },
+            defaults: { userId, type: WalletType.CUSTOMER },
+            transaction,
+        });
+
+        return wallet;
+    }
+
+    static async getBalance(userId: string): Promise<{ walletId: string; balance: number; currency: string }> {
+        const wallet = await this.getOrCreateWallet(userId);
+
+        return {
+            walletId: wallet.id,
+            balance: Number(wallet.balance),
+            currency: wallet.currency,
+        };
+    }
+
+    /**
+     * Ledger entries for a customer's wallet, newest first
+     */
+    static async getTransactionHistory(
+        userId: string,
+        query: IWalletHistoryQuery,
+    ): Promise<{ transactions: any[]; pagination: IPaging }> {
+        const wallet = await this.getOrCreateWallet(userId);
+        const { page, size, type } = query;
+
+        const transactionWhere: WhereOptions<WalletTransaction> = {};
+        if (type) {
+            transactionWhere.type = type;
+        }
+
+        const queryOptions: any = {};
+        if (page && size && page > 0 && size > 0) {
+            const { limit, offset } = Pagination.getPagination({ page, size } as IPaging);
+            queryOptions.limit = limit ?? 0;
+            queryOptions.offset = offset ?? 0;
+        }
+
+        const { count, rows } = await WalletEntry.findAndCountAll({
+            where: { walletId: wallet.id },
+            include: [
+                {
+                    model: WalletTransaction,
+                    where: transactionWhere,
+                    attributes: ['id', 'type', 'description', 'referenceType', 'referenceId', 'createdAt'],
+                },
+            ],
+            order: [['createdAt', 'DESC']],
+            ...queryOptions,
+        });
+
+        const transactions = rows.map(entry => ({
+            id: entry.id,
+            transactionId: entry.transactionId,
+            type: entry.walletTransaction.type,
+            direction: entry.direction,
+            amount: Number(entry.amount),
+            balanceAfter: Number(entry.balanceAfter),
+            description: entry.walletTransaction.description,
+            referenceType: entry.walletTransaction.referenceType,
+            referenceId: entry.walletTransaction.referenceId,
+            createdAt: entry.createdAt,
+        }));
+
+        let pagination: IPaging = {
+            page: page || null,
+            limit: size || null,
+            size: size || null,
+        };
+
+        if (page && size && rows.length > 0) {
+            const totalPages = Pagination.estimateTotalPage({ count, limit: size } as IPaging);
+            pagination = {
+                count,
+                page,
+                limit: size,
+                size,
+                ...totalPages,
+            };
+        }
+
+        return { transactions, pagination };
+    }
+
+    /**
+     * Apply wallet funds to a new order. Runs inside the order's transaction so a failed
+     * checkout never leaves money debited. Returns the amount taken from the wallet.
+     */
+    static async debitForOrder(
+        order: Order,
+        options: IWalletPaymentOptions,
+        transaction: Transaction,
+    ): Promise<number> {
+        const wallet = await this.getOrCreateWallet(order.customerId, transaction);
+        const balance = Number(wallet.balance);
+        const orderTotal = Number(order.totalAmount);
+
+        let amount: number;
+        if (options.useAvailableBalance) {
+            amount = Math.min(balance, orderTotal);
+        } else {
+            amount = Number(options.amount || 0);
+
+            if (amount > orderTotal) {
+                throw new BadRequestError('Wallet amount cannot exceed the order total');
+            }
+        }
+
+        amount = PriceCalculatorService.roundPrice(amount);
+
+        if (amount <= 0) {
+            return 0;
+        }
+
+        const systemWallet = await this.getSystemWallet(SystemWalletAccount.ORDER_PAYMENTS, transaction);
+
+        await this.postTransaction(
+            {
+                idempotencyKey: `order-payment:${order.id}`,
+                type: WalletTransactionType.ORDER_PAYMENT,
+                amount,
+                debitWalletId: wallet.id,
+                creditWalletId: systemWallet.id,
+                description: `Payment for order #${order.orderNumber}`,
+                performedBy: order.customerId,
+                referenceType: 'order',
+                referenceId: order.id,
+            },
+            transaction,
+        );
+
+        return amount;
+    }
+
+    /**
+     * Return checkout funds when the rest of the payment never arrives
+     */
+    static async releaseOrderPayment(
+        orderId: string,
+        performedBy: string,
+        transaction?: Transaction,
+    ): Promise<WalletTransaction | null> {
+        const payment = await WalletTransaction.findOne({
+            where: { idempotencyKey: `order-payment:${orderId}` },
+            transaction,
+        });
+
+        if (!payment) {
+            return null;
+        }
+
+        const order = await Order.findByPk(orderId, { attributes: ['id', 'orderNumber', 'customerId'], transaction });
+        if (!order) {
+            throw new NotFoundError('Order not found');
+        }
+
+        const execute = async (t: Transaction) => {
+            const wallet = await this.getOrCreateWallet(order.customerId, t);
+            const systemWallet = await this.getSystemWallet(SystemWalletAccount.ORDER_PAYMENTS, t);
+
+            return await this.postTransaction(
+                {
+                    idempotencyKey: `order-payment-release:${orderId}`,
+                    type: WalletTransactionType.ORDER_PAYMENT_RELEASE,
+                    amount: Number(payment.amount),
+                    debitWalletId: systemWallet.id,
+                    creditWalletId: wallet.id,
+                    description: `Wallet payment returned for unpaid order #${order.orderNumber}`,
+                    performedBy,
+                    referenceType: 'order',
+                    referenceId: orderId,
+                },
+                t,
+            );
+        };
+
+        const released = transaction ? await execute(transaction) : await Database.transaction(execute);
+
+        // Log the release (outside transaction for non-critical operation)
+        if (!transaction) {
+            await OrderTrailService.logOrderEvent(orderId, {
+                action: 'wallet_payment_released',
+                description: `Wallet payment of ₦${payment.amount} returned to the customer`,
+                performedBy,
+                metadata: { walletTransactionId: released.id },
+            });
+        }
+
+        logger.info(`Released wallet payment of ₦${payment.amount} for order ${order.orderNumber}`);
+
+        return released;
+    }
+
+    /**
+     * Confirm an order that the wallet paid for in full
+     */
+    static async confirmWalletPayment(order: Order, performedBy: string): Promise<void> {
+        if (Number(order.walletAmount) < Number(order.totalAmount)) {
+            throw new BadRequestError('The wallet does not cover this order in full');
+        }
+
+        const reference = `wallet_${order.id}`;
+        await order.update({ paymentId: reference });
+
+        // Imported here to avoid a circular dependency (payment sync uses the order service)
+        const PaymentStatusSyncService = (await import('./paymentStatusSync.service')).default;
+        const result = await PaymentStatusSyncService.confirmPayment(order.id, reference, 'api_sync', performedBy);
+
+        if (!result.success) {
+            throw new BadRequestError(result.error || 'Failed to confirm wallet payment');
+        }
+    }
+
+    /**
+     * Pay a refund into the customer's wallet
+     */
+    static async creditRefund(refund: Refund, performedBy: string): Promise<WalletTransaction> {
+        const posted = await Database.transaction(async (transaction: Transaction) => {
+            const wallet = await this.getOrCreateWallet(refund.customerId, transaction);
+            const systemWallet = await this.getSystemWallet(SystemWalletAccount.REFUNDS, transaction);
+
+            return await this.postTransaction(
+                {
+                    idempotencyKey: `refund:${refund.id}`,
+                    type: WalletTransactionType.REFUND,
+                    amount: Number(refund.amount),
+                    debitWalletId: systemWallet.id,
+                    creditWalletId: wallet.id,
+                    description: 'Order refund',
+                    performedBy,
+                    referenceType: 'refund',
+                    referenceId: refund.id,
+                    metadata: { orderId: refund.orderId, reason: refund.reason },
+                },
+                transaction,
+            );
+        });
+
+        return posted;
+    }
+
+    /**
+     * Pay the settlement of an upheld order dispute into the customer's wallet
+     */
+    static async creditDispute(dispute: OrderDispute, amount: number, performedBy: string): Promise<WalletTransaction> {
+        if (!amount || amount <= 0) {
+            throw new BadRequestError('Amount must be greater than zero');
+        }
+
+        const posted = await Database.transaction(async (transaction: Transaction) => {
+            const wallet = await this.getOrCreateWallet(dispute.customerId, transaction);
+            const systemWallet = await this.getSystemWallet(SystemWalletAccount.REFUNDS, transaction);
+
+            return await this.postTransaction(
+                {
+                    idempotencyKey: `dispute:${dispute.id}`,
+                    type: WalletTransactionType.DISPUTE_CREDIT,
+                    amount: PriceCalculatorService.roundPrice(amount),
+                    debitWalletId: systemWallet.id,
+                    creditWalletId: wallet.id,
+                    description: 'Order dispute credit',
+                    performedBy,
+                    referenceType: 'dispute',
+                    referenceId: dispute.id,
+                    metadata: { orderId: dispute.orderId, disputeType: dispute.type },
+                },
+                transaction,
+            );
+        });
+
+        return posted;
+    }
+
+    /**
+     * Move a cashback or credit referral bonus into the wallet
+     */
+    static async redeemReferralBonus(bonusId: string, userId: string): Promise<WalletTransaction> {
+        const posted = await Database.transaction(async (transaction: Transaction) => {
+            const bonus = await ReferralBonus.findByPk(bonusId, {
+                transaction,
+                lock: transaction.LOCK.UPDATE,
+            });
+
+            if (!bonus) {
+                throw new NotFoundError('Referral bonus not found');
+            }
+
+            if (bonus.recipientId !== userId) {
+                throw new ForbiddenError('This referral bonus does not belong to you');
+            }
+
+            if (![BonusType.CASHBACK, BonusType.CREDIT].includes(bonus.type)) {
+                throw new BadRequestError('Only cashback and credit bonuses can be added to the wallet');
+            }
+
+            if (!bonus.isUsable) {
+                throw new BadRequestError('This referral bonus is not available');
+            }
+
+            const amount = Number(bonus.value || 0);
+            if (amount <= 0) {
+                throw new BadRequestError('This referral bonus has no value');
+            }
+
+            const wallet = await this.getOrCreateWallet(userId, transaction);
+            const systemWallet = await this.getSystemWallet(SystemWalletAccount.REFERRAL_REWARDS, transaction);
+
+            const walletTransaction = await this.postTransaction(
+                {
+                    idempotencyKey: `referral-bonus:${bonus.id}`,
+                    type: WalletTransactionType.REFERRAL_CASHBACK,
+                    amount,
+                    debitWalletId: systemWallet.id,
+                    creditWalletId: wallet.id,
+                    description: bonus.title || 'Referral reward',
+                    performedBy: userId,
+                    referenceType: 'referral_bonus',
+                    referenceId: bonus.id,
+                    metadata: { bonusType: bonus.type, referralId: bonus.referralId },
+                },
+                transaction,
+            );
+
+            await bonus.update({ status: BonusStatus.USED, usedAt: new Date() }, { transaction });
+
+            return walletTransaction;
+        });
+
+        await this.notifyCustomer(
+            userId,
+            'Referral Reward Added',
+            `₦${posted.amount} from your referral reward has been added to your wallet.`,
+            posted.referenceId as string,
+        );
+
+        return posted;
+    }
+
+    /**
+     * Grant promotional credit to a customer (admin)
+     */
+    static async creditPromotion(
+        userId: string,
+        amount: number,
+        description: string,
+        performedBy: string,
+        idempotencyKey: string,
+    ): Promise<WalletTransaction> {
+        if (!amount || amount <= 0) {
+            throw new BadRequestError('Amount must be greater than zero');
+        }
+
+        const posted = await Database.transaction(async (transaction: Transaction) => {
+            const wallet = await this.getOrCreateWallet(userId, transaction);
+            const systemWallet = await this.getSystemWallet(SystemWalletAccount.PROMOTIONS, transaction);
+
+            return await this.postTransaction(
+                {
+                    idempotencyKey: `promotion:${idempotencyKey}`,
+                    type: WalletTransactionType.PROMOTION,
+                    amount: PriceCalculatorService.roundPrice(amount),
+                    debitWalletId: systemWallet.id,
+                    creditWalletId: wallet.id,
+                    description,
+                    performedBy,
+                    referenceType: 'admin',
+                    referenceId: idempotencyKey,
+                },
+                transaction,
+            );
+        });
+
+        await this.notifyCustomer(
+            userId,
+            'Wallet Credited',
+            `₦${posted.amount} has been added to your wallet: ${description}`,
+            posted.id,
+        );
+
+        return posted;
+    }
+
+    /**
+     * Check that every transaction balances and every cached balance matches its entries
+     */
+    static async auditLedger(): Promise<IWalletLedgerAudit> {
+        const wallets = await Wallet.findAll({ attributes: ['id', 'balance'] });
+
+        const entryTotals = (await WalletEntry.findAll({
+            attributes: ['walletId', 'direction', [fn('SUM', col('amount')), 'total']],
+            group: ['walletId', 'direction'],
+            raw: true,
+        })) as unknown as { walletId: string; direction: WalletEntryDirection; total: string }[];
+
+        const ledgerBalances = new Map<string, number>();
+        for (const row of entryTotals) {
+            const signed = row.direction === WalletEntryDirection.CREDIT ? Number(row.total) : -Number(row.total);
+            ledgerBalances.set(row.walletId, (ledgerBalances.get(row.walletId) || 0) + signed);
+        }
+
+        const mismatchedWallets = wallets
+            .map(wallet => ({
+                walletId: wallet.id,
+                cachedBalance: Number(wallet.balance),
+                ledgerBalance: PriceCalculatorService.roundPrice(ledgerBalances.get(wallet.id) || 0),
+            }))
+            .filter(row => row.cachedBalance !== row.ledgerBalance);
+
+        const transactionTotals = (await WalletEntry.findAll({
+            attributes: ['transactionId', 'direction', [fn('SUM', col('amount')), 'total']],
+            group: ['transactionId', 'direction'],
+            raw: true,
+        })) as unknown as { transactionId: string; direction: WalletEntryDirection; total: string }[];
+
+        const transactionNet = new Map<string, number>();
+        for (const row of transactionTotals) {
+            const signed = row.direction === WalletEntryDirection.CREDIT ? Number(row.total) : -Number(row.total);
+            transactionNet.set(row.transactionId, (transactionNet.get(row.transactionId) || 0) + signed);
+        }
+
+        const unbalancedTransactions = Array.from(transactionNet.entries())
+            .filter(([, net]) => Math.abs(net) >= 0.01)
+            .map(([transactionId]) => transactionId);
+
+        const netBalance = PriceCalculatorService.roundPrice(
+            wallets.reduce((sum, wallet) => sum + Number(wallet.balance), 0),
+        );
+
+        if (mismatchedWallets.length > 0 || unbalancedTransactions.length > 0) {
+            logger.error('Wallet ledger audit found inconsistencies', { mismatchedWallets, unbalancedTransactions });
+        }
+
+        return {
+            walletsChecked: wallets.length,
+            transactionsChecked: transactionNet.size,
+            mismatchedWallets,
+            unbalancedTransactions,
+            netBalance,
+        };
+    }
+
+    /**
+     * Post a balanced pair of entries. Reposting an idempotency key returns the original transaction.
+     * Balances can only change here, with both wallets locked.
+     */
+    private static async postTransaction(data: IPostingData, transaction: Transaction): Promise<WalletTransaction> {
+        if (data.amount <= 0) {
+            throw new BadRequestError('Wallet transaction amount must be greater than zero');
+        }
+
+        if (data.debitWalletId === data.creditWalletId) {
+            throw new BadRequestError('Cannot move funds within the same wallet');
+        }
+
+        // Lock in a fixed order so concurrent postings between the same wallets can't deadlock
+        const wallets = await Wallet.findAll({
+            where: { id: { [Op.in]: [data.debitWalletId, data.creditWalletId] } },
+            order: [['id', 'ASC']],
+            lock: transaction.LOCK.UPDATE,
+            transaction,
+        });
+
+        const existing = await WalletTransaction.findOne({
+            where: { idempotencyKey: data.idempotencyKey },
+            transaction,
+        });
+
+        if (existing) {
+            logger.info(`Wallet transaction ${data.idempotencyKey} already posted`);
+            return existing;
+        }
+
+        const debitWallet = wallets.find(wallet => wallet.id === data.debitWalletId);
+        const creditWallet = wallets.find(wallet => wallet.id === data.creditWalletId);
+
+        if (!debitWallet || !creditWallet) {
+            throw new NotFoundError('Wallet not found');
+        }
+
+        // System accounts may run negative; customer wallets may not
+        if (debitWallet.type === WalletType.CUSTOMER && Number(debitWallet.balance) < data.amount) {
+            throw new BadRequestError('Insufficient wallet balance');
+        }
+
+        const walletTransaction = await WalletTransaction.create(
+            {
+                idempotencyKey: data.idempotencyKey,
+                type: data.type,
+                amount: data.amount,
+                description: data.description,
+                performedBy: data.performedBy,
+                referenceType: data.referenceType || null,
+                referenceId: data.referenceId || null,
+                metadata: data.metadata || null,
+            },
+            { transaction },
+        );
+
+        const debitBalance = PriceCalculatorService.roundPrice(Number(debitWallet.balance) - data.amount);
+        const creditBalance = PriceCalculatorService.roundPrice(Number(creditWallet.balance) + data.amount);
+
+        await WalletEntry.bulkCreate(
+            [
+                {
+                    transactionId: walletTransaction.id,
+                    walletId: debitWallet.id,
+                    direction: WalletEntryDirection.DEBIT,
+                    amount: data.amount,
+                    balanceAfter: debitBalance,
+                },
+                {
+                    transactionId: walletTransaction.id,
+                    walletId: creditWallet.id,
+                    direction: WalletEntryDirection.CREDIT,
+                    amount: data.amount,
+                    balanceAfter: creditBalance,
+                },
+            ],
+            { transaction },
+        );
+
+        await debitWallet.update({ balance: debitBalance }, { transaction });
+        await creditWallet.update({ balance: creditBalance }, { transaction });
+
+        return walletTransaction;
+    }
+
+    private static async getSystemWallet(account: SystemWalletAccount, transaction?: Transaction): Promise<Wallet> {
+        const [wallet] = await Wallet.findOrCreate({
+            where: { systemAccount: account },
+            defaults: { type: WalletType.SYSTEM, systemAccount: account },
+            transaction,
+        });
+
+        return wallet;
+    }
+
+    private static async notifyCustomer(
+        userId: string,
+        heading: string,
+        message: string,
+        resource: string,
+    ): Promise<void> {
+        try {
+            await NotificationService.addNotification({
+                userId,
+                title: NotificationTypes.WALLET_CREDITED,
+                heading,
+                message,
+                resource,
+            });
+        } catch (notificationError) {
+            logger.error(`Failed to send wallet notification to user ${userId}:`, notificationError);
+        }
+    }
+}
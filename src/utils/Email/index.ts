@@ -4,6 +4,7 @@ import { ticketCreatedTemplate } from './templates/support/ticketCreated';
 import { ticketAssignedTemplate } from './templates/support/ticketAssigned';
 import { ticketResponseTemplate } from './templates/support/ticketResponse';
 import { ticketResolvedTemplate } from './templates/support/ticketResolved';
+import { orderInvoiceTemplate } from './templates/orderInvoice';
 import { logger } from '../logger';
 import { RESEND_API_KEY, EMAIL_SERVICE } from '../constants';
 import { Resend } from 'resend';
@@ -20,7 +21,7 @@ type EmailOptions = {
     html?: string;
     from?: string;
     message?: string;
-    attachments?: [];
+    attachments?: { filename: string; content: Buffer; contentType?: string }[];
     // Legacy fields for compatibility
     isTemplate?: boolean;
     templateId?: string;
@@ -73,8 +74,7 @@ export default class EmailService {
                             to: recipientEmail,
                             subject: options.subject,
                             html: options.html || options.message || '',
-                            // Resend doesn't support attachments in the same way as nodemailer
-                            // For production use, consider using Resend's file upload feature
+                            attachments: options.attachments,
                         };
 
                         // Send email using Resend
@@ -355,6 +355,57 @@ export default class EmailService {
         }
     }
 
+    // ========================================
+    // ORDER EMAIL METHODS
+    // ========================================
+
+    /**
+     * Send the invoice for a completed order to the customer, with the PDF attached
+     */
+    async sendOrderInvoiceEmail(data: {
+        recipientEmail: string;
+        name: string;
+        orderNumber: string;
+        invoiceNumber: string;
+        total: string;
+        pdf: Buffer;
+    }): Promise<boolean> {
+        try {
+            const html = orderInvoiceTemplate({
+                name: data.name,
+                orderNumber: data.orderNumber,
+                invoiceNumber: data.invoiceNumber,
+                total: data.total,
+            });
+
+            await this.send({
+                email: data.recipientEmail,
+                subject: `Your Busy2Shop invoice for order #${data.orderNumber}`,
+                html,
+                from: 'notifications',
+                attachments: [
+                    {
+                        filename: `${data.invoiceNumber}.pdf`,
+                        content: data.pdf,
+                        contentType: 'application/pdf',
+                    },
+                ],
+                postmarkInfo: [
+                    {
+                        recipientEmail: data.recipientEmail,
+                        postMarkTemplateData: {},
+                    },
+                ],
+            });
+
+            logger.info(`Invoice email sent to ${data.recipientEmail} for order #${data.orderNumber}`);
+            return true;
+        } catch (error) {
+            logger.error('Error sending invoice email:', error);
+            return false;
+        }
+    }
+
     // Public send method - maintains existing interface
     public send(options: EmailOptions): Promise<void | Error> {
         logger.info('Sending email via Resend service');
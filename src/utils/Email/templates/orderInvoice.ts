@@ -0,0 +1,74 @@
+export const orderInvoiceTemplate = ({
+    name,
+    orderNumber,
+    invoiceNumber,
+    total,
+}: {
+    name: string;
+    orderNumber: string;
+    invoiceNumber: string;
+    total: string;
+}) => {
+    return `
+<!DOCTYPE html>
+<html>
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+</head>
+<body style="margin: 0; padding: 0; background-color: #f4f4f4; font-family: Arial, sans-serif;">
+    <table role="presentation" style="width: 100%; border-collapse: collapse;">
+        <tr>
+            <td style="padding: 0;">
+                <table role="presentation" style="width: 95%; max-width: 670px; margin: 20px auto; background: #fff; border-radius: 8px; box-shadow: 0 4px 6px rgba(0,0,0,0.1);">
+                    <tr>
+                        <td style="padding: 35px;">
+                            <div style="text-align: center; margin-bottom: 30px;">
+                                <h1 style="color: #F04950; margin: 0; font-size: 28px;">Busy2Shop</h1>
+                            </div>
+
+                            <div style="color: #333; line-height: 1.6;">
+                                <h2 style="color: #333; margin-bottom: 20px;">Hi ${name},</h2>
+
+                                <p style="margin-bottom: 15px;">
+                                    Your order #${orderNumber} has been delivered. Your invoice is attached to this email.
+                                </p>
+
+                                <div style="background: #f9f9f9; border-left: 4px solid #F04950; padding: 20px; margin: 25px 0; border-radius: 4px;">
+                                    <table style="width: 100%; border-collapse: collapse;">
+                                        <tr>
+                                            <td style="padding: 8px 0; color: #666; font-weight: bold; width: 120px;">Invoice:</td>
+                                            <td style="padding: 8px 0; color: #333;">${invoiceNumber}</td>
+                                        </tr>
+                                        <tr>
+                                            <td style="padding: 8px 0; color: #666; font-weight: bold;">Order:</td>
+                                            <td style="padding: 8px 0; color: #333;">#${orderNumber}</td>
+                                        </tr>
+                                        <tr>
+                                            <td style="padding: 8px 0; color: #666; font-weight: bold;">Total:</td>
+                                            <td style="padding: 8px 0; color: #333;">${total}</td>
+                                        </tr>
+                                    </table>
+                                </div>
+
+                                <p style="margin-bottom: 15px;">
+                                    You can also download the invoice at any time from your order details.
+                                </p>
+
+                                <div style="margin-top: 30px; padding-top: 20px; border-top: 1px solid #eee;">
+                                    <p style="color: #666; font-size: 14px; margin: 5px 0;">
+                                        Thank you for shopping with Busy2Shop!<br>
+                                        <strong>The Busy2Shop Team</strong>
+                                    </p>
+                                </div>
+                            </div>
+                        </td>
+                    </tr>
+                </table>
+            </td>
+        </tr>
+    </table>
+</body>
+</html>
+`;
+};
@@ -107,8 +107,31 @@ export const ALATPAY_MERCHANT_ID = process.env.ALATPAY_MERCHANT_ID;
 
 export const GOOGLE_MAPS_API_KEY = process.env.GOOGLE_MAPS_API_KEY;
 
+// Termii sends one-time codes by SMS (phone number verification)
+export const TERMII_API_URL = process.env.TERMII_API_URL || 'https://api.ng.termii.com';
+
+export const TERMII_API_KEY = process.env.TERMII_API_KEY;
+
+export const TERMII_SENDER_ID = process.env.TERMII_SENDER_ID || 'Busy2Shop';
+
 export const RESEND_API_KEY = process.env.RESEND_API_KEY as string;
 
+// Where agent payouts are sent: 'paystack', or 'local', which settles instantly without moving money.
+// Required, so a missing setting can't quietly mark payouts paid; the server refuses to start without it.
+export const PAYOUT_TRANSFER_PROVIDER = process.env.PAYOUT_TRANSFER_PROVIDER as 'paystack' | 'local';
+
+// Cron pattern for the automatic agent payout batch (default: Mondays at 09:00)
+export const PAYOUT_BATCH_CRON = process.env.PAYOUT_BATCH_CRON || '0 9 * * 1';
+
+// Cron pattern for the scan that places due recurring orders and sends reminders (default: every 15 minutes)
+export const RECURRING_ORDER_SCAN_CRON = process.env.RECURRING_ORDER_SCAN_CRON || '*/15 * * * *';
+
+// Cron pattern for the watcher that flags and escalates orders overrunning their SLAs (default: every 2 minutes)
+export const ORDER_SLA_SCAN_CRON = process.env.ORDER_SLA_SCAN_CRON || '*/2 * * * *';
+
+// Cron pattern for the weekly reminder to restock pantry items running low (default: Saturdays at 08:00)
+export const PANTRY_RESTOCK_REMINDER_CRON = process.env.PANTRY_RESTOCK_REMINDER_CRON || '0 8 * * 6';
+
 
 // SMPP (SMS)
 // export const SMPP_HOST = process.env.SMPP_HOST || 'localhost',
@@ -1,4 +1,4 @@
-type HttpStatusCode = 400 | 401 | 403 | 404 | 407 | 408 | 422 | 429 | 500 | 504;
+type HttpStatusCode = 400 | 401 | 403 | 404 | 407 | 408 | 409 | 422 | 429 | 500 | 504;
 
 // custom errors for API
 export class CustomAPIError extends Error {
@@ -40,6 +40,21 @@ export class InternalServerError extends CustomAPIError {
     }
 }
 
+export class ConflictError extends CustomAPIError {
+    constructor(message: string) {
+        super(message, 409);
+    }
+}
+
+export class BudgetExceededError extends CustomAPIError {
+    data: Record<string, unknown>;
+
+    constructor(message: string, data: Record<string, unknown>) {
+        super(message, 422);
+        this.data = data;
+    }
+}
+
 export class UnprocessableEntityError extends CustomAPIError {
     constructor(message: string) {
         super(message, 422);
@@ -70,3 +85,16 @@ export class JsonWebTokenError extends CustomAPIError {
         super(message, 401);
     }
 }
+
+export class InvalidStatusTransitionError extends CustomAPIError {
+    from: string;
+    to: string;
+    actor: string;
+
+    constructor(message: string, from: string, to: string, actor: string) {
+        super(message, 400);
+        this.from = from;
+        this.to = to;
+        this.actor = actor;
+    }
+}
@@ -13,6 +13,7 @@ export type AuthToken =
     | 'refresh'
     | 'passwordreset'
     | 'emailverification'
+    | 'phoneverification'
     | 'setpassword'
     | 'adminlogin'
     | 'admin';
@@ -108,6 +109,8 @@ export enum NotificationTypes {
     SHOPPING_LIST_DELETED = 'Shopping List Deleted',
     SHOPPING_LIST_ASSIGNED = 'Shopping List Assigned',
     SHOPPING_LIST_SUBMITTED = 'Shopping List Submitted',
+    SHOPPING_LIST_INVITE = 'Shopping List Invite',
+    SHOPPING_LIST_INVITE_ACCEPTED = 'Shopping List Invite Accepted',
 
     // Market Notifications
     MARKET_CREATED = 'Market Created',
@@ -127,11 +130,57 @@ export enum NotificationTypes {
     AGENT_LOCATION_UPDATED = 'Agent Location Updated',
     AGENT_STATUS_CHANGED = 'Agent Status Changed',
     NEW_ORDER_ASSIGNED = 'New Order Assigned',
+    AGENT_RATED = 'Agent Rated',
+    AGENT_TIPPED = 'Agent Tipped',
 
     // Order Status Notifications
     ORDER_IN_PROGRESS = 'Order In Progress',
     ORDER_READY = 'Order Ready',
     ORDER_DELIVERY_STARTED = 'Order Delivery Started',
+    ORDER_DELAYED = 'Order Delayed',
+
+    // Delivery Handover Notifications
+    DELIVERY_CODE_ISSUED = 'Delivery Code Issued',
+    DELIVERY_CODE_LOCKED = 'Delivery Code Locked',
+
+    // Substitution Notifications
+    SUBSTITUTION_PROPOSED = 'Substitution Proposed',
+    SUBSTITUTION_APPROVED = 'Substitution Approved',
+    SUBSTITUTION_REJECTED = 'Substitution Rejected',
+
+    // Price Adjustment Notifications
+    PRICE_ADJUSTMENT_REQUIRED = 'Price Adjustment Required',
+    PRICE_ADJUSTMENT_PAID = 'Price Adjustment Paid',
+    PRICE_ADJUSTMENT_DECLINED = 'Price Adjustment Declined',
+    PRICE_ADJUSTMENT_CREDITED = 'Price Adjustment Credited',
+
+    // Budget Notifications
+    BUDGET_WARNING = 'Budget Warning',
+
+    // Pantry Notifications
+    PANTRY_RESTOCK_REMINDER = 'Pantry Restock Reminder',
+
+    // Refund Notifications
+    REFUND_INITIATED = 'Refund Initiated',
+    REFUND_COMPLETED = 'Refund Completed',
+    REFUND_REJECTED = 'Refund Rejected',
+
+    // Dispute Notifications
+    DISPUTE_OPENED = 'Dispute Opened',
+    DISPUTE_RESOLVED = 'Dispute Resolved',
+
+    // Wallet Notifications
+    WALLET_CREDITED = 'Wallet Credited',
+
+    // Agent Payout Notifications
+    PAYOUT_SENT = 'Payout Sent',
+    PAYOUT_FAILED = 'Payout Failed',
+    PAYOUT_REVERSED = 'Payout Reversed',
+
+    // Recurring Order Notifications
+    RECURRING_ORDER_REMINDER = 'Recurring Order Reminder',
+    RECURRING_ORDER_PLACED = 'Recurring Order Placed',
+    RECURRING_ORDER_FAILED = 'Recurring Order Failed',
 
     // Chat Notifications
     CHAT_MESSAGE_RECEIVED = 'Chat Message Received',
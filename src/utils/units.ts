@@ -0,0 +1,280 @@
+import { ILocalUnitConversion } from '../models/systemSettings.model';
+
+export type UnitDimension = 'mass' | 'volume' | 'count' | 'package';
+
+export interface IUnitDefinition {
+    label: string;
+    dimension: UnitDimension;
+    factor: number; // Size in the dimension's base unit (grams, millilitres or pieces); 1 for packages
+    isLocal?: boolean; // Market measures whose size is approximate and set in system settings
+}
+
+export interface IBaseQuantity {
+    dimension: UnitDimension;
+    unit: string; // g, ml or pcs, or the package unit itself
+    amount: number;
+    approximate: boolean; // Converted through a local unit's approximate size
+}
+
+/**
+ * Canonical units and the free-text spellings customers, agents and recipes use for them.
+ * Bags, packs and other packages have no fixed size, so they only compare with themselves.
+ */
+class UnitRegistry {
+    static readonly BASE_UNITS: Record<Exclude<UnitDimension, 'package'>, string> = {
+        mass: 'g',
+        volume: 'ml',
+        count: 'pcs',
+    };
+
+    static readonly UNITS: Record<string, IUnitDefinition> = {
+        g: { label: 'gram', dimension: 'mass', factor: 1 },
+        kg: { label: 'kilogram', dimension: 'mass', factor: 1000 },
+        lb: { label: 'pound', dimension: 'mass', factor: 453.6 },
+        oz: { label: 'ounce', dimension: 'mass', factor: 28.35 },
+        ml: { label: 'millilitre', dimension: 'volume', factor: 1 },
+        cl: { label: 'centilitre', dimension: 'volume', factor: 10 },
+        l: { label: 'litre', dimension: 'volume', factor: 1000 },
+        tsp: { label: 'teaspoon', dimension: 'volume', factor: 5 },
+        tbsp: { label: 'tablespoon', dimension: 'volume', factor: 15 },
+        cup: { label: 'cup', dimension: 'volume', factor: 240 },
+        pcs: { label: 'piece', dimension: 'count', factor: 1 },
+        dozen: { label: 'dozen', dimension: 'count', factor: 12 },
+        bag: { label: 'bag', dimension: 'package', factor: 1 },
+        pack: { label: 'pack', dimension: 'package', factor: 1 },
+        bottle: { label: 'bottle', dimension: 'package', factor: 1 },
+        tin: { label: 'tin', dimension: 'package', factor: 1 },
+        sachet: { label: 'sachet', dimension: 'package', factor: 1 },
+        carton: { label: 'carton', dimension: 'package', factor: 1 },
+        bunch: { label: 'bunch', dimension: 'package', factor: 1 },
+        // Local market measures; dimension and size come from DEFAULT_LOCAL_UNITS or system settings
+        mudu: { label: 'mudu', dimension: 'mass', factor: 1, isLocal: true },
+        derica: { label: 'derica', dimension: 'mass', factor: 1, isLocal: true },
+        paint: { label: 'paint bucket', dimension: 'mass', factor: 1, isLocal: true },
+        tuber: { label: 'tuber', dimension: 'mass', factor: 1, isLocal: true },
+        crate: { label: 'crate', dimension: 'count', factor: 1, isLocal: true },
+        basket: { label: 'basket', dimension: 'mass', factor: 1, isLocal: true },
+    };
+
+    // Rough sizes as sold in Lagos and Abuja markets; admins can adjust them in system settings
+    static readonly DEFAULT_LOCAL_UNITS: Record<string, ILocalUnitConversion> = {
+        mudu: { dimension: 'mass', size: 1300, itemSizes: { garri: 1000, rice: 1400, bean: 1250 } },
+        derica: { dimension: 'mass', size: 500, itemSizes: { garri: 400, rice: 550 } },
+        paint: { dimension: 'mass', size: 4000, itemSizes: { garri: 3000, rice: 4200 } },
+        tuber: { dimension: 'mass', size: 2500 },
+        crate: { dimension: 'count', size: 30 },
+        basket: { dimension: 'mass', size: 25000 },
+    };
+
+    private static readonly ALIASES: Record<string, string> = {
+        gram: 'g',
+        gm: 'g',
+        gms: 'g',
+        kilo: 'kg',
+        kilogram: 'kg',
+        kgs: 'kg',
+        pound: 'lb',
+        lbs: 'lb',
+        ounce: 'oz',
+        millilitre: 'ml',
+        milliliter: 'ml',
+        centilitre: 'cl',
+        centiliter: 'cl',
+        litre: 'l',
+        liter: 'l',
+        ltr: 'l',
+        ltrs: 'l',
+        lt: 'l',
+        teaspoon: 'tsp',
+        tablespoon: 'tbsp',
+        tbs: 'tbsp',
+        piece: 'pcs',
+        pc: 'pcs',
+        pce: 'pcs',
+        whole: 'pcs',
+        doz: 'dozen',
+        packet: 'pack',
+        can: 'tin',
+        'paint bucket': 'paint',
+        'paint-bucket': 'paint',
+        bucket: 'paint',
+        derika: 'derica',
+    };
+
+    /**
+     * The canonical code for a unit as typed, e.g. "Kilos" -> "kg", or null if it isn't one we know
+     */
+    static resolve(unit: string | null | undefined): string | null {
+        if (!unit) {
+            return null;
+        }
+
+        const text = unit.trim().toLowerCase().replace(/\.$/, '').replace(/\s+/g, ' ');
+        if (!text) {
+            return null;
+        }
+
+        const candidates = [text, text.replace(/es$/, ''), text.replace(/s$/, '')];
+        for (const candidate of candidates) {
+            if (this.UNITS[candidate]) {
+                return candidate;
+            }
+            if (this.ALIASES[candidate]) {
+                return this.ALIASES[candidate];
+            }
+        }
+
+        return null;
+    }
+
+    /**
+     * What gets stored: the canonical code where we know the unit, otherwise the text tidied up
+     */
+    static normalize(unit: string | null | undefined): string | null {
+        if (!unit || !unit.trim()) {
+            return null;
+        }
+
+        return this.resolve(unit) ?? unit.trim().toLowerCase().replace(/\s+/g, ' ');
+    }
+
+    static isLocal(unit: string | null | undefined): boolean {
+        const code = this.resolve(unit);
+        return !!code && !!this.UNITS[code].isLocal;
+    }
+
+    /**
+     * A quantity in its dimension's base unit. No unit means a count of things, e.g. "3 onions".
+     * Unknown units give null, as there is nothing to compare them with.
+     */
+    static toBase(
+        quantity: number,
+        unit: string | null | undefined,
+        localUnits: Record<string, ILocalUnitConversion> = this.DEFAULT_LOCAL_UNITS,
+        itemName?: string,
+    ): IBaseQuantity | null {
+        const code = unit && unit.trim() ? this.resolve(unit) : 'pcs';
+        if (!code) {
+            return null;
+        }
+
+        const definition = this.UNITS[code];
+
+        if (definition.isLocal) {
+            const conversion = localUnits[code] ?? this.DEFAULT_LOCAL_UNITS[code];
+            return {
+                dimension: conversion.dimension,
+                unit: this.BASE_UNITS[conversion.dimension],
+                amount: quantity * this.localSize(conversion, itemName),
+                approximate: true,
+            };
+        }
+
+        if (definition.dimension === 'package') {
+            return { dimension: 'package', unit: code, amount: quantity, approximate: false };
+        }
+
+        return {
+            dimension: definition.dimension,
+            unit: this.BASE_UNITS[definition.dimension],
+            amount: quantity * definition.factor,
+            approximate: false,
+        };
+    }
+
+    /**
+     * Convert between two units of the same dimension, or null if they can't be compared
+     */
+    static convert(
+        quantity: number,
+        from: string | null | undefined,
+        to: string | null | undefined,
+        localUnits: Record<string, ILocalUnitConversion> = this.DEFAULT_LOCAL_UNITS,
+        itemName?: string,
+    ): number | null {
+        const source = this.toBase(quantity, from, localUnits, itemName);
+        const target = this.toBase(1, to, localUnits, itemName);
+
+        if (!source || !target || source.dimension !== target.dimension || source.unit !== target.unit) {
+            return null;
+        }
+
+        return source.amount / target.amount;
+    }
+
+    /**
+     * An amount in base units as people would write it: kilograms and litres once they
+     * get large, and whole pieces
+     */
+    static toReadable(amount: number, dimension: UnitDimension, unit: string): { quantity: number; unit: string } {
+        if (dimension === 'mass' && amount >= 1000) {
+            return { quantity: this.round(amount / 1000), unit: 'kg' };
+        }
+
+        if (dimension === 'volume' && amount >= 1000) {
+            return { quantity: this.round(amount / 1000), unit: 'l' };
+        }
+
+        if (dimension === 'count') {
+            return { quantity: Math.ceil(amount), unit };
+        }
+
+        return { quantity: this.round(amount), unit };
+    }
+
+    /**
+     * Scale a recipe quantity, keeping the unit a cook would use: whole pieces, and
+     * spoons moving up to cups (or grams to kilograms) as the amount grows
+     */
+    static scale(quantity: number, unit: string | null | undefined, factor: number): { quantity: number; unit: string | null } {
+        const code = this.resolve(unit);
+        const scaled = quantity * factor;
+
+        if (!unit || !unit.trim() || code === 'pcs') {
+            return { quantity: Math.ceil(scaled), unit: code };
+        }
+
+        if (!code) {
+            return { quantity: this.round(scaled), unit: this.normalize(unit) };
+        }
+
+        const promotions: Record<string, { to: string; at: number }> = {
+            g: { to: 'kg', at: 1000 },
+            ml: { to: 'l', at: 1000 },
+            tsp: { to: 'tbsp', at: 3 },
+            tbsp: { to: 'cup', at: 16 },
+        };
+
+        let current = { quantity: scaled, unit: code };
+        while (promotions[current.unit] && current.quantity >= promotions[current.unit].at) {
+            const next = promotions[current.unit].to;
+            current = {
+                quantity: (current.quantity * this.UNITS[current.unit].factor) / this.UNITS[next].factor,
+                unit: next,
+            };
+        }
+
+        return { quantity: this.round(current.quantity), unit: current.unit };
+    }
+
+    private static localSize(conversion: ILocalUnitConversion, itemName?: string): number {
+        if (itemName && conversion.itemSizes) {
+            const name = itemName.toLowerCase();
+            const match = Object.keys(conversion.itemSizes)
+                .filter(item => new RegExp(`\\b${item}`).test(name))
+                .sort((a, b) => b.length - a.length)[0];
+
+            if (match) {
+                return conversion.itemSizes[match];
+            }
+        }
+
+        return conversion.size;
+    }
+
+    private static round(value: number): number {
+        return Math.round(value * 100) / 100;
+    }
+}
+
+export default UnitRegistry;
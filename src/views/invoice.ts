@@ -0,0 +1,204 @@
+// EJS template for the customer invoice. Kept in a .ts module so it ships with the compiled build.
+export const invoiceTemplate = `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+    <meta charset="UTF-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1.0">
+    <title>Invoice <%= invoice.invoiceNumber %></title>
+    <style>
+        body {
+            font-family: Arial, Helvetica, sans-serif;
+            color: #333;
+            margin: 0;
+            padding: 32px;
+            font-size: 13px;
+        }
+        .header {
+            display: flex;
+            justify-content: space-between;
+            align-items: flex-start;
+            border-bottom: 3px solid #F04950;
+            padding-bottom: 16px;
+            margin-bottom: 24px;
+        }
+        .brand {
+            color: #F04950;
+            font-size: 26px;
+            font-weight: bold;
+            margin: 0;
+        }
+        .meta {
+            text-align: right;
+        }
+        .meta p,
+        .party p {
+            margin: 2px 0;
+        }
+        .parties {
+            display: flex;
+            justify-content: space-between;
+            margin-bottom: 24px;
+        }
+        .party h3 {
+            font-size: 12px;
+            text-transform: uppercase;
+            color: #888;
+            margin: 0 0 6px;
+        }
+        table {
+            width: 100%;
+            border-collapse: collapse;
+        }
+        th {
+            background: #f7f7f7;
+            text-align: left;
+            padding: 8px;
+            font-size: 12px;
+            border-bottom: 1px solid #ddd;
+        }
+        td {
+            padding: 8px;
+            border-bottom: 1px solid #eee;
+        }
+        .num {
+            text-align: right;
+            white-space: nowrap;
+        }
+        .muted {
+            color: #999;
+        }
+        .totals {
+            width: 320px;
+            margin-left: auto;
+            margin-top: 16px;
+        }
+        .totals td {
+            border-bottom: none;
+            padding: 4px 8px;
+        }
+        .totals .grand td {
+            border-top: 2px solid #333;
+            font-weight: bold;
+            font-size: 15px;
+        }
+        .payment {
+            margin-top: 24px;
+            padding: 12px;
+            background: #f7f7f7;
+            border-radius: 6px;
+        }
+        .footer {
+            margin-top: 32px;
+            text-align: center;
+            color: #999;
+            font-size: 11px;
+        }
+    </style>
+</head>
+<body>
+    <div class="header">
+        <div>
+            <p class="brand">Busy2Shop</p>
+            <p class="muted">Invoice</p>
+        </div>
+        <div class="meta">
+            <p><strong>Invoice:</strong> <%= invoice.invoiceNumber %></p>
+            <p><strong>Order:</strong> #<%= invoice.orderNumber %></p>
+            <p><strong>Date:</strong> <%= invoice.issuedAt %></p>
+            <% if (invoice.completedAt) { %>
+            <p><strong>Delivered:</strong> <%= invoice.completedAt %></p>
+            <% } %>
+        </div>
+    </div>
+
+    <div class="parties">
+        <div class="party">
+            <h3>Billed to</h3>
+            <p><strong><%= invoice.customer.name %></strong></p>
+            <p><%= invoice.customer.email %></p>
+            <% if (invoice.customer.phone) { %>
+            <p><%= invoice.customer.phone %></p>
+            <% } %>
+        </div>
+        <div class="party">
+            <h3>Delivered to</h3>
+            <p><%= invoice.deliveryAddress %></p>
+        </div>
+        <div class="party">
+            <h3>Shopped at</h3>
+            <p><%= invoice.marketName || 'N/A' %></p>
+            <% if (invoice.agentName) { %>
+            <p class="muted">by <%= invoice.agentName %></p>
+            <% } %>
+        </div>
+    </div>
+
+    <table>
+        <thead>
+            <tr>
+                <th>Item</th>
+                <th class="num">Qty</th>
+                <th class="num">Estimated</th>
+                <th class="num">Actual</th>
+                <th class="num">Amount</th>
+            </tr>
+        </thead>
+        <tbody>
+            <% invoice.items.forEach(function (item) { %>
+            <tr>
+                <td><%= item.name %></td>
+                <td class="num"><%= item.quantity %><%= item.unit ? ' ' + item.unit : '' %></td>
+                <td class="num"><%= item.estimatedPrice !== null ? formatMoney(item.estimatedPrice) : '-' %></td>
+                <td class="num"><%= item.actualPrice !== null ? formatMoney(item.actualPrice) : '-' %></td>
+                <td class="num"><%= formatMoney(item.amount) %></td>
+            </tr>
+            <% }) %>
+        </tbody>
+    </table>
+
+    <table class="totals">
+        <tr>
+            <td>Estimated subtotal</td>
+            <td class="num muted"><%= formatMoney(invoice.estimatedSubtotal) %></td>
+        </tr>
+        <tr>
+            <td>Subtotal</td>
+            <td class="num"><%= formatMoney(invoice.subtotal) %></td>
+        </tr>
+        <tr>
+            <td>Service fee</td>
+            <td class="num"><%= formatMoney(invoice.serviceFee) %></td>
+        </tr>
+        <tr>
+            <td>Delivery fee</td>
+            <td class="num"><%= formatMoney(invoice.deliveryFee) %></td>
+        </tr>
+        <% invoice.discounts.forEach(function (discount) { %>
+        <tr>
+            <td><%= discount.name %></td>
+            <td class="num">-<%= formatMoney(discount.amount) %></td>
+        </tr>
+        <% }) %>
+        <% if (invoice.tipAmount > 0) { %>
+        <tr>
+            <td>Tip for your shopper</td>
+            <td class="num"><%= formatMoney(invoice.tipAmount) %></td>
+        </tr>
+        <% } %>
+        <tr class="grand">
+            <td>Total</td>
+            <td class="num"><%= formatMoney(invoice.total) %></td>
+        </tr>
+    </table>
+
+    <div class="payment">
+        <p><strong>Amount paid:</strong> <%= formatMoney(invoice.amountPaid) %><% if (invoice.walletAmount > 0) { %> (<%= formatMoney(invoice.walletAmount) %> from wallet)<% } %></p>
+        <p><strong>Payment method:</strong> <%= invoice.paymentMethod || 'N/A' %></p>
+        <p><strong>Payment reference:</strong> <%= invoice.paymentReference || 'N/A' %></p>
+    </div>
+
+    <p class="footer">Thank you for shopping with Busy2Shop.</p>
+</body>
+</html>
+`;